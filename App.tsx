@@ -11,11 +11,11 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { AuthController, ImageController } from './controllers';
-import { LoginScreen, RegisterScreen, ClientDashboard, EmployeeDashboard } from './views';
+import { AuthController, ImageController, RequestController, EnvironmentController, EvaluationController } from './controllers';
+import { LoginScreen, RegisterScreen, ClientDashboard, EmployeeDashboard, DeveloperSettingsScreen } from './views';
 import { type User } from './models';
 
-type Screen = 'login' | 'register';
+type Screen = 'login' | 'register' | 'developerSettings';
 
 const App: React.FC = () => {
   const [authController] = useState(() => AuthController.getInstance());
@@ -32,6 +32,18 @@ const App: React.FC = () => {
         if (!imageInitResult) {
           console.error('Failed to initialize image controller');
         }
+
+        // Aplicar o ambiente do backend escolhido nas configurações do desenvolvedor
+        await EnvironmentController.getInstance().initialize();
+
+        // Aplicar a fonte das avaliações (API, relatórios gravados ou simulação) e a obrigação legal do cliente
+        await EvaluationController.getInstance().initializeSettings();
+
+        // Restaurar sessão salva (evita novo login a cada abertura do app)
+        await authController.restoreSession();
+
+        // Carregar mutações offline pendentes e retomar a sincronização
+        await RequestController.getInstance().initializeSync();
         
         setIsInitialized(true);
       } catch (error) {
@@ -41,7 +53,7 @@ const App: React.FC = () => {
     };
 
     initializeApp();
-  }, [imageController]);
+  }, [imageController, authController]);
 
   useEffect(() => {
     const unsubscribe = authController.subscribe(setAuthState);
@@ -57,8 +69,8 @@ const App: React.FC = () => {
   const handleRegisterSuccess = (user: User) => {
     console.log('User registered successfully:', user);
     // O token já foi configurado pelo ApiService durante o registro
-    // Agora marcar usuário como autenticado no AuthController
-    authController.dispatch({ type: 'LOGIN_SUCCESS', user });
+    // Agora marcar usuário como autenticado no AuthController (e persistir a sessão)
+    authController.setAuthenticatedUser(user);
     console.log('Usuário autenticado após registro!');
     // renderContent vai detectar automaticamente e mostrar o dashboard
   };
@@ -72,6 +84,10 @@ const App: React.FC = () => {
     setCurrentScreen('register');
   };
 
+  const handleDeveloperSettingsPress = () => {
+    setCurrentScreen('developerSettings');
+  };
+
   const handleBackToLogin = () => {
     setCurrentScreen('login');
   };
@@ -117,10 +133,14 @@ const App: React.FC = () => {
             />
           );
         }
+        if (currentScreen === 'developerSettings') {
+          return <DeveloperSettingsScreen onBackPress={handleBackToLogin} />;
+        }
         return (
           <LoginScreen 
             onLoginSuccess={handleLoginSuccess}
             onRegisterPress={handleRegisterPress}
+            onDeveloperSettingsPress={handleDeveloperSettingsPress}
           />
         );
       }
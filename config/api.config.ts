@@ -6,19 +6,20 @@
  * ✅ DETECÇÃO AUTOMÁTICA: Não precisa mais configurar IP manualmente!
  * 
  * Como funciona:
- * - Web: usa localhost automaticamente
- * - Mobile: detecta IP automaticamente ou usa duckdns.org
+ * - Padrão: backend de produção (duckdns.org)
+ * - Ambiente local: web usa localhost, mobile detecta o IP do Expo
  * - Você pode sobrescrever usando variável de ambiente EXPO_PUBLIC_API_URL
+ *   ou trocar de ambiente em tempo de execução (configurações do desenvolvedor)
  */
 
 import { getApiBaseUrl } from '../utils/getApiUrl';
 
-// URL base da API - detectada automaticamente
+// URL base inicial da API
 // Prioridade:
 // 1. Variável de ambiente EXPO_PUBLIC_API_URL (se definida)
-// 2. Web: localhost:3000
-// 3. Mobile dev: IP do Expo ou duckdns.org
-// 4. Produção: duckdns.org
+// 2. Produção: duckdns.org
+// O ambiente escolhido na tela de configurações do desenvolvedor é aplicado
+// em tempo de execução via ApiService.setBaseUrl (use ApiService.getBaseUrl para a URL em uso)
 export const API_BASE_URL = getApiBaseUrl();
 
 // Timeout para requisições (em milissegundos)
@@ -42,8 +43,13 @@ export const API_ENDPOINTS = {
   // Autenticação
   AUTH: {
     LOGIN: '/auth/login',
+    REGISTER: '/auth/register',
+    REFRESH: '/auth/refresh',
     TOKEN: '/auth/token',
   },
+
+  // Saúde do backend (teste de conexão)
+  HEALTH: '/health',
   
   // Clientes
   CLIENTS: {
@@ -69,12 +75,14 @@ export const API_ENDPOINTS = {
   BUDGETS: {
     BASE: '/orcamentos',
     BY_ID: (id: string | number) => `/orcamentos/${id}`,
+    UPLOAD: (id: string | number) => `/orcamentos/${id}/upload`,
   },
   
   // Contratos
   CONTRACTS: {
     BASE: '/contratos',
     BY_ID: (id: string | number) => `/contratos/${id}`,
+    UPLOAD: (id: string | number) => `/contratos/${id}/upload`,
     SIGN: '/contratos/sign',
   },
   
@@ -85,6 +93,7 @@ export const API_ENDPOINTS = {
     MY: '/solicitacoes/minhas',
     CREATE_ORCAMENTO: (id: string | number) => `/solicitacoes/${id}/criar-orcamento`,
     UPDATE: (id: string | number) => `/solicitacoes/${id}`,
+    HISTORY: (id: string | number) => `/solicitacoes/${id}/historico`,
   },
   
   // Lighthouse (avaliação de acessibilidade)
@@ -92,6 +101,11 @@ export const API_ENDPOINTS = {
   LIGHTHOUSE: {
     ANALYZE: '/mobile/lighthouse/analyze',
   },
+
+  // Avaliações (histórico de resultados do Lighthouse por cliente)
+  EVALUATIONS: {
+    BASE: '/avaliacoes',
+  },
   
   // Logs
   LOGS: {
@@ -110,7 +124,11 @@ export const HTTP_STATUS = {
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
 };
 
+// Status que indicam servidor inacessível/sobrecarregado (0 = sem resposta)
+export const CONNECTION_FAILURE_STATUS = [0, 408, 502, 503, 504];
+
@@ -5,11 +5,16 @@
  * - Gerenciar fluxo de login/logout
  * - Validar credenciais
  * - Manter estado da sessão
+ * - Persistir a sessão (token JWT + perfil) em armazenamento seguro
+ * - Restaurar a sessão ao abrir o app e renová-la (refresh token) antes do token expirar
  * - Integrar com UserModel
  */
 
 import { UserModel, type User, type LoginCredentials } from '../../models';
 import { ImageController } from '../image/ImageController';
+import ApiService, { type AuthEvent } from '../../services/ApiService';
+import { SecureStorageService } from '../../services/SecureStorageService';
+import { getJwtExpiry } from '../../utils/jwt';
 
 export interface AuthState {
   currentUser: User | null;
@@ -23,8 +28,20 @@ export type AuthAction =
   | { type: 'LOGIN_SUCCESS'; user: User }
   | { type: 'LOGIN_ERROR'; error: string }
   | { type: 'LOGOUT' }
+  | { type: 'SESSION_EXPIRED' }
   | { type: 'CLEAR_ERROR' };
 
+// Chaves usadas no armazenamento seguro
+const SESSION_TOKEN_KEY = 'ada.session.token';
+const SESSION_USER_KEY = 'ada.session.user';
+const SESSION_REFRESH_KEY = 'ada.session.refresh';
+
+// Antecedência com que a sessão é renovada/encerrada antes do token expirar
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Maior atraso aceito pelo setTimeout (~24,8 dias)
+const MAX_TIMEOUT_MS = 2147483647;
+
 export class AuthController {
   private static instance: AuthController;
   private authState: AuthState = {
@@ -35,6 +52,8 @@ export class AuthController {
   };
   private listeners: Array<(state: AuthState) => void> = [];
   private imageController: ImageController;
+  private secureStorage = SecureStorageService.getInstance();
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Singleton pattern para garantir uma única instância
@@ -48,6 +67,27 @@ export class AuthController {
 
   private constructor() {
     this.imageController = ImageController.getInstance();
+    ApiService.subscribeAuthEvents(event => this.handleAuthEvent(event));
+  }
+
+  /**
+   * Reage à renovação de token feita pelo ApiService
+   */
+  private handleAuthEvent(event: AuthEvent): void {
+    switch (event.type) {
+      case 'TOKEN_REFRESHED':
+        this.persistTokens(event.token, event.refreshToken);
+        this.scheduleExpiry(event.token);
+        break;
+
+      case 'REFRESH_FAILED':
+        // Único caminho em que um 401 encerra a sessão
+        if (this.authState.isAuthenticated) {
+          console.log('[AuthController] Renovação do token falhou - encerrando sessão');
+          this.logout();
+        }
+        break;
+    }
   }
 
   /**
@@ -108,6 +148,15 @@ export class AuthController {
         };
         break;
       
+      case 'SESSION_EXPIRED':
+        this.authState = {
+          currentUser: null,
+          isAuthenticated: false,
+          isLoading: false,
+          error: 'Sua sessão expirou. Faça login novamente.'
+        };
+        break;
+      
       case 'CLEAR_ERROR':
         this.authState = {
           ...this.authState,
@@ -139,6 +188,7 @@ export class AuthController {
 
       // Login bem-sucedido
       this.dispatch({ type: 'LOGIN_SUCCESS', user: result.data });
+      await this.persistSession(result.data);
 
       // Sincronizar foto de perfil em background (não bloqueia o login)
       // TEMPORARIAMENTE DESABILITADO PARA DEBUG
@@ -186,9 +236,179 @@ export class AuthController {
    * Realiza logout do usuário
    */
   logout(): void {
+    this.endSession();
     this.dispatch({ type: 'LOGOUT' });
   }
 
+  /**
+   * Restaura a sessão salva no armazenamento seguro (chamado na inicialização do app)
+   * @returns true se o usuário voltou autenticado
+   */
+  async restoreSession(): Promise<boolean> {
+    try {
+      const [storedToken, storedRefreshToken, storedUser] = await Promise.all([
+        this.secureStorage.getItem(SESSION_TOKEN_KEY),
+        this.secureStorage.getItem(SESSION_REFRESH_KEY),
+        this.secureStorage.getItem(SESSION_USER_KEY)
+      ]);
+
+      if (!storedUser) {
+        return false;
+      }
+
+      let token = storedToken;
+      ApiService.setRefreshToken(storedRefreshToken);
+
+      let renewOnNextRequest = false;
+      if (token) {
+        const expiry = getJwtExpiry(token);
+        if (expiry !== null && expiry - EXPIRY_MARGIN_MS <= Date.now()) {
+          // Token salvo expirado: tentar renovar antes de exigir novo login
+          const refreshed = storedRefreshToken ? await ApiService.refreshAccessToken() : null;
+          if (refreshed) {
+            token = refreshed;
+          } else if (ApiService.getRefreshToken()) {
+            // Falha de rede: o servidor não recusou a renovação, que será tentada no próximo 401
+            console.log('[AuthController] Sem conexão para renovar a sessão salva - mantendo o usuário conectado');
+            ApiService.setAuthToken(token);
+            renewOnNextRequest = true;
+          } else {
+            console.log('[AuthController] Sessão salva expirada - login necessário');
+            ApiService.clearAuth();
+            await this.clearStoredSession();
+            return false;
+          }
+        } else {
+          ApiService.setAuthToken(token);
+        }
+      }
+
+      const user: User = JSON.parse(storedUser);
+      this.dispatch({ type: 'LOGIN_SUCCESS', user });
+      if (!renewOnNextRequest) {
+        this.scheduleExpiry(token);
+      }
+
+      console.log(`[AuthController] Sessão restaurada para ${user.email}`);
+      return true;
+    } catch (error) {
+      console.warn('[AuthController] Erro ao restaurar sessão:', error);
+      await this.clearStoredSession();
+      return false;
+    }
+  }
+
+  /**
+   * Salva tokens e perfil no armazenamento seguro e agenda a renovação da sessão
+   */
+  private async persistSession(user: User): Promise<void> {
+    const token = ApiService.getAuthToken();
+
+    await this.persistTokens(token, ApiService.getRefreshToken());
+    try {
+      await this.secureStorage.setItem(SESSION_USER_KEY, JSON.stringify(user));
+    } catch (error) {
+      console.warn('[AuthController] Erro ao salvar sessão:', error);
+    }
+
+    this.scheduleExpiry(token);
+  }
+
+  /**
+   * Salva (ou remove) os tokens no armazenamento seguro
+   * Login pelo banco local (sem backend) não gera token
+   */
+  private async persistTokens(token: string | null, refreshToken: string | null): Promise<void> {
+    try {
+      await Promise.all([
+        token
+          ? this.secureStorage.setItem(SESSION_TOKEN_KEY, token)
+          : this.secureStorage.removeItem(SESSION_TOKEN_KEY),
+        refreshToken
+          ? this.secureStorage.setItem(SESSION_REFRESH_KEY, refreshToken)
+          : this.secureStorage.removeItem(SESSION_REFRESH_KEY)
+      ]);
+    } catch (error) {
+      console.warn('[AuthController] Erro ao salvar tokens:', error);
+    }
+  }
+
+  /**
+   * Agenda a renovação (ou o logout, sem refresh token) para pouco antes
+   * da expiração do token, evitando que o usuário só descubra a sessão expirada por um erro 401
+   */
+  private scheduleExpiry(token: string | null): void {
+    this.clearExpiryTimer();
+
+    const expiry = token ? getJwtExpiry(token) : null;
+    if (expiry === null) {
+      return;
+    }
+
+    const delay = expiry - EXPIRY_MARGIN_MS - Date.now();
+    if (delay <= 0) {
+      this.handleTokenExpiring();
+      return;
+    }
+
+    this.expiryTimer = setTimeout(() => {
+      // Tokens muito longos: reagendar até chegar perto da expiração
+      if (delay > MAX_TIMEOUT_MS) {
+        this.scheduleExpiry(token);
+      } else {
+        this.handleTokenExpiring();
+      }
+    }, Math.min(delay, MAX_TIMEOUT_MS));
+  }
+
+  /**
+   * Token prestes a expirar: renova via refresh token ou encerra a sessão
+   * (a renovação bem-sucedida reagenda o timer pelo evento TOKEN_REFRESHED)
+   * Sem conexão, o refresh token é mantido e a renovação fica para o próximo 401
+   */
+  private async handleTokenExpiring(): Promise<void> {
+    if (ApiService.getRefreshToken()) {
+      const token = await ApiService.refreshAccessToken();
+      if (token || ApiService.getRefreshToken() || !this.authState.isAuthenticated) {
+        return;
+      }
+    }
+    this.expireSession();
+  }
+
+  /**
+   * Encerra a sessão por expiração do token
+   */
+  private expireSession(): void {
+    console.log('[AuthController] Token prestes a expirar - encerrando sessão');
+    this.endSession();
+    this.dispatch({ type: 'SESSION_EXPIRED' });
+  }
+
+  /**
+   * Limpa token em memória, timer de expiração e sessão persistida
+   */
+  private endSession(): void {
+    this.clearExpiryTimer();
+    ApiService.clearAuth();
+    this.clearStoredSession();
+  }
+
+  private clearExpiryTimer(): void {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  private async clearStoredSession(): Promise<void> {
+    await Promise.all([
+      this.secureStorage.removeItem(SESSION_TOKEN_KEY),
+      this.secureStorage.removeItem(SESSION_REFRESH_KEY),
+      this.secureStorage.removeItem(SESSION_USER_KEY)
+    ]);
+  }
+
   /**
    * Obtém estado atual da autenticação
    */
@@ -250,6 +470,7 @@ export class AuthController {
    */
   setAuthenticatedUser(user: User): void {
     this.dispatch({ type: 'LOGIN_SUCCESS', user });
+    this.persistSession(user);
   }
 
   /**
@@ -278,9 +499,6 @@ export class AuthController {
 }
 
 // EXPANSÃO FUTURA:
-// - Integração com JWT tokens
-// - Refresh tokens
-// - Lembrar usuário
 // - Recuperação de senha
 // - Autenticação de dois fatores
 // - Integração com OAuth (Google, Facebook, etc.)
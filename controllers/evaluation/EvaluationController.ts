@@ -6,9 +6,41 @@
  * - Controlar seleção de planos
  * - Integrar com EvaluationModel
  * - Gerenciar checklist de itens
+ * - Persistir o histórico de avaliações e sincronizá-lo com o backend
+ * - Avaliar várias páginas de um site acompanhando o progresso
+ * - Selecionar e persistir a fonte das avaliações (API, relatórios gravados ou simulação)
+ * - Sugerir planos considerando a obrigação legal declarada pelo cliente
+ * - Importar relatórios do Lighthouse/axe gerados fora do app
  */
 
-import { EvaluationModel, type EvaluationResult, type EvaluationIssue, type AccessibilityPlan, type WCAGItem } from '../../models';
+import {
+  EvaluationModel,
+  EvaluationHistoryModel,
+  SiteCrawlModel,
+  ReportImportModel,
+  SettingsModel,
+  SETTING_KEYS,
+  EVALUATION_PROVIDERS,
+  isEvaluationProviderId,
+  type EvaluationResult,
+  type EvaluationIssue,
+  type AccessibilityPlan,
+  type WCAGItem,
+  type PlanCoverage,
+  type EvaluationHistoryEntry,
+  type EvaluationSource,
+  type EvaluationSiteGroup,
+  type EvaluationComparison,
+  type CrawlSource,
+  type CrawlProgress,
+  type ReportFile,
+  type EvaluationProviderId,
+  type EvaluationProviderInfo,
+  type LegalObligation,
+  type LegalObligationInfo
+} from '../../models';
+import ApiService from '../../services/ApiService';
+import { AuthController } from '../auth/AuthController';
 
 export interface EvaluationState {
   currentEvaluation: EvaluationResult | null;
@@ -17,7 +49,11 @@ export interface EvaluationState {
   checklist: Record<string, EvaluationIssue>;
   isLoading: boolean;
   error: string | null;
-  evaluationHistory: EvaluationResult[];
+  evaluationHistory: EvaluationHistoryEntry[]; // Avaliações do cliente logado, mais recentes primeiro
+  comparison: EvaluationComparison | null; // Diferença entre duas avaliações do mesmo site
+  crawlProgress: CrawlProgress | null; // Progresso da avaliação de várias páginas em andamento
+  evaluationProvider: EvaluationProviderId; // Fonte das avaliações
+  legalObligation: LegalObligation; // Obrigação legal declarada pelo cliente (influencia os planos sugeridos)
 }
 
 export type EvaluationAction = 
@@ -28,7 +64,13 @@ export type EvaluationAction =
   | { type: 'CLEAR_PLAN' }
   | { type: 'UPDATE_CHECKLIST'; checklist: Record<string, EvaluationIssue> }
   | { type: 'SET_SUGGESTED_PLANS'; plans: AccessibilityPlan[] }
-  | { type: 'ADD_TO_HISTORY'; result: EvaluationResult }
+  | { type: 'ADD_TO_HISTORY'; result: EvaluationHistoryEntry }
+  | { type: 'SET_HISTORY'; history: EvaluationHistoryEntry[] }
+  | { type: 'UPDATE_HISTORY_ENTRY'; entry: EvaluationHistoryEntry }
+  | { type: 'SET_COMPARISON'; comparison: EvaluationComparison | null }
+  | { type: 'SET_CRAWL_PROGRESS'; progress: CrawlProgress | null }
+  | { type: 'SET_PROVIDER'; provider: EvaluationProviderId }
+  | { type: 'SET_LEGAL_OBLIGATION'; obligation: LegalObligation }
   | { type: 'CLEAR_EVALUATION' }
   | { type: 'SET_ERROR'; error: string | null }
   | { type: 'CLEAR_ERROR' };
@@ -42,9 +84,14 @@ export class EvaluationController {
     checklist: {},
     isLoading: false,
     error: null,
-    evaluationHistory: []
+    evaluationHistory: [],
+    comparison: null,
+    crawlProgress: null,
+    evaluationProvider: EvaluationModel.getProviderId(),
+    legalObligation: 'none'
   };
   private listeners: Array<(state: EvaluationState) => void> = [];
+  private isSyncingHistory = false;
 
   /**
    * Singleton pattern para garantir uma única instância
@@ -84,18 +131,22 @@ export class EvaluationController {
         this.evaluationState = {
           ...this.evaluationState,
           isLoading: true,
-          error: null
+          error: null,
+          comparison: null
         };
         break;
       
       case 'EVALUATION_SUCCESS':
-        const suggestedPlans = EvaluationModel.suggestPlans(action.result.score);
+        const suggestedPlans = EvaluationModel.suggestPlans(action.result, {
+          legalObligation: this.evaluationState.legalObligation
+        });
         this.evaluationState = {
           ...this.evaluationState,
           currentEvaluation: action.result,
           suggestedPlans,
           isLoading: false,
-          error: null
+          error: null,
+          crawlProgress: null
         };
         break;
       
@@ -103,14 +154,16 @@ export class EvaluationController {
         this.evaluationState = {
           ...this.evaluationState,
           isLoading: false,
-          error: action.error
+          error: action.error,
+          crawlProgress: null
         };
         break;
       
       case 'SELECT_PLAN':
         const checklist = EvaluationModel.createChecklist(
           this.evaluationState.currentEvaluation?.issues || [],
-          action.plan
+          action.plan,
+          this.evaluationState.currentEvaluation?.failedAuditIds
         );
         this.evaluationState = {
           ...this.evaluationState,
@@ -147,6 +200,53 @@ export class EvaluationController {
           evaluationHistory: [action.result, ...this.evaluationState.evaluationHistory]
         };
         break;
+
+      case 'SET_HISTORY':
+        this.evaluationState = {
+          ...this.evaluationState,
+          evaluationHistory: action.history
+        };
+        break;
+
+      case 'SET_COMPARISON':
+        this.evaluationState = {
+          ...this.evaluationState,
+          comparison: action.comparison
+        };
+        break;
+
+      case 'SET_PROVIDER':
+        this.evaluationState = {
+          ...this.evaluationState,
+          evaluationProvider: action.provider
+        };
+        break;
+
+      case 'SET_LEGAL_OBLIGATION':
+        this.evaluationState = {
+          ...this.evaluationState,
+          legalObligation: action.obligation,
+          suggestedPlans: this.evaluationState.currentEvaluation
+            ? EvaluationModel.suggestPlans(this.evaluationState.currentEvaluation, { legalObligation: action.obligation })
+            : this.evaluationState.suggestedPlans
+        };
+        break;
+
+      case 'SET_CRAWL_PROGRESS':
+        this.evaluationState = {
+          ...this.evaluationState,
+          crawlProgress: action.progress
+        };
+        break;
+
+      case 'UPDATE_HISTORY_ENTRY':
+        this.evaluationState = {
+          ...this.evaluationState,
+          evaluationHistory: this.evaluationState.evaluationHistory.map(entry =>
+            entry.id === action.entry.id ? action.entry : entry
+          )
+        };
+        break;
       
       case 'CLEAR_EVALUATION':
         this.evaluationState = {
@@ -154,7 +254,8 @@ export class EvaluationController {
           currentEvaluation: null,
           selectedPlan: null,
           checklist: {},
-          suggestedPlans: []
+          suggestedPlans: [],
+          comparison: null
         };
         break;
       
@@ -192,11 +293,10 @@ export class EvaluationController {
       }
 
       // Realiza avaliação usando o modelo
+      const provider = EvaluationModel.getProviderId();
       const result = await EvaluationModel.evaluateSite(siteUrl);
+      await this.completeEvaluation(result, provider);
       
-      this.dispatch({ type: 'EVALUATION_SUCCESS', result });
-      this.dispatch({ type: 'ADD_TO_HISTORY', result });
-      
       return result;
 
     } catch (error) {
@@ -206,6 +306,119 @@ export class EvaluationController {
     }
   }
 
+  /**
+   * Avalia várias páginas de um site (sitemap.xml ou lista de caminhos)
+   * O progresso fica disponível em crawlProgress enquanto a avaliação estiver em andamento
+   * @param startUrl - URL inicial do site
+   * @param source - Origem das demais páginas
+   * @returns Promise com o resultado agregado e o detalhamento por página
+   */
+  async evaluateSiteCrawl(startUrl: string, source: CrawlSource): Promise<EvaluationResult> {
+    this.dispatch({ type: 'EVALUATION_START' });
+    this.dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      if (!EvaluationModel.isValidUrl(startUrl)) {
+        throw new Error('URL inválida');
+      }
+
+      const provider = EvaluationModel.getProviderId();
+      const urls = await SiteCrawlModel.resolvePages(startUrl, source);
+      const result = await SiteCrawlModel.crawl(startUrl, urls, {
+        onProgress: progress => this.dispatch({ type: 'SET_CRAWL_PROGRESS', progress })
+      });
+      await this.completeEvaluation(result, provider);
+
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro ao avaliar site';
+      this.dispatch({ type: 'EVALUATION_ERROR', error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Importa um relatório JSON do Lighthouse ou do axe-core gerado fora do app
+   * O resultado segue o mesmo fluxo de uma avaliação (histórico, comparação e planos sugeridos)
+   * @param file - Arquivo escolhido pelo usuário
+   * @returns Promise com o resultado da avaliação importada
+   */
+  async importReport(file: ReportFile): Promise<EvaluationResult> {
+    this.dispatch({ type: 'EVALUATION_START' });
+    this.dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const result = await ReportImportModel.importFile(file);
+      await this.completeEvaluation(result, 'import');
+
+      return result;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro ao importar relatório';
+      this.dispatch({ type: 'EVALUATION_ERROR', error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Aplica as configurações salvas (chamado na inicialização do app, após o banco de dados):
+   * fonte das avaliações e obrigação legal do cliente
+   */
+  async initializeSettings(): Promise<void> {
+    const savedProvider = await SettingsModel.get(SETTING_KEYS.EVALUATION_PROVIDER);
+    if (isEvaluationProviderId(savedProvider.data) && savedProvider.data !== EvaluationModel.getProviderId()) {
+      EvaluationModel.setProvider(savedProvider.data);
+      this.dispatch({ type: 'SET_PROVIDER', provider: savedProvider.data });
+    }
+
+    const savedObligation = await SettingsModel.get(SETTING_KEYS.LEGAL_OBLIGATION);
+    if (EvaluationModel.isLegalObligation(savedObligation.data)) {
+      this.dispatch({ type: 'SET_LEGAL_OBLIGATION', obligation: savedObligation.data });
+    }
+  }
+
+  /**
+   * Fontes de avaliação disponíveis
+   */
+  getEvaluationProviders(): EvaluationProviderInfo[] {
+    return [...EVALUATION_PROVIDERS];
+  }
+
+  /**
+   * Troca a fonte das avaliações e persiste a escolha
+   * Avaliações feitas fora do provedor 'api' não são enviadas ao backend, nem depois da troca
+   * (cada avaliação guarda o provedor que a produziu)
+   */
+  async setEvaluationProvider(provider: EvaluationProviderId): Promise<void> {
+    EvaluationModel.setProvider(provider);
+    this.dispatch({ type: 'SET_PROVIDER', provider });
+
+    const saved = await SettingsModel.set(SETTING_KEYS.EVALUATION_PROVIDER, provider);
+    if (!saved.success) {
+      console.warn('[EvaluationController] Fonte das avaliações aplicada, mas não foi salva:', saved.error);
+    }
+  }
+
+  /**
+   * Obrigações legais que o cliente pode declarar
+   */
+  getLegalObligations(): LegalObligationInfo[] {
+    return EvaluationModel.getLegalObligations();
+  }
+
+  /**
+   * Declara a obrigação legal do cliente, atualiza os planos sugeridos e persiste a escolha
+   */
+  async setLegalObligation(obligation: LegalObligation): Promise<void> {
+    this.dispatch({ type: 'SET_LEGAL_OBLIGATION', obligation });
+
+    const saved = await SettingsModel.set(SETTING_KEYS.LEGAL_OBLIGATION, obligation);
+    if (!saved.success) {
+      console.warn('[EvaluationController] Obrigação legal aplicada, mas não foi salva:', saved.error);
+    }
+  }
+
   /**
    * Seleciona um plano de acessibilidade
    * @param plan - Nível do plano ('A', 'AA', 'AAA')
@@ -299,10 +512,127 @@ export class EvaluationController {
   /**
    * Obtém histórico de avaliações
    */
-  getEvaluationHistory(): EvaluationResult[] {
+  getEvaluationHistory(): EvaluationHistoryEntry[] {
     return [...this.evaluationState.evaluationHistory];
   }
 
+  /**
+   * Obtém o histórico agrupado por site (sites avaliados mais recentemente primeiro)
+   */
+  getHistoryBySite(): EvaluationSiteGroup[] {
+    return EvaluationHistoryModel.groupBySite(this.evaluationState.evaluationHistory);
+  }
+
+  /**
+   * Carrega o histórico persistido do cliente logado e envia as avaliações pendentes
+   */
+  async loadEvaluationHistory(): Promise<EvaluationHistoryEntry[]> {
+    const ownerKey = this.getHistoryOwnerKey();
+    if (!ownerKey) {
+      this.dispatch({ type: 'SET_HISTORY', history: [] });
+      return [];
+    }
+
+    const result = await EvaluationHistoryModel.getHistory(ownerKey);
+    if (!result.success || !result.data) {
+      console.warn('[EvaluationController] Erro ao carregar histórico de avaliações:', result.error);
+      return this.getEvaluationHistory();
+    }
+
+    this.dispatch({ type: 'SET_HISTORY', history: result.data });
+    await this.syncEvaluationHistory();
+    return this.getEvaluationHistory();
+  }
+
+  /**
+   * Envia ao backend as avaliações ainda não sincronizadas, na ordem em que foram feitas
+   * Avaliações que falharem continuam pendentes e são reenviadas na próxima carga do histórico
+   * Avaliações de teste (fixture/simulated) nunca são enviadas (ver EvaluationHistoryModel.isSyncable)
+   */
+  async syncEvaluationHistory(): Promise<void> {
+    if (this.isSyncingHistory || !EvaluationModel.isUsingApi()) return;
+
+    const pending = this.evaluationState.evaluationHistory
+      .filter(entry => entry.id && !entry.syncedAt && EvaluationHistoryModel.isSyncable(entry))
+      .reverse();
+    if (pending.length === 0) return;
+
+    this.isSyncingHistory = true;
+    try {
+      for (const entry of pending) {
+        const response = await ApiService.saveEvaluation(EvaluationHistoryModel.toBackendPayload(entry));
+
+        if (!response.success) {
+          if (response.statusCode === 0) {
+            console.log('[EvaluationController] Backend inacessível, envio do histórico adiado');
+            break;
+          }
+          console.warn('[EvaluationController] Avaliação recusada pelo servidor:', response.error);
+          continue;
+        }
+
+        const remoteId = response.data?.id_avaliacao || (response.data?.id !== undefined ? String(response.data.id) : undefined);
+        const marked = await EvaluationHistoryModel.markSynced(entry.id!, remoteId);
+        if (marked.success) {
+          this.dispatch({ type: 'UPDATE_HISTORY_ENTRY', entry: { ...entry, remoteId, syncedAt: marked.data } });
+        }
+      }
+    } catch (error) {
+      console.error('[EvaluationController] Erro ao sincronizar histórico de avaliações:', error);
+    } finally {
+      this.isSyncingHistory = false;
+    }
+  }
+
+  /**
+   * Descarta as avaliações ainda não enviadas ao trocar de backend
+   * Elas foram feitas contra o servidor anterior e não devem ser enviadas ao novo
+   */
+  async discardUnsyncedHistory(): Promise<void> {
+    const result = await EvaluationHistoryModel.deleteUnsynced();
+    if (!result.success) {
+      console.warn('[EvaluationController] Falha ao descartar avaliações pendentes:', result.error);
+    }
+
+    const history = this.evaluationState.evaluationHistory
+      .filter(entry => entry.syncedAt || !EvaluationHistoryModel.isSyncable(entry));
+    this.dispatch({ type: 'SET_HISTORY', history });
+  }
+
+  /**
+   * Compara duas avaliações e disponibiliza o resultado no estado (tela de comparação)
+   * @param previous - Avaliação anterior
+   * @param current - Avaliação mais recente
+   */
+  compareEvaluations(previous: EvaluationResult, current: EvaluationResult): EvaluationComparison {
+    const comparison = EvaluationModel.compareEvaluations(previous, current);
+    this.dispatch({ type: 'SET_COMPARISON', comparison });
+    return comparison;
+  }
+
+  /**
+   * Obtém a comparação atual (null se não houver)
+   */
+  getComparison(): EvaluationComparison | null {
+    return this.evaluationState.comparison;
+  }
+
+  /**
+   * Fecha a comparação atual
+   */
+  clearComparison(): void {
+    this.dispatch({ type: 'SET_COMPARISON', comparison: null });
+  }
+
+  /**
+   * Reabre uma avaliação do histórico como avaliação atual (para seguir com a escolha do plano)
+   * @param entry - Avaliação do histórico
+   */
+  reopenEvaluation(entry: EvaluationHistoryEntry): void {
+    this.dispatch({ type: 'CLEAR_EVALUATION' });
+    this.dispatch({ type: 'EVALUATION_SUCCESS', result: entry });
+  }
+
   /**
    * Obtém estado atual
    */
@@ -310,6 +640,60 @@ export class EvaluationController {
     return { ...this.evaluationState };
   }
 
+  /**
+   * Exibe a avaliação concluída, salva no histórico e, em reavaliações, compara com a anterior
+   */
+  private async completeEvaluation(result: EvaluationResult, provider: EvaluationSource): Promise<void> {
+    const previous = this.getLatestEvaluationForSite(result.siteUrl);
+
+    this.dispatch({ type: 'EVALUATION_SUCCESS', result });
+    await this.addToHistory(result, provider);
+
+    // Reavaliação do mesmo site: comparar com a avaliação anterior
+    if (previous) {
+      this.compareEvaluations(previous, result);
+    }
+  }
+
+  /**
+   * Salva a avaliação no histórico local e tenta enviá-la ao backend
+   * Falhas no histórico nunca interrompem a avaliação
+   */
+  private async addToHistory(result: EvaluationResult, provider: EvaluationSource): Promise<void> {
+    const ownerKey = this.getHistoryOwnerKey();
+    if (!ownerKey) {
+      this.dispatch({ type: 'ADD_TO_HISTORY', result: { ...result, provider } });
+      return;
+    }
+
+    const saved = await EvaluationHistoryModel.saveEvaluation(ownerKey, result, provider);
+    if (!saved.success || !saved.data) {
+      console.warn('[EvaluationController] Não foi possível salvar a avaliação no histórico:', saved.error);
+      this.dispatch({ type: 'ADD_TO_HISTORY', result: { ...result, provider } });
+      return;
+    }
+
+    this.dispatch({ type: 'ADD_TO_HISTORY', result: saved.data });
+    this.syncEvaluationHistory().catch(error => {
+      console.error('[EvaluationController] Erro ao enviar avaliação:', error);
+    });
+  }
+
+  /**
+   * Avaliação mais recente do histórico para o mesmo site (mesmo domínio)
+   */
+  private getLatestEvaluationForSite(siteUrl: string): EvaluationHistoryEntry | null {
+    const site = EvaluationModel.formatUrl(siteUrl);
+    return this.evaluationState.evaluationHistory.find(entry => EvaluationModel.formatUrl(entry.siteUrl) === site) || null;
+  }
+
+  /**
+   * Usuário dono do histórico de avaliações
+   */
+  private getHistoryOwnerKey(): string | null {
+    return AuthController.getInstance().getCurrentUser()?.email || null;
+  }
+
   /**
    * Limpa avaliação atual
    */
@@ -332,6 +716,23 @@ export class EvaluationController {
     return EvaluationModel.getWCAGItems(level);
   }
 
+  /**
+   * Critérios WCAG reprovados pela avaliação atual
+   */
+  getFailingCriteria(): WCAGItem[] {
+    const evaluation = this.evaluationState.currentEvaluation;
+    return evaluation ? EvaluationModel.getFailingCriteria(evaluation.issues, evaluation.failedAuditIds) : [];
+  }
+
+  /**
+   * O que um plano cobre dos critérios reprovados pela avaliação atual
+   * @param level - Nível do plano
+   */
+  getPlanCoverage(level: 'A' | 'AA' | 'AAA'): PlanCoverage {
+    const evaluation = this.evaluationState.currentEvaluation;
+    return EvaluationModel.getPlanCoverage(evaluation?.issues || [], level, evaluation?.failedAuditIds);
+  }
+
   /**
    * Obtém descrição de um nível WCAG
    * @param level - Nível WCAG
@@ -389,8 +790,6 @@ export class EvaluationController {
 
 // EXPANSÃO FUTURA:
 // - Integração com ferramentas reais de avaliação
-// - Salvamento de avaliações no servidor
-// - Comparação entre avaliações
 // - Relatórios detalhados
 // - Análise de tendências
 // - Integração com APIs de acessibilidade
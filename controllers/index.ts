@@ -26,6 +26,14 @@ export {
   type EvaluationAction 
 } from './evaluation/EvaluationController';
 
+// Environment Controller (configurações do desenvolvedor)
+export {
+  EnvironmentController,
+  type EnvironmentState,
+  type EnvironmentAction,
+  type EnvironmentOption
+} from './settings/EnvironmentController';
+
 // EXPANSÃO FUTURA:
 // - Novos controladores podem ser adicionados aqui
 // - Sistema de middleware centralizado
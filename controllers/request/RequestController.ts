@@ -6,17 +6,60 @@
  * - Controlar fluxo de status
  * - Integrar com RequestModel
  * - Validações de negócio
+ * - Enviar orçamentos montados no app (itens, descontos, impostos e documento)
+ * - Gerar os documentos da solicitação (orçamento e contrato) em PDF a partir dos modelos
+ * - Assinar contratos com certificado verificável (hash, signatário e dispositivo)
+ * - Abrir os documentos da solicitação no visualizador do app
+ * - Recusar orçamentos com motivo e acompanhar as versões revisadas
  */
 
-import { RequestModel, type AccessibilityRequest, type RequestStatus, type FileData, type ChecklistItem } from '../../models';
+import {
+  RequestModel,
+  RequestWorkflow,
+  RequestHistoryModel,
+  QuoteModel,
+  QuoteRevisionModel,
+  DocumentModel,
+  ContractSigningModel,
+  type AccessibilityRequest,
+  type RequestStatus,
+  type DevelopmentStatus,
+  type FileData,
+  type ChecklistItem,
+  type WorkflowRole,
+  type WorkflowTransition,
+  type WorkflowTransitionId,
+  type RequestHistoryEvent,
+  type RequestHistoryEventType,
+  type Quote,
+  type QuoteRates,
+  type DocumentType,
+  type GeneratedDocument,
+  type LoadedDocument,
+  type QuoteRejectionInput,
+  type ContractSigner,
+  type SignatureVerification
+} from '../../models';
+import { CONNECTION_FAILURE_STATUS, HTTP_STATUS } from '../../config/api.config';
+import { SyncQueueService, type PendingMutation, type MutationType } from '../../services/SyncQueueService';
+import type { CircuitState } from '../../services/CircuitBreaker';
+import { AuthController } from '../auth/AuthController';
 
 export interface RequestState {
   requests: AccessibilityRequest[];
   selectedRequest: AccessibilityRequest | null;
   isLoading: boolean;
   error: string | null;
+  pendingMutations: PendingMutation[];
+  syncConflicts: PendingMutation[];
+  isSyncing: boolean;
+  cachedAt: string | null; // Preenchido quando a atualização falhou e a lista exibida é a última versão salva localmente
+  history: Record<number, RequestHistoryEvent[]>; // Eventos de auditoria por solicitação
+  backendStatus: CircuitState; // 'open' = backend inacessível (circuit breaker do ApiService)
 }
 
+type MutationOutcome = { outcome: 'synced' | 'queued' | 'failed'; error?: string };
+
 export type RequestAction = 
   | { type: 'SET_REQUESTS'; requests: AccessibilityRequest[] }
   | { type: 'ADD_REQUEST'; request: AccessibilityRequest }
@@ -25,7 +68,12 @@ export type RequestAction =
   | { type: 'SELECT_REQUEST'; request: AccessibilityRequest | null }
   | { type: 'SET_LOADING'; isLoading: boolean }
   | { type: 'SET_ERROR'; error: string | null }
-  | { type: 'CLEAR_ERROR' };
+  | { type: 'CLEAR_ERROR' }
+  | { type: 'SET_SYNC_QUEUE'; pendingMutations: PendingMutation[]; syncConflicts: PendingMutation[] }
+  | { type: 'SET_SYNCING'; isSyncing: boolean }
+  | { type: 'SET_BACKEND_STATUS'; backendStatus: CircuitState }
+  | { type: 'SET_CACHED_AT'; cachedAt: string | null }
+  | { type: 'SET_HISTORY'; requestId: number; events: RequestHistoryEvent[] };
 
 export class RequestController {
   private static instance: RequestController;
@@ -33,9 +81,21 @@ export class RequestController {
     requests: [],
     selectedRequest: null,
     isLoading: false,
-    error: null
+    error: null,
+    pendingMutations: [],
+    syncConflicts: [],
+    isSyncing: false,
+    cachedAt: null,
+    history: {},
+    backendStatus: 'closed'
   };
   private listeners: Array<(state: RequestState) => void> = [];
+  private syncQueue = SyncQueueService.getInstance();
+  private syncTimer: ReturnType<typeof setInterval> | null = null;
+  private static readonly SYNC_INTERVAL = 15000; // 15 segundos entre verificações de conexão
+  private loadedOwnerKey: string | null = null; // Usuário cujas solicitações estão em memória
+  private lastSyncedAt: string | null = null; // Última carga bem-sucedida da API
+  private unsubscribeConnectivity: (() => void) | null = null; // Listener do circuit breaker do ApiService
 
   /**
    * Singleton pattern para garantir uma única instância
@@ -43,8 +103,10 @@ export class RequestController {
   static getInstance(): RequestController {
     if (!RequestController.instance) {
       RequestController.instance = new RequestController();
-      // Inicializa com dados mock
-      RequestController.instance.initializeWithMockData();
+      // Inicializa com dados mock apenas quando a API está desabilitada
+      if (!RequestModel.isUsingApi()) {
+        RequestController.instance.initializeWithMockData();
+      }
     }
     return RequestController.instance;
   }
@@ -144,6 +206,42 @@ export class RequestController {
           error: null
         };
         break;
+      
+      case 'SET_SYNC_QUEUE':
+        this.requestState = {
+          ...this.requestState,
+          pendingMutations: action.pendingMutations,
+          syncConflicts: action.syncConflicts
+        };
+        break;
+      
+      case 'SET_SYNCING':
+        this.requestState = {
+          ...this.requestState,
+          isSyncing: action.isSyncing
+        };
+        break;
+      
+      case 'SET_BACKEND_STATUS':
+        this.requestState = {
+          ...this.requestState,
+          backendStatus: action.backendStatus
+        };
+        break;
+      
+      case 'SET_CACHED_AT':
+        this.requestState = {
+          ...this.requestState,
+          cachedAt: action.cachedAt
+        };
+        break;
+      
+      case 'SET_HISTORY':
+        this.requestState = {
+          ...this.requestState,
+          history: { ...this.requestState.history, [action.requestId]: action.events }
+        };
+        break;
     }
     
     this.notifyListeners();
@@ -171,34 +269,28 @@ export class RequestController {
       }
 
       // Tentar salvar no backend se o email do cliente foi fornecido
+      // Sem conexão, a criação fica na fila e é reenviada quando o backend voltar
       if (clientEmail && RequestModel.isUsingApi()) {
-        try {
-          console.log('[RequestController] Tentando salvar solicitação no backend...');
-          
-          // Importar ApiService dinamicamente
-          const ApiService = (await import('../../services/ApiService')).default;
-          
-          // Criar solicitação no backend
-          const solicitacaoResponse = await ApiService.createRequest({
+        console.log('[RequestController] Tentando salvar solicitação no backend...');
+        const result = await this.runMutation('CREATE_REQUEST', tempRequest, {
+          request: tempRequest,
+          body: {
             site: requestData.site,
             tipo_pacote: requestData.plan,
             observacoes: `Solicitação para o site: ${requestData.site}`,
             selected_issues: requestData.selectedIssues,
-          });
-          
-          if (solicitacaoResponse.success) {
-            console.log('[RequestController] Solicitação salva no backend com sucesso!');
-          } else {
-            console.warn('[RequestController] Erro ao criar solicitação no backend:', solicitacaoResponse.error);
           }
-        } catch (backendError) {
-          // Não falhar a criação local se houver erro no backend
-          console.error('[RequestController] Erro ao salvar no backend (continuando localmente):', backendError);
+        });
+
+        // O servidor recusou a criação: não exibir uma solicitação que não existe no backend
+        if (result.outcome === 'failed') {
+          throw new Error(result.error || 'Erro ao criar solicitação');
         }
       }
 
       // Adiciona à lista local
       this.dispatch({ type: 'ADD_REQUEST', request: tempRequest });
+      await this.recordHistory(tempRequest, 'created', undefined, tempRequest.status);
       
       return tempRequest;
 
@@ -215,9 +307,16 @@ export class RequestController {
    * Atualiza status de uma solicitação
    * @param requestId - ID da solicitação
    * @param newStatus - Novo status
+   * @param note - Observação registrada no histórico (opcional)
+   * @param changes - Dados aplicados junto com o status e observações enviadas ao backend (opcional)
    * @returns Promise com a solicitação atualizada
    */
-  async updateRequestStatus(requestId: number, newStatus: RequestStatus): Promise<AccessibilityRequest> {
+  async updateRequestStatus(
+    requestId: number,
+    newStatus: RequestStatus,
+    note?: string,
+    changes: { patch?: Partial<AccessibilityRequest>; observacoes?: string } = {}
+  ): Promise<AccessibilityRequest> {
     this.dispatch({ type: 'SET_LOADING', isLoading: true });
     this.dispatch({ type: 'CLEAR_ERROR' });
 
@@ -228,8 +327,15 @@ export class RequestController {
         throw new Error('Solicitação não encontrada');
       }
 
+      // Valida a transição no fluxo (perfil do usuário e guardas)
+      const role = this.getCurrentRole();
+      const validation = RequestModel.validateStatusChange(existingRequest, newStatus, role);
+      if (!validation.valid) {
+        throw new Error(validation.error || 'Transição de status inválida');
+      }
+
       // Atualiza status usando o modelo
-      const updatedRequest = RequestModel.updateStatus(existingRequest, newStatus);
+      const updatedRequest = RequestModel.updateStatus({ ...existingRequest, ...changes.patch }, newStatus, role);
       
       if (!updatedRequest) {
         throw new Error('Transição de status inválida');
@@ -237,6 +343,27 @@ export class RequestController {
 
       // Atualiza na lista
       this.dispatch({ type: 'UPDATE_REQUEST', request: updatedRequest });
+
+      // Propaga o novo status para a solicitação no backend (ou enfileira se offline)
+      const idSolicitacao = existingRequest._idSolicitacao;
+      const backendStatus = RequestModel.mapStatusToBackend(newStatus);
+      if (idSolicitacao && backendStatus && RequestModel.isUsingApi()) {
+        const result = await this.runMutation('UPDATE_STATUS', existingRequest, {
+          idSolicitacao,
+          status: newStatus,
+          backendStatus,
+          observacoes: changes.observacoes,
+          patch: changes.patch
+        });
+
+        // O servidor recusou a mudança: desfaz a alteração local e informa o motivo
+        if (result.outcome === 'failed') {
+          this.dispatch({ type: 'UPDATE_REQUEST', request: existingRequest });
+          throw new Error(result.error || 'O servidor recusou a mudança de status');
+        }
+      }
+
+      await this.recordHistory(updatedRequest, 'status', existingRequest.status, newStatus, note);
       
       return updatedRequest;
 
@@ -274,17 +401,47 @@ export class RequestController {
       // Anexa arquivo usando o modelo
       const updatedRequest = RequestModel.attachFile(existingRequest, fileType, fileData);
       
-      // Atualiza status se necessário
-      const nextStatus = RequestModel.getNextStatus(updatedRequest.status);
-      if (nextStatus) {
-        const finalRequest = RequestModel.updateStatus(updatedRequest, nextStatus);
-        this.dispatch({ type: 'UPDATE_REQUEST', request: finalRequest });
-        return finalRequest;
-      } else {
-        this.dispatch({ type: 'UPDATE_REQUEST', request: updatedRequest });
-        return updatedRequest;
+      // Dispara a transição do fluxo que depende deste arquivo (ex: Enviar Orçamento)
+      const transition = RequestWorkflow.getDefinition().transitions.find(t =>
+        t.requiresUpload === fileType && t.from.includes(updatedRequest.status)
+      );
+      const finalRequest = transition
+        ? RequestModel.updateStatus(updatedRequest, transition.to, this.getCurrentRole())
+        : null;
+
+      const resultRequest = finalRequest || updatedRequest;
+      this.dispatch({ type: 'UPDATE_REQUEST', request: resultRequest });
+
+      const quoteVersion = resultRequest.quoteRevisions?.[resultRequest.quoteRevisions.length - 1]?.version || 1;
+
+      // Propaga o novo status (ex: ORCAMENTO_CRIADO); a versão revisada substitui a recusa nas observações
+      const backendStatus = finalRequest ? RequestModel.mapStatusToBackend(finalRequest.status) : undefined;
+      if (finalRequest && existingRequest._idSolicitacao && backendStatus && RequestModel.isUsingApi()) {
+        const result = await this.runMutation('UPDATE_STATUS', existingRequest, {
+          idSolicitacao: existingRequest._idSolicitacao,
+          status: finalRequest.status,
+          backendStatus,
+          observacoes: existingRequest.status === 'Quote Rejected'
+            ? `Orçamento revisado enviado (versão ${quoteVersion}).`
+            : undefined
+        });
+
+        // Arquivo anexado, mas o status não mudou no servidor: mantém o status anterior
+        if (result.outcome === 'failed') {
+          this.dispatch({ type: 'UPDATE_REQUEST', request: updatedRequest });
+          throw new Error(result.error || 'O servidor recusou a mudança de status');
+        }
+      }
+      const fileLabel = fileType === 'quote'
+        ? `Orçamento${quoteVersion > 1 ? ` (versão ${quoteVersion})` : ''}`
+        : 'Contrato';
+      await this.recordHistory(resultRequest, 'attachment', undefined, fileData.name, fileLabel);
+      if (finalRequest) {
+        await this.recordHistory(finalRequest, 'status', existingRequest.status, finalRequest.status);
       }
 
+      return resultRequest;
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Erro ao anexar arquivo';
       this.dispatch({ type: 'SET_ERROR', error: errorMessage });
@@ -294,6 +451,143 @@ export class RequestController {
     }
   }
 
+  /**
+   * Tabela de preços do montador de orçamentos
+   */
+  async getQuoteRates(): Promise<QuoteRates> {
+    return QuoteModel.getRates();
+  }
+
+  async saveQuoteRates(rates: QuoteRates): Promise<void> {
+    const saved = await QuoteModel.saveRates(rates);
+    if (!saved.success) {
+      throw new Error(saved.error || 'Erro ao salvar a tabela de preços');
+    }
+  }
+
+  /**
+   * Envia um orçamento montado no app
+   * Cria o orçamento no backend (se ainda não existir), gera o PDF do orçamento e
+   * anexa-o à solicitação, o que dispara a transição "Enviar Orçamento"
+   * @param requestId - ID da solicitação
+   * @param quote - Orçamento calculado (ver QuoteModel.buildQuote)
+   * @returns Promise com a solicitação atualizada
+   */
+  async submitQuote(requestId: number, quote: Quote): Promise<AccessibilityRequest> {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error('Solicitação não encontrada');
+    }
+
+    const validationError = QuoteModel.validate(quote);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    let codOrcamento = request._codOrcamento;
+    if (!codOrcamento) {
+      const created = await RequestModel.createBudget(QuoteModel.toBudgetPayload(quote, request));
+      codOrcamento = created.data?.cod_orcamento || created.data?.id;
+
+      // 409: a solicitação já tem orçamento (ex: criado em outro dispositivo), usar o existente
+      if (!created.success && created.statusCode === HTTP_STATUS.CONFLICT && request._idSolicitacao) {
+        console.log('[RequestController] Orçamento já existe, buscando cod_orcamento da solicitação...');
+        const existing = await RequestModel.getBudgetCode(request._idSolicitacao);
+        if (!existing.data) {
+          throw new Error(existing.error || 'Orçamento existe mas não foi possível obter o cod_orcamento');
+        }
+        codOrcamento = existing.data;
+      } else if (!created.success || !codOrcamento) {
+        throw new Error(created.error || 'Orçamento criado mas não foi possível obter o ID');
+      }
+      this.dispatch({ type: 'UPDATE_REQUEST', request: { ...request, _codOrcamento: codOrcamento } });
+    }
+
+    const document = await this.renderDocument('quote', { ...request, _codOrcamento: codOrcamento }, quote);
+    const uploaded = await RequestModel.uploadBudgetFile(codOrcamento, document);
+    if (!uploaded.success) {
+      throw new Error(uploaded.error || 'Erro ao enviar o documento do orçamento');
+    }
+
+    return this.attachFileToRequest(requestId, 'quote', {
+      name: document.name,
+      url: uploaded.data?.filePath || '#'
+    });
+  }
+
+  /**
+   * Gera o documento da solicitação a partir do modelo e anexa-o
+   * Com o orçamento/contrato já criado no backend, o PDF é enviado; sem ele, é anexado o arquivo local
+   * @param requestId - ID da solicitação
+   * @param type - Documento a gerar (o orçamento exige o orçamento montado)
+   * @param quote - Orçamento montado no app
+   * @returns Promise com a solicitação atualizada
+   */
+  async generateDocument(requestId: number, type: DocumentType, quote?: Quote): Promise<AccessibilityRequest> {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error('Solicitação não encontrada');
+    }
+
+    const document = await this.renderDocument(type, request, quote);
+    const backendId = type === 'quote' ? request._codOrcamento : request._idContrato;
+    let url = document.uri;
+
+    if (backendId) {
+      const uploaded = type === 'quote'
+        ? await RequestModel.uploadBudgetFile(backendId, document)
+        : await RequestModel.uploadContractFile(backendId, document);
+      if (!uploaded.success) {
+        throw new Error(uploaded.error || 'Erro ao enviar o documento gerado');
+      }
+      url = uploaded.data?.filePath || url;
+    }
+
+    return this.attachFileToRequest(requestId, type, { name: document.name, url });
+  }
+
+  /**
+   * Abre o documento da solicitação para visualização no app
+   * Sem arquivo disponível (ex: dados mock), o documento é gerado a partir do modelo como pré-visualização
+   * @param requestId - ID da solicitação
+   * @param type - Documento a abrir (o contrato assinado tem preferência sobre o original)
+   */
+  async loadDocument(requestId: number, type: DocumentType): Promise<LoadedDocument> {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error('Solicitação não encontrada');
+    }
+
+    const file = type === 'quote' ? request.quoteFile : request.contractFile;
+    const url = (type === 'contract' && request.contractSignedUrl) || file?.url;
+
+    if (url && url !== '#') {
+      return { name: file?.name || `${type}.pdf`, bytes: await DocumentModel.read(url), url, preview: false };
+    }
+
+    const quote = type === 'quote'
+      ? QuoteModel.buildQuote(QuoteModel.createDraft(request, await QuoteModel.getRates()))
+      : undefined;
+    const context = await DocumentModel.buildContext(request, {
+      role: this.getCurrentRole(),
+      quote,
+      quoteVersion: QuoteRevisionModel.getRevisions(request).pop()?.version
+    });
+    return {
+      name: file?.name || `${type}-${request.id}.pdf`,
+      bytes: DocumentModel.render(type, context).toBytes(),
+      preview: true
+    };
+  }
+
+  private async renderDocument(type: DocumentType, request: AccessibilityRequest, quote?: Quote): Promise<GeneratedDocument> {
+    const generated = await DocumentModel.generate(type, request, { role: this.getCurrentRole(), quote });
+    if (!generated.success || !generated.data) {
+      throw new Error(generated.error || 'Erro ao gerar o documento');
+    }
+    return generated.data;
+  }
+
   /**
    * Atualiza status de desenvolvimento
    * @param requestId - ID da solicitação
@@ -302,7 +596,7 @@ export class RequestController {
    */
   async updateDevelopmentStatus(
     requestId: number,
-    developmentStatus: any
+    developmentStatus: DevelopmentStatus
   ): Promise<AccessibilityRequest> {
     this.dispatch({ type: 'SET_LOADING', isLoading: true });
     this.dispatch({ type: 'CLEAR_ERROR' });
@@ -321,6 +615,27 @@ export class RequestController {
       }
 
       this.dispatch({ type: 'UPDATE_REQUEST', request: updatedRequest });
+
+      const idSolicitacao = existingRequest._idSolicitacao;
+      if (idSolicitacao && RequestModel.isUsingApi()) {
+        const result = await this.runMutation('UPDATE_DEVELOPMENT_STATUS', existingRequest, {
+          idSolicitacao,
+          developmentStatus,
+          status: updatedRequest.status,
+          backendStatus: RequestModel.mapStatusToBackend(updatedRequest.status),
+          observacoes: `Desenvolvimento: ${RequestModel.getDevelopmentStatusLabel(developmentStatus)}`
+        });
+
+        if (result.outcome === 'failed') {
+          this.dispatch({ type: 'UPDATE_REQUEST', request: existingRequest });
+          throw new Error(result.error || 'O servidor recusou a atualização do desenvolvimento');
+        }
+      }
+
+      await this.recordHistory(updatedRequest, 'development', existingRequest.developmentStatus, developmentStatus);
+      if (updatedRequest.status !== existingRequest.status) {
+        await this.recordHistory(updatedRequest, 'status', existingRequest.status, updatedRequest.status);
+      }
       
       return updatedRequest;
 
@@ -400,30 +715,78 @@ export class RequestController {
         return;
       }
 
+      const ownerKey = this.getCacheOwnerKey();
+
+      // Stale-while-revalidate: exibir imediatamente a última lista conhecida do usuário
+      // O aviso de dados offline (cachedAt) só aparece se a atualização abaixo falhar
+      if (ownerKey && this.loadedOwnerKey !== ownerKey) {
+        const cached = await RequestModel.getCachedRequests(ownerKey);
+        await this.refreshSyncQueue();
+        this.dispatch({ type: 'SET_REQUESTS', requests: this.applyPendingMutations(cached.data?.requests || []) });
+        this.dispatch({ type: 'SET_CACHED_AT', cachedAt: null });
+        this.loadedOwnerKey = ownerKey;
+        this.lastSyncedAt = cached.data?.cachedAt || null;
+        if (cached.data) {
+          console.log(`[RequestController] ${cached.data.requests.length} solicitações carregadas do cache (${cached.data.cachedAt})`);
+        }
+      }
+
       console.log('[RequestController] Carregando solicitações do backend...');
       const response = await RequestModel.getAllRequests();
       
       if (response.success && response.data) {
         console.log(`[RequestController] ${response.data.length} solicitações carregadas do backend`);
-        this.dispatch({ type: 'SET_REQUESTS', requests: response.data });
+        // Reaplicar mutações ainda não sincronizadas sobre os dados do servidor
+        // O backend guarda só a versão atual do orçamento: manter as versões já acompanhadas
+        const knownRevisions = new Map(this.requestState.requests.map(req => [req.id, req.quoteRevisions]));
+        const loadedRequests = response.data.map(req => QuoteRevisionModel.withRevisions(req, knownRevisions.get(req.id)));
+
+        await this.refreshSyncQueue();
+        const requests = this.applyPendingMutations(loadedRequests);
+        this.dispatch({ type: 'SET_REQUESTS', requests });
+        this.dispatch({ type: 'SET_CACHED_AT', cachedAt: null });
+        this.lastSyncedAt = new Date().toISOString();
+
+        if (ownerKey) {
+          const cacheResult = await RequestModel.saveRequestsCache(ownerKey, loadedRequests);
+          if (!cacheResult.success) {
+            console.warn('[RequestController] Não foi possível atualizar o cache:', cacheResult.error);
+          }
+        }
       } else {
-        console.warn('[RequestController] Erro ao carregar solicitações, usando dados mock');
-        const mockRequests = RequestModel.getInitialRequests();
-        this.dispatch({ type: 'SET_REQUESTS', requests: mockRequests });
+        console.warn('[RequestController] Erro ao carregar solicitações:', response.error);
+        this.handleLoadFailure(response.error || 'Erro ao carregar solicitações');
       }
     } catch (error) {
       console.error('[RequestController] Erro ao carregar solicitações:', error);
       const errorMessage = error instanceof Error ? error.message : 'Erro ao carregar solicitações';
-      this.dispatch({ type: 'SET_ERROR', error: errorMessage });
-      
-      // Fallback para dados mock
-      const mockRequests = RequestModel.getInitialRequests();
-      this.dispatch({ type: 'SET_REQUESTS', requests: mockRequests });
+      this.handleLoadFailure(errorMessage);
     } finally {
       this.dispatch({ type: 'SET_LOADING', isLoading: false });
     }
   }
 
+  /**
+   * Mantém a última lista conhecida quando o backend não responde
+   * Sem cache, informa o erro em vez de exibir dados fictícios
+   */
+  private handleLoadFailure(errorMessage: string): void {
+    if (this.lastSyncedAt && this.requestState.requests.length > 0) {
+      console.log(`[RequestController] Exibindo últimos dados conhecidos de ${this.lastSyncedAt}`);
+      this.dispatch({ type: 'SET_CACHED_AT', cachedAt: this.lastSyncedAt });
+      return;
+    }
+
+    this.dispatch({ type: 'SET_ERROR', error: errorMessage });
+  }
+
+  /**
+   * Identificador do usuário logado usado para separar o cache local
+   */
+  private getCacheOwnerKey(): string | null {
+    return AuthController.getInstance().getCurrentUser()?.email || null;
+  }
+
   /**
    * Limpa mensagens de erro
    */
@@ -450,25 +813,74 @@ export class RequestController {
   /**
    * Valida se uma ação pode ser executada em uma solicitação
    * @param request - Solicitação
-   * @param action - Ação a ser validada
-   */
-  canExecuteAction(request: AccessibilityRequest, action: string): boolean {
-    switch (action) {
-      case 'sendQuote':
-        return request.status === 'Awaiting Quote';
-      case 'attachContract':
-        return request.status === 'Quote Sent';
-      case 'startDevelopment':
-        return request.status === 'Contract Sent';
-      case 'complete':
-        return request.status === 'In Development';
-      default:
-        return false;
+   * @param action - ID da transição no fluxo
+   */
+  canExecuteAction(request: AccessibilityRequest, action: WorkflowTransitionId): boolean {
+    const transition = RequestWorkflow.getTransition(action);
+    if (!transition) return false;
+    return RequestWorkflow.validateTransition(request, transition, this.getCurrentRole()).valid;
+  }
+
+  /**
+   * Transições que o usuário logado pode disparar na solicitação
+   * @param request - Solicitação
+   */
+  getAvailableTransitions(request: AccessibilityRequest): WorkflowTransition[] {
+    const role = this.getCurrentRole();
+    return role ? RequestModel.getAvailableTransitions(request, role) : [];
+  }
+
+  /**
+   * Dispara uma transição do fluxo pelo seu ID
+   * @param requestId - ID da solicitação
+   * @param transitionId - ID da transição (ex: 'approveQuote')
+   * @returns Promise com a solicitação atualizada
+   */
+  async executeTransition(requestId: number, transitionId: WorkflowTransitionId, note?: string): Promise<AccessibilityRequest> {
+    const transition = RequestWorkflow.getTransition(transitionId);
+    if (!transition) {
+      throw new Error(`Transição desconhecida: ${transitionId}`);
+    }
+    return this.updateRequestStatus(requestId, transition.to, note);
+  }
+
+  /**
+   * Recusa o orçamento enviado com o motivo informado pelo cliente
+   * O motivo segue para o backend nas observações da solicitação, para o funcionário
+   * revisar o orçamento e enviar uma nova versão
+   * @param requestId - ID da solicitação
+   * @param input - Motivo (preço, escopo, prazo ou outro) e comentário opcional
+   * @returns Promise com a solicitação atualizada
+   */
+  async rejectQuote(requestId: number, input: QuoteRejectionInput): Promise<AccessibilityRequest> {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error('Solicitação não encontrada');
     }
+
+    const validationError = QuoteRevisionModel.validateRejection(input);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const rejection = QuoteRevisionModel.createRejection(request, input);
+    return this.updateRequestStatus(requestId, 'Quote Rejected', QuoteRevisionModel.describeRejection(rejection), {
+      patch: { quoteRejection: rejection },
+      observacoes: QuoteRevisionModel.toObservacoes(rejection)
+    });
+  }
+
+  /**
+   * Perfil do usuário logado usado nas regras do fluxo (undefined = sistema)
+   */
+  private getCurrentRole(): WorkflowRole | undefined {
+    return AuthController.getInstance().getCurrentUser()?.type;
   }
 
   /**
    * Assina um contrato digitalmente
+   * Registra o certificado da assinatura (hash do contrato exibido, signatário, dispositivo e
+   * imagem), carimba a assinatura no PDF e envia o contrato assinado
    * @param requestId - ID da solicitação/contrato
    * @param signatureBase64 - Assinatura em base64
    * @returns Promise com a solicitação atualizada
@@ -484,31 +896,60 @@ export class RequestController {
         throw new Error('Solicitação não encontrada');
       }
 
-      // Importar ApiService dinamicamente para evitar dependência circular
-      const ApiService = (await import('../../services/ApiService')).default;
-      
-      // Chamar API para assinar contrato
-      // Nota: Você precisará obter o ID do contrato a partir da solicitação
-      // Por enquanto, vamos usar o requestId como contratoId
-      const response = await ApiService.signContract(
-        requestId.toString(),
-        signatureBase64
-      );
+      // Validar a assinatura no fluxo antes de enviar ao backend
+      const validation = RequestModel.validateStatusChange(existingRequest, 'Contract Signed', this.getCurrentRole());
+      if (!validation.valid) {
+        throw new Error(validation.error || 'Não é possível assinar este contrato');
+      }
 
-      if (!response.success) {
-        throw new Error(response.error || 'Erro ao assinar contrato');
+      const signing = await ContractSigningModel.signContract(existingRequest, signatureBase64, this.getCurrentSigner(existingRequest));
+      if (!signing.success || !signing.data) {
+        throw new Error(signing.error || 'Erro ao registrar a assinatura do contrato');
       }
 
-      // Atualizar status da solicitação para 'Contract Signed'
-      const nextStatus = RequestModel.getStatusConfig().nextStatus['Contract Sent'];
-      if (nextStatus) {
-        const updatedRequest = await this.updateRequestStatus(requestId, nextStatus);
-        return updatedRequest;
+      // Registrar a assinatura no backend antes de enviar o arquivo e salvar o registro local:
+      // se o servidor recusar, não sobra contrato assinado nem registro de uma assinatura inexistente
+      let { record } = signing.data;
+      const result = await this.runMutation('SIGN_CONTRACT', existingRequest, {
+        contratoId: existingRequest._idContrato || requestId.toString(),
+        signatureBase64,
+        certificado: ContractSigningModel.toBackendPayload(record)
+      });
+
+      if (result.outcome === 'failed') {
+        throw new Error(result.error || 'Erro ao assinar contrato');
       }
 
-      // Se não houver próximo status, apenas retornar a solicitação atualizada
-      this.dispatch({ type: 'UPDATE_REQUEST', request: existingRequest });
-      return existingRequest;
+      // Sem conexão, o contrato assinado fica no dispositivo e o registro aponta para ele
+      if (existingRequest._idContrato) {
+        const uploaded = await RequestModel.uploadContractFile(existingRequest._idContrato, signing.data.document);
+        if (uploaded.success && uploaded.data?.filePath) {
+          record = { ...record, signedDocumentUrl: uploaded.data.filePath };
+        } else {
+          console.warn('[RequestController] Contrato assinado mantido apenas no dispositivo:', uploaded.error);
+        }
+      }
+
+      const saved = await ContractSigningModel.saveRecord(record);
+      if (!saved.success) {
+        console.warn('[RequestController] Erro ao salvar registro de assinatura:', saved.error);
+      }
+
+      await this.recordHistory(
+        existingRequest,
+        'signature',
+        undefined,
+        existingRequest.contractFile?.name,
+        [
+          `SHA-256 ${record.certificate.documentHash.slice(0, 16)}…`,
+          result.outcome === 'queued' ? 'Assinatura aguardando sincronização' : undefined
+        ].filter(Boolean).join(' - ')
+      );
+
+      this.dispatch({ type: 'UPDATE_REQUEST', request: { ...existingRequest, contractSignedUrl: record.signedDocumentUrl } });
+
+      // Atualizar status da solicitação para 'Contract Signed'
+      return await this.executeTransition(requestId, 'signContract');
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Erro ao assinar contrato';
@@ -518,6 +959,518 @@ export class RequestController {
       this.dispatch({ type: 'SET_LOADING', isLoading: false });
     }
   }
+
+  /**
+   * Confere se o contrato assinado armazenado ainda corresponde ao registro da assinatura
+   * (o deste dispositivo e o enviado ao backend, que permite a conferência por qualquer das partes)
+   * Procura o contrato carimbado entre o arquivo registrado neste dispositivo, o contrato
+   * assinado do backend e o contrato anexado
+   * @param requestId - ID da solicitação
+   */
+  async verifyContractSignature(requestId: number): Promise<SignatureVerification> {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error('Solicitação não encontrada');
+    }
+
+    const record = (await ContractSigningModel.getLatestRecord(requestId, request._idSolicitacao)).data || null;
+    const contract = request._idContrato ? await RequestModel.getContract(request._idContrato) : null;
+    const registered = ContractSigningModel.fromBackendPayload(contract?.data?.certificado);
+    const candidates = [record?.signedDocumentUrl, request.contractSignedUrl, contract?.data?.contrato_assinado_url, request.contractFile?.url]
+      .filter((url, index, urls): url is string => !!url && url !== '#' && urls.indexOf(url) === index);
+
+    let fallback: SignatureVerification | null = null;
+    for (const url of candidates) {
+      try {
+        const verification = ContractSigningModel.verify(await DocumentModel.read(url), record, registered);
+        if (verification.certificate) {
+          return { ...verification, documentUrl: url };
+        }
+        fallback = fallback || verification;
+      } catch (error) {
+        console.warn('[RequestController] Não foi possível abrir o contrato para verificação:', url, error);
+      }
+    }
+
+    if (!fallback && candidates.length > 0) {
+      throw new Error('Não foi possível abrir o contrato assinado para verificação');
+    }
+    return fallback || { valid: false, checks: [{ label: 'Contrato assinado encontrado', passed: false }] };
+  }
+
+  /**
+   * Identificação do usuário logado para o certificado de assinatura
+   */
+  private getCurrentSigner(request: AccessibilityRequest): ContractSigner {
+    const user = AuthController.getInstance().getCurrentUser();
+    return user
+      ? { id: user.id, name: user.name, email: user.email, role: user.type }
+      : { name: request.clientName };
+  }
+
+  // ===========================
+  // Histórico (auditoria)
+  // ===========================
+
+  /**
+   * Carrega o histórico persistido de uma solicitação para o estado
+   * @param requestId - ID da solicitação
+   */
+  async loadRequestHistory(requestId: number): Promise<RequestHistoryEvent[]> {
+    const idSolicitacao = this.requestState.requests.find(req => req.id === requestId)?._idSolicitacao;
+    const result = await RequestHistoryModel.getHistory(requestId, idSolicitacao);
+
+    if (!result.success || !result.data) {
+      console.warn('[RequestController] Erro ao carregar histórico:', result.error);
+      return this.requestState.history[requestId] || [];
+    }
+
+    // Eventos registrados por outros dispositivos (ex: transições do funcionário)
+    let events = result.data;
+    if (idSolicitacao && RequestModel.isUsingApi()) {
+      const remote = await RequestHistoryModel.getRemoteHistory(requestId, idSolicitacao);
+      if (remote.success && remote.data) {
+        events = RequestHistoryModel.merge(events, remote.data);
+      } else {
+        console.warn('[RequestController] Histórico do servidor indisponível, exibindo o local:', remote.error);
+      }
+    }
+
+    this.dispatch({ type: 'SET_HISTORY', requestId, events });
+    return events;
+  }
+
+  /**
+   * Registra um evento no histórico local e envia ao backend (ou enfileira se offline)
+   * Falhas no histórico nunca interrompem a operação principal
+   */
+  private async recordHistory(
+    request: AccessibilityRequest,
+    type: RequestHistoryEventType,
+    fromValue?: string,
+    toValue?: string,
+    note?: string
+  ): Promise<void> {
+    try {
+      const user = AuthController.getInstance().getCurrentUser();
+      const result = await RequestHistoryModel.recordEvent({
+        requestId: request.id,
+        solicitacaoId: request._idSolicitacao,
+        type,
+        fromValue,
+        toValue,
+        actorName: user?.name || 'Sistema',
+        actorRole: user?.type,
+        note
+      });
+
+      if (!result.success || !result.data) {
+        console.warn('[RequestController] Não foi possível registrar histórico:', result.error);
+        return;
+      }
+
+      const events = [...(this.requestState.history[request.id] || []), result.data];
+      this.dispatch({ type: 'SET_HISTORY', requestId: request.id, events });
+
+      const idSolicitacao = request._idSolicitacao;
+      if (idSolicitacao && RequestModel.isUsingApi()) {
+        await this.runMutation('RECORD_HISTORY', request, {
+          idSolicitacao,
+          event: RequestHistoryModel.toBackendPayload(result.data)
+        });
+      }
+    } catch (error) {
+      console.error('[RequestController] Erro ao registrar histórico:', error);
+    }
+  }
+
+  // ===========================
+  // Fila de sincronização offline
+  // ===========================
+
+  /**
+   * Carrega a fila persistida e inicia o monitor de conexão se houver pendências
+   * Deve ser chamado após a inicialização do banco de dados
+   */
+  async initializeSync(): Promise<void> {
+    await this.watchBackendConnectivity();
+    await this.refreshSyncQueue();
+    if (this.requestState.pendingMutations.length > 0) {
+      console.log(`[RequestController] ${this.requestState.pendingMutations.length} mutações pendentes de sincronização`);
+      this.startSyncMonitor();
+    }
+  }
+
+  /**
+   * Verifica se uma solicitação tem alterações aguardando sincronização
+   * @param requestId - ID da solicitação
+   */
+  hasPendingSync(requestId: number): boolean {
+    const request = this.requestState.requests.find(req => req.id === requestId);
+    return this.requestState.pendingMutations.some(m =>
+      request ? this.isMutationFor(m, request) : m.requestId === requestId
+    );
+  }
+
+  /**
+   * Obtém conflitos de sincronização (mutações rejeitadas pelo servidor)
+   */
+  getSyncConflicts(): PendingMutation[] {
+    return [...this.requestState.syncConflicts];
+  }
+
+  /**
+   * Descarta um conflito já visualizado pelo usuário
+   * @param mutationId - ID da mutação em conflito
+   */
+  async dismissSyncConflict(mutationId: number): Promise<void> {
+    await this.syncQueue.remove(mutationId);
+    await this.refreshSyncQueue();
+  }
+
+  /**
+   * Descarta a fila e o cache de solicitações ao trocar de backend
+   * Os IDs pertencem ao servidor anterior: reenviá-los ao novo alteraria outras solicitações
+   */
+  async resetBackendData(): Promise<void> {
+    this.stopSyncMonitor();
+
+    const [queueResult, cacheResult] = await Promise.all([
+      this.syncQueue.clear(),
+      RequestModel.clearRequestsCache()
+    ]);
+    if (!queueResult.success || !cacheResult.success) {
+      console.warn('[RequestController] Falha ao limpar dados do backend anterior:', queueResult.error || cacheResult.error);
+    }
+
+    this.loadedOwnerKey = null;
+    this.lastSyncedAt = null;
+    this.dispatch({ type: 'SET_REQUESTS', requests: [] });
+    this.dispatch({ type: 'SET_SYNC_QUEUE', pendingMutations: [], syncConflicts: [] });
+    this.dispatch({ type: 'SET_CACHED_AT', cachedAt: null });
+  }
+
+  /**
+   * Reenvia as mutações pendentes na ordem em que foram registradas
+   * Só executa se o backend estiver acessível (testConnection)
+   */
+  async syncPendingMutations(): Promise<void> {
+    if (this.requestState.isSyncing) return;
+
+    await this.refreshSyncQueue();
+    if (this.requestState.pendingMutations.length === 0) {
+      this.stopSyncMonitor();
+      return;
+    }
+
+    const ApiService = (await import('../../services/ApiService')).default;
+    const isOnline = await ApiService.testConnection();
+    if (!isOnline) {
+      console.log('[RequestController] Backend ainda inacessível, sincronização adiada');
+      return;
+    }
+
+    this.dispatch({ type: 'SET_SYNCING', isSyncing: true });
+    let syncedCount = 0;
+    // Mutações em conflito: as posteriores da mesma solicitação dependem delas e não são enviadas
+    const blocking = [...this.requestState.syncConflicts];
+
+    try {
+      for (const mutation of this.requestState.pendingMutations) {
+        if (blocking.some(conflicted => this.isSameRequestMutation(conflicted, mutation))) {
+          if (mutation.type === 'RECORD_HISTORY') {
+            await this.syncQueue.remove(mutation.id!); // A cópia local do histórico é mantida
+          } else {
+            await this.syncQueue.markConflict(mutation, 'Não enviada: uma alteração anterior desta solicitação foi recusada');
+            blocking.push(mutation);
+          }
+          continue;
+        }
+
+        // Verificar se o servidor já mudou de estado desde a mutação local
+        const conflict = await this.detectConflict(mutation);
+        if (conflict === 'applied') {
+          await this.syncQueue.remove(mutation.id!);
+          continue;
+        }
+        if (conflict) {
+          console.warn(`[RequestController] Conflito na mutação ${mutation.type}:`, conflict);
+          await this.syncQueue.markConflict(mutation, conflict);
+          blocking.push(mutation);
+          continue;
+        }
+
+        const response = await this.executeMutation(mutation);
+
+        if (response.success) {
+          await this.syncQueue.remove(mutation.id!);
+          syncedCount++;
+        } else if (response.statusCode !== undefined && CONNECTION_FAILURE_STATUS.includes(response.statusCode)) {
+          // Conexão caiu novamente - interromper para preservar a ordem
+          await this.syncQueue.markAttempt(mutation, response.error || 'Sem conexão');
+          break;
+        } else if (mutation.type === 'RECORD_HISTORY') {
+          // Histórico é complementar: a cópia local é mantida mesmo se o servidor recusar
+          console.warn('[RequestController] Evento de histórico recusado pelo servidor:', response.error);
+          await this.syncQueue.remove(mutation.id!);
+        } else {
+          // Servidor rejeitou a mutação - reportar como conflito
+          await this.syncQueue.markConflict(mutation, response.error || `Erro ${response.statusCode}`);
+          blocking.push(mutation);
+        }
+      }
+    } catch (error) {
+      console.error('[RequestController] Erro ao sincronizar mutações pendentes:', error);
+    } finally {
+      await this.refreshSyncQueue();
+      this.dispatch({ type: 'SET_SYNCING', isSyncing: false });
+    }
+
+    console.log(`[RequestController] ${syncedCount} mutações sincronizadas`);
+
+    if (this.requestState.pendingMutations.length === 0) {
+      this.stopSyncMonitor();
+    }
+
+    if (syncedCount > 0) {
+      await this.loadRequestsFromApi();
+    }
+  }
+
+  /**
+   * Executa uma mutação no backend; se não houver conexão, enfileira para reenvio
+   */
+  private async runMutation(
+    type: MutationType,
+    request: AccessibilityRequest,
+    payload: any
+  ): Promise<MutationOutcome> {
+    const mutation: PendingMutation = {
+      type,
+      requestId: request.id,
+      solicitacaoId: request._idSolicitacao,
+      payload,
+      baseStatus: request.status,
+      status: 'pending',
+      attempts: 0
+    };
+
+    // Mutações sobre a mesma solicitação precisam respeitar a ordem da fila
+    const hasQueuedBefore = this.requestState.pendingMutations.some(m => this.isMutationFor(m, request));
+    const response = hasQueuedBefore
+      ? { success: false, statusCode: 0, error: 'Aguardando mutações anteriores' }
+      : await this.executeMutation(mutation);
+
+    if (response.success) {
+      console.log(`[RequestController] Mutação ${type} sincronizada com o backend`);
+      return { outcome: 'synced' };
+    }
+
+    // Sem conexão ou servidor indisponível (timeout, 502/503/504): reenviar depois
+    if (response.statusCode !== undefined && CONNECTION_FAILURE_STATUS.includes(response.statusCode)) {
+      const enqueueResult = await this.syncQueue.enqueue(mutation);
+      if (enqueueResult.success) {
+        await this.refreshSyncQueue();
+        this.startSyncMonitor();
+        return { outcome: 'queued' };
+      }
+      console.error('[RequestController] Falha ao enfileirar mutação:', enqueueResult.error);
+    }
+
+    // O servidor recusou a mutação: quem chamou desfaz a alteração local e informa o usuário
+    console.warn(`[RequestController] Erro ao sincronizar ${type}:`, response.error);
+    return { outcome: 'failed', error: response.error };
+  }
+
+  /**
+   * Envia uma mutação ao backend
+   */
+  private async executeMutation(mutation: PendingMutation): Promise<{ success: boolean; statusCode?: number; error?: string }> {
+    // Importar ApiService dinamicamente para evitar dependência circular
+    const ApiService = (await import('../../services/ApiService')).default;
+    const { payload } = mutation;
+
+    switch (mutation.type) {
+      case 'CREATE_REQUEST':
+        return ApiService.createRequest(payload.body);
+
+      case 'UPDATE_STATUS':
+        return ApiService.updateSolicitacao(payload.idSolicitacao, {
+          status: payload.backendStatus,
+          ...(payload.observacoes ? { observacoes: payload.observacoes } : {})
+        });
+
+      case 'UPDATE_DEVELOPMENT_STATUS':
+        return ApiService.updateSolicitacao(payload.idSolicitacao, {
+          ...(payload.backendStatus ? { status: payload.backendStatus } : {}),
+          observacoes: payload.observacoes
+        });
+
+      case 'SIGN_CONTRACT':
+        return ApiService.signContract(payload.contratoId, payload.signatureBase64, payload.certificado);
+
+      case 'RECORD_HISTORY':
+        return ApiService.addRequestHistoryEvent(payload.idSolicitacao, payload.event);
+
+      default:
+        return { success: false, error: `Tipo de mutação desconhecido: ${mutation.type}` };
+    }
+  }
+
+  /**
+   * Compara o estado atual do servidor com o estado em que a mutação foi criada
+   * @returns 'applied' se o servidor já está no estado desejado, mensagem de conflito, ou null
+   */
+  private async detectConflict(mutation: PendingMutation): Promise<'applied' | string | null> {
+    const idSolicitacao = mutation.payload?.idSolicitacao;
+    const isStatusMutation = mutation.type === 'UPDATE_STATUS' || mutation.type === 'UPDATE_DEVELOPMENT_STATUS';
+    if (!isStatusMutation || !idSolicitacao || !mutation.baseStatus) {
+      return null;
+    }
+
+    // Estados do contrato (ex: 'Contract Signed') não existem na solicitação: não há o que comparar
+    if (!RequestModel.mapStatusToBackend(mutation.baseStatus as RequestStatus)) {
+      return null;
+    }
+
+    const ApiService = (await import('../../services/ApiService')).default;
+    const response = await ApiService.getRequest(idSolicitacao);
+    if (!response.success || !response.data) {
+      return null; // Sem informação do servidor, tentar aplicar normalmente
+    }
+
+    const serverStatus = RequestModel.mapStatusFromBackend(response.data.status, response.data.observacoes);
+    const targetStatus: RequestStatus | undefined = mutation.payload.status;
+
+    if (targetStatus && serverStatus === targetStatus && mutation.type === 'UPDATE_STATUS') {
+      return 'applied';
+    }
+
+    if (serverStatus !== mutation.baseStatus && serverStatus !== targetStatus) {
+      return `A solicitação foi alterada no servidor para "${serverStatus}" enquanto você estava offline`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reaplica mutações pendentes sobre uma lista vinda do servidor
+   */
+  private applyPendingMutations(requests: AccessibilityRequest[]): AccessibilityRequest[] {
+    let result = [...requests];
+
+    this.requestState.pendingMutations.forEach(mutation => {
+      const { payload } = mutation;
+
+      if (mutation.type === 'CREATE_REQUEST' && payload?.request) {
+        if (!result.some(r => r.id === mutation.requestId)) {
+          result = [{
+            ...payload.request,
+            createdAt: payload.request.createdAt ? new Date(payload.request.createdAt) : undefined,
+            updatedAt: payload.request.updatedAt ? new Date(payload.request.updatedAt) : undefined
+          }, ...result];
+        }
+        return;
+      }
+
+      result = result.map(req => {
+        if (!this.isMutationFor(mutation, req)) return req;
+
+        switch (mutation.type) {
+          case 'UPDATE_STATUS':
+            return { ...req, ...payload.patch, status: payload.status };
+          case 'UPDATE_DEVELOPMENT_STATUS':
+            return { ...req, status: payload.status, developmentStatus: payload.developmentStatus };
+          case 'SIGN_CONTRACT':
+            return { ...req, status: 'Contract Signed' as RequestStatus };
+          default:
+            return req;
+        }
+      });
+    });
+
+    return result;
+  }
+
+  /**
+   * Verifica se a mutação pertence à solicitação
+   * O ID do backend tem prioridade: o ID local é derivado dele e pode colidir
+   */
+  private isMutationFor(mutation: PendingMutation, request: AccessibilityRequest): boolean {
+    if (mutation.solicitacaoId && request._idSolicitacao) {
+      return mutation.solicitacaoId === request._idSolicitacao;
+    }
+    return !mutation.solicitacaoId && mutation.requestId === request.id;
+  }
+
+  /**
+   * Verifica se duas mutações pertencem à mesma solicitação (mesma regra de isMutationFor)
+   */
+  private isSameRequestMutation(first: PendingMutation, second: PendingMutation): boolean {
+    if (first.solicitacaoId && second.solicitacaoId) {
+      return first.solicitacaoId === second.solicitacaoId;
+    }
+    return !first.solicitacaoId && !second.solicitacaoId && first.requestId === second.requestId;
+  }
+
+  /**
+   * Recarrega a fila persistida para o estado
+   */
+  private async refreshSyncQueue(): Promise<void> {
+    const [pending, conflicts] = await Promise.all([
+      this.syncQueue.getPending(),
+      this.syncQueue.getConflicts()
+    ]);
+
+    this.dispatch({
+      type: 'SET_SYNC_QUEUE',
+      pendingMutations: pending.data || [],
+      syncConflicts: conflicts.data || []
+    });
+  }
+
+  /**
+   * Acompanha o circuit breaker do ApiService para exibir o aviso de conectividade
+   * e reenviar a fila assim que o backend voltar a responder
+   */
+  private async watchBackendConnectivity(): Promise<void> {
+    const ApiService = (await import('../../services/ApiService')).default;
+
+    // initializeSync pode ser chamado de novo: manter um único listener
+    this.unsubscribeConnectivity?.();
+    this.dispatch({ type: 'SET_BACKEND_STATUS', backendStatus: ApiService.getConnectivityState() });
+    this.unsubscribeConnectivity = ApiService.subscribeConnectivity(backendStatus => {
+      const wasOpen = this.requestState.backendStatus !== 'closed';
+      this.dispatch({ type: 'SET_BACKEND_STATUS', backendStatus });
+
+      if (wasOpen && backendStatus === 'closed' && this.requestState.pendingMutations.length > 0) {
+        this.syncPendingMutations();
+      }
+    });
+  }
+
+  /**
+   * Inicia verificação periódica de conexão para reenviar a fila
+   */
+  private startSyncMonitor(): void {
+    if (this.syncTimer) return;
+
+    console.log('[RequestController] Monitor de sincronização iniciado');
+    this.syncTimer = setInterval(() => {
+      this.syncPendingMutations();
+    }, RequestController.SYNC_INTERVAL);
+  }
+
+  /**
+   * Interrompe a verificação periódica de conexão
+   */
+  private stopSyncMonitor(): void {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+      console.log('[RequestController] Monitor de sincronização interrompido');
+    }
+  }
 }
 
 // EXPANSÃO FUTURA:
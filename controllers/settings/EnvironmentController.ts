@@ -0,0 +1,204 @@
+/**
+ * EnvironmentController - Controlador do ambiente do backend (configurações do desenvolvedor)
+ *
+ * Responsabilidades:
+ * - Listar os ambientes disponíveis (local, homologação, produção, personalizado)
+ * - Validar o novo ambiente com testConnection() antes de aplicá-lo
+ * - Aplicar a URL no ApiService sem reiniciar o app
+ * - Encerrar a sessão ao trocar de backend (os tokens pertencem ao backend anterior)
+ * - Descartar a fila offline, o cache de solicitações e as avaliações não enviadas do backend anterior
+ * - Persistir a escolha em company_settings via SettingsModel
+ */
+
+import { SettingsModel, SETTING_KEYS } from '../../models';
+import ApiService from '../../services/ApiService';
+import { AuthController } from '../auth/AuthController';
+import { EvaluationController } from '../evaluation/EvaluationController';
+import { RequestController } from '../request/RequestController';
+import {
+  API_ENVIRONMENTS,
+  getDefaultEnvironment,
+  resolveEnvironmentUrl,
+  type ApiEnvironment,
+  type ApiEnvironmentId
+} from '../../utils/getApiUrl';
+
+export interface EnvironmentOption extends ApiEnvironment {
+  url: string | null; // null = ambiente não configurado neste build
+}
+
+export interface EnvironmentState {
+  environment: ApiEnvironmentId;
+  customUrl: string;
+  baseUrl: string;
+  isTesting: boolean;
+  error: string | null;
+}
+
+export type EnvironmentAction =
+  | { type: 'SET_ENVIRONMENT'; environment: ApiEnvironmentId; customUrl: string; baseUrl: string }
+  | { type: 'SET_TESTING'; isTesting: boolean }
+  | { type: 'SET_ERROR'; error: string | null };
+
+export class EnvironmentController {
+  private static instance: EnvironmentController;
+  private environmentState: EnvironmentState = {
+    environment: getDefaultEnvironment(),
+    customUrl: process.env.EXPO_PUBLIC_API_URL || '',
+    baseUrl: ApiService.getBaseUrl(),
+    isTesting: false,
+    error: null
+  };
+  private listeners: Array<(state: EnvironmentState) => void> = [];
+
+  static getInstance(): EnvironmentController {
+    if (!EnvironmentController.instance) {
+      EnvironmentController.instance = new EnvironmentController();
+    }
+    return EnvironmentController.instance;
+  }
+
+  private constructor() {}
+
+  subscribe(listener: (state: EnvironmentState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.environmentState));
+  }
+
+  private dispatch(action: EnvironmentAction): void {
+    switch (action.type) {
+      case 'SET_ENVIRONMENT':
+        this.environmentState = {
+          ...this.environmentState,
+          environment: action.environment,
+          customUrl: action.customUrl,
+          baseUrl: action.baseUrl,
+          error: null
+        };
+        break;
+
+      case 'SET_TESTING':
+        this.environmentState = {
+          ...this.environmentState,
+          isTesting: action.isTesting
+        };
+        break;
+
+      case 'SET_ERROR':
+        this.environmentState = {
+          ...this.environmentState,
+          error: action.error
+        };
+        break;
+    }
+
+    this.notifyListeners();
+  }
+
+  getState(): EnvironmentState {
+    return { ...this.environmentState };
+  }
+
+  /**
+   * Aplica o ambiente salvo (chamado na inicialização do app, após o banco de dados)
+   */
+  async initialize(): Promise<void> {
+    const [savedEnvironment, savedCustomUrl] = await Promise.all([
+      SettingsModel.get(SETTING_KEYS.API_ENVIRONMENT),
+      SettingsModel.get(SETTING_KEYS.API_CUSTOM_URL)
+    ]);
+
+    const environment = (savedEnvironment.data as ApiEnvironmentId | null) || this.environmentState.environment;
+    const customUrl = savedCustomUrl.data || this.environmentState.customUrl;
+    const baseUrl = resolveEnvironmentUrl(environment, customUrl);
+
+    if (!baseUrl) {
+      console.warn(`[EnvironmentController] Ambiente salvo "${environment}" indisponível - mantendo o padrão`);
+      return;
+    }
+
+    ApiService.setBaseUrl(baseUrl);
+    this.dispatch({ type: 'SET_ENVIRONMENT', environment, customUrl, baseUrl });
+    console.log(`[EnvironmentController] Ambiente "${environment}" aplicado: ${baseUrl}`);
+  }
+
+  /**
+   * Ambientes disponíveis com a URL que cada um usaria
+   * @param customUrl - URL digitada para o ambiente personalizado
+   */
+  getEnvironmentOptions(customUrl?: string): EnvironmentOption[] {
+    return API_ENVIRONMENTS.map(environment => ({
+      ...environment,
+      url: resolveEnvironmentUrl(environment.id, customUrl ?? this.environmentState.customUrl)
+    }));
+  }
+
+  /**
+   * Troca de ambiente: testa a conexão e, se o backend responder, aplica e persiste
+   * Se a URL mudar, a sessão é encerrada: o JWT e o refresh token não valem no novo backend
+   * e os dados locais do backend anterior (fila, cache, avaliações pendentes) são descartados
+   * @returns true se o ambiente foi aplicado
+   */
+  async selectEnvironment(environment: ApiEnvironmentId, customUrl: string = ''): Promise<boolean> {
+    const baseUrl = resolveEnvironmentUrl(environment, customUrl);
+
+    if (!baseUrl) {
+      this.dispatch({
+        type: 'SET_ERROR',
+        error: environment === 'custom'
+          ? 'Informe uma URL válida (ex: http://192.168.0.10:3000/api)'
+          : 'Este ambiente não está configurado neste build'
+      });
+      return false;
+    }
+
+    this.dispatch({ type: 'SET_TESTING', isTesting: true });
+    this.dispatch({ type: 'SET_ERROR', error: null });
+
+    try {
+      const isReachable = await ApiService.testConnection(baseUrl);
+      if (!isReachable) {
+        this.dispatch({ type: 'SET_ERROR', error: `Não foi possível conectar a ${baseUrl}` });
+        return false;
+      }
+
+      if (baseUrl !== ApiService.getBaseUrl()) {
+        console.log('[EnvironmentController] Backend alterado - encerrando a sessão atual');
+        AuthController.getInstance().logout();
+        // Os IDs enfileirados e em cache pertencem ao backend anterior: nada deve ser reenviado ao novo
+        await Promise.all([
+          RequestController.getInstance().resetBackendData(),
+          EvaluationController.getInstance().discardUnsyncedHistory()
+        ]);
+      }
+
+      ApiService.setBaseUrl(baseUrl);
+      this.dispatch({ type: 'SET_ENVIRONMENT', environment, customUrl, baseUrl });
+
+      const saved = await SettingsModel.set(SETTING_KEYS.API_ENVIRONMENT, environment);
+      if (environment === 'custom') {
+        await SettingsModel.set(SETTING_KEYS.API_CUSTOM_URL, customUrl);
+      }
+      if (!saved.success) {
+        console.warn('[EnvironmentController] Ambiente aplicado, mas não foi salvo:', saved.error);
+      }
+
+      return true;
+    } finally {
+      this.dispatch({ type: 'SET_TESTING', isTesting: false });
+    }
+  }
+
+  clearError(): void {
+    this.dispatch({ type: 'SET_ERROR', error: null });
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Ambientes adicionais definidos por variáveis EXPO_PUBLIC_*
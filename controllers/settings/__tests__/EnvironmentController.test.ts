@@ -0,0 +1,98 @@
+/**
+ * EnvironmentController - Testes da troca de backend
+ *
+ * Ao trocar de URL, a sessão, a fila offline, o cache de solicitações e as avaliações
+ * não enviadas pertencem ao backend anterior e precisam ser descartados antes que o
+ * ApiService passe a apontar para o novo servidor.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mocks = vi.hoisted(() => {
+  const calls: string[] = [];
+  return {
+    calls,
+    baseUrl: 'http://antigo.local/api',
+    testConnection: vi.fn(async (_url?: string) => true),
+    logout: vi.fn(() => { calls.push('logout'); }),
+    resetBackendData: vi.fn(async () => { calls.push('resetBackendData'); }),
+    discardUnsyncedHistory: vi.fn(async () => { calls.push('discardUnsyncedHistory'); })
+  };
+});
+
+vi.mock('../../../services/ApiService', () => ({
+  default: {
+    getBaseUrl: () => mocks.baseUrl,
+    setBaseUrl: vi.fn((url: string) => {
+      mocks.calls.push('setBaseUrl');
+      mocks.baseUrl = url;
+    }),
+    testConnection: mocks.testConnection
+  }
+}));
+
+vi.mock('../../../models', () => ({
+  SETTING_KEYS: { API_ENVIRONMENT: 'api_environment', API_CUSTOM_URL: 'api_custom_url' },
+  SettingsModel: {
+    get: vi.fn(async () => ({ success: true, data: null })),
+    set: vi.fn(async () => ({ success: true }))
+  }
+}));
+
+vi.mock('../../../utils/getApiUrl', () => ({
+  API_ENVIRONMENTS: [],
+  getDefaultEnvironment: () => 'local',
+  resolveEnvironmentUrl: (_environment: string, customUrl?: string) => customUrl || null
+}));
+
+vi.mock('../../auth/AuthController', () => ({
+  AuthController: { getInstance: () => ({ logout: mocks.logout }) }
+}));
+
+vi.mock('../../request/RequestController', () => ({
+  RequestController: { getInstance: () => ({ resetBackendData: mocks.resetBackendData }) }
+}));
+
+vi.mock('../../evaluation/EvaluationController', () => ({
+  EvaluationController: { getInstance: () => ({ discardUnsyncedHistory: mocks.discardUnsyncedHistory }) }
+}));
+
+import { EnvironmentController } from '../EnvironmentController';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.calls.length = 0;
+  mocks.baseUrl = 'http://antigo.local/api';
+  mocks.testConnection.mockResolvedValue(true);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('EnvironmentController.selectEnvironment', () => {
+  it('descarta a sessão e os dados do backend anterior antes de aplicar a nova URL', async () => {
+    const applied = await EnvironmentController.getInstance().selectEnvironment('custom', 'http://novo.local/api');
+
+    expect(applied).toBe(true);
+    expect(mocks.baseUrl).toBe('http://novo.local/api');
+    expect(mocks.calls.indexOf('setBaseUrl')).toBe(mocks.calls.length - 1);
+    expect(mocks.calls).toEqual(expect.arrayContaining(['logout', 'resetBackendData', 'discardUnsyncedHistory']));
+  });
+
+  it('mantém os dados locais quando a URL não muda', async () => {
+    const applied = await EnvironmentController.getInstance().selectEnvironment('custom', 'http://antigo.local/api');
+
+    expect(applied).toBe(true);
+    expect(mocks.logout).not.toHaveBeenCalled();
+    expect(mocks.resetBackendData).not.toHaveBeenCalled();
+    expect(mocks.discardUnsyncedHistory).not.toHaveBeenCalled();
+  });
+
+  it('mantém os dados locais quando o novo backend não responde', async () => {
+    mocks.testConnection.mockResolvedValue(false);
+
+    const applied = await EnvironmentController.getInstance().selectEnvironment('custom', 'http://novo.local/api');
+
+    expect(applied).toBe(false);
+    expect(mocks.baseUrl).toBe('http://antigo.local/api');
+    expect(mocks.calls).toEqual([]);
+  });
+});
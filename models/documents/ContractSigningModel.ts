@@ -0,0 +1,367 @@
+/**
+ * ContractSigningModel - Assinatura do contrato com registro verificável
+ *
+ * Responsabilidades:
+ * - Montar o certificado de assinatura: SHA-256 do contrato exibido, data/hora,
+ *   signatário, dispositivo e imagem da assinatura
+ * - Carimbar a assinatura na última página do PDF (com o certificado gravado no arquivo)
+ * - Persistir o registro localmente e conferir depois se o contrato armazenado
+ *   ainda corresponde aos hashes registrados (neste dispositivo ou no backend)
+ *
+ * O carimbo é anexado ao final do PDF sem alterar os bytes originais: os primeiros
+ * documentSize bytes do contrato assinado são exatamente o documento exibido ao cliente.
+ */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { DatabaseService } from '../../services/DatabaseService';
+import { PdfStamper } from '../../utils/PdfStamper';
+import { PngImage } from '../../utils/PngImage';
+import { sha256Hex } from '../../utils/Sha256';
+import { DocumentModel, type GeneratedDocument } from './DocumentModel';
+import type { AccessibilityRequest } from '../request/RequestModel';
+import type { ContratoCertificadoDto } from '../../services/dto/ApiDtos';
+import type { WorkflowRole } from '../request/RequestWorkflow';
+
+export interface ContractSigner {
+  id?: number;
+  name: string;
+  email?: string;
+  role?: WorkflowRole;
+}
+
+export interface SigningDevice {
+  platform: string;
+  osVersion: string;
+  deviceName?: string;
+  appVersion?: string;
+}
+
+export interface SigningCertificate {
+  version: 1;
+  requestId: number;
+  contractId?: string;
+  documentName: string;
+  documentHash: string; // SHA-256 do contrato exibido ao cliente
+  documentSize: number; // Bytes do contrato exibido (prefixo do arquivo assinado)
+  signedAt: string; // ISO timestamp
+  signer: ContractSigner;
+  device: SigningDevice;
+  signatureImage: string; // Data URL PNG produzida pela tela de assinatura
+}
+
+/**
+ * Registro salvo no dispositivo de quem assinou
+ */
+export interface ContractSignatureRecord {
+  id?: number;
+  requestId: number;
+  solicitacaoId?: string; // ID no backend (chave estável; o requestId local pode colidir)
+  certificate: SigningCertificate;
+  signedDocumentHash: string; // SHA-256 do contrato assinado (com o carimbo)
+  signedDocumentUrl: string;
+  stamped: boolean; // false = o PDF não pôde ser carimbado; o contrato assinado é o original
+  signedAt: string;
+}
+
+/**
+ * Hashes registrados no backend no momento da assinatura
+ */
+export interface RegisteredSignature {
+  documentHash: string;
+  signedDocumentHash: string;
+}
+
+export interface SignatureCheck {
+  label: string;
+  passed: boolean;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  checks: SignatureCheck[];
+  certificate?: SigningCertificate;
+  documentUrl?: string;
+}
+
+export class ContractSigningModel {
+  private static db = DatabaseService.getInstance();
+
+  /**
+   * Assina o contrato exibido: calcula o hash, monta o certificado e carimba o PDF
+   * O registro retornado ainda não foi salvo (ver saveRecord), para receber a URL do envio
+   * @param signatureImage - Data URL PNG da tela de assinatura
+   */
+  static async signContract(
+    request: AccessibilityRequest,
+    signatureImage: string,
+    signer: ContractSigner
+  ): Promise<{ success: boolean; data?: { record: ContractSignatureRecord; document: GeneratedDocument }; error?: string }> {
+    try {
+      if (!request.contractFile?.url || request.contractFile.url === '#') {
+        return { success: false, error: 'O contrato ainda não está disponível para assinatura' };
+      }
+
+      const original = await DocumentModel.read(request.contractFile.url);
+      const certificate: SigningCertificate = {
+        version: 1,
+        requestId: request.id,
+        contractId: request._idContrato,
+        documentName: request.contractFile.name,
+        documentHash: sha256Hex(original),
+        documentSize: original.length,
+        signedAt: new Date().toISOString(),
+        signer,
+        device: this.getDeviceInfo(),
+        signatureImage
+      };
+
+      let signed = original;
+      let stamped = true;
+      try {
+        signed = PdfStamper.stamp(original, {
+          signature: PngImage.fromBase64(signatureImage).toInkMask(),
+          lines: this.getStampLines(certificate),
+          certificate
+        });
+      } catch (stampError) {
+        // O registro local continua valendo; o contrato assinado fica igual ao exibido
+        console.warn('[ContractSigningModel] Não foi possível carimbar a assinatura no PDF:', stampError);
+        stamped = false;
+      }
+
+      const baseName = request.contractFile.name.replace(/\.pdf$/i, '');
+      const document = await DocumentModel.save(`${baseName}-assinado.pdf`, signed);
+
+      return {
+        success: true,
+        data: {
+          record: {
+            requestId: request.id,
+            solicitacaoId: request._idSolicitacao,
+            certificate,
+            signedDocumentHash: sha256Hex(signed),
+            signedDocumentUrl: document.uri,
+            stamped,
+            signedAt: certificate.signedAt
+          },
+          document
+        }
+      };
+    } catch (error) {
+      console.error('[ContractSigningModel] Erro ao assinar contrato:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Salva o registro da assinatura no dispositivo
+   */
+  static async saveRecord(record: ContractSignatureRecord): Promise<{ success: boolean; data?: ContractSignatureRecord; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: record };
+      }
+
+      const result = await this.db.execute(`
+        INSERT INTO contract_signatures (request_id, solicitacao_id, certificate, signed_document_hash, signed_document_url, stamped, signed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [
+        record.requestId,
+        record.solicitacaoId || null,
+        JSON.stringify(record.certificate),
+        record.signedDocumentHash,
+        record.signedDocumentUrl,
+        record.stamped ? 1 : 0,
+        record.signedAt
+      ]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: { ...record, id: result.data?.lastInsertRowId } };
+    } catch (error) {
+      console.error('[ContractSigningModel] Erro ao salvar registro de assinatura:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Último registro de assinatura da solicitação neste dispositivo
+   * @param requestId - ID local da solicitação
+   * @param solicitacaoId - ID no backend; quando presente, só os registros sem ele usam o ID local
+   * @returns Registro ou null se o contrato não foi assinado aqui
+   */
+  static async getLatestRecord(
+    requestId: number,
+    solicitacaoId?: string
+  ): Promise<{ success: boolean; data?: ContractSignatureRecord | null; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: null };
+      }
+
+      const result = solicitacaoId
+        ? await this.db.getFirst(`
+            SELECT * FROM contract_signatures
+            WHERE solicitacao_id = ? OR (solicitacao_id IS NULL AND request_id = ?)
+            ORDER BY id DESC LIMIT 1
+          `, [solicitacaoId, requestId])
+        : await this.db.getFirst(`
+            SELECT * FROM contract_signatures WHERE request_id = ? AND solicitacao_id IS NULL ORDER BY id DESC LIMIT 1
+          `, [requestId]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: result.data ? this.mapRow(result.data) : null };
+    } catch (error) {
+      console.error('[ContractSigningModel] Erro ao buscar registro de assinatura:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Confere o contrato armazenado
+   * - Com o certificado gravado no PDF: o documento original (prefixo) deve ter o hash registrado
+   * - Com o registro do backend ou deste dispositivo: o arquivo inteiro deve ter o hash do contrato
+   *   assinado (conteúdo anexado depois do carimbo ou certificado regravado não passam)
+   * O certificado gravado no arquivo sozinho não basta: o arquivo poderia tê-lo regravado
+   * @param record - Registro local (ausente em quem não assinou, ex: o funcionário)
+   * @param registered - Hashes registrados no backend (ver fromBackendPayload)
+   */
+  static verify(
+    document: Uint8Array,
+    record?: ContractSignatureRecord | null,
+    registered?: RegisteredSignature | null
+  ): SignatureVerification {
+    const embedded = PdfStamper.readCertificate<SigningCertificate>(document);
+    const certificate = embedded || record?.certificate;
+    const checks: SignatureCheck[] = [];
+
+    if (!certificate) {
+      return {
+        valid: false,
+        checks: [{ label: 'Registro de assinatura encontrado', passed: false }]
+      };
+    }
+
+    const documentHash = sha256Hex(document);
+
+    if (embedded) {
+      const originalIntact = embedded.documentSize <= document.length
+        && sha256Hex(document.subarray(0, embedded.documentSize)) === embedded.documentHash;
+      checks.push({ label: 'Registro de assinatura gravado no contrato', passed: true });
+      checks.push({ label: 'Contrato original sem alterações (SHA-256)', passed: originalIntact });
+    }
+
+    if (registered) {
+      checks.push({ label: 'Arquivo idêntico ao registrado no servidor (SHA-256)', passed: documentHash === registered.signedDocumentHash });
+      checks.push({ label: 'Contrato original confere com o registrado no servidor', passed: certificate.documentHash === registered.documentHash });
+    }
+
+    if (record) {
+      checks.push({ label: 'Arquivo idêntico ao assinado neste dispositivo', passed: documentHash === record.signedDocumentHash });
+      if (embedded) {
+        checks.push({ label: 'Registro do contrato confere com o deste dispositivo', passed: embedded.documentHash === record.certificate.documentHash });
+      }
+    }
+
+    if (!registered && !record) {
+      checks.push({ label: 'Registro da assinatura disponível no servidor ou neste dispositivo', passed: false });
+    }
+
+    return { valid: checks.every(check => check.passed), checks, certificate };
+  }
+
+  /**
+   * Dados do certificado enviados ao backend junto com a assinatura
+   */
+  static toBackendPayload(record: ContractSignatureRecord) {
+    const { certificate } = record;
+    return {
+      hash_documento: certificate.documentHash,
+      tamanho_documento: certificate.documentSize,
+      hash_documento_assinado: record.signedDocumentHash,
+      nome_documento: certificate.documentName,
+      assinado_em: certificate.signedAt,
+      signatario: {
+        id: certificate.signer.id,
+        nome: certificate.signer.name,
+        email: certificate.signer.email,
+        perfil: certificate.signer.role
+      },
+      dispositivo: {
+        plataforma: certificate.device.platform,
+        versao_sistema: certificate.device.osVersion,
+        nome: certificate.device.deviceName,
+        versao_app: certificate.device.appVersion
+      },
+      carimbado: record.stamped
+    };
+  }
+
+  /**
+   * Hashes registrados no backend a partir do certificado enviado com a assinatura
+   * @returns null se o backend não devolveu os hashes
+   */
+  static fromBackendPayload(certificado?: ContratoCertificadoDto | null): RegisteredSignature | null {
+    if (!certificado?.hash_documento || !certificado.hash_documento_assinado) {
+      return null;
+    }
+    return {
+      documentHash: certificado.hash_documento,
+      signedDocumentHash: certificado.hash_documento_assinado
+    };
+  }
+
+  static getDeviceInfo(): SigningDevice {
+    return {
+      platform: Platform.OS,
+      osVersion: String(Platform.Version ?? ''),
+      deviceName: Constants.deviceName || undefined,
+      appVersion: Constants.expoConfig?.version || undefined
+    };
+  }
+
+  /**
+   * Identificação impressa sob a assinatura
+   */
+  private static getStampLines(certificate: SigningCertificate): string[] {
+    const signedAt = new Date(certificate.signedAt).toLocaleString('pt-BR');
+    const { device, signer } = certificate;
+    return [
+      `Assinado digitalmente por ${signer.name}${signer.email ? ` (${signer.email})` : ''}`,
+      `Em ${signedAt} - ${[device.deviceName, `${device.platform} ${device.osVersion}`].filter(Boolean).join(', ')}`,
+      `SHA-256 do contrato: ${certificate.documentHash.slice(0, 32)}`,
+      certificate.documentHash.slice(32)
+    ];
+  }
+
+  private static mapRow(row: any): ContractSignatureRecord {
+    return {
+      id: row.id,
+      requestId: Number(row.request_id),
+      solicitacaoId: row.solicitacao_id || undefined,
+      certificate: JSON.parse(row.certificate),
+      signedDocumentHash: row.signed_document_hash,
+      signedDocumentUrl: row.signed_document_url,
+      stamped: Boolean(Number(row.stamped)),
+      signedAt: row.signed_at
+    };
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Assinatura com certificado ICP-Brasil (PAdES)
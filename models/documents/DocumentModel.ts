@@ -0,0 +1,422 @@
+/**
+ * DocumentModel - Geração dos documentos da solicitação (orçamento e contrato) em PDF
+ *
+ * Responsabilidades:
+ * - Reunir os dados do documento: solicitação, cliente (getMyClient/getClientById),
+ *   pacote (getPackages), orçamento e dados da empresa (configurações)
+ * - Preencher os modelos (DocumentTemplates) e diagramar o PDF no dispositivo
+ * - Gravar o arquivo localmente para envio/anexo
+ * - Baixar e compartilhar os documentos abertos no visualizador
+ *
+ * Dados do backend são opcionais: sem conexão, o documento usa o que a solicitação já tem.
+ */
+
+import { Platform, Share } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import ApiService from '../../services/ApiService';
+import type { ClienteDto, PacoteDto } from '../../services/dto/ApiDtos';
+import { PdfWriter } from '../../utils/PdfWriter';
+import { TemplateEngine } from '../../utils/TemplateEngine';
+import { SettingsModel, SETTING_KEYS, type SettingKey } from '../settings/SettingsModel';
+import { QuoteModel, type Quote } from '../request/QuoteModel';
+import { QuoteRevisionModel } from '../request/QuoteRevisionModel';
+import type { AccessibilityRequest } from '../request/RequestModel';
+import type { WorkflowRole } from '../request/RequestWorkflow';
+import { QUOTE_TEMPLATE, CONTRACT_TEMPLATE } from './DocumentTemplates';
+
+export type DocumentType = 'quote' | 'contract';
+
+/**
+ * Dados disponíveis nos modelos (valores já formatados para exibição)
+ */
+export interface DocumentContext {
+  generatedAt: string;
+  company: { name: string; document: string; address: string; email: string; phone: string; contact: string };
+  client: { name: string; email: string; phone: string; contact: string };
+  request: { site: string; plan: string; createdAt: string };
+  package: { code: string; value: string };
+  issues: Array<{ text: string; priority: number }>;
+  quote?: {
+    items: Array<{ description: string; level: string; priority: string; quantity: number; unitPrice: string; total: string }>;
+    discounts: Array<{ label: string; value: string }>;
+    taxes: Array<{ label: string; value: string }>;
+    subtotal: string;
+    total: string;
+    issuedAt: string;
+    validUntil: string;
+    validityDays: number;
+    notes: string;
+    version: number;
+    revised: boolean; // Versão enviada após uma recusa do cliente
+  };
+  contract: { value: string; quoteReference: string }; // value vazio = valor ainda não conhecido
+}
+
+/**
+ * Arquivo PDF gravado no dispositivo (na web, também o blob)
+ */
+export interface GeneratedDocument {
+  name: string;
+  uri: string;
+  type: string;
+  blob?: Blob;
+}
+
+/**
+ * Documento aberto para visualização no app
+ */
+export interface LoadedDocument {
+  name: string;
+  bytes: Uint8Array;
+  url?: string; // Origem do arquivo (ausente na pré-visualização)
+  preview: boolean; // true = gerado a partir do modelo, sem arquivo anexado
+}
+
+export class DocumentModel {
+  private static api = ApiService;
+  private static readonly MIME_TYPE = 'application/pdf';
+  private static readonly DEFAULT_COMPANY_NAME = 'ADA Company';
+
+  private static readonly TEMPLATES: Record<DocumentType, { template: string; title: string; filePrefix: string }> = {
+    quote: { template: QUOTE_TEMPLATE, title: 'Orçamento', filePrefix: 'orcamento' },
+    contract: { template: CONTRACT_TEMPLATE, title: 'Contrato', filePrefix: 'contrato' },
+  };
+
+  /**
+   * Gera e grava o documento
+   * @param role - Papel do usuário logado (clientes buscam os próprios dados com getMyClient)
+   * @param quote - Orçamento montado no app (obrigatório para o documento do orçamento)
+   * @param quoteVersion - Versão do orçamento (padrão: a próxima a ser enviada)
+   */
+  static async generate(
+    type: DocumentType,
+    request: AccessibilityRequest,
+    options: { role?: WorkflowRole; quote?: Quote; quoteVersion?: number } = {}
+  ): Promise<{ success: boolean; data?: GeneratedDocument; error?: string }> {
+    try {
+      if (type === 'quote' && !options.quote) {
+        return { success: false, error: 'Monte o orçamento antes de gerar o documento' };
+      }
+
+      const context = await this.buildContext(request, options);
+      const pdf = this.render(type, context);
+      const date = (options.quote?.issuedAt || new Date()).toISOString().slice(0, 10);
+      const version = context.quote?.revised ? `-v${context.quote.version}` : '';
+      const document = await this.save(`${this.TEMPLATES[type].filePrefix}-${request.id}-${date}${version}.pdf`, pdf.toBytes());
+
+      return { success: true, data: document };
+    } catch (error) {
+      console.error('[DocumentModel] Erro ao gerar documento:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Reúne os dados do documento
+   */
+  static async buildContext(
+    request: AccessibilityRequest,
+    options: { role?: WorkflowRole; quote?: Quote; quoteVersion?: number } = {}
+  ): Promise<DocumentContext> {
+    const [company, client, pkg, budgetValue] = await Promise.all([
+      this.loadCompany(),
+      this.loadClient(request, options.role),
+      this.loadPackage(request),
+      options.quote ? Promise.resolve(options.quote.total) : this.loadBudgetValue(request),
+    ]);
+
+    const clientName = client?.nome_completo || client?.nome_razao_social || request.clientName;
+    const clientEmail = client?.email || '';
+    const clientPhone = client?.telefone || '';
+    const contractValue = budgetValue ?? pkg?.valor;
+    const quote = options.quote;
+    const quoteVersion = options.quoteVersion ?? QuoteRevisionModel.getNextVersion(request);
+
+    return {
+      generatedAt: new Date().toLocaleDateString('pt-BR'),
+      company: { ...company, contact: [company.address, company.email, company.phone].filter(Boolean).join(' - ') },
+      client: {
+        name: clientName,
+        email: clientEmail,
+        phone: clientPhone,
+        contact: [clientEmail, clientPhone].filter(Boolean).join(' - ')
+      },
+      request: {
+        site: request.site,
+        plan: request.plan,
+        createdAt: request.createdAt ? new Date(request.createdAt).toLocaleDateString('pt-BR') : ''
+      },
+      package: {
+        code: pkg ? String(pkg.cod_pacote || pkg.id || '') : '',
+        value: pkg?.valor !== undefined ? QuoteModel.formatCurrency(pkg.valor) : ''
+      },
+      issues: request.selectedIssues,
+      quote: quote && {
+        items: quote.items.map(item => ({
+          description: item.description,
+          level: item.level,
+          priority: item.priority > 0 ? String(item.priority) : '-',
+          quantity: item.quantity,
+          unitPrice: QuoteModel.formatCurrency(item.unitPrice),
+          total: QuoteModel.formatCurrency(QuoteModel.getItemTotal(item))
+        })),
+        discounts: quote.discounts.map(discount => ({
+          label: discount.type === 'percent' ? `${discount.label} (${discount.value}%)` : discount.label,
+          value: QuoteModel.formatCurrency(QuoteModel.getDiscountValue(discount, quote.subtotal))
+        })),
+        taxes: quote.taxes.map(tax => ({
+          label: `${tax.label} (${tax.rate}%)`,
+          value: QuoteModel.formatCurrency(QuoteModel.getTaxValue(tax, quote.subtotal - quote.discountTotal))
+        })),
+        subtotal: QuoteModel.formatCurrency(quote.subtotal),
+        total: QuoteModel.formatCurrency(quote.total),
+        issuedAt: quote.issuedAt.toLocaleDateString('pt-BR'),
+        validUntil: quote.validUntil.toLocaleDateString('pt-BR'),
+        validityDays: quote.validityDays,
+        notes: quote.notes?.trim() || '',
+        version: quoteVersion,
+        revised: quoteVersion > 1
+      },
+      contract: {
+        value: contractValue !== undefined ? QuoteModel.formatCurrency(contractValue) : '',
+        quoteReference: request._codOrcamento ? request._codOrcamento.slice(0, 8).toUpperCase() : ''
+      }
+    };
+  }
+
+  /**
+   * Preenche o modelo e diagrama o PDF
+   */
+  static render(type: DocumentType, context: DocumentContext): PdfWriter {
+    const { template, title } = this.TEMPLATES[type];
+    const markup = TemplateEngine.render(template, context as unknown as Record<string, unknown>);
+    const pdf = new PdfWriter({
+      title: `${title} - ${context.request.site}`,
+      author: context.company.name,
+      footer: `${context.company.name} - ${title} - ${context.request.site}`
+    });
+
+    markup.split('\n').forEach(rawLine => {
+      const line = rawLine.trim();
+      const bold = /^\*\*(.+)\*\*$/.exec(line);
+
+      if (!line) {
+        pdf.space(6);
+      } else if (line.startsWith('## ')) {
+        pdf.heading(line.slice(3), 2);
+      } else if (line.startsWith('# ')) {
+        pdf.heading(line.slice(2), 1);
+      } else if (line === '---') {
+        pdf.rule();
+      } else if (line.startsWith('- ')) {
+        pdf.bullet(line.slice(2));
+      } else if (line.length > 1 && line.startsWith('|') && line.endsWith('|')) {
+        const header = line.startsWith('|!');
+        pdf.row(line.slice(header ? 2 : 1, -1).split('|'), { font: header ? 'bold' : 'regular' });
+      } else if (bold) {
+        pdf.text(bold[1], { font: 'bold', size: 11 });
+      } else {
+        pdf.text(line);
+      }
+    });
+
+    return pdf;
+  }
+
+  /**
+   * Grava o PDF (cache no nativo; URL de objeto na web)
+   */
+  static async save(name: string, bytes: Uint8Array): Promise<GeneratedDocument> {
+    const type = this.MIME_TYPE;
+
+    if (Platform.OS === 'web') {
+      const blob = new Blob([bytes as BlobPart], { type });
+      return { name, uri: URL.createObjectURL(blob), type, blob };
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${name}`;
+    await FileSystem.writeAsStringAsync(uri, PdfWriter.bytesToBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+    return { name, uri, type };
+  }
+
+  /**
+   * Conteúdo de um documento local ou do backend
+   * @throws Error se o arquivo não puder ser lido
+   */
+  static async read(uri: string): Promise<Uint8Array> {
+    if (Platform.OS === 'web') {
+      const response = await fetch(uri);
+      if (!response.ok) {
+        throw new Error(`Não foi possível abrir o documento (${response.status})`);
+      }
+      return new Uint8Array(await response.arrayBuffer());
+    }
+
+    let localUri = uri;
+    if (/^https?:/i.test(uri)) {
+      const download = await FileSystem.downloadAsync(uri, `${FileSystem.cacheDirectory}documento-${Date.now()}.pdf`);
+      if (download.status !== 200) {
+        throw new Error(`Não foi possível baixar o documento (${download.status})`);
+      }
+      localUri = download.uri;
+    }
+
+    const base64 = await FileSystem.readAsStringAsync(localUri, { encoding: FileSystem.EncodingType.Base64 });
+    return PdfWriter.base64ToBytes(base64);
+  }
+
+  /**
+   * Baixa o documento para o aparelho
+   * Web: download do navegador; Android: pasta escolhida pelo usuário; iOS: pasta de documentos do app
+   * @returns Local onde o documento foi salvo
+   */
+  static async download(document: LoadedDocument): Promise<{ success: boolean; data?: string; error?: string }> {
+    try {
+      if (Platform.OS === 'web') {
+        const link = window.document.createElement('a');
+        link.href = URL.createObjectURL(new Blob([document.bytes as BlobPart], { type: this.MIME_TYPE }));
+        link.download = document.name;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+        return { success: true, data: 'Downloads' };
+      }
+
+      const base64 = PdfWriter.bytesToBase64(document.bytes);
+
+      if (Platform.OS === 'android') {
+        const { StorageAccessFramework } = FileSystem;
+        const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+        if (!permission.granted) {
+          return { success: false, error: 'Escolha uma pasta para salvar o documento' };
+        }
+        const uri = await StorageAccessFramework.createFileAsync(
+          permission.directoryUri,
+          document.name.replace(/\.pdf$/i, ''),
+          this.MIME_TYPE
+        );
+        await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+        return { success: true, data: 'pasta escolhida' };
+      }
+
+      const uri = `${FileSystem.documentDirectory}${document.name}`;
+      await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+      return { success: true, data: 'Arquivos > No meu iPhone' };
+    } catch (error) {
+      console.error('[DocumentModel] Erro ao baixar documento:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Compartilha o documento pelas opções do sistema
+   * No Android, apenas documentos com endereço no backend podem ser compartilhados (como link)
+   */
+  static async share(document: LoadedDocument): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (Platform.OS === 'web') {
+        const file = new File([document.bytes as BlobPart], document.name, { type: this.MIME_TYPE });
+        if (!navigator.canShare?.({ files: [file] })) {
+          return { success: false, error: 'O navegador não permite compartilhar arquivos. Baixe o documento para enviá-lo.' };
+        }
+        await navigator.share({ files: [file], title: document.name });
+        return { success: true };
+      }
+
+      if (Platform.OS === 'ios') {
+        const saved = await this.save(document.name, document.bytes);
+        await Share.share({ url: saved.uri, title: document.name });
+        return { success: true };
+      }
+
+      if (!document.url || !/^https?:/i.test(document.url)) {
+        return { success: false, error: 'Este documento está apenas no aparelho. Baixe-o para compartilhar.' };
+      }
+      await Share.share({ message: `${document.name}: ${document.url}`, title: document.name });
+      return { success: true };
+    } catch (error) {
+      console.error('[DocumentModel] Erro ao compartilhar documento:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  private static async loadCompany(): Promise<Omit<DocumentContext['company'], 'contact'>> {
+    const read = async (key: SettingKey) => (await SettingsModel.get(key)).data?.trim() || '';
+    const [name, document, address, email, phone] = await Promise.all([
+      read(SETTING_KEYS.COMPANY_NAME),
+      read(SETTING_KEYS.COMPANY_DOCUMENT),
+      read(SETTING_KEYS.COMPANY_ADDRESS),
+      read(SETTING_KEYS.COMPANY_EMAIL),
+      read(SETTING_KEYS.COMPANY_PHONE),
+    ]);
+
+    return { name: name || this.DEFAULT_COMPANY_NAME, document, address, email, phone };
+  }
+
+  private static async loadClient(request: AccessibilityRequest, role?: WorkflowRole): Promise<ClienteDto | null> {
+    try {
+      if (role === 'client') {
+        const response = await this.api.getMyClient();
+        return response.success ? response.data || null : null;
+      }
+      if (request._idCliente !== undefined) {
+        const response = await this.api.getClientById(request._idCliente);
+        return response.success ? response.data || null : null;
+      }
+    } catch (error) {
+      console.warn('[DocumentModel] Dados do cliente indisponíveis:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Pacote do plano da solicitação (de preferência o do próprio cliente)
+   */
+  private static async loadPackage(request: AccessibilityRequest): Promise<PacoteDto | null> {
+    try {
+      const response = await this.api.getPackages();
+      if (!response.success || !response.data) {
+        return null;
+      }
+
+      const samePlan = response.data.filter(pkg => pkg.tipo_pacote?.toUpperCase() === request.plan);
+      const clientPackage = request._idCliente !== undefined
+        ? samePlan.find(pkg => (pkg.cliente?.id_cliente ?? pkg.cliente?.id) === request._idCliente)
+        : undefined;
+      return clientPackage || samePlan[0] || null;
+    } catch (error) {
+      console.warn('[DocumentModel] Pacotes indisponíveis:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Valor do orçamento já criado para a solicitação (usado no contrato)
+   */
+  private static async loadBudgetValue(request: AccessibilityRequest): Promise<number | undefined> {
+    if (!request._codOrcamento) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.api.getBudgets();
+      const budget = response.data?.find(item => (item.cod_orcamento || item.id) === request._codOrcamento);
+      return budget?.valor;
+    } catch (error) {
+      console.warn('[DocumentModel] Orçamentos indisponíveis:', error);
+      return undefined;
+    }
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Pré-visualização do documento antes do envio
+// - Logotipo da empresa no cabeçalho
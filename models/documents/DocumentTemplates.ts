@@ -0,0 +1,72 @@
+/**
+ * DocumentTemplates - Modelos do orçamento e do contrato
+ *
+ * Os modelos usam a sintaxe do TemplateEngine e uma marcação por linha,
+ * interpretada pelo DocumentModel ao diagramar o PDF:
+ * - "# " título, "## " subtítulo, "- " item de lista
+ * - "|a|b|c|" linha de tabela ("|!" no início = cabeçalho em negrito)
+ * - "**texto**" parágrafo em negrito, "---" linha divisória
+ * - linha vazia = espaço; demais linhas = parágrafo
+ *
+ * Linhas opcionais levam a quebra de linha dentro do {{#if}}, para não deixar espaços vazios.
+ */
+
+export const QUOTE_TEMPLATE = `# Orçamento de Acessibilidade Digital
+{{#if quote.revised}}Versão {{quote.version}} - revisão do orçamento anterior
+{{/if}}**{{company.name}}**
+{{#if company.document}}CNPJ {{company.document}}
+{{/if}}{{#if company.contact}}{{company.contact}}
+{{/if}}---
+## Cliente
+**{{client.name}}**
+{{#if client.contact}}{{client.contact}}
+{{/if}}Site avaliado: {{request.site}}
+Plano: WCAG {{request.plan}}{{#if package.code}} (pacote {{package.code}}){{/if}}
+
+## Detalhamento
+|!Item|Nível|Prioridade|Qtd.|Valor unit.|Total|
+{{#each quote.items}}|{{description}}|{{level}}|{{priority}}|{{quantity}}|{{unitPrice}}|{{total}}|
+{{/each}}|Subtotal|||||{{quote.subtotal}}|
+{{#each quote.discounts}}|Desconto: {{label}}|||||- {{value}}|
+{{/each}}{{#each quote.taxes}}|{{label}}|||||{{value}}|
+{{/each}}|!Total|||||{{quote.total}}|
+
+Emitido em {{quote.issuedAt}}. Válido até {{quote.validUntil}} ({{quote.validityDays}} dias).
+{{#if quote.notes}}
+## Observações
+{{quote.notes}}
+{{/if}}`;
+
+export const CONTRACT_TEMPLATE = `# Contrato de Prestação de Serviços de Acessibilidade Digital
+Gerado em {{generatedAt}}
+---
+## Partes
+CONTRATADA: {{company.name}}{{#if company.document}}, CNPJ {{company.document}}{{/if}}{{#if company.address}}, com sede em {{company.address}}{{/if}}.
+CONTRATANTE: {{client.name}}{{#if client.email}}, e-mail {{client.email}}{{/if}}.
+
+## Cláusula 1 - Objeto
+A CONTRATADA prestará serviços de adequação do site {{request.site}} ao nível {{request.plan}} das Diretrizes de Acessibilidade para Conteúdo Web (WCAG 2.2){{#if package.code}}, conforme o pacote {{package.code}}{{/if}}.
+{{#if issues}}O escopo inclui a correção dos problemas identificados na avaliação:
+{{#each issues}}- {{text}}
+{{/each}}{{/if}}
+## Cláusula 2 - Valor
+Pelos serviços, a CONTRATANTE pagará à CONTRATADA {{#if contract.value}}o valor de {{contract.value}}{{else}}o valor do orçamento aprovado{{/if}}{{#if contract.quoteReference}}, conforme o orçamento {{contract.quoteReference}}{{/if}}.
+
+## Cláusula 3 - Execução
+Os serviços terão início após a assinatura deste contrato. O andamento poderá ser acompanhado pelo aplicativo, e uma nova avaliação de acessibilidade será entregue ao final.
+
+## Cláusula 4 - Obrigações da contratante
+A CONTRATANTE fornecerá os acessos necessários ao site e responderá às solicitações da CONTRATADA em tempo hábil.
+
+## Cláusula 5 - Rescisão
+Este contrato poderá ser rescindido por qualquer das partes mediante aviso prévio por escrito de 30 dias, sendo devidos os serviços já executados.
+
+## Cláusula 6 - Assinatura eletrônica
+As partes reconhecem a validade da assinatura eletrônica realizada pelo aplicativo, nos termos da MP 2.200-2/2001.
+---
+|!Contratada|Contratante|
+|{{company.name}}|{{client.name}}|`;
+
+// EXPANSÃO FUTURA:
+// - Modelos editáveis pela empresa (salvos nas configurações)
+// - Versões dos modelos por tipo de pacote
@@ -0,0 +1,287 @@
+/**
+ * EvaluationHistoryModel - Modelo do histórico de avaliações de acessibilidade
+ *
+ * Responsabilidades:
+ * - Persistir localmente cada resultado do Lighthouse via DatabaseService
+ * - Controlar quais avaliações ainda não foram enviadas ao backend (apenas as do provedor
+ *   'api' e de relatórios importados; as de teste ficam só no dispositivo)
+ * - Agrupar as avaliações por site para exibição no histórico
+ * - Montar a evolução da nota por site e detectar regressões de auditorias
+ * - Converter avaliações para o formato do backend
+ */
+
+import { DatabaseService } from '../../services/DatabaseService';
+import { EvaluationModel, type EvaluationResult, type EvaluationIssue, type PageEvaluation } from './EvaluationModel';
+import type { EvaluationProviderId } from './providers/EvaluationProvider';
+import { RequestHistoryModel, type RequestHistoryEvent } from '../request/RequestHistoryModel';
+import type { AccessibilityRequest } from '../request/RequestModel';
+
+/**
+ * Origem da avaliação: provedor usado ou relatório importado
+ */
+export type EvaluationSource = EvaluationProviderId | 'import';
+
+export interface EvaluationHistoryEntry extends EvaluationResult {
+  id?: number;
+  provider?: EvaluationSource; // Ausente em avaliações anteriores à v9 do banco
+  remoteId?: string; // ID da avaliação no backend (após sincronizar)
+  syncedAt?: string; // ISO timestamp; ausente = pendente de envio
+}
+
+export interface EvaluationSiteGroup {
+  site: string; // Domínio usado no agrupamento (ex: exemplo.com)
+  latest: EvaluationHistoryEntry;
+  evaluations: EvaluationHistoryEntry[]; // Mais recentes primeiro
+}
+
+export interface EvaluationTrendPoint {
+  entry: EvaluationHistoryEntry;
+  regressions: string[]; // Auditorias corrigidas em avaliações anteriores que voltaram a reprovar
+}
+
+export interface ProjectCompletionMarker {
+  requestId: number;
+  plan: 'A' | 'AA' | 'AAA';
+  completedAt: Date;
+}
+
+export class EvaluationHistoryModel {
+  private static db = DatabaseService.getInstance();
+
+  /**
+   * Salva o resultado de uma avaliação no histórico local
+   * @param ownerKey - Identificador do cliente dono do histórico (ex: email)
+   * @param result - Resultado da avaliação
+   * @param provider - Origem da avaliação (define se ela pode ser enviada ao backend)
+   * @returns Avaliação salva com ID (sem ID se o banco não estiver disponível)
+   */
+  static async saveEvaluation(
+    ownerKey: string,
+    result: EvaluationResult,
+    provider: EvaluationSource
+  ): Promise<{ success: boolean; data?: EvaluationHistoryEntry; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        // Sem banco disponível a avaliação ainda é exibida na sessão atual
+        return { success: true, data: { ...result, provider } };
+      }
+
+      const dbResult = await this.db.execute(`
+        INSERT INTO evaluations (owner_key, site_url, score, issues, evaluated_at, failed_audits, pages, provider)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        ownerKey,
+        result.siteUrl,
+        result.score,
+        JSON.stringify(result.issues),
+        result.evaluatedAt.toISOString(),
+        result.failedAuditIds ? JSON.stringify(result.failedAuditIds) : null,
+        result.pages ? JSON.stringify(result.pages) : null,
+        provider
+      ]);
+
+      if (!dbResult.success) {
+        return { success: false, error: dbResult.error };
+      }
+
+      return { success: true, data: { ...result, id: dbResult.data?.lastInsertRowId, provider } };
+    } catch (error) {
+      console.error('[EvaluationHistoryModel] Erro ao salvar avaliação:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Busca o histórico de avaliações do cliente, das mais recentes para as mais antigas
+   * @param ownerKey - Identificador do cliente dono do histórico (ex: email)
+   */
+  static async getHistory(ownerKey: string): Promise<{ success: boolean; data?: EvaluationHistoryEntry[]; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: [] };
+      }
+
+      const result = await this.db.query(`
+        SELECT * FROM evaluations WHERE owner_key = ? ORDER BY evaluated_at DESC, id DESC
+      `, [ownerKey]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: (result.data || []).map((row: any) => this.mapRow(row)) };
+    } catch (error) {
+      console.error('[EvaluationHistoryModel] Erro ao buscar histórico:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Verifica se a avaliação pode ser enviada ao backend
+   * Apenas avaliações reais (provedor 'api') e relatórios importados; as de origem
+   * desconhecida (anteriores à v9 do banco) também ficam só no dispositivo
+   */
+  static isSyncable(entry: EvaluationHistoryEntry): boolean {
+    return entry.provider === 'api' || entry.provider === 'import';
+  }
+
+  /**
+   * Marca uma avaliação como enviada ao backend
+   * @param id - ID local da avaliação
+   * @param remoteId - ID retornado pelo backend (se houver)
+   * @returns Data/hora da sincronização
+   */
+  static async markSynced(id: number, remoteId?: string): Promise<{ success: boolean; data?: string; error?: string }> {
+    const syncedAt = new Date().toISOString();
+
+    const result = await this.db.execute(`
+      UPDATE evaluations SET remote_id = ?, synced_at = ?, updated_at = ? WHERE id = ?
+    `, [remoteId || null, syncedAt, syncedAt, id]);
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return { success: true, data: syncedAt };
+  }
+
+  /**
+   * Remove as avaliações que ainda seriam enviadas ao backend (ver isSyncable)
+   * Usado na troca de backend: não devem ser enviadas ao novo servidor
+   */
+  static async deleteUnsynced(): Promise<{ success: boolean; error?: string }> {
+    if (!this.db.isReady()) {
+      return { success: true };
+    }
+
+    const result = await this.db.execute(`
+      DELETE FROM evaluations WHERE synced_at IS NULL AND provider IN ('api', 'import')
+    `);
+
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Agrupa as avaliações por site (domínio), com os sites avaliados mais recentemente primeiro
+   * @param history - Avaliações ordenadas das mais recentes para as mais antigas
+   */
+  static groupBySite(history: EvaluationHistoryEntry[]): EvaluationSiteGroup[] {
+    const groups = new Map<string, EvaluationHistoryEntry[]>();
+
+    history.forEach(entry => {
+      const site = EvaluationModel.formatUrl(entry.siteUrl);
+      groups.set(site, [...(groups.get(site) || []), entry]);
+    });
+
+    return Array.from(groups.entries()).map(([site, evaluations]) => ({
+      site,
+      latest: evaluations[0],
+      evaluations
+    }));
+  }
+
+  /**
+   * Evolução da nota de um site em ordem cronológica, com as regressões de cada avaliação
+   *
+   * Uma regressão é uma auditoria que reprovou em alguma avaliação, passou na avaliação
+   * anterior e voltou a reprovar. Avaliações sem a lista de auditorias (simuladas ou
+   * anteriores à v6 do banco) não entram na comparação.
+   * @param evaluations - Avaliações de um mesmo site
+   */
+  static getTrend(evaluations: EvaluationHistoryEntry[]): EvaluationTrendPoint[] {
+    const chronological = [...evaluations].sort((a, b) => a.evaluatedAt.getTime() - b.evaluatedAt.getTime());
+    const everFailed = new Set<string>();
+    let previousFailed: Set<string> | null = null;
+
+    return chronological.map(entry => {
+      if (!entry.failedAuditIds) {
+        return { entry, regressions: [] };
+      }
+
+      const previous = previousFailed;
+      const regressions = previous
+        ? entry.failedAuditIds.filter(id => !previous.has(id) && everFailed.has(id))
+        : [];
+
+      entry.failedAuditIds.forEach(id => everFailed.add(id));
+      previousFailed = new Set(entry.failedAuditIds);
+      return { entry, regressions };
+    });
+  }
+
+  /**
+   * Projetos concluídos para o site (marcados no gráfico de evolução)
+   * @param site - Domínio do site (EvaluationSiteGroup.site)
+   * @param requests - Solicitações do cliente
+   * @param history - Eventos de auditoria já carregados, por solicitação
+   */
+  static getCompletionMarkers(
+    site: string,
+    requests: AccessibilityRequest[],
+    history: Record<number, RequestHistoryEvent[]>
+  ): ProjectCompletionMarker[] {
+    return requests
+      .filter(request => request.status === 'Completed' && EvaluationModel.formatUrl(request.site) === site)
+      .map(request => {
+        // Sem o evento de conclusão no histórico, a última atualização é a melhor aproximação
+        const completedAt = RequestHistoryModel.getStatusReachedAt(history[request.id] || [], 'Completed');
+        return {
+          requestId: request.id,
+          plan: request.plan,
+          completedAt: completedAt ? new Date(completedAt) : request.updatedAt || new Date()
+        };
+      })
+      .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+  }
+
+  /**
+   * Converte a avaliação para o formato esperado pelo backend
+   */
+  static toBackendPayload(entry: EvaluationResult) {
+    return {
+      site: entry.siteUrl,
+      nota: entry.score,
+      problemas: entry.issues.map(issue => ({ id: issue.id, texto: issue.text })),
+      auditorias_reprovadas: entry.failedAuditIds,
+      paginas: entry.pages?.map(page => ({ url: page.url, nota: page.score, erro: page.error })),
+      data_avaliacao: entry.evaluatedAt.toISOString()
+    };
+  }
+
+  private static mapRow(row: any): EvaluationHistoryEntry {
+    let issues: EvaluationIssue[] = [];
+    let failedAuditIds: string[] | undefined;
+    let pages: PageEvaluation[] | undefined;
+    try {
+      issues = typeof row.issues === 'string' ? JSON.parse(row.issues) : row.issues || [];
+      failedAuditIds = row.failed_audits ? JSON.parse(row.failed_audits) : undefined;
+      pages = row.pages ? JSON.parse(row.pages) : undefined;
+    } catch {
+      issues = [];
+    }
+
+    return {
+      id: row.id,
+      siteUrl: row.site_url,
+      score: Number(row.score),
+      issues,
+      evaluatedAt: new Date(row.evaluated_at),
+      failedAuditIds,
+      pages,
+      provider: row.provider || undefined,
+      remoteId: row.remote_id || undefined,
+      syncedAt: row.synced_at || undefined
+    };
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Importar avaliações feitas pelo cliente em outros dispositivos
+// - Limite de avaliações guardadas por site
+// - Exclusão de avaliações pelo cliente
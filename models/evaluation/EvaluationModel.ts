@@ -3,19 +3,47 @@
  * 
  * Responsabilidades:
  * - Gerenciar dados de avaliações de sites
- * - Integração com API Lighthouse para avaliação real
- * - Definir critérios WCAG
+ * - Avaliar sites pela fonte selecionada (API Lighthouse, relatórios gravados ou simulação)
+ * - Relacionar os problemas encontrados aos critérios WCAG (ver WcagCatalog)
  * - Calcular pontuações e sugestões de planos
  * - Regras de negócio para avaliações
  */
 
-import ApiService from '../../services/ApiService';
+import { WcagCatalog, type WcagCriterion, type WcagPrinciple } from './WcagCatalog';
+import {
+  getDefaultEvaluationProvider,
+  type EvaluationProvider,
+  type EvaluationProviderId
+} from './providers/EvaluationProvider';
+import { ApiEvaluationProvider } from './providers/ApiEvaluationProvider';
+import { FixtureEvaluationProvider } from './providers/FixtureEvaluationProvider';
+import { SimulatedEvaluationProvider } from './providers/SimulatedEvaluationProvider';
+
+export type IssueImpact = 'minor' | 'moderate' | 'serious' | 'critical';
 
 export interface EvaluationIssue {
   id: string;
   text: string;
   priority?: number;
   type?: 'issue' | 'wcag';
+  // Detalhes da auditoria do Lighthouse (ausentes em avaliações simuladas e itens do checklist)
+  description?: string; // Texto sem os links markdown (ver docLinks)
+  impact?: IssueImpact;
+  nodes?: AffectedNode[];
+  docLinks?: IssueLink[];
+  wcagCriteria?: string[]; // Critérios de sucesso, ex: '1.4.3'
+}
+
+export interface AffectedNode {
+  selector?: string;
+  snippet?: string; // Trecho do HTML
+  label?: string; // Texto/rótulo do elemento
+  explanation?: string; // Como corrigir este elemento
+}
+
+export interface IssueLink {
+  label: string;
+  url: string;
 }
 
 export interface EvaluationResult {
@@ -23,291 +51,287 @@ export interface EvaluationResult {
   issues: EvaluationIssue[];
   siteUrl: string;
   evaluatedAt: Date;
+  failedAuditIds?: string[]; // Todas as auditorias reprovadas no Lighthouse (ausente em avaliações simuladas)
+  pages?: PageEvaluation[]; // Avaliação por página (apenas no modo de várias páginas)
+}
+
+export interface PageEvaluation {
+  url: string;
+  score?: number; // Ausente se a página não pôde ser avaliada
+  issues: EvaluationIssue[];
+  failedAuditIds?: string[];
+  error?: string;
+}
+
+export interface AuditChange {
+  id: string; // ID da auditoria do Lighthouse
+  text: string;
+}
+
+export interface EvaluationComparison {
+  previous: EvaluationResult;
+  current: EvaluationResult;
+  scoreDelta: number; // Positivo = melhorou
+  fixed: AuditChange[]; // Reprovadas antes, aprovadas agora
+  newlyFailing: AuditChange[]; // Aprovadas antes, reprovadas agora
+  stillFailing: AuditChange[];
+  isPartial: boolean; // true se alguma avaliação não tem a lista completa de auditorias
 }
 
 export interface WCAGItem {
   id: string;
   text: string;
   level: 'A' | 'AA' | 'AAA';
+  criterion: string; // Número do critério de sucesso, ex: '1.4.3'
+  principle: WcagPrinciple;
+}
+
+export interface PlanCoverage {
+  level: 'A' | 'AA' | 'AAA';
+  covered: WCAGItem[]; // Critérios reprovados no site que o plano corrige
+  notCovered: WCAGItem[]; // Critérios reprovados de nível acima do plano
+  totalCriteria: number; // Critérios exigidos pelo nível do plano
 }
 
 export interface AccessibilityPlan {
   level: 'A' | 'AA' | 'AAA';
   description: string;
   wcagItems: WCAGItem[];
+  rationale: string; // Por que o plano foi sugerido (exibido ao cliente)
+  recommended: boolean; // Plano mais indicado entre os sugeridos
+}
+
+/**
+ * Obrigação legal de acessibilidade declarada pelo cliente
+ * - lbi: Lei Brasileira de Inclusão (empresas com sede ou representação no Brasil)
+ * - emag: Modelo de Acessibilidade em Governo Eletrônico (órgãos públicos)
+ */
+export type LegalObligation = 'none' | 'lbi' | 'emag';
+
+export interface LegalObligationInfo {
+  id: LegalObligation;
+  label: string;
+  minimumLevel: 'A' | 'AA' | 'AAA' | null; // Nível WCAG mínimo exigido
+  reference: string; // Norma citada na justificativa dos planos, ex: 'pela LBI'
+}
+
+export interface PlanSuggestionContext {
+  legalObligation?: LegalObligation;
+  pageCount?: number; // Tamanho do site (padrão: páginas avaliadas)
 }
 
 export class EvaluationModel {
-  private static api = ApiService;
-  private static USE_API = true; // Flag para controlar uso da API
-  
-  // Critérios WCAG por nível
-  private static readonly WCAG_ITEMS: Record<string, WCAGItem[]> = {
-    A: [
-      { id: 'wcag-a-1', text: 'Navegação total via teclado', level: 'A' },
-      { id: 'wcag-a-2', text: 'Legendas em vídeos pré-gravados', level: 'A' },
-      { id: 'wcag-a-3', text: 'Controles de áudio visíveis', level: 'A' },
-      { id: 'wcag-a-4', text: 'Não usar apenas cor para transmitir informação', level: 'A' },
-    ],
-    AA: [
-      { id: 'wcag-aa-1', text: 'Contraste de cor mínimo (4.5:1)', level: 'AA' },
-      { id: 'wcag-aa-2', text: 'Audiodescrição em vídeos pré-gravados', level: 'AA' },
-      { id: 'wcag-aa-3', text: 'Texto redimensionável até 200%', level: 'AA' },
-      { id: 'wcag-aa-4', text: 'Múltiplas formas de encontrar páginas', level: 'AA' },
-    ],
-    AAA: [
-      { id: 'wcag-aaa-1', text: 'Contraste de cor aprimorado (7:1)', level: 'AAA' },
-      { id: 'wcag-aaa-2', text: 'Interpretação em LIBRAS para vídeos', level: 'AAA' },
-      { id: 'wcag-aaa-3', text: 'Justificativa para links fora de contexto', level: 'AAA' },
-      { id: 'wcag-aaa-4', text: 'Sem limite de tempo para interações', level: 'AAA' },
-    ]
+  private static provider: EvaluationProvider = EvaluationModel.createProvider(getDefaultEvaluationProvider());
+
+  private static readonly PLAN_LEVELS: ReadonlyArray<'A' | 'AA' | 'AAA'> = ['A', 'AA', 'AAA'];
+  private static readonly PLAN_DESCRIPTIONS: Record<'A' | 'AA' | 'AAA', string> = {
+    A: 'Correções básicas de acessibilidade',
+    AA: 'Correções intermediárias de acessibilidade',
+    AAA: 'Correções avançadas de acessibilidade'
   };
+  private static readonly LARGE_SITE_PAGES = 10; // A partir de quantas páginas o site é considerado grande
+  private static readonly HIGH_PRIORITY = 4; // Prioridade média (1-5) considerada grave
 
-  // Problemas comuns encontrados em avaliações
-  private static readonly COMMON_ISSUES: EvaluationIssue[] = [
-    { id: 'issue-1', text: 'Contraste de texto baixo', type: 'issue' },
-    { id: 'issue-2', text: 'Imagens sem texto alternativo', type: 'issue' },
-    { id: 'issue-3', text: 'Links sem descrição clara', type: 'issue' },
-    { id: 'issue-4', text: 'Campos de formulário sem rótulo', type: 'issue' },
-    { id: 'issue-5', text: 'Falta de navegação por teclado', type: 'issue' },
-    { id: 'issue-6', text: 'Vídeos sem legendas', type: 'issue' },
-    { id: 'issue-7', text: 'Conteúdo que pisca ou pisca muito rápido', type: 'issue' },
-    { id: 'issue-8', text: 'Estrutura de cabeçalhos inadequada', type: 'issue' },
-  ];
+  private static readonly LEGAL_OBLIGATIONS: Record<LegalObligation, LegalObligationInfo> = {
+    none: { id: 'none', label: 'Nenhuma', minimumLevel: null, reference: '' },
+    lbi: { id: 'lbi', label: 'LBI (empresa)', minimumLevel: 'AA', reference: 'pela LBI (Lei 13.146/2015, art. 63)' },
+    emag: { id: 'emag', label: 'eMAG (órgão público)', minimumLevel: 'AA', reference: 'pelo eMAG 3.1 (órgãos públicos)' }
+  };
 
   /**
-   * Avalia acessibilidade de um site usando Lighthouse API
+   * Avalia acessibilidade de um site com o provedor selecionado (ver setProvider)
    * @param siteUrl - URL do site a ser avaliado
    * @returns Promise com resultado da avaliação
    */
   static async evaluateSite(siteUrl: string): Promise<EvaluationResult> {
     try {
-      // Tentar usar a API primeiro
-      if (this.USE_API) {
-        try {
-          const apiResponse = await this.api.analyzeSiteAccessibility(siteUrl);
-
-          if (apiResponse.success && apiResponse.data) {
-            const lighthouseData = apiResponse.data;
-            
-            // Verificar se recebemos dados no formato do backend (notaAcessibilidade)
-            if (lighthouseData.notaAcessibilidade !== undefined) {
-              const score = Math.round(lighthouseData.notaAcessibilidade);
-              
-              // Extrair problemas das auditorias reprovadas
-              const issues: EvaluationIssue[] = [];
-              
-              // Processar auditorias reprovadas (score = 0)
-              if (lighthouseData.reprovadas && Array.isArray(lighthouseData.reprovadas)) {
-                lighthouseData.reprovadas.forEach((audit: any) => {
-                  if (audit.title) {
-                    issues.push({
-                      id: audit.id || `reprovada-${issues.length}`,
-                      text: audit.title,
-                      type: 'issue',
-                      priority: 5 // Máxima prioridade para reprovadas
-                    });
-                  }
-                });
-              }
-              
-              // Processar auditorias manuais (necessitam verificação manual)
-              if (lighthouseData.manuais && Array.isArray(lighthouseData.manuais)) {
-                lighthouseData.manuais.slice(0, 3).forEach((audit: any) => {
-                  if (audit.title) {
-                    issues.push({
-                      id: audit.id || `manual-${issues.length}`,
-                      text: `[Verificação Manual] ${audit.title}`,
-                      type: 'issue',
-                      priority: 3 // Prioridade média para manuais
-                    });
-                  }
-                });
-              }
-
-              // Limitar a 10 issues mais críticos
-              const topIssues = issues
-                .sort((a, b) => (b.priority || 0) - (a.priority || 0))
-                .slice(0, 10);
-
-              // Log resumido apenas (sem dados completos)
-              console.log(`[EvaluationModel] ✅ Avaliação concluída: ${score}% de acessibilidade`);
-              
-              return {
-                score,
-                issues: topIssues.length > 0 ? topIssues : this.getRandomIssues(),
-                siteUrl,
-                evaluatedAt: new Date()
-              };
-            }
-            
-            // Formato antigo/alternativo da API (mantido para retrocompatibilidade)
-            if (lighthouseData.accessibility !== undefined) {
-              const score = Math.round((lighthouseData.accessibility || 0) * 100);
-              
-              const issues: EvaluationIssue[] = [];
-              const audits = lighthouseData.audits || {};
-              
-              Object.entries(audits).forEach(([key, audit]: [string, any]) => {
-                if (audit.score !== null && audit.score < 1 && audit.title) {
-                  issues.push({
-                    id: key,
-                    text: audit.title,
-                    type: 'issue',
-                    priority: audit.score === 0 ? 5 : Math.ceil((1 - audit.score) * 5)
-                  });
-                }
-              });
-
-              const topIssues = issues
-                .sort((a, b) => (b.priority || 0) - (a.priority || 0))
-                .slice(0, 10);
-
-              console.log(`[EvaluationModel] Avaliação concluída: ${score}% de acessibilidade`);
-              
-              return {
-                score,
-                issues: topIssues.length > 0 ? topIssues : this.getRandomIssues(),
-                siteUrl,
-                evaluatedAt: new Date()
-              };
-            }
-          }
-          
-          // Se chegou aqui, temos um erro da API
-          if (!apiResponse.success) {
-            const errorMsg = apiResponse.error || 'Erro desconhecido';
-            console.error('[EvaluationModel] ❌ Erro da API:', errorMsg);
-            console.error('[EvaluationModel] Status Code:', apiResponse.statusCode);
-            
-            // Transformar mensagem técnica em mensagem amigável ao usuário
-            const friendlyMessage = this.getFriendlyErrorMessage(errorMsg);
-            throw new Error(friendlyMessage);
-          }
-          
-          console.warn('[EvaluationModel] ⚠️ Resposta da API em formato não reconhecido');
-          throw new Error('Resposta da API em formato não reconhecido');
-        } catch (apiError) {
-          console.error('[EvaluationModel] ❌ Erro ao avaliar site:', apiError);
-          
-          // Transformar mensagem técnica em mensagem amigável
-          const errorMessage = apiError instanceof Error ? apiError.message : String(apiError);
-          const friendlyMessage = this.getFriendlyErrorMessage(errorMessage);
-          
-          // Re-lançar o erro com mensagem amigável
-          throw new Error(friendlyMessage);
-        }
-      }
-
-      // Fallback: Simular avaliação (somente se USE_API for false)
-      console.log('[EvaluationModel] ⚠️ Modo API desativado, usando simulação...');
-      return this.simulateEvaluation(siteUrl);
+      return await this.provider.evaluate(siteUrl);
     } catch (error) {
-      console.error('[EvaluationModel] ❌ Erro fatal ao avaliar site:', error);
-      // Re-lançar o erro para ser tratado pelo controlador
-      throw error;
+      console.error('[EvaluationModel] ❌ Erro ao avaliar site:', error);
+
+      // Transformar mensagem técnica em mensagem amigável e re-lançar para o controlador
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(this.getFriendlyErrorMessage(errorMessage));
     }
   }
 
   /**
-   * Simula avaliação de um site (fallback)
-   * @param siteUrl - URL do site a ser avaliado
-   * @returns Resultado da avaliação simulada
+   * Obtém critérios WCAG por nível
+   * @param level - Nível WCAG ('A', 'AA', 'AAA')
+   * @returns Critérios de sucesso exigidos pelo nível (AA inclui A, AAA inclui A e AA)
    */
-  private static async simulateEvaluation(siteUrl: string): Promise<EvaluationResult> {
-    console.log('[EvaluationModel] Usando avaliação simulada...');
-    
-    // Simula delay de rede
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // Gera score aleatório entre 30-95
-    const score = Math.floor(Math.random() * (95 - 30 + 1)) + 30;
-    
-    // Seleciona problemas aleatórios
-    const selectedIssues = this.getRandomIssues();
-
-    return {
-      score,
-      issues: selectedIssues,
-      siteUrl,
-      evaluatedAt: new Date()
-    };
+  static getWCAGItems(level: 'A' | 'AA' | 'AAA'): WCAGItem[] {
+    return WcagCatalog.getByLevel(level).map(criterion => this.toWCAGItem(criterion));
   }
 
   /**
-   * Obtém problemas aleatórios para simulação
+   * Obtém todos os critérios WCAG, agrupados pelo nível de cada critério
    */
-  private static getRandomIssues(): EvaluationIssue[] {
-    const numIssues = Math.floor(Math.random() * 4) + 1; // 1-4 problemas
-    const shuffledIssues = [...this.COMMON_ISSUES].sort(() => 0.5 - Math.random());
-    return shuffledIssues.slice(0, numIssues);
+  static getAllWCAGItems(): Record<string, WCAGItem[]> {
+    const items: Record<string, WCAGItem[]> = { A: [], AA: [], AAA: [] };
+    WcagCatalog.getAll().forEach(criterion => items[criterion.level].push(this.toWCAGItem(criterion)));
+    return items;
   }
 
   /**
-   * Obtém critérios WCAG por nível
-   * @param level - Nível WCAG ('A', 'AA', 'AAA')
-   * @returns Lista de critérios WCAG
+   * Critérios WCAG reprovados pelo site (ver WcagCatalog.getFailingCriteria)
+   * @param issues - Problemas encontrados na avaliação
+   * @param failedAuditIds - Todas as auditorias reprovadas, se disponíveis
    */
-  static getWCAGItems(level: 'A' | 'AA' | 'AAA'): WCAGItem[] {
-    if (level === 'A') {
-      return [...this.WCAG_ITEMS.A];
-    } else if (level === 'AA') {
-      return [...this.WCAG_ITEMS.A, ...this.WCAG_ITEMS.AA];
-    } else if (level === 'AAA') {
-      return [...this.WCAG_ITEMS.A, ...this.WCAG_ITEMS.AA, ...this.WCAG_ITEMS.AAA];
-    }
-    return [];
+  static getFailingCriteria(issues: EvaluationIssue[], failedAuditIds?: string[]): WCAGItem[] {
+    return WcagCatalog.getFailingCriteria(issues, failedAuditIds).map(criterion => this.toWCAGItem(criterion));
   }
 
   /**
-   * Obtém todos os critérios WCAG
+   * O que um plano cobre dos critérios reprovados pelo site
+   * @param issues - Problemas encontrados na avaliação
+   * @param planLevel - Nível do plano
+   * @param failedAuditIds - Todas as auditorias reprovadas, se disponíveis
    */
-  static getAllWCAGItems(): Record<string, WCAGItem[]> {
-    return { ...this.WCAG_ITEMS };
+  static getPlanCoverage(
+    issues: EvaluationIssue[],
+    planLevel: 'A' | 'AA' | 'AAA',
+    failedAuditIds?: string[]
+  ): PlanCoverage {
+    const failing = WcagCatalog.getFailingCriteria(issues, failedAuditIds);
+
+    return {
+      level: planLevel,
+      covered: failing
+        .filter(criterion => WcagCatalog.isWithinLevel(criterion, planLevel))
+        .map(criterion => this.toWCAGItem(criterion)),
+      notCovered: failing
+        .filter(criterion => !WcagCatalog.isWithinLevel(criterion, planLevel))
+        .map(criterion => this.toWCAGItem(criterion)),
+      totalCriteria: WcagCatalog.getByLevel(planLevel).length
+    };
+  }
+
+  private static toWCAGItem(criterion: WcagCriterion): WCAGItem {
+    return {
+      id: `wcag-${criterion.number}`,
+      text: `${criterion.number} ${criterion.name}`,
+      level: criterion.level,
+      criterion: criterion.number,
+      principle: criterion.principle
+    };
   }
 
   /**
-   * Sugere planos baseado na pontuação da avaliação
-   * @param score - Pontuação da avaliação (0-100)
-   * @returns Lista de planos sugeridos
+   * Sugere planos a partir dos níveis dos critérios WCAG reprovados
+   *
+   * - Só são sugeridos planos a partir do menor nível com critérios reprovados
+   *   (um plano abaixo dele não corrigiria nada) e do nível exigido pela obrigação legal
+   * - O recomendado é o que corrige todos os critérios reprovados até o nível AA; em sites
+   *   grandes com problemas graves e sem obrigação legal, o nível A é recomendado como primeira etapa
+   * - Sem critérios reprovados identificados (ex: avaliação sem detalhes), a nota define os planos
+   * @param evaluation - Resultado da avaliação
+   * @param context - Obrigação legal e tamanho do site
+   * @returns Lista de planos sugeridos, do menor para o maior nível
    */
-  static suggestPlans(score: number): AccessibilityPlan[] {
-    const suggestions: AccessibilityPlan[] = [];
-
-    if (score < 70) {
-      // Site com muitos problemas - sugere todos os planos
-      suggestions.push(
-        { level: 'A', description: 'Correções básicas de acessibilidade', wcagItems: this.getWCAGItems('A') },
-        { level: 'AA', description: 'Correções intermediárias de acessibilidade', wcagItems: this.getWCAGItems('AA') },
-        { level: 'AAA', description: 'Correções avançadas de acessibilidade', wcagItems: this.getWCAGItems('AAA') }
-      );
-    } else if (score >= 70 && score < 90) {
-      // Site com problemas moderados - sugere planos AA e AAA
-      suggestions.push(
-        { level: 'AA', description: 'Correções intermediárias de acessibilidade', wcagItems: this.getWCAGItems('AA') },
-        { level: 'AAA', description: 'Correções avançadas de acessibilidade', wcagItems: this.getWCAGItems('AAA') }
-      );
-    } else {
-      // Site com poucos problemas - sugere apenas AAA
-      suggestions.push(
-        { level: 'AAA', description: 'Correções avançadas de acessibilidade', wcagItems: this.getWCAGItems('AAA') }
-      );
+  static suggestPlans(evaluation: EvaluationResult, context: PlanSuggestionContext = {}): AccessibilityPlan[] {
+    const failing = WcagCatalog.getFailingCriteria(evaluation.issues, evaluation.failedAuditIds);
+    const failingByLevel = (level: 'A' | 'AA' | 'AAA') => failing.filter(criterion => criterion.level === level).length;
+    const averagePriority = this.calculateAveragePriority(evaluation.issues);
+    const pageCount = context.pageCount ?? evaluation.pages?.length ?? 1;
+    const obligation = this.getLegalObligation(context.legalObligation);
+
+    const lowestFailing = this.PLAN_LEVELS.find(level => failingByLevel(level) > 0);
+    const highestFailing = [...this.PLAN_LEVELS].reverse().find(level => failingByLevel(level) > 0);
+    const lowestByScore = evaluation.score < 70 ? 'A' : evaluation.score < 90 ? 'AA' : 'AAA';
+
+    const minimumLevel = this.maxLevel(lowestFailing || lowestByScore, obligation.minimumLevel);
+
+    // AAA não é exigido como requisito geral: só é o alvo se apenas critérios AAA foram reprovados
+    let recommendedLevel = highestFailing
+      ? (highestFailing === 'AAA' && lowestFailing !== 'AAA' ? 'AA' : highestFailing)
+      : lowestByScore;
+    const isFirstStage = !obligation.minimumLevel
+      && failingByLevel('A') > 0
+      && pageCount >= this.LARGE_SITE_PAGES
+      && averagePriority >= this.HIGH_PRIORITY;
+    if (isFirstStage) {
+      recommendedLevel = 'A';
     }
+    recommendedLevel = this.maxLevel(recommendedLevel, minimumLevel);
+
+    return this.PLAN_LEVELS
+      .filter(level => this.PLAN_LEVELS.indexOf(level) >= this.PLAN_LEVELS.indexOf(minimumLevel))
+      .map(level => {
+        const covered = failing.filter(criterion => WcagCatalog.isWithinLevel(criterion, level)).length;
+        const reasons: string[] = [];
+
+        if (failing.length > 0) {
+          const notCovered = failing.length - covered;
+          reasons.push(
+            `Corrige ${covered} de ${failing.length} critério(s) WCAG reprovado(s)` +
+            (notCovered > 0 ? `; ${notCovered} de nível mais alto fica(m) de fora.` : '.')
+          );
+        } else {
+          reasons.push(`Nenhum critério WCAG reprovado foi identificado automaticamente; sugerido pela nota ${evaluation.score}%.`);
+        }
+
+        if (obligation.minimumLevel && this.maxLevel(level, obligation.minimumLevel) === level) {
+          reasons.push(`Atende ao nível ${obligation.minimumLevel} exigido ${obligation.reference}.`);
+        }
+
+        if (level === recommendedLevel) {
+          reasons.push(isFirstStage
+            ? `Recomendado como primeira etapa: ${pageCount} páginas com problemas de prioridade média ${averagePriority}/5.`
+            : `Recomendado${averagePriority > 0 ? ` (prioridade média dos problemas: ${averagePriority}/5)` : ''}.`);
+        } else if (level === 'AAA') {
+          reasons.push('Vai além da conformidade normalmente exigida.');
+        }
+
+        return {
+          level,
+          description: this.PLAN_DESCRIPTIONS[level],
+          wcagItems: this.getWCAGItems(level),
+          rationale: reasons.join(' '),
+          recommended: level === recommendedLevel
+        };
+      });
+  }
+
+  /**
+   * Obrigações legais que o cliente pode declarar
+   */
+  static getLegalObligations(): LegalObligationInfo[] {
+    return Object.values(this.LEGAL_OBLIGATIONS);
+  }
+
+  static getLegalObligation(id: LegalObligation = 'none'): LegalObligationInfo {
+    return this.LEGAL_OBLIGATIONS[id] || this.LEGAL_OBLIGATIONS.none;
+  }
+
+  static isLegalObligation(value: unknown): value is LegalObligation {
+    return typeof value === 'string' && value in this.LEGAL_OBLIGATIONS;
+  }
 
-    return suggestions;
+  private static maxLevel(level: 'A' | 'AA' | 'AAA', other: 'A' | 'AA' | 'AAA' | null): 'A' | 'AA' | 'AAA' {
+    return other && this.PLAN_LEVELS.indexOf(other) > this.PLAN_LEVELS.indexOf(level) ? other : level;
   }
 
   /**
    * Cria checklist combinado de problemas e critérios WCAG
+   * Os critérios são apenas os reprovados pelo site que o plano cobre
    * @param issues - Problemas encontrados na avaliação
    * @param planLevel - Nível do plano selecionado
+   * @param failedAuditIds - Todas as auditorias reprovadas, se disponíveis
    * @returns Checklist combinado
    */
-  static createChecklist(issues: EvaluationIssue[], planLevel: 'A' | 'AA' | 'AAA'): Record<string, EvaluationIssue> {
-    const wcagItems = this.getWCAGItems(planLevel);
-    const combined = [
-      ...issues.map(issue => ({ ...issue, type: 'issue' as const })),
-      ...wcagItems.map(wcag => ({ ...wcag, type: 'wcag' as const }))
+  static createChecklist(
+    issues: EvaluationIssue[],
+    planLevel: 'A' | 'AA' | 'AAA',
+    failedAuditIds?: string[]
+  ): Record<string, EvaluationIssue> {
+    const { covered } = this.getPlanCoverage(issues, planLevel, failedAuditIds);
+    const combined: EvaluationIssue[] = [
+      ...issues.map(issue => {
+        const criteria = WcagCatalog.getCriteriaForIssue(issue).map(criterion => criterion.number);
+        return { ...issue, type: 'issue' as const, wcagCriteria: criteria.length > 0 ? criteria : undefined };
+      }),
+      ...covered.map(wcag => ({ id: wcag.id, text: wcag.text, type: 'wcag' as const, wcagCriteria: [wcag.criterion] }))
     ];
 
     const checklist: Record<string, EvaluationIssue> = {};
@@ -319,6 +343,34 @@ export class EvaluationModel {
     return checklist;
   }
 
+  /**
+   * Compara duas avaliações do mesmo site pelas auditorias reprovadas
+   *
+   * Avaliações sem failedAuditIds (simuladas ou antigas) são comparadas pelos IDs dos
+   * problemas exibidos, que são apenas os mais críticos; nesse caso isPartial é true.
+   * @param previous - Avaliação anterior
+   * @param current - Avaliação mais recente
+   */
+  static compareEvaluations(previous: EvaluationResult, current: EvaluationResult): EvaluationComparison {
+    const previousIds = new Set(previous.failedAuditIds || previous.issues.map(issue => issue.id));
+    const currentIds = new Set(current.failedAuditIds || current.issues.map(issue => issue.id));
+
+    // Título mais recente de cada auditoria; sem título, o ID é exibido
+    const texts = new Map<string, string>();
+    [...previous.issues, ...current.issues].forEach(issue => texts.set(issue.id, issue.text));
+    const toChange = (id: string): AuditChange => ({ id, text: texts.get(id) || id });
+
+    return {
+      previous,
+      current,
+      scoreDelta: current.score - previous.score,
+      fixed: [...previousIds].filter(id => !currentIds.has(id)).map(toChange),
+      newlyFailing: [...currentIds].filter(id => !previousIds.has(id)).map(toChange),
+      stillFailing: [...currentIds].filter(id => previousIds.has(id)).map(toChange),
+      isPartial: !previous.failedAuditIds || !current.failedAuditIds
+    };
+  }
+
   /**
    * Calcula prioridade média dos itens selecionados
    * @param selectedIssues - Itens selecionados com prioridades
@@ -427,18 +479,38 @@ export class EvaluationModel {
   }
 
   /**
-   * Define se deve usar API ou avaliação simulada
+   * Seleciona a fonte das avaliações
+   * @param providerId - 'api', 'fixture' ou 'simulated'
+   * @param seed - Semente da simulação (apenas para 'simulated')
+   */
+  static setProvider(providerId: EvaluationProviderId, seed?: number): void {
+    this.provider = this.createProvider(providerId, seed);
+    console.log(`[EvaluationModel] Fonte das avaliações: ${providerId}`);
+  }
+
+  /**
+   * Fonte das avaliações em uso
    */
-  static setUseApi(useApi: boolean): void {
-    this.USE_API = useApi;
-    console.log(`[EvaluationModel] Modo de operação: ${useApi ? 'API Lighthouse' : 'Avaliação simulada'}`);
+  static getProviderId(): EvaluationProviderId {
+    return this.provider.id;
   }
 
   /**
-   * Verifica se está usando API
+   * Verifica se está usando API (avaliações de teste não são enviadas ao backend)
    */
   static isUsingApi(): boolean {
-    return this.USE_API;
+    return this.provider.id === 'api';
+  }
+
+  private static createProvider(providerId: EvaluationProviderId, seed?: number): EvaluationProvider {
+    switch (providerId) {
+      case 'fixture':
+        return new FixtureEvaluationProvider();
+      case 'simulated':
+        return new SimulatedEvaluationProvider(seed);
+      case 'api':
+        return new ApiEvaluationProvider();
+    }
   }
 }
 
@@ -448,7 +520,6 @@ export class EvaluationModel {
 // - Detecção automática de problemas
 // - Relatórios detalhados em PDF
 // - Comparação com benchmarks
-// - Histórico de avaliações
 // - Integração com APIs de acessibilidade
 
 
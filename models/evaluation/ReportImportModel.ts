@@ -0,0 +1,87 @@
+/**
+ * ReportImportModel - Importação de relatórios de acessibilidade a partir de arquivo
+ *
+ * Responsabilidades:
+ * - Ler o conteúdo do arquivo escolhido pelo usuário (web e nativo)
+ * - Converter relatórios JSON do Lighthouse ou do axe-core em EvaluationResult
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { ReportImportMapper } from '../mappers/ReportImportMapper';
+import type { EvaluationResult } from './EvaluationModel';
+
+/**
+ * Arquivo escolhido pelo usuário (subconjunto de DocumentPickerAsset)
+ */
+export interface ReportFile {
+  name: string;
+  uri: string;
+  file?: File; // Disponível apenas na web
+}
+
+export class ReportImportModel {
+  /**
+   * Lê e converte o relatório
+   * @throws Error com mensagem amigável se o arquivo não puder ser lido ou não for reconhecido
+   */
+  static async importFile(file: ReportFile): Promise<EvaluationResult> {
+    let content: string;
+    try {
+      content = await this.readFile(file);
+    } catch (error) {
+      console.error('[ReportImportModel] Erro ao ler arquivo:', error);
+      throw new Error(`Não foi possível ler o arquivo "${file.name}".`);
+    }
+
+    return this.parse(content, file.name);
+  }
+
+  /**
+   * Converte o conteúdo JSON de um relatório
+   * @param fileName - Usado apenas nas mensagens de erro
+   */
+  static parse(content: string, fileName: string = 'relatório'): EvaluationResult {
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch {
+      throw new Error(`O arquivo "${fileName}" não é um JSON válido.`);
+    }
+
+    const format = ReportImportMapper.detectFormat(json);
+    if (!format) {
+      throw new Error(
+        `O arquivo "${fileName}" não é um relatório reconhecido. Use um relatório JSON do Lighthouse ou um resultado do axe-core.`
+      );
+    }
+
+    const result = ReportImportMapper.fromJson(json);
+    if (!result) {
+      throw new Error(
+        format === 'lighthouse'
+          ? 'O relatório do Lighthouse não contém a categoria de acessibilidade.'
+          : 'O resultado do axe-core não informa a URL avaliada.'
+      );
+    }
+
+    console.log(`[ReportImportModel] Relatório (${format}) importado: ${result.siteUrl} - ${result.score}%`);
+    return result;
+  }
+
+  private static async readFile(file: ReportFile): Promise<string> {
+    if (Platform.OS === 'web') {
+      if (file.file) {
+        return file.file.text();
+      }
+      const response = await fetch(file.uri);
+      return response.text();
+    }
+
+    return FileSystem.readAsStringAsync(file.uri);
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Importar relatórios HTML do Lighthouse (JSON embutido em window.__LIGHTHOUSE_JSON__)
+// - Importar relatórios de vários sites de uma vez (lista do @axe-core/cli)
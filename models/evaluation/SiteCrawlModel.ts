@@ -0,0 +1,232 @@
+/**
+ * SiteCrawlModel - Avaliação de várias páginas de um mesmo site
+ *
+ * Responsabilidades:
+ * - Montar a lista de páginas a partir do sitemap.xml ou de caminhos informados pelo cliente
+ * - Avaliar cada página via EvaluationModel com concorrência limitada
+ * - Informar o progresso da avaliação
+ * - Agregar os resultados em uma nota do site com o detalhamento por página
+ */
+
+import { EvaluationModel, type EvaluationResult, type EvaluationIssue, type PageEvaluation } from './EvaluationModel';
+
+export type CrawlSource =
+  | { type: 'sitemap'; sitemapUrl?: string } // Padrão: <origem>/sitemap.xml
+  | { type: 'paths'; paths: string[] }; // Caminhos (/checkout) ou URLs completas do mesmo site
+
+export interface CrawlProgress {
+  completed: number;
+  total: number;
+  failed: number;
+  currentUrls: string[]; // Páginas em avaliação no momento
+}
+
+export interface CrawlOptions {
+  concurrency?: number;
+  onProgress?: (progress: CrawlProgress) => void;
+}
+
+export class SiteCrawlModel {
+  static readonly MAX_PAGES = 20;
+  private static readonly DEFAULT_CONCURRENCY = 2; // Cada página é um Lighthouse completo no backend
+  private static readonly MAX_CHILD_SITEMAPS = 5;
+  private static readonly SITEMAP_TIMEOUT = 15000;
+
+  /**
+   * Monta a lista de páginas a avaliar (a página inicial é sempre a primeira)
+   * @param startUrl - URL inicial do site
+   * @param source - Origem das demais páginas
+   * @returns URLs do mesmo site, sem repetições, limitadas a MAX_PAGES
+   */
+  static async resolvePages(startUrl: string, source: CrawlSource): Promise<string[]> {
+    const origin = new URL(startUrl).origin;
+    let candidates: string[];
+
+    if (source.type === 'paths') {
+      candidates = source.paths
+        .map(path => path.trim())
+        .filter(path => path.length > 0)
+        .map(path => this.resolveUrl(path, startUrl))
+        .filter((url): url is string => !!url);
+    } else {
+      candidates = await this.fetchSitemapPages(source.sitemapUrl || `${origin}/sitemap.xml`);
+    }
+
+    const pages = [startUrl, ...candidates]
+      .map(url => this.normalizeUrl(url))
+      .filter(url => new URL(url).origin === origin);
+
+    return Array.from(new Set(pages)).slice(0, this.MAX_PAGES);
+  }
+
+  /**
+   * Avalia as páginas com concorrência limitada e agrega o resultado
+   * @param startUrl - URL inicial (usada como URL do site no resultado)
+   * @param urls - Páginas a avaliar (ver resolvePages)
+   * @throws Error se nenhuma página puder ser avaliada
+   */
+  static async crawl(startUrl: string, urls: string[], options: CrawlOptions = {}): Promise<EvaluationResult> {
+    const concurrency = Math.max(1, Math.min(options.concurrency || this.DEFAULT_CONCURRENCY, urls.length));
+    const pages: PageEvaluation[] = new Array(urls.length);
+    const currentUrls = new Set<string>();
+    let nextIndex = 0;
+    let completed = 0;
+    let failed = 0;
+
+    const reportProgress = () => {
+      options.onProgress?.({ completed, total: urls.length, failed, currentUrls: Array.from(currentUrls) });
+    };
+
+    // Cada worker pega a próxima página da fila até esvaziá-la
+    const worker = async () => {
+      while (nextIndex < urls.length) {
+        const index = nextIndex++;
+        const url = urls[index];
+        currentUrls.add(url);
+        reportProgress();
+
+        try {
+          const result = await EvaluationModel.evaluateSite(url);
+          pages[index] = { url, score: result.score, issues: result.issues, failedAuditIds: result.failedAuditIds };
+        } catch (error) {
+          failed++;
+          pages[index] = { url, issues: [], error: error instanceof Error ? error.message : 'Erro ao avaliar página' };
+        }
+
+        currentUrls.delete(url);
+        completed++;
+        reportProgress();
+      }
+    };
+
+    reportProgress();
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+
+    return this.aggregate(startUrl, pages);
+  }
+
+  /**
+   * Extrai as URLs de um sitemap.xml (<urlset>) e os sitemaps filhos de um índice (<sitemapindex>)
+   */
+  static parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+    const locs = (block: string) =>
+      Array.from(xml.matchAll(new RegExp(`<${block}>[\\s\\S]*?<loc>\\s*([^<\\s]+)\\s*</loc>[\\s\\S]*?</${block}>`, 'gi')))
+        .map(match => this.decodeXml(match[1]));
+
+    return { pages: locs('url'), sitemaps: locs('sitemap') };
+  }
+
+  /**
+   * Nota do site = média das notas das páginas avaliadas; problemas iguais em várias
+   * páginas são agrupados e ordenados por criticidade e frequência
+   */
+  private static aggregate(startUrl: string, pages: PageEvaluation[]): EvaluationResult {
+    const evaluated = pages.filter((page): page is PageEvaluation & { score: number } => page.score !== undefined);
+    if (evaluated.length === 0) {
+      throw new Error(pages[0]?.error || 'Nenhuma página pôde ser avaliada');
+    }
+
+    const score = Math.round(evaluated.reduce((sum, page) => sum + page.score, 0) / evaluated.length);
+
+    const issueCounts = new Map<string, { issue: EvaluationIssue; pages: number }>();
+    evaluated.forEach(page => {
+      page.issues.forEach(issue => {
+        const current = issueCounts.get(issue.id);
+        issueCounts.set(issue.id, {
+          issue: current && (current.issue.priority || 0) >= (issue.priority || 0) ? current.issue : issue,
+          pages: (current?.pages || 0) + 1
+        });
+      });
+    });
+
+    const issues = Array.from(issueCounts.values())
+      .sort((a, b) => (b.issue.priority || 0) - (a.issue.priority || 0) || b.pages - a.pages)
+      .map(({ issue, pages: count }) => (count > 1 ? { ...issue, text: `${issue.text} (em ${count} páginas)` } : issue));
+
+    // Lista completa de auditorias só existe se todas as páginas avaliadas a trouxeram
+    const failedAuditIds = evaluated.every(page => page.failedAuditIds)
+      ? Array.from(new Set(evaluated.flatMap(page => page.failedAuditIds!)))
+      : undefined;
+
+    return {
+      score,
+      issues,
+      siteUrl: startUrl,
+      evaluatedAt: new Date(),
+      failedAuditIds,
+      pages
+    };
+  }
+
+  /**
+   * Busca as páginas do sitemap, seguindo um nível de sitemaps filhos
+   */
+  private static async fetchSitemapPages(sitemapUrl: string): Promise<string[]> {
+    const root = this.parseSitemap(await this.fetchText(sitemapUrl));
+    const pages = [...root.pages];
+
+    for (const childUrl of root.sitemaps.slice(0, this.MAX_CHILD_SITEMAPS)) {
+      if (pages.length >= this.MAX_PAGES) break;
+      try {
+        pages.push(...this.parseSitemap(await this.fetchText(childUrl)).pages);
+      } catch (error) {
+        console.warn(`[SiteCrawlModel] Sitemap ${childUrl} ignorado:`, error);
+      }
+    }
+
+    if (pages.length === 0) {
+      throw new Error('Nenhuma página encontrada no sitemap.xml. Informe os caminhos manualmente.');
+    }
+
+    return pages;
+  }
+
+  private static async fetchText(url: string): Promise<string> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.SITEMAP_TIMEOUT);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.text();
+    } catch (error) {
+      console.warn(`[SiteCrawlModel] Erro ao buscar ${url}:`, error);
+      throw new Error('Não foi possível ler o sitemap.xml do site. Informe os caminhos manualmente.');
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private static resolveUrl(path: string, baseUrl: string): string | null {
+    try {
+      return new URL(path, baseUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remove fragmento (#...) para não avaliar a mesma página duas vezes
+   */
+  private static normalizeUrl(url: string): string {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString();
+  }
+
+  private static decodeXml(value: string): string {
+    return value
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'");
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Cancelamento de uma avaliação em andamento
+// - Descoberta de páginas seguindo os links da página inicial
+// - Peso por página na nota do site (ex: checkout vale mais que a home)
@@ -0,0 +1,283 @@
+/**
+ * WcagCatalog - Catálogo dos critérios de sucesso da WCAG 2.2
+ *
+ * Responsabilidades:
+ * - Listar todos os critérios de sucesso (número, nome, nível e princípio)
+ * - Mapear as auditorias do Lighthouse/axe para os critérios que elas verificam
+ * - Identificar os critérios reprovados por uma avaliação
+ *
+ * O critério 4.1.1 (Análise) foi removido na WCAG 2.2 e não faz parte do catálogo.
+ */
+
+import type { EvaluationIssue } from './EvaluationModel';
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export type WcagPrinciple = 'perceivable' | 'operable' | 'understandable' | 'robust';
+
+export interface WcagCriterion {
+  number: string; // Ex: '1.4.3'
+  name: string;
+  level: WcagLevel;
+  principle: WcagPrinciple;
+}
+
+export class WcagCatalog {
+  static readonly PRINCIPLE_NAMES: Record<WcagPrinciple, string> = {
+    perceivable: 'Perceptível',
+    operable: 'Operável',
+    understandable: 'Compreensível',
+    robust: 'Robusto',
+  };
+
+  private static readonly LEVEL_ORDER: Record<WcagLevel, number> = { A: 1, AA: 2, AAA: 3 };
+
+  private static readonly CRITERIA: WcagCriterion[] = [
+    // 1. Perceptível
+    { number: '1.1.1', name: 'Conteúdo Não Textual', level: 'A', principle: 'perceivable' },
+    { number: '1.2.1', name: 'Apenas Áudio e Apenas Vídeo (Pré-gravado)', level: 'A', principle: 'perceivable' },
+    { number: '1.2.2', name: 'Legendas (Pré-gravadas)', level: 'A', principle: 'perceivable' },
+    { number: '1.2.3', name: 'Audiodescrição ou Mídia Alternativa (Pré-gravada)', level: 'A', principle: 'perceivable' },
+    { number: '1.2.4', name: 'Legendas (Ao Vivo)', level: 'AA', principle: 'perceivable' },
+    { number: '1.2.5', name: 'Audiodescrição (Pré-gravada)', level: 'AA', principle: 'perceivable' },
+    { number: '1.2.6', name: 'Língua de Sinais (Pré-gravada)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.2.7', name: 'Audiodescrição Estendida (Pré-gravada)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.2.8', name: 'Mídia Alternativa (Pré-gravada)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.2.9', name: 'Apenas Áudio (Ao Vivo)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.3.1', name: 'Informações e Relações', level: 'A', principle: 'perceivable' },
+    { number: '1.3.2', name: 'Sequência Significativa', level: 'A', principle: 'perceivable' },
+    { number: '1.3.3', name: 'Características Sensoriais', level: 'A', principle: 'perceivable' },
+    { number: '1.3.4', name: 'Orientação', level: 'AA', principle: 'perceivable' },
+    { number: '1.3.5', name: 'Identificar o Propósito de Entrada', level: 'AA', principle: 'perceivable' },
+    { number: '1.3.6', name: 'Identificar o Propósito', level: 'AAA', principle: 'perceivable' },
+    { number: '1.4.1', name: 'Uso de Cor', level: 'A', principle: 'perceivable' },
+    { number: '1.4.2', name: 'Controle de Áudio', level: 'A', principle: 'perceivable' },
+    { number: '1.4.3', name: 'Contraste (Mínimo)', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.4', name: 'Redimensionar Texto', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.5', name: 'Imagens de Texto', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.6', name: 'Contraste (Melhorado)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.4.7', name: 'Áudio de Fundo Baixo ou Sem Áudio de Fundo', level: 'AAA', principle: 'perceivable' },
+    { number: '1.4.8', name: 'Apresentação Visual', level: 'AAA', principle: 'perceivable' },
+    { number: '1.4.9', name: 'Imagens de Texto (Sem Exceção)', level: 'AAA', principle: 'perceivable' },
+    { number: '1.4.10', name: 'Refluxo', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.11', name: 'Contraste Não Textual', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.12', name: 'Espaçamento de Texto', level: 'AA', principle: 'perceivable' },
+    { number: '1.4.13', name: 'Conteúdo em Foco ou ao Passar o Mouse', level: 'AA', principle: 'perceivable' },
+
+    // 2. Operável
+    { number: '2.1.1', name: 'Teclado', level: 'A', principle: 'operable' },
+    { number: '2.1.2', name: 'Sem Bloqueio do Teclado', level: 'A', principle: 'operable' },
+    { number: '2.1.3', name: 'Teclado (Sem Exceção)', level: 'AAA', principle: 'operable' },
+    { number: '2.1.4', name: 'Atalhos de Teclado por Caractere', level: 'A', principle: 'operable' },
+    { number: '2.2.1', name: 'Tempo Ajustável', level: 'A', principle: 'operable' },
+    { number: '2.2.2', name: 'Colocar em Pausa, Parar, Ocultar', level: 'A', principle: 'operable' },
+    { number: '2.2.3', name: 'Sem Limite de Tempo', level: 'AAA', principle: 'operable' },
+    { number: '2.2.4', name: 'Interrupções', level: 'AAA', principle: 'operable' },
+    { number: '2.2.5', name: 'Nova Autenticação', level: 'AAA', principle: 'operable' },
+    { number: '2.2.6', name: 'Tempos Limite', level: 'AAA', principle: 'operable' },
+    { number: '2.3.1', name: 'Três Flashes ou Abaixo do Limite', level: 'A', principle: 'operable' },
+    { number: '2.3.2', name: 'Três Flashes', level: 'AAA', principle: 'operable' },
+    { number: '2.3.3', name: 'Animação a partir de Interações', level: 'AAA', principle: 'operable' },
+    { number: '2.4.1', name: 'Ignorar Blocos', level: 'A', principle: 'operable' },
+    { number: '2.4.2', name: 'Página com Título', level: 'A', principle: 'operable' },
+    { number: '2.4.3', name: 'Ordem do Foco', level: 'A', principle: 'operable' },
+    { number: '2.4.4', name: 'Finalidade do Link (Em Contexto)', level: 'A', principle: 'operable' },
+    { number: '2.4.5', name: 'Várias Formas', level: 'AA', principle: 'operable' },
+    { number: '2.4.6', name: 'Cabeçalhos e Rótulos', level: 'AA', principle: 'operable' },
+    { number: '2.4.7', name: 'Foco Visível', level: 'AA', principle: 'operable' },
+    { number: '2.4.8', name: 'Localização', level: 'AAA', principle: 'operable' },
+    { number: '2.4.9', name: 'Finalidade do Link (Apenas o Link)', level: 'AAA', principle: 'operable' },
+    { number: '2.4.10', name: 'Cabeçalhos de Seção', level: 'AAA', principle: 'operable' },
+    { number: '2.4.11', name: 'Foco Não Obscurecido (Mínimo)', level: 'AA', principle: 'operable' },
+    { number: '2.4.12', name: 'Foco Não Obscurecido (Melhorado)', level: 'AAA', principle: 'operable' },
+    { number: '2.4.13', name: 'Aparência do Foco', level: 'AAA', principle: 'operable' },
+    { number: '2.5.1', name: 'Gestos de Ponteiro', level: 'A', principle: 'operable' },
+    { number: '2.5.2', name: 'Cancelamento de Ponteiro', level: 'A', principle: 'operable' },
+    { number: '2.5.3', name: 'Rótulo no Nome', level: 'A', principle: 'operable' },
+    { number: '2.5.4', name: 'Atuação por Movimento', level: 'A', principle: 'operable' },
+    { number: '2.5.5', name: 'Tamanho do Alvo (Melhorado)', level: 'AAA', principle: 'operable' },
+    { number: '2.5.6', name: 'Mecanismos de Entrada Simultâneos', level: 'AAA', principle: 'operable' },
+    { number: '2.5.7', name: 'Movimentos de Arrastar', level: 'AA', principle: 'operable' },
+    { number: '2.5.8', name: 'Tamanho do Alvo (Mínimo)', level: 'AA', principle: 'operable' },
+
+    // 3. Compreensível
+    { number: '3.1.1', name: 'Idioma da Página', level: 'A', principle: 'understandable' },
+    { number: '3.1.2', name: 'Idioma das Partes', level: 'AA', principle: 'understandable' },
+    { number: '3.1.3', name: 'Palavras Incomuns', level: 'AAA', principle: 'understandable' },
+    { number: '3.1.4', name: 'Abreviaturas', level: 'AAA', principle: 'understandable' },
+    { number: '3.1.5', name: 'Nível de Leitura', level: 'AAA', principle: 'understandable' },
+    { number: '3.1.6', name: 'Pronúncia', level: 'AAA', principle: 'understandable' },
+    { number: '3.2.1', name: 'Em Foco', level: 'A', principle: 'understandable' },
+    { number: '3.2.2', name: 'Em Entrada', level: 'A', principle: 'understandable' },
+    { number: '3.2.3', name: 'Navegação Consistente', level: 'AA', principle: 'understandable' },
+    { number: '3.2.4', name: 'Identificação Consistente', level: 'AA', principle: 'understandable' },
+    { number: '3.2.5', name: 'Alteração Mediante Solicitação', level: 'AAA', principle: 'understandable' },
+    { number: '3.2.6', name: 'Ajuda Consistente', level: 'A', principle: 'understandable' },
+    { number: '3.3.1', name: 'Identificação do Erro', level: 'A', principle: 'understandable' },
+    { number: '3.3.2', name: 'Rótulos ou Instruções', level: 'A', principle: 'understandable' },
+    { number: '3.3.3', name: 'Sugestão de Erro', level: 'AA', principle: 'understandable' },
+    { number: '3.3.4', name: 'Prevenção de Erros (Legais, Financeiros, Dados)', level: 'AA', principle: 'understandable' },
+    { number: '3.3.5', name: 'Ajuda', level: 'AAA', principle: 'understandable' },
+    { number: '3.3.6', name: 'Prevenção de Erros (Todos)', level: 'AAA', principle: 'understandable' },
+    { number: '3.3.7', name: 'Entrada Redundante', level: 'A', principle: 'understandable' },
+    { number: '3.3.8', name: 'Autenticação Acessível (Mínima)', level: 'AA', principle: 'understandable' },
+    { number: '3.3.9', name: 'Autenticação Acessível (Melhorada)', level: 'AAA', principle: 'understandable' },
+
+    // 4. Robusto
+    { number: '4.1.2', name: 'Nome, Função, Valor', level: 'A', principle: 'robust' },
+    { number: '4.1.3', name: 'Mensagens de Status', level: 'AA', principle: 'robust' },
+  ];
+
+  // Auditorias do Lighthouse (IDs das regras do axe) -> critérios verificados
+  // Auditorias de boas práticas sem critério WCAG associado ficam de fora
+  private static readonly AUDIT_CRITERIA: Record<string, string[]> = {
+    'area-alt': ['2.4.4', '4.1.2'],
+    'aria-allowed-attr': ['4.1.2'],
+    'aria-command-name': ['4.1.2'],
+    'aria-conditional-attr': ['4.1.2'],
+    'aria-deprecated-role': ['4.1.2'],
+    'aria-hidden-body': ['4.1.2'],
+    'aria-hidden-focus': ['4.1.2'],
+    'aria-input-field-name': ['4.1.2'],
+    'aria-meter-name': ['1.1.1'],
+    'aria-progressbar-name': ['1.1.1'],
+    'aria-prohibited-attr': ['4.1.2'],
+    'aria-required-attr': ['4.1.2'],
+    'aria-required-children': ['1.3.1'],
+    'aria-required-parent': ['1.3.1'],
+    'aria-roles': ['4.1.2'],
+    'aria-toggle-field-name': ['4.1.2'],
+    'aria-tooltip-name': ['4.1.2'],
+    'aria-valid-attr': ['4.1.2'],
+    'aria-valid-attr-value': ['4.1.2'],
+    'autocomplete-valid': ['1.3.5'],
+    'avoid-inline-spacing': ['1.4.12'],
+    'blink': ['2.2.2'],
+    'button-name': ['4.1.2'],
+    'bypass': ['2.4.1'],
+    'color-contrast': ['1.4.3'],
+    'color-contrast-enhanced': ['1.4.6'],
+    'css-orientation-lock': ['1.3.4'],
+    'definition-list': ['1.3.1'],
+    'dlitem': ['1.3.1'],
+    'document-title': ['2.4.2'],
+    'duplicate-id-aria': ['4.1.2'],
+    'frame-focusable-content': ['2.1.1'],
+    'frame-title': ['4.1.2'],
+    'html-has-lang': ['3.1.1'],
+    'html-lang-valid': ['3.1.1'],
+    'html-xml-lang-mismatch': ['3.1.1'],
+    'identical-links-same-purpose': ['2.4.9'],
+    'image-alt': ['1.1.1'],
+    'input-button-name': ['4.1.2'],
+    'input-image-alt': ['1.1.1', '4.1.2'],
+    'label': ['4.1.2'],
+    'label-content-name-mismatch': ['2.5.3'],
+    'link-in-text-block': ['1.4.1'],
+    'link-name': ['2.4.4', '4.1.2'],
+    'list': ['1.3.1'],
+    'listitem': ['1.3.1'],
+    'marquee': ['2.2.2'],
+    'meta-refresh': ['2.2.1'],
+    'meta-viewport': ['1.4.4'],
+    'nested-interactive': ['4.1.2'],
+    'no-autoplay-audio': ['1.4.2'],
+    'object-alt': ['1.1.1'],
+    'role-img-alt': ['1.1.1'],
+    'scrollable-region-focusable': ['2.1.1'],
+    'select-name': ['4.1.2'],
+    'server-side-image-map': ['2.1.1'],
+    'svg-img-alt': ['1.1.1'],
+    'table-fake-caption': ['1.3.1'],
+    'target-size': ['2.5.8'],
+    'td-has-header': ['1.3.1'],
+    'td-headers-attr': ['1.3.1'],
+    'th-has-data-cells': ['1.3.1'],
+    'valid-lang': ['3.1.2'],
+    'video-caption': ['1.2.2'],
+    // Auditorias manuais do Lighthouse
+    'custom-controls-labels': ['4.1.2'],
+    'custom-controls-roles': ['4.1.2'],
+    'focus-traps': ['2.1.2'],
+    'focusable-controls': ['2.1.1'],
+    'interactive-element-affordance': ['4.1.2'],
+    'logical-tab-order': ['2.4.3'],
+    'managed-focus': ['2.4.3'],
+    'offscreen-content-hidden': ['1.3.2'],
+    'use-landmarks': ['1.3.1'],
+    'visual-order-follows-dom': ['1.3.2'],
+  };
+
+  /**
+   * Todos os critérios, na ordem da especificação
+   */
+  static getAll(): WcagCriterion[] {
+    return [...this.CRITERIA];
+  }
+
+  static getCriterion(number: string): WcagCriterion | null {
+    return this.CRITERIA.find(criterion => criterion.number === number) || null;
+  }
+
+  /**
+   * Critérios exigidos para conformidade com o nível (cumulativo: AA inclui A)
+   */
+  static getByLevel(level: WcagLevel): WcagCriterion[] {
+    return this.CRITERIA.filter(criterion => this.isWithinLevel(criterion, level));
+  }
+
+  /**
+   * Indica se o critério é exigido no nível informado
+   */
+  static isWithinLevel(criterion: WcagCriterion, level: WcagLevel): boolean {
+    return this.LEVEL_ORDER[criterion.level] <= this.LEVEL_ORDER[level];
+  }
+
+  /**
+   * Critérios verificados por uma auditoria do Lighthouse/axe
+   */
+  static getCriteriaForAudit(auditId: string): WcagCriterion[] {
+    return this.toCriteria(this.AUDIT_CRITERIA[auditId] || []);
+  }
+
+  /**
+   * Critérios de um problema: as referências vindas do relatório têm preferência sobre o mapeamento
+   */
+  static getCriteriaForIssue(issue: EvaluationIssue): WcagCriterion[] {
+    return issue.wcagCriteria?.length
+      ? this.toCriteria(issue.wcagCriteria)
+      : this.getCriteriaForAudit(issue.id);
+  }
+
+  /**
+   * Critérios reprovados em uma avaliação
+   *
+   * Com a lista completa de auditorias reprovadas, apenas elas contam (auditorias manuais
+   * exibidas como problema não são reprovações); sem ela (avaliações simuladas ou antigas),
+   * todos os problemas exibidos são considerados.
+   * @returns Critérios na ordem da especificação
+   */
+  static getFailingCriteria(issues: EvaluationIssue[], failedAuditIds?: string[]): WcagCriterion[] {
+    const failedIds = failedAuditIds ? new Set(failedAuditIds) : null;
+    const numbers = new Set<string>();
+
+    issues
+      .filter(issue => !failedIds || failedIds.has(issue.id))
+      .forEach(issue => this.getCriteriaForIssue(issue).forEach(criterion => numbers.add(criterion.number)));
+    failedAuditIds?.forEach(auditId => {
+      this.getCriteriaForAudit(auditId).forEach(criterion => numbers.add(criterion.number));
+    });
+
+    return this.CRITERIA.filter(criterion => numbers.has(criterion.number));
+  }
+
+  private static toCriteria(numbers: string[]): WcagCriterion[] {
+    return numbers
+      .map(number => this.getCriterion(number))
+      .filter((criterion): criterion is WcagCriterion => !!criterion);
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Técnicas suficientes e falhas comuns de cada critério
+// - Correspondência com o eMAG e a EN 301 549
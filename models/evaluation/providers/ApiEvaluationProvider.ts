@@ -0,0 +1,39 @@
+/**
+ * ApiEvaluationProvider - Avaliação real com o Lighthouse executado pelo backend
+ */
+
+import ApiService from '../../../services/ApiService';
+import { EvaluationMapper } from '../../mappers/EvaluationMapper';
+import type { EvaluationResult } from '../EvaluationModel';
+import type { EvaluationProvider } from './EvaluationProvider';
+
+export class ApiEvaluationProvider implements EvaluationProvider {
+  readonly id = 'api' as const;
+  private api = ApiService;
+
+  async evaluate(siteUrl: string): Promise<EvaluationResult> {
+    const apiResponse = await this.api.analyzeSiteAccessibility(siteUrl);
+
+    if (apiResponse.success && apiResponse.data) {
+      const result = EvaluationMapper.fromLighthouseReport(apiResponse.data, siteUrl);
+
+      if (result) {
+        // Log resumido apenas (sem dados completos)
+        console.log(`[ApiEvaluationProvider] ✅ Avaliação concluída: ${result.score}% de acessibilidade`);
+
+        // Sem problemas encontrados, a lista fica vazia: nunca completar com problemas simulados
+        return result;
+      }
+    }
+
+    // Se chegou aqui, temos um erro da API
+    if (!apiResponse.success) {
+      console.error('[ApiEvaluationProvider] ❌ Erro da API:', apiResponse.error || 'Erro desconhecido');
+      console.error('[ApiEvaluationProvider] Status Code:', apiResponse.statusCode);
+      throw new Error(apiResponse.error || 'Erro desconhecido');
+    }
+
+    console.warn('[ApiEvaluationProvider] ⚠️ Resposta da API em formato não reconhecido');
+    throw new Error('Resposta da API em formato não reconhecido');
+  }
+}
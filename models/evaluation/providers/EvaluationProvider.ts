@@ -0,0 +1,47 @@
+/**
+ * EvaluationProvider - Contrato das fontes de avaliação de acessibilidade
+ *
+ * Fontes disponíveis (selecionáveis na tela de configurações do desenvolvedor):
+ * - api: Lighthouse executado pelo backend
+ * - fixture: relatórios do Lighthouse gravados, por URL (demonstrações e testes offline)
+ * - simulated: simulação determinística a partir da URL e de uma semente
+ */
+
+import type { EvaluationResult } from '../EvaluationModel';
+
+export type EvaluationProviderId = 'api' | 'fixture' | 'simulated';
+
+export interface EvaluationProviderInfo {
+  id: EvaluationProviderId;
+  label: string;
+  description: string;
+}
+
+export interface EvaluationProvider {
+  readonly id: EvaluationProviderId;
+
+  /**
+   * Avalia uma URL
+   * @throws Error com a mensagem técnica (EvaluationModel a converte em mensagem amigável)
+   */
+  evaluate(siteUrl: string): Promise<EvaluationResult>;
+}
+
+export const EVALUATION_PROVIDERS: EvaluationProviderInfo[] = [
+  { id: 'api', label: 'API Lighthouse', description: 'Avaliação real executada pelo backend' },
+  { id: 'fixture', label: 'Relatórios gravados', description: 'Relatórios do Lighthouse gravados, sem rede' },
+  { id: 'simulated', label: 'Simulação', description: 'Resultado fixo para cada URL, gerado a partir de uma semente' },
+];
+
+export const isEvaluationProviderId = (value: string | null | undefined): value is EvaluationProviderId => {
+  return EVALUATION_PROVIDERS.some(provider => provider.id === value);
+};
+
+/**
+ * Fonte usada quando nada foi escolhido na tela de configurações
+ * (EXPO_PUBLIC_EVALUATION_PROVIDER permite fixar a fonte em demonstrações e testes)
+ */
+export const getDefaultEvaluationProvider = (): EvaluationProviderId => {
+  const configured = process.env.EXPO_PUBLIC_EVALUATION_PROVIDER;
+  return isEvaluationProviderId(configured) ? configured : 'api';
+};
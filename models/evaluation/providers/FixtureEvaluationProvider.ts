@@ -0,0 +1,66 @@
+/**
+ * FixtureEvaluationProvider - Avaliação a partir de relatórios do Lighthouse gravados
+ *
+ * Não acessa a rede: cada URL devolve sempre o mesmo relatório, convertido pelo
+ * EvaluationMapper exatamente como uma resposta real do backend.
+ */
+
+import type { LighthouseReportDto } from '../../../services/dto/ApiDtos';
+import { EvaluationMapper } from '../../mappers/EvaluationMapper';
+import type { EvaluationResult } from '../EvaluationModel';
+import type { EvaluationProvider } from './EvaluationProvider';
+import { RECORDED_REPORTS } from './fixtures';
+
+export class FixtureEvaluationProvider implements EvaluationProvider {
+  readonly id = 'fixture' as const;
+  private reports = new Map<string, LighthouseReportDto>();
+
+  constructor(reports: Record<string, LighthouseReportDto> = RECORDED_REPORTS) {
+    Object.entries(reports).forEach(([url, report]) => this.register(url, report));
+  }
+
+  /**
+   * Registra (ou substitui) o relatório gravado de uma URL
+   */
+  register(url: string, report: LighthouseReportDto): void {
+    this.reports.set(FixtureEvaluationProvider.toKey(url), report);
+  }
+
+  /**
+   * URLs com relatório gravado
+   */
+  getRecordedUrls(): string[] {
+    return Array.from(this.reports.keys()).map(key => `https://${key}`);
+  }
+
+  async evaluate(siteUrl: string): Promise<EvaluationResult> {
+    const report = this.reports.get(FixtureEvaluationProvider.toKey(siteUrl));
+    if (!report) {
+      throw new Error(
+        `Nenhum relatório gravado para "${siteUrl}". URLs disponíveis: ${this.getRecordedUrls().join(', ')}`
+      );
+    }
+
+    const result = EvaluationMapper.fromLighthouseReport(report, siteUrl);
+    if (!result) {
+      throw new Error(`Relatório gravado para "${siteUrl}" em formato não reconhecido`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Chave da URL: sem protocolo, "www.", fragmento e barra final
+   * (https://www.Exemplo.com.br/ e http://exemplo.com.br usam o mesmo relatório)
+   */
+  private static toKey(url: string): string {
+    try {
+      const parsed = new URL(url.trim());
+      const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+      const path = parsed.pathname.replace(/\/+$/, '');
+      return `${host}${path}${parsed.search}`;
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+}
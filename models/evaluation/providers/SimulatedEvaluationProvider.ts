@@ -0,0 +1,84 @@
+/**
+ * SimulatedEvaluationProvider - Avaliação simulada determinística
+ *
+ * A nota e os problemas são sorteados por um gerador pseudoaleatório semeado pela URL
+ * e pela semente do provedor: a mesma URL sempre gera o mesmo resultado.
+ */
+
+import type { EvaluationResult, EvaluationIssue } from '../EvaluationModel';
+import type { EvaluationProvider } from './EvaluationProvider';
+
+export class SimulatedEvaluationProvider implements EvaluationProvider {
+  readonly id = 'simulated' as const;
+
+  // Problemas comuns encontrados em avaliações
+  private static readonly COMMON_ISSUES: EvaluationIssue[] = [
+    { id: 'issue-1', text: 'Contraste de texto baixo', type: 'issue', wcagCriteria: ['1.4.3'] },
+    { id: 'issue-2', text: 'Imagens sem texto alternativo', type: 'issue', wcagCriteria: ['1.1.1'] },
+    { id: 'issue-3', text: 'Links sem descrição clara', type: 'issue', wcagCriteria: ['2.4.4'] },
+    { id: 'issue-4', text: 'Campos de formulário sem rótulo', type: 'issue', wcagCriteria: ['3.3.2', '4.1.2'] },
+    { id: 'issue-5', text: 'Falta de navegação por teclado', type: 'issue', wcagCriteria: ['2.1.1'] },
+    { id: 'issue-6', text: 'Vídeos sem legendas', type: 'issue', wcagCriteria: ['1.2.2'] },
+    { id: 'issue-7', text: 'Conteúdo que pisca ou pisca muito rápido', type: 'issue', wcagCriteria: ['2.3.1'] },
+    { id: 'issue-8', text: 'Estrutura de cabeçalhos inadequada', type: 'issue', wcagCriteria: ['1.3.1'] },
+  ];
+
+  /**
+   * @param seed - Semente do gerador (mudar a semente muda todos os resultados)
+   * @param delayMs - Atraso simulado de rede
+   */
+  constructor(private readonly seed: number = 0, private readonly delayMs: number = 1500) {}
+
+  async evaluate(siteUrl: string): Promise<EvaluationResult> {
+    console.log('[SimulatedEvaluationProvider] Usando avaliação simulada...');
+
+    if (this.delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+    }
+
+    const random = SimulatedEvaluationProvider.createRandom(siteUrl, this.seed);
+
+    // Nota entre 30-95
+    const score = Math.floor(random() * (95 - 30 + 1)) + 30;
+
+    return {
+      score,
+      issues: SimulatedEvaluationProvider.pickIssues(random),
+      siteUrl,
+      evaluatedAt: new Date()
+    };
+  }
+
+  private static pickIssues(random: () => number): EvaluationIssue[] {
+    const numIssues = Math.floor(random() * 4) + 1; // 1-4 problemas
+
+    // Embaralhamento de Fisher-Yates com o gerador semeado
+    const shuffled = [...this.COMMON_ISSUES];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    return shuffled.slice(0, numIssues);
+  }
+
+  /**
+   * Gerador pseudoaleatório (mulberry32) semeado pelo hash FNV-1a da URL
+   */
+  private static createRandom(siteUrl: string, seed: number): () => number {
+    let hash = 2166136261 ^ seed;
+    for (const char of siteUrl.trim().toLowerCase()) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 16777619);
+    }
+
+    let state = hash >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Relatórios do Lighthouse gravados (formato da resposta de /mobile/lighthouse/analyze) por URL
+ *
+ * Para gravar um novo relatório: avalie o site com o provedor 'api', copie a resposta
+ * do backend para um arquivo .json nesta pasta e registre a URL abaixo.
+ */
+
+import type { LighthouseReportDto } from '../../../../services/dto/ApiDtos';
+import exemplo from './exemplo.com.br.json';
+import lojaExemplo from './loja.exemplo.com.br.json';
+import acessivelExemplo from './acessivel.exemplo.com.br.json';
+
+export const RECORDED_REPORTS: Record<string, LighthouseReportDto> = {
+  'https://exemplo.com.br': exemplo,
+  'https://loja.exemplo.com.br/checkout': lojaExemplo,
+  'https://acessivel.exemplo.com.br': acessivelExemplo,
+};
@@ -24,18 +24,137 @@ export {
   type DevelopmentStatus,
   type ChecklistItem, 
   type FileData,
-  type StatusConfig 
+  type StatusConfig,
+  type CachedRequests
 } from './request/RequestModel';
 
+// Quote Builder (montagem e precificação de orçamentos)
+export {
+  QuoteModel,
+  type QuoteRates,
+  type QuoteLineItem,
+  type QuoteDiscount,
+  type QuoteTax,
+  type QuoteDraft,
+  type QuoteTotals,
+  type Quote
+} from './request/QuoteModel';
+
+// Recusa do orçamento e versões revisadas
+export {
+  QuoteRevisionModel,
+  type QuoteRejectionReason,
+  type QuoteRejectionInput,
+  type QuoteRejection,
+  type QuoteRevision,
+  type QuoteRevisionOutcome
+} from './request/QuoteRevisionModel';
+
+// Documentos (orçamento e contrato em PDF gerados a partir de modelos)
+export {
+  DocumentModel,
+  type DocumentType,
+  type DocumentContext,
+  type GeneratedDocument,
+  type LoadedDocument
+} from './documents/DocumentModel';
+
+// Assinatura do contrato (certificado, carimbo no PDF e verificação)
+export {
+  ContractSigningModel,
+  type ContractSigner,
+  type SigningDevice,
+  type SigningCertificate,
+  type ContractSignatureRecord,
+  type RegisteredSignature,
+  type SignatureCheck,
+  type SignatureVerification
+} from './documents/ContractSigningModel';
+
+// Request History
+export {
+  RequestHistoryModel,
+  type RequestHistoryEvent,
+  type RequestHistoryEventType
+} from './request/RequestHistoryModel';
+
+// Request Workflow
+export {
+  RequestWorkflow,
+  type WorkflowRole,
+  type WorkflowGuardId,
+  type WorkflowTransitionId,
+  type WorkflowTransition,
+  type WorkflowStateDefinition,
+  type WorkflowDefinition
+} from './request/RequestWorkflow';
+
 // Evaluation Model
 export { 
   EvaluationModel, 
   type EvaluationResult, 
   type EvaluationIssue, 
+  type IssueImpact,
+  type AffectedNode,
+  type IssueLink,
   type WCAGItem, 
-  type AccessibilityPlan 
+  type AccessibilityPlan,
+  type AuditChange,
+  type EvaluationComparison,
+  type PageEvaluation,
+  type PlanCoverage,
+  type LegalObligation,
+  type LegalObligationInfo,
+  type PlanSuggestionContext
 } from './evaluation/EvaluationModel';
 
+// Evaluation Providers (fonte das avaliações)
+export {
+  EVALUATION_PROVIDERS,
+  isEvaluationProviderId,
+  type EvaluationProvider,
+  type EvaluationProviderId,
+  type EvaluationProviderInfo
+} from './evaluation/providers/EvaluationProvider';
+
+// WCAG 2.2 Catalog
+export {
+  WcagCatalog,
+  type WcagCriterion,
+  type WcagLevel,
+  type WcagPrinciple
+} from './evaluation/WcagCatalog';
+
+// Evaluation History
+export {
+  EvaluationHistoryModel,
+  type EvaluationHistoryEntry,
+  type EvaluationSource,
+  type EvaluationSiteGroup,
+  type EvaluationTrendPoint,
+  type ProjectCompletionMarker
+} from './evaluation/EvaluationHistoryModel';
+
+// Site Crawl (avaliação de várias páginas)
+export {
+  SiteCrawlModel,
+  type CrawlSource,
+  type CrawlProgress,
+  type CrawlOptions
+} from './evaluation/SiteCrawlModel';
+
+// Report Import (relatórios do Lighthouse/axe gerados fora do app)
+export { ReportImportModel, type ReportFile } from './evaluation/ReportImportModel';
+
+// Settings Model
+export { SettingsModel, SETTING_KEYS, type SettingKey } from './settings/SettingsModel';
+
+// Mappers (DTOs do backend -> modelos do app)
+export { RequestMapper } from './mappers/RequestMapper';
+export { UserMapper } from './mappers/UserMapper';
+export { EvaluationMapper } from './mappers/EvaluationMapper';
+export { ReportImportMapper, type ImportedReportFormat } from './mappers/ReportImportMapper';
+
 // EXPANSÃO FUTURA:
 // - Novos modelos podem ser adicionados aqui
 // - Sistema de validação centralizado
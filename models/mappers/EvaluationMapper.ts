@@ -0,0 +1,148 @@
+/**
+ * EvaluationMapper - Conversão do relatório do Lighthouse (LighthouseReportDto) para EvaluationResult
+ *
+ * Responsabilidades:
+ * - Converter a nota e as auditorias do backend em problemas priorizados
+ * - Suportar o formato atual (notaAcessibilidade) e o antigo (accessibility/audits)
+ * - Manter os detalhes de cada auditoria (descrição, elementos afetados, impacto, links e critérios WCAG)
+ */
+
+import type { LighthouseReportDto, LighthouseAuditDto } from '../../services/dto/ApiDtos';
+import type {
+  EvaluationResult,
+  EvaluationIssue,
+  IssueImpact,
+  AffectedNode,
+  IssueLink
+} from '../evaluation/EvaluationModel';
+
+export class EvaluationMapper {
+  private static readonly IMPACTS: readonly IssueImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+  /**
+   * @returns Resultado da avaliação (issues vazio se não houver problemas)
+   *          ou null se o relatório não estiver em nenhum formato conhecido
+   */
+  static fromLighthouseReport(report: LighthouseReportDto, siteUrl: string): EvaluationResult | null {
+    if (report.notaAcessibilidade !== undefined) {
+      const issues: EvaluationIssue[] = [];
+
+      // Auditorias reprovadas (score = 0) têm prioridade máxima
+      (report.reprovadas || []).forEach(audit => {
+        if (audit.title) {
+          issues.push(this.toIssue(audit, audit.title, 5, `reprovada-${issues.length}`));
+        }
+      });
+
+      // Auditorias manuais (necessitam verificação manual) têm prioridade média
+      (report.manuais || []).forEach(audit => {
+        if (audit.title) {
+          issues.push(this.toIssue(audit, `[Verificação Manual] ${audit.title}`, 3, `manual-${issues.length}`));
+        }
+      });
+
+      const failedAuditIds = (report.reprovadas || [])
+        .map(audit => audit.id)
+        .filter((id): id is string => !!id);
+
+      return this.toResult(Math.round(report.notaAcessibilidade), issues, siteUrl, failedAuditIds);
+    }
+
+    // Formato antigo/alternativo da API (mantido para retrocompatibilidade)
+    if (report.accessibility !== undefined) {
+      const issues: EvaluationIssue[] = [];
+      const failedAuditIds: string[] = [];
+
+      Object.entries(report.audits || {}).forEach(([key, audit]) => {
+        if (audit.score === 0) {
+          failedAuditIds.push(key);
+        }
+        if (typeof audit.score === 'number' && audit.score < 1 && audit.title) {
+          const priority = audit.score === 0 ? 5 : Math.ceil((1 - audit.score) * 5);
+          issues.push(this.toIssue({ ...audit, id: key }, audit.title, priority, key));
+        }
+      });
+
+      return this.toResult(Math.round((report.accessibility || 0) * 100), issues, siteUrl, failedAuditIds);
+    }
+
+    return null;
+  }
+
+  private static toIssue(audit: LighthouseAuditDto, text: string, priority: number, fallbackId: string): EvaluationIssue {
+    const { description, links } = this.parseDescription(audit.description);
+    const docLinks = audit.helpUrl && !links.some(link => link.url === audit.helpUrl)
+      ? [{ label: 'Documentação', url: audit.helpUrl }, ...links]
+      : links;
+    const impact = audit.details?.debugData?.impact;
+
+    return {
+      id: audit.id || fallbackId,
+      text,
+      type: 'issue',
+      priority,
+      description,
+      impact: this.IMPACTS.includes(impact as IssueImpact) ? (impact as IssueImpact) : undefined,
+      nodes: this.toNodes(audit),
+      docLinks: docLinks.length > 0 ? docLinks : undefined,
+      wcagCriteria: this.toWcagCriteria(audit.details?.debugData?.tags)
+    };
+  }
+
+  /**
+   * Separa o texto da descrição (markdown) dos links da documentação
+   * Ex: "Texto. [Saiba mais](https://...)." -> "Texto. Saiba mais." + link
+   */
+  private static parseDescription(markdown?: string): { description?: string; links: IssueLink[] } {
+    if (!markdown) {
+      return { links: [] };
+    }
+
+    const links: IssueLink[] = [];
+    const description = markdown
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, (_match, label: string, url: string) => {
+        links.push({ label, url });
+        return label;
+      })
+      .replace(/`([^`]+)`/g, '$1')
+      .trim();
+
+    return { description: description || undefined, links };
+  }
+
+  private static toNodes(audit: LighthouseAuditDto): AffectedNode[] | undefined {
+    const nodes = (audit.details?.items || [])
+      .map(item => item.node)
+      .filter((node): node is NonNullable<typeof node> => !!node && !!(node.selector || node.snippet))
+      .map(node => ({
+        selector: node.selector,
+        snippet: node.snippet,
+        label: node.nodeLabel,
+        explanation: node.explanation
+      }));
+
+    return nodes.length > 0 ? nodes : undefined;
+  }
+
+  /**
+   * Converte as tags do axe em critérios de sucesso (wcag143 -> 1.4.3, wcag1410 -> 1.4.10)
+   */
+  private static toWcagCriteria(tags?: string[]): string[] | undefined {
+    const criteria = (tags || [])
+      .map(tag => /^wcag(\d)(\d)(\d{1,2})$/.exec(tag))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`);
+
+    return criteria.length > 0 ? Array.from(new Set(criteria)) : undefined;
+  }
+
+  /**
+   * Ordena os problemas do mais crítico ao menos crítico, mantendo a lista completa
+   * (inclusive as verificações manuais; a tela limita quantos exibe)
+   */
+  private static toResult(score: number, issues: EvaluationIssue[], siteUrl: string, failedAuditIds: string[]): EvaluationResult {
+    const sortedIssues = [...issues].sort((a, b) => (b.priority || 0) - (a.priority || 0));
+
+    return { score, issues: sortedIssues, siteUrl, evaluatedAt: new Date(), failedAuditIds };
+  }
+}
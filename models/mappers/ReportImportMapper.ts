@@ -0,0 +1,175 @@
+/**
+ * ReportImportMapper - Conversão de relatórios importados de arquivo para EvaluationResult
+ *
+ * Responsabilidades:
+ * - Reconhecer relatórios JSON do Lighthouse (LHR) e resultados do axe-core
+ * - Convertê-los para o formato de resposta do backend (LighthouseReportDto), para que
+ *   passem pelo mesmo EvaluationMapper de uma avaliação feita pela API
+ */
+
+import type { LighthouseReportDto, LighthouseAuditDto } from '../../services/dto/ApiDtos';
+import type { EvaluationResult } from '../evaluation/EvaluationModel';
+import { EvaluationMapper } from './EvaluationMapper';
+
+export type ImportedReportFormat = 'lighthouse' | 'axe';
+
+/**
+ * Relatório completo do Lighthouse (--output=json ou "Salvar como JSON" no DevTools)
+ */
+export interface LighthouseJsonReport {
+  lighthouseVersion?: string;
+  requestedUrl?: string;
+  finalUrl?: string;
+  finalDisplayedUrl?: string;
+  fetchTime?: string;
+  categories?: {
+    accessibility?: {
+      score?: number | null;
+      auditRefs?: Array<{ id: string }>;
+    };
+  };
+  audits?: Record<string, LighthouseAuditDto & { scoreDisplayMode?: string }>;
+}
+
+interface AxeRuleResult {
+  id: string;
+  impact?: string | null;
+  tags?: string[];
+  description?: string;
+  help?: string;
+  helpUrl?: string;
+  nodes?: Array<{
+    html?: string;
+    target?: Array<string | string[]>; // Listas aninhadas = elementos em iframes/shadow DOM
+    failureSummary?: string;
+  }>;
+}
+
+/**
+ * Resultado do axe-core (axe.run(), extensão axe DevTools ou @axe-core/cli)
+ */
+export interface AxeResults {
+  url?: string;
+  timestamp?: string;
+  testEngine?: { name?: string; version?: string };
+  violations?: AxeRuleResult[];
+  passes?: AxeRuleResult[];
+  incomplete?: AxeRuleResult[];
+}
+
+export class ReportImportMapper {
+  /**
+   * Identifica o formato do relatório
+   * O @axe-core/cli salva uma lista de resultados; apenas o primeiro é considerado
+   * @returns Formato reconhecido ou null
+   */
+  static detectFormat(json: unknown): ImportedReportFormat | null {
+    const report = this.unwrap(json);
+    if (!report) return null;
+
+    if ('lighthouseVersion' in report || ('categories' in report && 'audits' in report)) {
+      return 'lighthouse';
+    }
+    if (Array.isArray(report.violations)) {
+      return 'axe';
+    }
+    return null;
+  }
+
+  /**
+   * @returns Resultado da avaliação ou null se o formato não for reconhecido
+   *          ou o relatório não tiver a categoria de acessibilidade
+   */
+  static fromJson(json: unknown): EvaluationResult | null {
+    const report = this.unwrap(json);
+    switch (this.detectFormat(report)) {
+      case 'lighthouse':
+        return this.fromLighthouseJson(report as LighthouseJsonReport);
+      case 'axe':
+        return this.fromAxeResults(report as AxeResults);
+      default:
+        return null;
+    }
+  }
+
+  private static fromLighthouseJson(report: LighthouseJsonReport): EvaluationResult | null {
+    const category = report.categories?.accessibility;
+    const siteUrl = report.finalDisplayedUrl || report.finalUrl || report.requestedUrl;
+    if (typeof category?.score !== 'number' || !siteUrl) {
+      return null;
+    }
+
+    // Apenas as auditorias da categoria de acessibilidade (o relatório traz todas as categorias)
+    const audits = (category.auditRefs || [])
+      .map(ref => report.audits?.[ref.id])
+      .filter((audit): audit is NonNullable<typeof audit> => !!audit);
+
+    const backendReport: LighthouseReportDto = {
+      notaAcessibilidade: category.score * 100,
+      reprovadas: audits.filter(audit => audit.score === 0),
+      manuais: audits.filter(audit => audit.scoreDisplayMode === 'manual'),
+    };
+
+    return this.toResult(backendReport, siteUrl, report.fetchTime);
+  }
+
+  /**
+   * O axe não calcula nota: ela é estimada pela proporção de regras aprovadas
+   */
+  private static fromAxeResults(results: AxeResults): EvaluationResult | null {
+    if (!results.url) {
+      return null;
+    }
+
+    const violations = results.violations || [];
+    const passed = (results.passes || []).length;
+    const total = passed + violations.length;
+
+    const backendReport: LighthouseReportDto = {
+      notaAcessibilidade: total > 0 ? (passed / total) * 100 : 100,
+      reprovadas: violations.map(rule => ({ ...this.toAudit(rule), score: 0 })),
+      manuais: (results.incomplete || []).map(rule => this.toAudit(rule)),
+    };
+
+    return this.toResult(backendReport, results.url, results.timestamp);
+  }
+
+  /**
+   * Regra do axe no formato de auditoria do Lighthouse (o Lighthouse usa o axe internamente)
+   */
+  private static toAudit(rule: AxeRuleResult): LighthouseAuditDto {
+    return {
+      id: rule.id,
+      title: rule.help || rule.id,
+      description: rule.description,
+      helpUrl: rule.helpUrl,
+      details: {
+        items: (rule.nodes || []).map(node => ({
+          node: {
+            selector: (node.target || [])
+              .map(target => (Array.isArray(target) ? target.join(' >>> ') : target))
+              .join(' '),
+            snippet: node.html,
+            explanation: node.failureSummary,
+          },
+        })),
+        debugData: { impact: rule.impact || undefined, tags: rule.tags },
+      },
+    };
+  }
+
+  private static toResult(report: LighthouseReportDto, siteUrl: string, timestamp?: string): EvaluationResult | null {
+    const result = EvaluationMapper.fromLighthouseReport(report, siteUrl);
+    if (!result) {
+      return null;
+    }
+
+    const evaluatedAt = timestamp ? new Date(timestamp) : null;
+    return evaluatedAt && !isNaN(evaluatedAt.getTime()) ? { ...result, evaluatedAt } : result;
+  }
+
+  private static unwrap(json: unknown): Record<string, any> | null {
+    const report = Array.isArray(json) ? json[0] : json;
+    return report && typeof report === 'object' ? report : null;
+  }
+}
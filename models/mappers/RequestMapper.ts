@@ -0,0 +1,223 @@
+/**
+ * RequestMapper - Conversão dos DTOs de solicitação, orçamento e contrato para AccessibilityRequest
+ *
+ * Responsabilidades:
+ * - Traduzir status e planos do backend para os valores do app (e vice-versa)
+ * - Montar as URLs dos arquivos a partir da URL base do backend
+ * - Gerar o id numérico usado pelas telas a partir dos UUIDs do backend
+ *
+ * Os DTOs chegam validados pelo ApiService; valores de enum desconhecidos já foram
+ * reportados pelo DtoValidator e recebem aqui um fallback explícito.
+ */
+
+import type {
+  SolicitacaoDto,
+  SolicitacaoStatusDto,
+  OrcamentoDto,
+  ContratoDto,
+  ClienteDto
+} from '../../services/dto/ApiDtos';
+import type { AccessibilityRequest, RequestStatus, FileData } from '../request/RequestModel';
+import { QuoteRevisionModel } from '../request/QuoteRevisionModel';
+
+const STATUS_FROM_BACKEND: Record<SolicitacaoStatusDto, RequestStatus> = {
+  PENDENTE: 'Awaiting Quote',
+  EM_ANALISE: 'Awaiting Quote',
+  ORCAMENTO_CRIADO: 'Quote Sent',
+  ORCAMENTO_APROVADO: 'Quote Approved',
+  EM_DESENVOLVIMENTO: 'In Development',
+  CONCLUIDA: 'Completed',
+  CANCELADA: 'Cancelled',
+};
+
+const STATUS_TO_BACKEND: Partial<Record<RequestStatus, SolicitacaoStatusDto>> = {
+  'Awaiting Quote': 'PENDENTE',
+  'Quote Sent': 'ORCAMENTO_CRIADO',
+  'Quote Rejected': 'EM_ANALISE', // O motivo segue nas observações (ver QuoteRevisionModel)
+  'Quote Approved': 'ORCAMENTO_APROVADO',
+  'In Development': 'EM_DESENVOLVIMENTO',
+  'Completed': 'CONCLUIDA',
+  'Cancelled': 'CANCELADA',
+};
+
+export class RequestMapper {
+  /**
+   * Status de uma solicitação do backend para o formato do frontend
+   * (status desconhecido cai em 'Awaiting Quote', o início do fluxo)
+   * @param observacoes - Observações da solicitação (a recusa do orçamento volta para análise com o motivo)
+   */
+  static mapStatus(status?: string, observacoes?: string): RequestStatus {
+    if (status === 'EM_ANALISE' && QuoteRevisionModel.parseObservacoes(observacoes)) {
+      return 'Quote Rejected';
+    }
+    return STATUS_FROM_BACKEND[status as SolicitacaoStatusDto] || 'Awaiting Quote';
+  }
+
+  /**
+   * Status do frontend para o status de solicitação do backend
+   * @returns Status do backend ou null se o status não é controlado pela solicitação
+   */
+  static toBackendStatus(status: RequestStatus): SolicitacaoStatusDto | null {
+    return STATUS_TO_BACKEND[status] || null;
+  }
+
+  /**
+   * Nível WCAG do pacote para o plano do frontend
+   */
+  static mapPlan(nivel?: string): 'A' | 'AA' | 'AAA' {
+    if (!nivel) return 'AA';
+    const upperNivel = nivel.toUpperCase();
+    if (upperNivel === 'A' || upperNivel === 'AA' || upperNivel === 'AAA') {
+      return upperNivel;
+    }
+    return 'AA';
+  }
+
+  /**
+   * Solicitação criada pelo cliente
+   * @param budgets - Orçamentos já carregados (para anexar o arquivo do orçamento)
+   * @param baseUrl - URL base do backend em uso
+   */
+  static fromSolicitacao(dto: SolicitacaoDto, budgets: OrcamentoDto[], baseUrl: string): AccessibilityRequest {
+    const orcamento = dto.cod_orcamento
+      ? budgets.find(budget => (budget.cod_orcamento || budget.id) === dto.cod_orcamento)
+      : undefined;
+
+    return {
+      id: this.toNumericId(dto.id_solicitacao),
+      clientName: this.getClientName(dto.cliente, false),
+      site: dto.site || '',
+      plan: this.mapPlan(dto.tipo_pacote),
+      status: this.mapStatus(dto.status, dto.observacoes),
+      quoteFile: this.buildFile(orcamento?.arquivo_orcamento, 'orcamento.pdf', baseUrl),
+      quoteRejection: QuoteRevisionModel.parseObservacoes(dto.observacoes, dto.updatedAt) || undefined,
+      selectedIssues: dto.selected_issues || [],
+      createdAt: this.toDate(dto.createdAt),
+      updatedAt: this.toDate(dto.updatedAt),
+      _idSolicitacao: dto.id_solicitacao,
+      _codOrcamento: dto.cod_orcamento,
+      _idCliente: this.getClientId(dto.cliente)
+    };
+  }
+
+  /**
+   * Orçamento avulso (sem solicitação associada)
+   */
+  static fromOrcamento(dto: OrcamentoDto, baseUrl: string): AccessibilityRequest {
+    const codOrcamento = dto.cod_orcamento || dto.id;
+
+    return {
+      id: this.toNumericId(codOrcamento),
+      clientName: this.getClientName(dto.pacote?.cliente || dto.cliente),
+      site: dto.site || '',
+      plan: this.mapPlan(dto.pacote?.tipo_pacote),
+      status: 'Quote Sent',
+      quoteFile: this.buildFile(dto.arquivo_orcamento, 'orcamento.pdf', baseUrl),
+      selectedIssues: [],
+      createdAt: this.toDate(dto.createdAt || dto.created_at),
+      updatedAt: this.toDate(dto.updatedAt || dto.updated_at),
+      _codOrcamento: codOrcamento,
+      _idCliente: this.getClientId(dto.pacote?.cliente || dto.cliente)
+    };
+  }
+
+  /**
+   * Contrato sem orçamento correspondente na lista
+   */
+  static fromContrato(dto: ContratoDto): AccessibilityRequest {
+    const orcamento = dto.orcamento;
+
+    return {
+      id: this.toNumericId(dto.id_contrato || dto.id),
+      clientName: this.getClientName(orcamento?.pacote?.cliente || dto.cliente),
+      site: dto.site || '',
+      plan: this.mapPlan(orcamento?.pacote?.tipo_pacote),
+      selectedIssues: [],
+      createdAt: this.toDate(dto.createdAt || dto.created_at),
+      updatedAt: this.toDate(dto.updatedAt || dto.updated_at),
+      _codOrcamento: this.getContratoOrcamentoCode(dto),
+      _idCliente: this.getClientId(orcamento?.pacote?.cliente || dto.cliente),
+      ...this.getContratoFields(dto)
+    };
+  }
+
+  /**
+   * Aplica os dados do contrato a uma solicitação/orçamento já mapeado
+   */
+  static applyContrato(request: AccessibilityRequest, dto: ContratoDto): AccessibilityRequest {
+    return { ...request, ...this.getContratoFields(dto) };
+  }
+
+  /**
+   * Código do orçamento ao qual o contrato pertence
+   */
+  static getContratoOrcamentoCode(dto: ContratoDto): string | undefined {
+    return dto.cod_orcamento || dto.orcamento_id;
+  }
+
+  private static getContratoFields(
+    dto: ContratoDto
+  ): Pick<AccessibilityRequest, 'status' | 'contractFile' | 'contractSignedUrl' | '_idContrato'> {
+    let status: RequestStatus = 'Contract Sent';
+    if (dto.status_contrato === 'CONCLUIDO' || dto.contrato_assinado_url) {
+      status = 'Contract Signed';
+    } else if (dto.status_contrato === 'EM_ANDAMENTO') {
+      status = 'In Development';
+    }
+
+    return {
+      status,
+      contractFile: dto.arquivo_contrato ? {
+        name: dto.arquivo_contrato.split('/').pop() || 'contrato.pdf',
+        url: dto.arquivo_contrato
+      } : undefined,
+      contractSignedUrl: dto.contrato_assinado_url,
+      _idContrato: dto.id_contrato || dto.id
+    };
+  }
+
+  /**
+   * Gera um id numérico estável a partir de um UUID (hash simples)
+   */
+  private static toNumericId(uuid?: string): number {
+    if (!uuid) return Date.now();
+    return Math.abs(uuid.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0)) % 1000000000;
+  }
+
+  private static getClientId(cliente?: ClienteDto): number | undefined {
+    return cliente?.id_cliente ?? cliente?.id;
+  }
+
+  private static getClientName(cliente?: ClienteDto, includeCompanyName: boolean = true): string {
+    return cliente?.nome_completo
+      || (includeCompanyName ? cliente?.nome_razao_social : undefined)
+      || 'Cliente Desconhecido';
+  }
+
+  /**
+   * Monta a URL completa de um arquivo salvo em /uploads do backend
+   */
+  private static buildFile(path: string | undefined, defaultName: string, baseUrl: string): FileData | undefined {
+    if (!path) return undefined;
+
+    let url = path;
+    if (!path.startsWith('http')) {
+      if (path.startsWith('/uploads/')) {
+        url = `${baseUrl}${path}`;
+      } else if (path.startsWith('uploads/')) {
+        url = `${baseUrl}/${path}`;
+      } else {
+        url = `${baseUrl}/uploads/${path}`;
+      }
+    }
+
+    return { name: path.split('/').pop() || defaultName, url };
+  }
+
+  private static toDate(value?: string): Date {
+    return value ? new Date(value) : new Date();
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Usar o id do backend diretamente quando as telas aceitarem ids em texto
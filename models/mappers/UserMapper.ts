@@ -0,0 +1,30 @@
+/**
+ * UserMapper - Conversão do usuário autenticado (AuthUserDto) para User
+ *
+ * Responsabilidades:
+ * - Traduzir os campos do backend (português) para o app (inglês)
+ * - Definir o tipo de usuário de forma conservadora
+ */
+
+import type { AuthUserDto } from '../../services/dto/ApiDtos';
+import type { User } from '../user/UserModel';
+
+export class UserMapper {
+  /**
+   * Usuário retornado por /auth/login e /auth/register
+   * @param fallback - Valores usados quando o backend não envia o campo (ex: dados do formulário)
+   *
+   * Apenas 'funcionario' dá acesso de funcionário; tipos desconhecidos
+   * (já reportados pelo DtoValidator) são tratados como cliente.
+   */
+  static fromAuthUser(dto: AuthUserDto, fallback: Partial<User> = {}): User {
+    return {
+      id: dto.id ?? fallback.id,
+      type: dto.tipo === 'funcionario' ? 'employee' : 'client',
+      name: dto.nome || dto.nome_razao_social || fallback.name || 'Usuário',
+      email: dto.email || fallback.email || '',
+      photo_path: dto.foto,
+      photo: dto.foto
+    };
+  }
+}
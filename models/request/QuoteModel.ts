@@ -0,0 +1,273 @@
+/**
+ * QuoteModel - Montagem e precificação de orçamentos
+ *
+ * Responsabilidades:
+ * - Montar os itens do orçamento a partir dos problemas selecionados e do plano da solicitação
+ * - Precificar cada item pela tabela de preços (prioridade x nível WCAG)
+ * - Calcular descontos, impostos, total e validade
+ * - Gerar o payload de criação do orçamento (createBudget)
+ *
+ * O documento (PDF) do orçamento é gerado pelo DocumentModel.
+ */
+
+import { WcagCatalog, type WcagLevel } from '../evaluation/WcagCatalog';
+import { SettingsModel, SETTING_KEYS } from '../settings/SettingsModel';
+import type { AccessibilityRequest } from './RequestModel';
+import type { OrcamentoCreateDto } from '../../services/dto/ApiDtos';
+
+/**
+ * Tabela de preços configurável (valores em R$)
+ */
+export interface QuoteRates {
+  priorityRates: Record<number, number>; // Preço por item conforme a prioridade (1-5)
+  levelMultipliers: Record<WcagLevel, number>; // Multiplicador conforme o nível WCAG do item
+  planBaseFees: Record<WcagLevel, number>; // Taxa fixa do plano (análise, gestão e relatório de conformidade)
+}
+
+export interface QuoteLineItem {
+  id: string;
+  description: string;
+  priority: number; // 0 = taxa do plano
+  level: WcagLevel;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface QuoteDiscount {
+  label: string;
+  type: 'percent' | 'fixed';
+  value: number; // Percentual (0-100) ou valor em R$
+}
+
+export interface QuoteTax {
+  label: string;
+  rate: number; // Percentual sobre o valor com desconto
+}
+
+export interface QuoteDraft {
+  requestId: number;
+  plan: WcagLevel;
+  items: QuoteLineItem[];
+  discounts: QuoteDiscount[];
+  taxes: QuoteTax[];
+  validityDays: number;
+  notes?: string;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+}
+
+export interface Quote extends QuoteDraft, QuoteTotals {
+  issuedAt: Date;
+  validUntil: Date;
+}
+
+export class QuoteModel {
+  static readonly DEFAULT_VALIDITY_DAYS = 30;
+
+  static readonly DEFAULT_RATES: QuoteRates = {
+    priorityRates: { 1: 150, 2: 250, 3: 400, 4: 600, 5: 800 },
+    levelMultipliers: { A: 1, AA: 1.25, AAA: 1.6 },
+    planBaseFees: { A: 1500, AA: 2500, AAA: 4000 }
+  };
+
+  static readonly DEFAULT_TAXES: QuoteTax[] = [
+    { label: 'ISS', rate: 5 }
+  ];
+
+  /**
+   * Tabela de preços salva (ou a padrão)
+   */
+  static async getRates(): Promise<QuoteRates> {
+    const saved = await SettingsModel.get(SETTING_KEYS.QUOTE_RATES);
+    if (!saved.data) {
+      return this.DEFAULT_RATES;
+    }
+
+    try {
+      const parsed = JSON.parse(saved.data) as Partial<QuoteRates>;
+      return {
+        priorityRates: { ...this.DEFAULT_RATES.priorityRates, ...parsed.priorityRates },
+        levelMultipliers: { ...this.DEFAULT_RATES.levelMultipliers, ...parsed.levelMultipliers },
+        planBaseFees: { ...this.DEFAULT_RATES.planBaseFees, ...parsed.planBaseFees }
+      };
+    } catch {
+      console.warn('[QuoteModel] Tabela de preços salva inválida, usando a padrão');
+      return this.DEFAULT_RATES;
+    }
+  }
+
+  static async saveRates(rates: QuoteRates): Promise<{ success: boolean; error?: string }> {
+    return SettingsModel.set(SETTING_KEYS.QUOTE_RATES, JSON.stringify(rates));
+  }
+
+  /**
+   * Rascunho inicial: taxa do plano + um item por problema selecionado pelo cliente
+   */
+  static createDraft(request: AccessibilityRequest, rates: QuoteRates): QuoteDraft {
+    const items: QuoteLineItem[] = [
+      {
+        id: 'plan',
+        description: `Plano ${request.plan} - análise, gestão e relatório de conformidade`,
+        priority: 0,
+        level: request.plan,
+        quantity: 1,
+        unitPrice: rates.planBaseFees[request.plan]
+      },
+      ...request.selectedIssues.map((issue, index) => {
+        const level = this.getItemLevel(issue.text, request.plan);
+        return {
+          id: `issue-${index}`,
+          description: issue.text,
+          priority: issue.priority,
+          level,
+          quantity: 1,
+          unitPrice: this.priceItem(issue.priority, level, rates)
+        };
+      })
+    ];
+
+    return {
+      requestId: request.id,
+      plan: request.plan,
+      items,
+      discounts: [],
+      taxes: this.DEFAULT_TAXES.map(tax => ({ ...tax })),
+      validityDays: this.DEFAULT_VALIDITY_DAYS
+    };
+  }
+
+  /**
+   * Preço de um item pela tabela (prioridades fora de 1-5 usam o limite mais próximo)
+   */
+  static priceItem(priority: number, level: WcagLevel, rates: QuoteRates): number {
+    const clamped = Math.min(5, Math.max(1, Math.round(priority) || 1));
+    return this.round(rates.priorityRates[clamped] * rates.levelMultipliers[level]);
+  }
+
+  static getItemTotal(item: QuoteLineItem): number {
+    return this.round(item.quantity * item.unitPrice);
+  }
+
+  /**
+   * Descontos incidem sobre o subtotal (sem ficar negativo); impostos sobre o valor com desconto
+   */
+  static calculateTotals(draft: QuoteDraft): QuoteTotals {
+    const subtotal = this.round(draft.items.reduce((sum, item) => sum + this.getItemTotal(item), 0));
+
+    const requestedDiscount = draft.discounts.reduce((sum, discount) => sum + this.getDiscountValue(discount, subtotal), 0);
+    const discountTotal = this.round(Math.min(subtotal, requestedDiscount));
+
+    const taxable = subtotal - discountTotal;
+    // Soma dos impostos já arredondados, como cada um aparece no documento e em impostos[].valor
+    const taxTotal = this.round(draft.taxes.reduce((sum, tax) => sum + this.getTaxValue(tax, taxable), 0));
+
+    return { subtotal, discountTotal, taxTotal, total: this.round(taxable + taxTotal) };
+  }
+
+  static getDiscountValue(discount: QuoteDiscount, subtotal: number): number {
+    return this.round(discount.type === 'percent' ? (subtotal * discount.value) / 100 : discount.value);
+  }
+
+  /**
+   * Valor de um imposto sobre o valor com desconto
+   */
+  static getTaxValue(tax: QuoteTax, taxable: number): number {
+    return this.round((taxable * tax.rate) / 100);
+  }
+
+  /**
+   * @returns Mensagem do primeiro problema encontrado ou null se o rascunho é válido
+   */
+  static validate(draft: QuoteDraft): string | null {
+    if (draft.items.length === 0) {
+      return 'Adicione ao menos um item ao orçamento';
+    }
+    if (draft.items.some(item => !item.description.trim())) {
+      return 'Todos os itens precisam de descrição';
+    }
+    if (draft.items.some(item => !(item.quantity > 0) || !(item.unitPrice >= 0))) {
+      return 'Quantidades devem ser maiores que zero e preços não podem ser negativos';
+    }
+    if (draft.discounts.some(discount => !(discount.value >= 0) || (discount.type === 'percent' && discount.value > 100))) {
+      return 'Descontos devem estar entre 0 e 100% (ou ser um valor positivo)';
+    }
+    if (draft.taxes.some(tax => !(tax.rate >= 0) || tax.rate > 100)) {
+      return 'Alíquotas de impostos devem estar entre 0 e 100%';
+    }
+    if (!Number.isInteger(draft.validityDays) || draft.validityDays < 1) {
+      return 'A validade deve ser de pelo menos 1 dia';
+    }
+    return null;
+  }
+
+  /**
+   * Orçamento final com totais e datas
+   */
+  static buildQuote(draft: QuoteDraft, issuedAt: Date = new Date()): Quote {
+    const validUntil = new Date(issuedAt);
+    validUntil.setDate(validUntil.getDate() + draft.validityDays);
+
+    return { ...draft, ...this.calculateTotals(draft), issuedAt, validUntil };
+  }
+
+  /**
+   * Payload de criação do orçamento no backend
+   */
+  static toBudgetPayload(quote: Quote, request: AccessibilityRequest): OrcamentoCreateDto {
+    const taxable = quote.subtotal - quote.discountTotal;
+
+    return {
+      solicitacao_id: request._idSolicitacao,
+      valor: quote.total,
+      validade: this.toIsoDate(quote.validUntil),
+      itens: quote.items.map(item => ({
+        descricao: item.description,
+        prioridade: item.priority,
+        nivel_wcag: item.level,
+        quantidade: item.quantity,
+        valor_unitario: item.unitPrice,
+        valor_total: this.getItemTotal(item)
+      })),
+      descontos: quote.discounts.map(discount => ({
+        descricao: discount.label,
+        tipo: discount.type === 'percent' ? 'percentual' : 'valor',
+        valor: discount.value
+      })),
+      impostos: quote.taxes.map(tax => ({
+        descricao: tax.label,
+        aliquota: tax.rate,
+        valor: this.getTaxValue(tax, taxable)
+      })),
+      observacoes: quote.notes?.trim() || undefined
+    };
+  }
+
+  static formatCurrency(value: number): string {
+    return value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+  }
+
+  /**
+   * Nível do item: o do critério WCAG citado no texto (ex: "1.4.3 Contraste (Mínimo)") ou o do plano
+   */
+  private static getItemLevel(text: string, plan: WcagLevel): WcagLevel {
+    const match = /^(\d\.\d{1,2}\.\d{1,2})\b/.exec(text.trim());
+    return (match && WcagCatalog.getCriterion(match[1])?.level) || plan;
+  }
+
+  private static toIsoDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Tabela de preços por cliente ou por pacote contratado
+// - Parcelamento e condições de pagamento
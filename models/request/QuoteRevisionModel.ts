@@ -0,0 +1,212 @@
+/**
+ * QuoteRevisionModel - Recusa do orçamento e versões revisadas
+ *
+ * Responsabilidades:
+ * - Validar e montar a recusa do cliente (motivo estruturado e comentário opcional)
+ * - Converter a recusa para as observações da solicitação no backend (e de volta)
+ * - Manter a lista de versões do orçamento com o desfecho de cada uma
+ *
+ * O backend guarda apenas o arquivo atual e a última recusa: versões que o app não
+ * acompanhou são reconstruídas a partir delas (sem arquivo nem motivo das mais antigas).
+ */
+
+import type { AccessibilityRequest, FileData, RequestStatus } from './RequestModel';
+
+export type QuoteRejectionReason = 'price' | 'scope' | 'deadline' | 'other';
+
+export type QuoteRevisionOutcome = 'pending' | 'approved' | 'rejected';
+
+export interface QuoteRejectionInput {
+  reason: QuoteRejectionReason;
+  comment?: string;
+}
+
+export interface QuoteRejection extends QuoteRejectionInput {
+  version: number; // Versão do orçamento recusada
+  rejectedAt: string; // ISO timestamp
+}
+
+export interface QuoteRevision {
+  version: number;
+  file?: FileData; // Ausente em versões reconstruídas a partir do backend
+  sentAt?: string;
+  outcome: QuoteRevisionOutcome;
+  rejection?: QuoteRejection;
+  decidedAt?: string;
+}
+
+export class QuoteRevisionModel {
+  static readonly MAX_COMMENT_LENGTH = 500;
+
+  static readonly REJECTION_REASONS: Record<QuoteRejectionReason, { label: string; description: string }> = {
+    price: { label: 'Preço', description: 'O valor está acima do esperado' },
+    scope: { label: 'Escopo', description: 'Os itens não correspondem ao que preciso' },
+    deadline: { label: 'Prazo', description: 'A validade ou o prazo não atendem' },
+    other: { label: 'Outro', description: 'Descreva o motivo no comentário' },
+  };
+
+  // Desfecho da versão atual conforme o status da solicitação (null = status não informa)
+  private static readonly OUTCOME_BY_STATUS: Partial<Record<RequestStatus, QuoteRevisionOutcome>> = {
+    'Quote Sent': 'pending',
+    'Quote Rejected': 'rejected',
+    'Quote Approved': 'approved',
+    'Contract Sent': 'approved',
+    'Contract Signed': 'approved',
+    'In Development': 'approved',
+    'Completed': 'approved',
+  };
+
+  private static readonly OBSERVACOES_PATTERN = /^Orçamento recusado \(versão (\d+)\)\. Motivo: ([^.]+)\.(?: Comentário: ([\s\S]*))?$/;
+
+  /**
+   * Valida a recusa informada pelo cliente
+   * @returns Mensagem do primeiro problema ou null se válida
+   */
+  static validateRejection(input: QuoteRejectionInput): string | null {
+    if (!this.REJECTION_REASONS[input.reason]) {
+      return 'Selecione o motivo da recusa';
+    }
+
+    const comment = input.comment?.trim() || '';
+    if (input.reason === 'other' && !comment) {
+      return 'Descreva o motivo da recusa';
+    }
+    if (comment.length > this.MAX_COMMENT_LENGTH) {
+      return `O comentário deve ter no máximo ${this.MAX_COMMENT_LENGTH} caracteres`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Recusa da versão atual do orçamento
+   */
+  static createRejection(request: AccessibilityRequest, input: QuoteRejectionInput): QuoteRejection {
+    const current = this.getRevisions(request).pop();
+    return {
+      reason: input.reason,
+      comment: input.comment?.trim() || undefined,
+      version: current?.version || 1,
+      rejectedAt: new Date().toISOString()
+    };
+  }
+
+  static getReasonLabel(reason: QuoteRejectionReason): string {
+    return this.REJECTION_REASONS[reason]?.label || reason;
+  }
+
+  /**
+   * Resumo da recusa para o histórico e para o funcionário
+   */
+  static describeRejection(rejection: QuoteRejection): string {
+    const reason = `Motivo: ${this.getReasonLabel(rejection.reason)}`;
+    return rejection.comment ? `${reason} - ${rejection.comment}` : reason;
+  }
+
+  /**
+   * Observações da solicitação no backend (legíveis e convertidas de volta por parseObservacoes)
+   */
+  static toObservacoes(rejection: QuoteRejection): string {
+    const base = `Orçamento recusado (versão ${rejection.version}). Motivo: ${this.getReasonLabel(rejection.reason)}.`;
+    return rejection.comment ? `${base} Comentário: ${rejection.comment}` : base;
+  }
+
+  /**
+   * Recusa registrada nas observações da solicitação
+   * @returns Recusa ou null se as observações não descrevem uma recusa
+   */
+  static parseObservacoes(observacoes?: string, updatedAt?: string): QuoteRejection | null {
+    const match = observacoes ? this.OBSERVACOES_PATTERN.exec(observacoes.trim()) : null;
+    if (!match) return null;
+
+    const reason = (Object.keys(this.REJECTION_REASONS) as QuoteRejectionReason[])
+      .find(key => this.REJECTION_REASONS[key].label === match[2].trim()) || 'other';
+
+    return {
+      reason,
+      comment: match[3]?.trim() || undefined,
+      version: Number(match[1]),
+      rejectedAt: updatedAt || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Versões do orçamento com o desfecho de cada uma, alinhadas ao status atual
+   * Com o orçamento enviado novamente após uma recusa, é aberta uma nova versão
+   */
+  static getRevisions(request: AccessibilityRequest): QuoteRevision[] {
+    const revisions = (request.quoteRevisions?.length ? request.quoteRevisions : this.rebuild(request))
+      .map(revision => ({ ...revision }));
+    const outcome = this.OUTCOME_BY_STATUS[request.status];
+
+    if (!request.quoteFile || !outcome) {
+      return revisions;
+    }
+
+    const last = revisions[revisions.length - 1];
+    const timestamp = request.updatedAt ? new Date(request.updatedAt).toISOString() : new Date().toISOString();
+
+    if (!last || (outcome === 'pending' && last.outcome !== 'pending')) {
+      revisions.push({ version: (last?.version || 0) + 1, file: request.quoteFile, sentAt: timestamp, outcome: 'pending' });
+      return revisions;
+    }
+
+    if (last.outcome === 'pending' && outcome !== 'pending') {
+      last.decidedAt = outcome === 'rejected' && request.quoteRejection?.rejectedAt || timestamp;
+    }
+    last.file = request.quoteFile;
+    last.outcome = outcome;
+    if (outcome === 'rejected' && request.quoteRejection?.version === last.version) {
+      last.rejection = request.quoteRejection;
+    }
+
+    return revisions;
+  }
+
+  /**
+   * Solicitação com a lista de versões atualizada
+   * @param known - Versões já acompanhadas pelo app (ex: antes de recarregar do backend)
+   */
+  static withRevisions(request: AccessibilityRequest, known?: QuoteRevision[]): AccessibilityRequest {
+    const revisions = this.getRevisions(known?.length ? { ...request, quoteRevisions: known } : request);
+    return revisions.length > 0 ? { ...request, quoteRevisions: revisions } : request;
+  }
+
+  /**
+   * Versão do próximo orçamento a ser enviado (ou da versão ainda sem resposta)
+   */
+  static getNextVersion(request: AccessibilityRequest): number {
+    const last = this.getRevisions(request).pop();
+    if (!last) return 1;
+    return last.outcome === 'pending' ? last.version : last.version + 1;
+  }
+
+  /**
+   * Versões que o app não acompanhou, a partir do arquivo atual e da última recusa
+   */
+  private static rebuild(request: AccessibilityRequest): QuoteRevision[] {
+    if (!request.quoteFile) return [];
+
+    const rejection = request.quoteRejection;
+    const current = request.status === 'Quote Rejected'
+      ? rejection?.version || 1
+      : rejection ? rejection.version + 1 : 1;
+
+    return Array.from({ length: current }, (_, index): QuoteRevision => {
+      const version = index + 1;
+      if (version === current) {
+        return { version, file: request.quoteFile, outcome: 'pending' };
+      }
+      return {
+        version,
+        outcome: 'rejected',
+        rejection: rejection?.version === version ? rejection : undefined,
+        decidedAt: rejection?.version === version ? rejection.rejectedAt : undefined
+      };
+    });
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Versões do orçamento registradas no backend (arquivo e motivo de cada uma)
+// - Contraproposta de valor pelo cliente
@@ -0,0 +1,280 @@
+/**
+ * RequestHistoryModel - Modelo do histórico (auditoria) de solicitações
+ *
+ * Responsabilidades:
+ * - Registrar eventos de mudança das solicitações (status, desenvolvimento, arquivos, assinatura)
+ * - Persistir os eventos localmente via DatabaseService
+ * - Buscar o histórico registrado no backend (outros dispositivos) e unir ao local
+ * - Formatar os eventos para exibição no feed de atividades
+ * - Converter eventos para o formato do backend
+ */
+
+import ApiService from '../../services/ApiService';
+import { DatabaseService } from '../../services/DatabaseService';
+import type { HistoricoEventoDto } from '../../services/dto/ApiDtos';
+import { RequestModel, type RequestStatus, type DevelopmentStatus } from './RequestModel';
+import { RequestWorkflow } from './RequestWorkflow';
+
+export type RequestHistoryEventType =
+  | 'created'
+  | 'status'
+  | 'development'
+  | 'attachment'
+  | 'signature';
+
+export interface RequestHistoryEvent {
+  id?: number;
+  requestId: number;
+  solicitacaoId?: string; // ID no backend (chave estável; o requestId local pode colidir)
+  type: RequestHistoryEventType;
+  fromValue?: string;
+  toValue?: string;
+  actorName: string;
+  actorRole?: 'client' | 'employee';
+  note?: string;
+  createdAt: string; // ISO timestamp
+}
+
+const EVENT_TYPES: RequestHistoryEventType[] = ['created', 'status', 'development', 'attachment', 'signature'];
+
+export class RequestHistoryModel {
+  private static db = DatabaseService.getInstance();
+  private static api = ApiService;
+
+  /**
+   * Registra um evento no histórico local
+   * @param event - Dados do evento (data/hora preenchida automaticamente)
+   * @returns Evento salvo com ID
+   */
+  static async recordEvent(
+    event: Omit<RequestHistoryEvent, 'id' | 'createdAt'>
+  ): Promise<{ success: boolean; data?: RequestHistoryEvent; error?: string }> {
+    const savedEvent: RequestHistoryEvent = {
+      ...event,
+      createdAt: new Date().toISOString()
+    };
+
+    try {
+      if (!this.db.isReady()) {
+        // Sem banco disponível o evento ainda é exibido na sessão atual
+        return { success: true, data: savedEvent };
+      }
+
+      const result = await this.db.execute(`
+        INSERT INTO request_history (request_id, solicitacao_id, event_type, from_value, to_value, actor_name, actor_role, note, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        savedEvent.requestId,
+        savedEvent.solicitacaoId || null,
+        savedEvent.type,
+        savedEvent.fromValue || null,
+        savedEvent.toValue || null,
+        savedEvent.actorName,
+        savedEvent.actorRole || null,
+        savedEvent.note || null,
+        savedEvent.createdAt
+      ]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: { ...savedEvent, id: result.data?.lastInsertRowId } };
+    } catch (error) {
+      console.error('[RequestHistoryModel] Erro ao registrar evento:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Busca o histórico de uma solicitação em ordem cronológica
+   * @param requestId - ID local da solicitação
+   * @param solicitacaoId - ID no backend; quando presente, só os eventos sem ele usam o ID local
+   */
+  static async getHistory(
+    requestId: number,
+    solicitacaoId?: string
+  ): Promise<{ success: boolean; data?: RequestHistoryEvent[]; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: [] };
+      }
+
+      const result = solicitacaoId
+        ? await this.db.query(`
+            SELECT * FROM request_history
+            WHERE solicitacao_id = ? OR (solicitacao_id IS NULL AND request_id = ?)
+            ORDER BY id ASC
+          `, [solicitacaoId, requestId])
+        : await this.db.query(`
+            SELECT * FROM request_history WHERE request_id = ? AND solicitacao_id IS NULL ORDER BY id ASC
+          `, [requestId]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: (result.data || []).map((row: any) => this.mapRow(row)) };
+    } catch (error) {
+      console.error('[RequestHistoryModel] Erro ao buscar histórico:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Busca o histórico registrado no backend, incluindo eventos de outros dispositivos
+   * @param requestId - ID local da solicitação (atribuído aos eventos)
+   * @param idSolicitacao - ID da solicitação no backend
+   */
+  static async getRemoteHistory(
+    requestId: number,
+    idSolicitacao: string
+  ): Promise<{ success: boolean; data?: RequestHistoryEvent[]; error?: string }> {
+    const response = await this.api.getRequestHistory(idSolicitacao);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return {
+      success: true,
+      data: response.data
+        .map(dto => this.fromBackendPayload(dto, requestId, idSolicitacao))
+        .filter((event): event is RequestHistoryEvent => event !== null)
+    };
+  }
+
+  /**
+   * Une o histórico local ao do backend em ordem cronológica
+   * Eventos enviados por este dispositivo voltam do backend e aparecem uma vez só
+   */
+  static merge(local: RequestHistoryEvent[], remote: RequestHistoryEvent[]): RequestHistoryEvent[] {
+    const key = (event: RequestHistoryEvent) =>
+      [event.type, event.fromValue || '', event.toValue || '', new Date(event.createdAt).getTime()].join('|');
+
+    const known = new Set(local.map(key));
+    return [...local, ...remote.filter(event => !known.has(key(event)))]
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  /**
+   * Descrição do evento em português para o feed de atividades
+   */
+  static describeEvent(event: RequestHistoryEvent): string {
+    switch (event.type) {
+      case 'created':
+        return 'Solicitação criada';
+      case 'status': {
+        const from = this.getStatusLabel(event.fromValue);
+        const to = this.getStatusLabel(event.toValue);
+        return from ? `Status alterado de "${from}" para "${to}"` : `Status definido como "${to}"`;
+      }
+      case 'development': {
+        const from = this.getDevelopmentLabel(event.fromValue);
+        const to = this.getDevelopmentLabel(event.toValue);
+        return from ? `Desenvolvimento: "${from}" → "${to}"` : `Desenvolvimento iniciado em "${to}"`;
+      }
+      case 'attachment':
+        return `Arquivo anexado: ${event.toValue}`;
+      case 'signature':
+        return 'Contrato assinado digitalmente';
+      default:
+        return 'Evento registrado';
+    }
+  }
+
+  /**
+   * Ícone do evento para o feed de atividades
+   */
+  static getEventIcon(type: RequestHistoryEventType): string {
+    const icons: Record<RequestHistoryEventType, string> = {
+      'created': '🆕',
+      'status': '🔄',
+      'development': '💻',
+      'attachment': '📎',
+      'signature': '✍️'
+    };
+    return icons[type];
+  }
+
+  /**
+   * Quando a solicitação chegou a um status (último evento de status com esse destino)
+   * @param events - Eventos da solicitação em ordem cronológica
+   * @returns ISO timestamp ou undefined se o evento não estiver no histórico
+   */
+  static getStatusReachedAt(events: RequestHistoryEvent[], status: RequestStatus): string | undefined {
+    const event = [...events].reverse().find(e => e.type === 'status' && e.toValue === status);
+    return event?.createdAt;
+  }
+
+  /**
+   * Converte o evento para o formato esperado pelo backend
+   */
+  static toBackendPayload(event: RequestHistoryEvent) {
+    return {
+      tipo_evento: event.type,
+      valor_anterior: event.fromValue,
+      valor_novo: event.toValue,
+      autor: event.actorName,
+      perfil_autor: event.actorRole,
+      observacao: event.note,
+      data_evento: event.createdAt
+    };
+  }
+
+  /**
+   * Converte um evento do backend
+   * @returns null se o tipo do evento não for conhecido por esta versão do app
+   */
+  static fromBackendPayload(dto: HistoricoEventoDto, requestId: number, solicitacaoId: string): RequestHistoryEvent | null {
+    if (!EVENT_TYPES.includes(dto.tipo_evento as RequestHistoryEventType)) {
+      return null;
+    }
+
+    return {
+      requestId,
+      solicitacaoId,
+      type: dto.tipo_evento as RequestHistoryEventType,
+      fromValue: dto.valor_anterior || undefined,
+      toValue: dto.valor_novo || undefined,
+      actorName: dto.autor,
+      actorRole: dto.perfil_autor === 'client' || dto.perfil_autor === 'employee' ? dto.perfil_autor : undefined,
+      note: dto.observacao || undefined,
+      createdAt: dto.data_evento
+    };
+  }
+
+  private static getStatusLabel(status?: string): string | undefined {
+    if (!status) return undefined;
+    return RequestWorkflow.getState(status as RequestStatus)?.label || status;
+  }
+
+  private static getDevelopmentLabel(status?: string): string | undefined {
+    if (!status) return undefined;
+    return RequestModel.getDevelopmentStatusLabel(status as DevelopmentStatus) || status;
+  }
+
+  private static mapRow(row: any): RequestHistoryEvent {
+    return {
+      id: row.id,
+      requestId: Number(row.request_id),
+      solicitacaoId: row.solicitacao_id || undefined,
+      type: row.event_type,
+      fromValue: row.from_value || undefined,
+      toValue: row.to_value || undefined,
+      actorName: row.actor_name,
+      actorRole: row.actor_role || undefined,
+      note: row.note || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Filtros por tipo de evento e por autor
+// - Exportação do histórico em PDF
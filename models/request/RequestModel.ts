@@ -10,7 +10,11 @@
  */
 
 import ApiService from '../../services/ApiService';
-import { API_BASE_URL } from '../../config/api.config';
+import { DatabaseService } from '../../services/DatabaseService';
+import { RequestWorkflow, type WorkflowRole, type WorkflowTransition } from './RequestWorkflow';
+import { RequestMapper } from '../mappers/RequestMapper';
+import { QuoteRevisionModel, type QuoteRejection, type QuoteRevision } from './QuoteRevisionModel';
+import type { SolicitacaoDto, OrcamentoDto, OrcamentoCreateDto, ContratoDto } from '../../services/dto/ApiDtos';
 
 export interface ChecklistItem {
   text: string;
@@ -32,19 +36,27 @@ export interface AccessibilityRequest {
   quoteFile?: FileData;
   contractFile?: FileData;
   contractSignedUrl?: string;
+  quoteRejection?: QuoteRejection; // Última recusa do orçamento pelo cliente
+  quoteRevisions?: QuoteRevision[]; // Versões do orçamento acompanhadas pelo app (ver QuoteRevisionModel)
   selectedIssues: ChecklistItem[];
   createdAt?: Date;
   updatedAt?: Date;
+  _idSolicitacao?: string; // UUID da solicitação no backend
+  _codOrcamento?: string; // UUID do orçamento no backend (relaciona orçamentos e contratos)
+  _idContrato?: string; // UUID do contrato no backend
+  _idCliente?: number; // ID do cliente no backend
 }
 
 export type RequestStatus = 
   | 'Awaiting Quote' 
   | 'Quote Sent'
+  | 'Quote Rejected'
   | 'Quote Approved'
   | 'Contract Sent' 
   | 'Contract Signed'
   | 'In Development' 
-  | 'Completed';
+  | 'Completed'
+  | 'Cancelled';
 
 export type DevelopmentStatus = 
   | 'Analysis'
@@ -55,38 +67,19 @@ export type DevelopmentStatus =
 export interface StatusConfig {
   steps: string[];
   map: Record<RequestStatus, string>;
-  nextStatus: Record<RequestStatus, RequestStatus | null>;
   developmentSteps: string[];
 }
 
+export interface CachedRequests {
+  requests: AccessibilityRequest[];
+  cachedAt: string; // ISO timestamp da última sincronização bem-sucedida
+}
+
 export class RequestModel {
   private static api = ApiService;
+  private static db = DatabaseService.getInstance();
   private static USE_API = true; // Flag para controlar uso da API
   
-  // Configuração de status das solicitações
-  private static readonly STATUS_CONFIG: StatusConfig = {
-    steps: ["Solicitação enviada", "Orçamento", "Contrato", "Desenvolvimento", "Finalizado"],
-    map: {
-      'Awaiting Quote': "Solicitação enviada",
-      'Quote Sent': "Orçamento",
-      'Quote Approved': "Orçamento",
-      'Contract Sent': "Contrato",
-      'Contract Signed': "Contrato",
-      'In Development': "Desenvolvimento",
-      'Completed': "Finalizado",
-    },
-    nextStatus: {
-      'Awaiting Quote': 'Quote Sent',
-      'Quote Sent': 'Quote Approved',
-      'Quote Approved': 'Contract Sent',
-      'Contract Sent': 'Contract Signed',
-      'Contract Signed': 'In Development',
-      'In Development': 'Completed',
-      'Completed': null, // Status final
-    },
-    developmentSteps: ["Em Análise", "Em Desenvolvimento", "Em Teste", "Concluído"]
-  };
-
   // Dados mock para desenvolvimento
   private static initialRequests: AccessibilityRequest[] = [
     { 
@@ -155,13 +148,42 @@ export class RequestModel {
       createdAt: new Date('2024-01-28'),
       updatedAt: new Date('2024-01-28')
     },
+    { 
+      id: 6, 
+      clientName: 'Bella Moda', 
+      site: 'bellamoda.com.br', 
+      plan: 'AA', 
+      status: 'Quote Rejected', 
+      quoteFile: { name: 'orcamento_bella.pdf', url: '#' }, 
+      quoteRejection: {
+        reason: 'price',
+        comment: 'Precisamos reduzir o valor ou dividir em etapas',
+        version: 1,
+        rejectedAt: '2024-01-27T14:30:00.000Z'
+      },
+      selectedIssues: [
+        { text: 'Navegação por teclado inacessível', priority: 5 },
+        { text: 'Vídeos sem legenda', priority: 3 }
+      ],
+      createdAt: new Date('2024-01-24'),
+      updatedAt: new Date('2024-01-27')
+    },
   ];
 
   /**
-   * Obtém configuração de status
+   * Obtém configuração de exibição dos status (derivada do fluxo)
    */
   static getStatusConfig(): StatusConfig {
-    return { ...this.STATUS_CONFIG };
+    const workflow = RequestWorkflow.getDefinition();
+    const map = Object.fromEntries(
+      Object.entries(workflow.states).map(([status, state]) => [status, state.step])
+    ) as Record<RequestStatus, string>;
+
+    return {
+      steps: [...workflow.steps],
+      map,
+      developmentSteps: [...workflow.developmentSteps]
+    };
   }
 
   /**
@@ -185,239 +207,177 @@ export class RequestModel {
 
       // Buscar solicitações, orçamentos e contratos em paralelo
       const [requestsResponse, budgetsResponse, contractsResponse] = await Promise.all([
-        this.api.getRequests().catch(() => ({ success: false, data: [] })), // Se falhar, usar array vazio
+        this.api.getRequests().catch(() => ({ success: false, data: [] as SolicitacaoDto[] })), // Se falhar, usar array vazio
         this.api.getBudgets(),
         this.api.getContracts()
       ]);
 
       if (!budgetsResponse.success && !contractsResponse.success) {
-        console.warn('[RequestModel] Falha na API, usando dados mock...');
-        return { success: true, data: this.getInitialRequests() };
+        console.warn('[RequestModel] Falha na API ao carregar solicitações');
+        return { success: false, error: budgetsResponse.error || contractsResponse.error || 'Falha ao carregar solicitações' };
       }
 
-      // Combinar solicitações, orçamentos e contratos
-      const requests: AccessibilityRequest[] = [];
-
-      // Processar solicitações pendentes (criadas por clientes)
-      if (requestsResponse.success && requestsResponse.data) {
-        const requestsArray = Array.isArray(requestsResponse.data) 
-          ? requestsResponse.data 
-          : (requestsResponse.data.data || []);
-        
-        requestsArray.forEach((solicitacao: any) => {
-          // Processar todas as solicitações, não apenas PENDENTE ou EM_ANALISE
-          const cliente = solicitacao.cliente;
-          const id = solicitacao.id_solicitacao 
-            ? Math.abs(solicitacao.id_solicitacao.split('').reduce((acc: number, char: string) => acc + char.charCodeAt(0), 0)) % 1000000000
-            : Date.now();
-          
-          // Mapear status do backend para status do frontend
-          let status: RequestStatus = 'Awaiting Quote';
-          if (solicitacao.status === 'ORCAMENTO_CRIADO') {
-            status = 'Quote Sent';
-          } else if (solicitacao.status === 'ORCAMENTO_APROVADO') {
-            status = 'Quote Approved';
-          } else if (solicitacao.status === 'PENDENTE' || solicitacao.status === 'EM_ANALISE') {
-            status = 'Awaiting Quote';
-          }
-          
-          // Se já tem orçamento criado, buscar informações do orçamento
-          let quoteFile: { name: string; url: string } | undefined;
-          if (solicitacao.cod_orcamento) {
-            // Tentar encontrar o orçamento na lista de orçamentos já carregados
-            const budgetsArray = Array.isArray(budgetsResponse.data) 
-              ? budgetsResponse.data 
-              : (budgetsResponse.data?.data || []);
-            
-            const orcamento = budgetsArray.find((b: any) => 
-              (b.cod_orcamento || b.id) === solicitacao.cod_orcamento
-            );
-            
-            if (orcamento?.arquivo_orcamento) {
-              // Construir URL completa do arquivo
-              const apiBaseUrl = API_BASE_URL || 'http://192.168.1.7:3000';
-              let filePath = orcamento.arquivo_orcamento;
-              
-              // Se não começar com http, construir URL completa
-              if (!filePath.startsWith('http')) {
-                // Se já começar com /uploads, usar diretamente
-                if (filePath.startsWith('/uploads/')) {
-                  filePath = `${apiBaseUrl}${filePath}`;
-                } else if (filePath.startsWith('uploads/')) {
-                  filePath = `${apiBaseUrl}/${filePath}`;
-                } else {
-                  // Caso contrário, assumir que está em /uploads/
-                  filePath = `${apiBaseUrl}/uploads/${filePath}`;
-                }
-              }
-              
-              quoteFile = {
-                name: orcamento.arquivo_orcamento.split('/').pop() || 'orcamento.pdf',
-                url: filePath
-              };
-              
-              console.log('[RequestModel] Arquivo de orçamento encontrado:', {
-                originalPath: orcamento.arquivo_orcamento,
-                finalUrl: filePath,
-                quoteFile
-              });
-            }
-          }
-          
-          requests.push({
-            id,
-            clientName: cliente?.nome_completo || 'Cliente Desconhecido',
-            site: solicitacao.site || '',
-            plan: this.mapPlanFromBackend(solicitacao.tipo_pacote),
-            status,
-            quoteFile,
-            selectedIssues: solicitacao.selected_issues || [],
-            createdAt: solicitacao.createdAt ? new Date(solicitacao.createdAt) : new Date(),
-            updatedAt: solicitacao.updatedAt ? new Date(solicitacao.updatedAt) : new Date(),
-            _idSolicitacao: solicitacao.id_solicitacao,
-            _codOrcamento: solicitacao.cod_orcamento
-          } as any);
-        });
+      const apiBaseUrl = ApiService.getBaseUrl();
+      const budgets = budgetsResponse.success ? budgetsResponse.data || [] : [];
+      const contracts = contractsResponse.success ? contractsResponse.data || [] : [];
+
+      // Solicitações criadas por clientes (todas, não apenas PENDENTE ou EM_ANALISE)
+      const requests: AccessibilityRequest[] = requestsResponse.success
+        ? (requestsResponse.data || []).map(solicitacao => RequestMapper.fromSolicitacao(solicitacao, budgets, apiBaseUrl))
+        : [];
+
+      // Orçamentos
+      budgets.forEach(budget => {
+        requests.push(RequestMapper.fromOrcamento(budget, apiBaseUrl));
+      });
+
+      // Contratos: atualizam o orçamento correspondente ou viram uma nova solicitação
+      contracts.forEach(contract => {
+        const codOrcamento = RequestMapper.getContratoOrcamentoCode(contract);
+        const existingIndex = codOrcamento
+          ? requests.findIndex(request => request._codOrcamento === codOrcamento)
+          : -1;
+
+        if (existingIndex >= 0) {
+          requests[existingIndex] = RequestMapper.applyContrato(requests[existingIndex], contract);
+        } else {
+          requests.push(RequestMapper.fromContrato(contract));
+        }
+      });
+
+      console.log(`[RequestModel] ${requests.length} solicitações carregadas da API`);
+      return { success: true, data: requests };
+    } catch (error) {
+      console.error('[RequestModel] Erro ao buscar solicitações:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Busca as solicitações salvas no cache local
+   * @param ownerKey - Identificador do usuário dono do cache (ex: email)
+   * @returns Última lista conhecida e quando foi salva (data vazio se não houver cache)
+   */
+  static async getCachedRequests(ownerKey: string): Promise<{ success: boolean; data?: CachedRequests; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true };
       }
 
-      // Processar orçamentos
-      if (budgetsResponse.success && budgetsResponse.data) {
-        // O backend retorna { statusCode, message, data: [...] } para orçamentos
-        const budgetsArray = Array.isArray(budgetsResponse.data) 
-          ? budgetsResponse.data 
-          : (budgetsResponse.data.data || []);
-        
-        budgetsArray.forEach((budget: any) => {
-          // Mapear campos do backend para o formato do frontend
-          const cliente = budget.pacote?.cliente || budget.cliente;
-          const codOrcamento = budget.cod_orcamento || budget.id;
-          
-          // Gerar ID numérico a partir do UUID (usando hash simples)
-          const id = codOrcamento 
-            ? Math.abs(codOrcamento.split('').reduce((acc: number, char: string) => acc + char.charCodeAt(0), 0)) % 1000000000
-            : Date.now();
-          
-          requests.push({
-            id,
-            clientName: cliente?.nome_completo || cliente?.nome_razao_social || 'Cliente Desconhecido',
-            site: budget.site || '',
-            plan: this.mapPlanFromBackend(budget.pacote?.tipo_pacote),
-            status: 'Quote Sent',
-            quoteFile: budget.arquivo_orcamento ? (() => {
-              const apiBaseUrl = API_BASE_URL || 'http://192.168.1.7:3000';
-              const filePath = budget.arquivo_orcamento.startsWith('http') 
-                ? budget.arquivo_orcamento 
-                : `${apiBaseUrl}/${budget.arquivo_orcamento}`;
-              return {
-                name: budget.arquivo_orcamento.split('/').pop() || 'orcamento.pdf',
-                url: filePath
-              };
-            })() : undefined,
-            selectedIssues: [],
-            createdAt: budget.createdAt ? new Date(budget.createdAt) : (budget.created_at ? new Date(budget.created_at) : new Date()),
-            updatedAt: budget.updatedAt ? new Date(budget.updatedAt) : (budget.updated_at ? new Date(budget.updated_at) : new Date()),
-            // Armazenar cod_orcamento para relacionar com contratos
-            _codOrcamento: codOrcamento
-          } as any);
-        });
+      const result = await this.db.query(`
+        SELECT * FROM requests WHERE owner_key = ? ORDER BY id ASC
+      `, [ownerKey]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
       }
 
-      // Processar contratos
-      if (contractsResponse.success && contractsResponse.data) {
-        // O backend retorna array direto para contratos
-        const contractsArray = Array.isArray(contractsResponse.data) 
-          ? contractsResponse.data 
-          : [];
-        
-        contractsArray.forEach((contract: any) => {
-          // Mapear campos do backend para o formato do frontend
-          const orcamento = contract.orcamento;
-          const cliente = orcamento?.pacote?.cliente || contract.cliente;
-          const codOrcamento = contract.cod_orcamento || contract.orcamento_id;
-          const idContrato = contract.id_contrato || contract.id;
-          
-          // Verificar se já existe um orçamento para este código de orçamento
-          const existingIndex = requests.findIndex((r: any) => {
-            // Tentar encontrar pelo cod_orcamento armazenado
-            return codOrcamento && r._codOrcamento === codOrcamento;
-          });
-          
-          // Determinar status baseado no status_contrato
-          let status: RequestStatus = 'Contract Sent';
-          if (contract.status_contrato === 'CONCLUIDO' || contract.contrato_assinado_url) {
-            status = 'Contract Signed';
-          } else if (contract.status_contrato === 'EM_ANDAMENTO') {
-            status = 'In Development';
-          }
-          
-          if (existingIndex >= 0) {
-            // Atualizar solicitação existente com dados do contrato
-            requests[existingIndex] = {
-              ...requests[existingIndex],
-              status,
-              contractFile: contract.arquivo_contrato ? {
-                name: contract.arquivo_contrato.split('/').pop() || 'contrato.pdf',
-                url: contract.arquivo_contrato
-              } : undefined,
-              contractSignedUrl: contract.contrato_assinado_url
-            };
-          } else {
-            // Criar nova solicitação a partir do contrato
-            const id = idContrato 
-              ? Math.abs(idContrato.split('').reduce((acc: number, char: string) => acc + char.charCodeAt(0), 0)) % 1000000000
-              : Date.now();
-            
-            requests.push({
-              id,
-              clientName: cliente?.nome_completo || cliente?.nome_razao_social || 'Cliente Desconhecido',
-              site: contract.site || '',
-              plan: this.mapPlanFromBackend(orcamento?.pacote?.tipo_pacote) || 'AA',
-              status,
-              contractFile: contract.arquivo_contrato ? {
-                name: contract.arquivo_contrato.split('/').pop() || 'contrato.pdf',
-                url: contract.arquivo_contrato
-              } : undefined,
-              contractSignedUrl: contract.contrato_assinado_url,
-              selectedIssues: [],
-              createdAt: contract.createdAt ? new Date(contract.createdAt) : (contract.created_at ? new Date(contract.created_at) : new Date()),
-              updatedAt: contract.updatedAt ? new Date(contract.updatedAt) : (contract.updated_at ? new Date(contract.updated_at) : new Date()),
-              // Armazenar cod_orcamento para relacionar com orçamentos
-              _codOrcamento: codOrcamento
-            } as any);
-          }
-        });
+      const rows: any[] = result.data || [];
+      if (rows.length === 0) {
+        return { success: true };
       }
 
-      console.log(`[RequestModel] ${requests.length} solicitações carregadas da API`);
-      return { success: true, data: requests };
+      const requests = rows.map(row => {
+        const request = JSON.parse(row.payload);
+        return {
+          ...request,
+          createdAt: request.createdAt ? new Date(request.createdAt) : undefined,
+          updatedAt: request.updatedAt ? new Date(request.updatedAt) : undefined
+        } as AccessibilityRequest;
+      });
+
+      return { success: true, data: { requests, cachedAt: rows[0].cached_at } };
     } catch (error) {
-      console.error('[RequestModel] Erro ao buscar solicitações:', error);
-      // Fallback para dados mock
-      return { success: true, data: this.getInitialRequests() };
+      console.error('[RequestModel] Erro ao ler cache de solicitações:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Substitui o cache local pela lista mais recente vinda da API
+   * @param ownerKey - Identificador do usuário dono do cache (ex: email)
+   * @param requests - Lista de solicitações já combinada
+   */
+  static async saveRequestsCache(ownerKey: string, requests: AccessibilityRequest[]): Promise<{ success: boolean; data?: string; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: false, error: 'Banco de dados não inicializado' };
+      }
+
+      const cachedAt = new Date().toISOString();
+
+      const result = await this.db.transaction(async () => {
+        await this.db.execute(`
+          DELETE FROM requests WHERE owner_key = ?
+        `, [ownerKey]);
+
+        for (const request of requests) {
+          await this.db.execute(`
+            INSERT INTO requests (request_id, owner_key, payload, cached_at)
+            VALUES (?, ?, ?, ?)
+          `, [request.id, ownerKey, JSON.stringify(request), cachedAt]);
+        }
+      });
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: cachedAt };
+    } catch (error) {
+      console.error('[RequestModel] Erro ao salvar cache de solicitações:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
     }
   }
 
   /**
-   * Mapeia plano do backend para o formato do frontend
+   * Remove o cache de solicitações de todos os usuários
+   * Usado na troca de backend: o cache é separado só por usuário, não por servidor
    */
-  private static mapPlanFromBackend(nivel?: string): 'A' | 'AA' | 'AAA' {
-    if (!nivel) return 'AA';
-    const upperNivel = nivel.toUpperCase();
-    if (upperNivel === 'A' || upperNivel === 'AA' || upperNivel === 'AAA') {
-      return upperNivel as 'A' | 'AA' | 'AAA';
+  static async clearRequestsCache(): Promise<{ success: boolean; error?: string }> {
+    if (!this.db.isReady()) {
+      return { success: true };
     }
-    return 'AA';
+
+    const result = await this.db.execute(`
+      DELETE FROM requests
+    `);
+
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Mapeia status de uma solicitação do backend para o formato do frontend
+   * @param observacoes - Observações da solicitação (identificam a recusa do orçamento)
+   */
+  static mapStatusFromBackend(status?: string, observacoes?: string): RequestStatus {
+    return RequestMapper.mapStatus(status, observacoes);
+  }
+
+  /**
+   * Mapeia status do frontend para o status de solicitação do backend
+   * @returns Status do backend ou null se o status não é controlado pela solicitação
+   */
+  static mapStatusToBackend(status: RequestStatus): string | null {
+    return RequestMapper.toBackendStatus(status);
   }
 
   /**
    * Cria novo orçamento via API
+   * @returns statusCode 409 se a solicitação já tiver um orçamento (ver getBudgetCode)
    */
-  static async createBudget(budgetData: {
-    cliente_id: number;
-    pacote_id: number;
-    valor: number;
-    observacoes?: string;
-  }): Promise<{ success: boolean; data?: any; error?: string }> {
+  static async createBudget(
+    budgetData: OrcamentoCreateDto
+  ): Promise<{ success: boolean; data?: OrcamentoDto; error?: string; statusCode?: number }> {
     try {
       if (!this.USE_API) {
         return { success: false, error: 'API desabilitada' };
@@ -434,6 +394,55 @@ export class RequestModel {
     }
   }
 
+  /**
+   * Código do orçamento já vinculado a uma solicitação no backend
+   * @returns Código ou null se a solicitação ainda não tem orçamento
+   */
+  static async getBudgetCode(idSolicitacao: string): Promise<{ success: boolean; data?: string | null; error?: string }> {
+    if (!this.USE_API) {
+      return { success: false, error: 'API desabilitada' };
+    }
+
+    const response = await this.api.getRequest(idSolicitacao);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error };
+    }
+
+    return { success: true, data: response.data.cod_orcamento || null };
+  }
+
+  /**
+   * Envia o arquivo de um orçamento já criado
+   * @returns Caminho do arquivo no backend
+   */
+  static async uploadBudgetFile(
+    codOrcamento: string,
+    file: { uri: string; name: string; type: string; blob?: Blob }
+  ): Promise<{ success: boolean; data?: { filePath?: string }; error?: string }> {
+    if (!this.USE_API) {
+      return { success: false, error: 'API desabilitada' };
+    }
+
+    console.log('[RequestModel] Enviando arquivo do orçamento...');
+    return this.api.uploadBudgetFile(codOrcamento, file);
+  }
+
+  /**
+   * Envia o arquivo de um contrato já criado
+   * @returns Caminho do arquivo no backend
+   */
+  static async uploadContractFile(
+    idContrato: string,
+    file: { uri: string; name: string; type: string; blob?: Blob }
+  ): Promise<{ success: boolean; data?: { filePath?: string }; error?: string }> {
+    if (!this.USE_API) {
+      return { success: false, error: 'API desabilitada' };
+    }
+
+    console.log('[RequestModel] Enviando arquivo do contrato...');
+    return this.api.uploadContractFile(idContrato, file);
+  }
+
   /**
    * Cria novo contrato via API
    */
@@ -460,6 +469,25 @@ export class RequestModel {
     }
   }
 
+  /**
+   * Busca um contrato via API (com o registro da assinatura enviado por quem assinou)
+   */
+  static async getContract(idContrato: string): Promise<{ success: boolean; data?: ContratoDto; error?: string }> {
+    try {
+      if (!this.USE_API) {
+        return { success: false, error: 'API desabilitada' };
+      }
+
+      return await this.api.getContract(idContrato);
+    } catch (error) {
+      console.error('[RequestModel] Erro ao buscar contrato:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
   /**
    * Cria nova solicitação
    * @param requestData - Dados da solicitação
@@ -479,18 +507,20 @@ export class RequestModel {
    * Atualiza status de uma solicitação
    * @param request - Solicitação a ser atualizada
    * @param newStatus - Novo status
+   * @param role - Perfil que dispara a mudança (omitido = sistema)
    * @returns Solicitação atualizada ou null se transição inválida
    */
-  static updateStatus(request: AccessibilityRequest, newStatus: RequestStatus): AccessibilityRequest | null {
-    if (!this.isValidStatusTransition(request.status, newStatus)) {
+  static updateStatus(request: AccessibilityRequest, newStatus: RequestStatus, role?: WorkflowRole): AccessibilityRequest | null {
+    if (!this.validateStatusChange(request, newStatus, role).valid) {
       return null;
     }
 
-    return {
+    // Abre/fecha a versão do orçamento conforme o novo status (envio, aprovação ou recusa)
+    return QuoteRevisionModel.withRevisions({
       ...request,
       status: newStatus,
       updatedAt: new Date()
-    };
+    });
   }
 
   /**
@@ -523,20 +553,43 @@ export class RequestModel {
    * Valida transição de status
    * @param currentStatus - Status atual
    * @param newStatus - Novo status
-   * @returns true se transição é válida
+   * @param role - Perfil que dispara a mudança (omitido = qualquer perfil)
+   * @returns true se existe transição no fluxo
    */
-  static isValidStatusTransition(currentStatus: RequestStatus, newStatus: RequestStatus): boolean {
-    const nextStatus = this.STATUS_CONFIG.nextStatus[currentStatus];
-    return nextStatus === newStatus;
+  static isValidStatusTransition(currentStatus: RequestStatus, newStatus: RequestStatus, role?: WorkflowRole): boolean {
+    return !!RequestWorkflow.findTransition(currentStatus, newStatus, role);
   }
 
   /**
-   * Obtém próximo status válido
-   * @param currentStatus - Status atual
-   * @returns Próximo status ou null se for status final
+   * Valida mudança de status incluindo perfil e guardas do fluxo
+   * @returns Resultado com mensagem de erro quando inválida
+   */
+  static validateStatusChange(
+    request: AccessibilityRequest,
+    newStatus: RequestStatus,
+    role?: WorkflowRole
+  ): { valid: boolean; error?: string } {
+    const transition = RequestWorkflow.findTransition(request.status, newStatus, role);
+    if (!transition) {
+      return { valid: false, error: 'Transição de status inválida' };
+    }
+    return RequestWorkflow.validateTransition(request, transition, role);
+  }
+
+  /**
+   * Obtém transições disponíveis para um perfil
+   * @param request - Solicitação
+   * @param role - Perfil do usuário
    */
-  static getNextStatus(currentStatus: RequestStatus): RequestStatus | null {
-    return this.STATUS_CONFIG.nextStatus[currentStatus];
+  static getAvailableTransitions(request: AccessibilityRequest, role: WorkflowRole): WorkflowTransition[] {
+    return RequestWorkflow.getAvailableTransitions(request, role);
+  }
+
+  /**
+   * Verifica se o status encerra a solicitação (concluída ou cancelada)
+   */
+  static isFinalStatus(status: RequestStatus): boolean {
+    return RequestWorkflow.isFinal(status);
   }
 
   /**
@@ -555,7 +608,7 @@ export class RequestModel {
    * @returns Solicitações ativas
    */
   static filterActiveRequests(requests: AccessibilityRequest[]): AccessibilityRequest[] {
-    return requests.filter(request => request.status !== 'Completed');
+    return requests.filter(request => !this.isFinalStatus(request.status));
   }
 
   /**
@@ -570,7 +623,7 @@ export class RequestModel {
       request.clientName &&
       request.site &&
       ['A', 'AA', 'AAA'].includes(request.plan) &&
-      Object.keys(this.STATUS_CONFIG.map).includes(request.status) &&
+      Object.keys(RequestWorkflow.getDefinition().states).includes(request.status) &&
       Array.isArray(request.selectedIssues)
     );
   }
@@ -581,9 +634,10 @@ export class RequestModel {
    * @returns Percentual de progresso
    */
   static calculateProgress(request: AccessibilityRequest): number {
-    const currentStep = this.STATUS_CONFIG.steps.indexOf(this.STATUS_CONFIG.map[request.status]);
-    const totalSteps = this.STATUS_CONFIG.steps.length;
-    return Math.round((currentStep / (totalSteps - 1)) * 100);
+    const { steps } = RequestWorkflow.getDefinition();
+    const currentStep = steps.indexOf(RequestWorkflow.getState(request.status).step);
+    if (currentStep < 0) return 0; // Estado fora da linha principal (ex: cancelada)
+    return Math.round((currentStep / (steps.length - 1)) * 100);
   }
 
   /**
@@ -600,15 +654,21 @@ export class RequestModel {
       return null;
     }
 
+    if (!RequestWorkflow.isValidDevelopmentTransition(request.developmentStatus, developmentStatus)) {
+      return null;
+    }
+
     const updated = {
       ...request,
       developmentStatus,
       updatedAt: new Date()
     };
 
-    // Se marcar como Done, muda status geral para Completed
+    // Se marcar como Done, dispara a conclusão do fluxo principal
     if (developmentStatus === 'Done') {
-      updated.status = 'Completed';
+      const completed = this.updateStatus(updated, 'Completed');
+      if (!completed) return null;
+      return completed;
     }
 
     return updated;
@@ -647,6 +707,7 @@ export class RequestModel {
 
 // EXPANSÃO FUTURA:
 // - Integração com API real
+// - Expiração do cache local por tempo
 // - Sistema de notificações
 // - Histórico de mudanças de status
 // - Upload de arquivos reais
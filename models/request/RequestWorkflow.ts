@@ -0,0 +1,290 @@
+/**
+ * RequestWorkflow - Definição declarativa do fluxo de uma solicitação
+ *
+ * Responsabilidades:
+ * - Descrever estados, transições e etapas exibidas na Timeline
+ * - Definir qual perfil (cliente/funcionário) pode disparar cada transição
+ * - Validar guardas (ex: orçamento anexado) antes de mudar o status
+ * - Controlar o fluxo do status de desenvolvimento
+ *
+ * Para adicionar um novo estado basta incluí-lo em RequestStatus,
+ * descrevê-lo em `states` e ligá-lo às transições desejadas.
+ */
+
+import type { AccessibilityRequest, RequestStatus, DevelopmentStatus } from './RequestModel';
+
+export type WorkflowRole = 'client' | 'employee';
+
+export type WorkflowGuardId = 'quoteAttached' | 'contractAttached';
+
+export type WorkflowTransitionId =
+  | 'sendQuote'
+  | 'approveQuote'
+  | 'rejectQuote'
+  | 'reviseQuote'
+  | 'attachContract'
+  | 'renegotiateContract'
+  | 'signContract'
+  | 'startDev'
+  | 'complete'
+  | 'cancel';
+
+export interface WorkflowGuard {
+  description: string; // Mensagem exibida quando a guarda bloqueia a transição
+  check: (request: AccessibilityRequest) => boolean;
+}
+
+export interface WorkflowStateDefinition {
+  label: string; // Nome do status exibido ao usuário
+  step: string; // Etapa da Timeline (estados fora de `steps` são exibidos como desvio do fluxo)
+  final?: boolean;
+  waiting?: Partial<Record<WorkflowRole, string>>; // Mensagem para quem aguarda a outra parte
+}
+
+export interface WorkflowTransition {
+  id: WorkflowTransitionId;
+  from: RequestStatus[];
+  to: RequestStatus;
+  roles: WorkflowRole[]; // Vazio = apenas o sistema dispara (ex: conclusão via desenvolvimento)
+  label: string;
+  guards?: WorkflowGuardId[];
+  requiresUpload?: 'quote' | 'contract'; // A interface deve anexar o arquivo antes de disparar
+  variant?: 'primary' | 'success' | 'danger';
+}
+
+export interface WorkflowDefinition {
+  steps: string[];
+  states: Record<RequestStatus, WorkflowStateDefinition>;
+  transitions: WorkflowTransition[];
+  developmentSteps: string[];
+  developmentTransitions: Record<DevelopmentStatus | 'none', DevelopmentStatus[]>;
+}
+
+export class RequestWorkflow {
+  private static readonly GUARDS: Record<WorkflowGuardId, WorkflowGuard> = {
+    quoteAttached: {
+      description: 'O orçamento ainda não foi anexado',
+      check: (request) => !!request.quoteFile
+    },
+    contractAttached: {
+      description: 'O contrato ainda não foi anexado',
+      check: (request) => !!request.contractFile
+    }
+  };
+
+  private static readonly DEFINITION: WorkflowDefinition = {
+    steps: ["Solicitação enviada", "Orçamento", "Contrato", "Desenvolvimento", "Finalizado"],
+    states: {
+      'Awaiting Quote': { label: 'Aguardando orçamento', step: "Solicitação enviada" },
+      'Quote Sent': { label: 'Orçamento enviado', step: "Orçamento", waiting: { employee: '⏳ Aguardando aprovação do cliente...' } },
+      'Quote Rejected': { label: 'Orçamento recusado', step: "Orçamento" },
+      'Quote Approved': { label: 'Orçamento aprovado', step: "Orçamento" },
+      'Contract Sent': { label: 'Contrato enviado', step: "Contrato", waiting: { employee: '⏳ Aguardando assinatura do cliente...' } },
+      'Contract Signed': { label: 'Contrato assinado', step: "Contrato" },
+      'In Development': { label: 'Em desenvolvimento', step: "Desenvolvimento" },
+      'Completed': { label: 'Concluída', step: "Finalizado", final: true },
+      'Cancelled': { label: 'Cancelada', step: "Cancelada", final: true },
+    },
+    transitions: [
+      {
+        id: 'sendQuote',
+        from: ['Awaiting Quote'],
+        to: 'Quote Sent',
+        roles: ['employee'],
+        label: '📄 Enviar Orçamento',
+        guards: ['quoteAttached'],
+        requiresUpload: 'quote',
+        variant: 'primary'
+      },
+      {
+        id: 'approveQuote',
+        from: ['Quote Sent'],
+        to: 'Quote Approved',
+        roles: ['client'],
+        label: '✅ Aprovar Orçamento',
+        guards: ['quoteAttached'],
+        variant: 'success'
+      },
+      {
+        id: 'rejectQuote',
+        from: ['Quote Sent'],
+        to: 'Quote Rejected',
+        roles: ['client'],
+        label: '❌ Recusar Orçamento',
+        variant: 'danger'
+      },
+      {
+        id: 'reviseQuote',
+        from: ['Quote Rejected'],
+        to: 'Quote Sent',
+        roles: ['employee'],
+        label: '📝 Enviar Orçamento Revisado',
+        guards: ['quoteAttached'],
+        requiresUpload: 'quote',
+        variant: 'primary'
+      },
+      {
+        id: 'attachContract',
+        from: ['Quote Approved'],
+        to: 'Contract Sent',
+        roles: ['employee'],
+        label: '📎 Anexar Contrato',
+        guards: ['contractAttached'],
+        requiresUpload: 'contract',
+        variant: 'primary'
+      },
+      {
+        id: 'renegotiateContract',
+        from: ['Contract Sent'],
+        to: 'Quote Approved',
+        roles: ['employee'],
+        label: '🔁 Refazer Contrato',
+        variant: 'primary'
+      },
+      {
+        id: 'signContract',
+        from: ['Contract Sent'],
+        to: 'Contract Signed',
+        roles: ['client'],
+        label: '✍️ Assinar Contrato',
+        guards: ['contractAttached'],
+        variant: 'success'
+      },
+      {
+        id: 'startDev',
+        from: ['Contract Signed'],
+        to: 'In Development',
+        roles: ['employee'],
+        label: '🚀 Iniciar Desenvolvimento',
+        variant: 'success'
+      },
+      {
+        id: 'complete',
+        from: ['In Development'],
+        to: 'Completed',
+        roles: [],
+        label: '✅ Concluir Projeto'
+      },
+      {
+        id: 'cancel',
+        from: ['Awaiting Quote', 'Quote Sent', 'Quote Rejected', 'Quote Approved', 'Contract Sent'],
+        to: 'Cancelled',
+        roles: ['employee'],
+        label: '🚫 Cancelar Solicitação',
+        variant: 'danger'
+      }
+    ],
+    developmentSteps: ["Em Análise", "Em Desenvolvimento", "Em Teste", "Concluído"],
+    developmentTransitions: {
+      'none': ['Analysis'],
+      'Analysis': ['Development'],
+      'Development': ['Testing'],
+      'Testing': ['Development', 'Done'], // Falhas nos testes voltam para desenvolvimento
+      'Done': []
+    }
+  };
+
+  /**
+   * Obtém a definição completa do fluxo
+   */
+  static getDefinition(): WorkflowDefinition {
+    return this.DEFINITION;
+  }
+
+  /**
+   * Obtém a definição de um estado
+   */
+  static getState(status: RequestStatus): WorkflowStateDefinition {
+    return this.DEFINITION.states[status];
+  }
+
+  /**
+   * Verifica se o status encerra o fluxo
+   */
+  static isFinal(status: RequestStatus): boolean {
+    return !!this.DEFINITION.states[status]?.final;
+  }
+
+  /**
+   * Busca uma transição pelo ID
+   */
+  static getTransition(transitionId: WorkflowTransitionId): WorkflowTransition | undefined {
+    return this.DEFINITION.transitions.find(t => t.id === transitionId);
+  }
+
+  /**
+   * Busca a transição que leva do status atual ao novo status
+   * @param role - Perfil que dispara a transição (omitido = sistema)
+   */
+  static findTransition(
+    currentStatus: RequestStatus,
+    newStatus: RequestStatus,
+    role?: WorkflowRole
+  ): WorkflowTransition | undefined {
+    const candidates = this.DEFINITION.transitions.filter(t =>
+      t.from.includes(currentStatus) && t.to === newStatus
+    );
+
+    if (!role) {
+      return candidates[0];
+    }
+    return candidates.find(t => t.roles.includes(role));
+  }
+
+  /**
+   * Transições que o perfil pode disparar a partir do status atual da solicitação
+   * (guardas não são avaliadas aqui, pois alguns arquivos são anexados durante a ação)
+   */
+  static getAvailableTransitions(request: AccessibilityRequest, role: WorkflowRole): WorkflowTransition[] {
+    return this.DEFINITION.transitions.filter(t =>
+      t.from.includes(request.status) && t.roles.includes(role)
+    );
+  }
+
+  /**
+   * Valida se uma transição pode ser disparada na solicitação
+   * @returns Resultado com a mensagem da primeira regra violada
+   */
+  static validateTransition(
+    request: AccessibilityRequest,
+    transition: WorkflowTransition,
+    role?: WorkflowRole
+  ): { valid: boolean; error?: string } {
+    if (!transition.from.includes(request.status)) {
+      return { valid: false, error: `Não é possível "${transition.label}" a partir do status atual` };
+    }
+
+    if (role && !transition.roles.includes(role)) {
+      return { valid: false, error: 'Seu perfil não tem permissão para esta ação' };
+    }
+
+    const failedGuard = (transition.guards || [])
+      .map(guardId => this.GUARDS[guardId])
+      .find(guard => !guard.check(request));
+
+    if (failedGuard) {
+      return { valid: false, error: failedGuard.description };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Próximos status de desenvolvimento permitidos
+   */
+  static getNextDevelopmentStatuses(current?: DevelopmentStatus): DevelopmentStatus[] {
+    return this.DEFINITION.developmentTransitions[current || 'none'];
+  }
+
+  /**
+   * Valida mudança do status de desenvolvimento
+   */
+  static isValidDevelopmentTransition(current: DevelopmentStatus | undefined, next: DevelopmentStatus): boolean {
+    return this.getNextDevelopmentStatuses(current).includes(next);
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Carregar a definição do fluxo a partir do backend
+// - Guardas assíncronas (ex: pagamento confirmado)
+// - Prazos (SLA) por estado
@@ -0,0 +1,94 @@
+/**
+ * SettingsModel - Modelo das configurações do app (tabela company_settings)
+ *
+ * Responsabilidades:
+ * - Ler e gravar configurações chave/valor via DatabaseService
+ * - Centralizar as chaves de configuração conhecidas
+ */
+
+import { DatabaseService } from '../../services/DatabaseService';
+
+export const SETTING_KEYS = {
+  API_ENVIRONMENT: 'api_environment',
+  API_CUSTOM_URL: 'api_custom_url',
+  EVALUATION_PROVIDER: 'evaluation_provider',
+  LEGAL_OBLIGATION: 'legal_obligation',
+  QUOTE_RATES: 'quote_rates', // Tabela de preços do montador de orçamentos (JSON)
+  COMPANY_NAME: 'company_name', // Dados da empresa usados nos documentos (orçamento e contrato)
+  COMPANY_DOCUMENT: 'company_cnpj',
+  COMPANY_ADDRESS: 'company_address',
+  COMPANY_EMAIL: 'company_email',
+  COMPANY_PHONE: 'company_phone',
+} as const;
+
+export type SettingKey = typeof SETTING_KEYS[keyof typeof SETTING_KEYS];
+
+export class SettingsModel {
+  private static db = DatabaseService.getInstance();
+
+  /**
+   * Busca o valor de uma configuração
+   * @returns Valor salvo ou null se não existir
+   */
+  static async get(key: SettingKey): Promise<{ success: boolean; data?: string | null; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: null };
+      }
+
+      const result = await this.db.getFirst(`
+        SELECT setting_value FROM company_settings WHERE setting_key = ?
+      `, [key]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: result.data?.setting_value ?? null };
+    } catch (error) {
+      console.error('[SettingsModel] Erro ao buscar configuração:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Grava o valor de uma configuração (cria a chave se necessário)
+   */
+  static async set(key: SettingKey, value: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: false, error: 'Banco de dados não inicializado' };
+      }
+
+      const existing = await this.db.getFirst(`
+        SELECT id FROM company_settings WHERE setting_key = ?
+      `, [key]);
+
+      const result = existing.data
+        ? await this.db.execute(`
+            UPDATE company_settings SET setting_value = ?, updated_at = CURRENT_TIMESTAMP WHERE setting_key = ?
+          `, [value, key])
+        : await this.db.execute(`
+            INSERT INTO company_settings (setting_key, setting_value) VALUES (?, ?)
+          `, [key, value]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true };
+    } catch (error) {
+      console.error('[SettingsModel] Erro ao gravar configuração:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Sincronizar configurações da empresa com o backend
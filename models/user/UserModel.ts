@@ -10,6 +10,7 @@
 
 import { DatabaseService } from '../../services/DatabaseService';
 import ApiService from '../../services/ApiService';
+import { UserMapper } from '../mappers/UserMapper';
 
 export interface User {
   id?: number;
@@ -61,17 +62,8 @@ export class UserModel {
           const apiResponse = await this.api.login(email, password);
           
           if (apiResponse.success && apiResponse.data) {
-            const userData = apiResponse.data.user;
-            
             // Mapear campos do backend (português) para frontend (inglês)
-            const user: User = {
-              id: userData.id,
-              type: userData.tipo === 'cliente' ? 'client' : 'employee',
-              name: userData.nome || userData.nome_razao_social || 'Usuário',
-              email: userData.email,
-              photo_path: userData.foto,
-              photo: userData.foto
-            };
+            const user = UserMapper.fromAuthUser(apiResponse.data.user);
 
             console.log('[UserModel] Login via API bem-sucedido!');
             console.log('[UserModel] Usuário:', user);
@@ -6,10 +6,38 @@
  * - Configurar headers, autenticação e interceptadores
  * - Tratar erros de forma centralizada
  * - Gerenciar tokens JWT
+ * - Renovar o token (refresh) ao receber 401 e repetir a requisição original
+ * - Repetir chamadas com falha temporária (backoff exponencial com jitter)
+ * - Interromper chamadas a um backend inacessível (circuit breaker)
  */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { API_CONFIG, API_ENDPOINTS, HTTP_STATUS } from '../config/api.config';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { API_CONFIG, API_ENDPOINTS, CONNECTION_FAILURE_STATUS, HTTP_STATUS } from '../config/api.config';
+import { CircuitBreaker, type CircuitState } from './CircuitBreaker';
+import { DtoValidator, type DtoSchema } from './dto/DtoValidator';
+import {
+  AUTH_RESPONSE_SCHEMA,
+  AVALIACAO_SCHEMA,
+  CLIENTE_SCHEMA,
+  CONTRATO_SCHEMA,
+  FUNCIONARIO_SCHEMA,
+  HISTORICO_EVENTO_SCHEMA,
+  LIGHTHOUSE_REPORT_SCHEMA,
+  ORCAMENTO_SCHEMA,
+  PACOTE_SCHEMA,
+  SOLICITACAO_SCHEMA,
+  type AuthResponseDto,
+  type AvaliacaoDto,
+  type ClienteDto,
+  type ContratoDto,
+  type FuncionarioDto,
+  type HistoricoEventoDto,
+  type LighthouseReportDto,
+  type OrcamentoDto,
+  type OrcamentoCreateDto,
+  type PacoteDto,
+  type SolicitacaoDto
+} from './dto/ApiDtos';
 
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -18,10 +46,56 @@ export interface ApiResponse<T = any> {
   statusCode?: number;
 }
 
+/**
+ * Política de repetição de uma chamada
+ * - Verbos idempotentes (GET/PUT/DELETE) são repetidos em falhas de rede, timeout e 502/503/504
+ * - Qualquer verbo é repetido em 429, pois o servidor não processou a requisição
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number; // Retry-After maior que isso não é aguardado
+}
+
+export interface ApiRequestConfig extends AxiosRequestConfig {
+  retry?: Partial<RetryPolicy> | false; // false = sem repetição
+}
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['get', 'put', 'delete'];
+
+export type AuthEvent =
+  | { type: 'TOKEN_REFRESHED'; token: string; refreshToken: string | null }
+  | { type: 'REFRESH_FAILED' };
+
+// Requisição marcada para não ser repetida mais de uma vez após o refresh
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetry?: boolean };
+
+// Endpoints cujo 401 significa credenciais inválidas, e não token expirado
+const AUTH_ENDPOINTS_WITHOUT_REFRESH = [
+  API_ENDPOINTS.AUTH.LOGIN,
+  API_ENDPOINTS.AUTH.REGISTER,
+  API_ENDPOINTS.AUTH.REFRESH,
+];
+
 export class ApiService {
   private static instance: ApiService;
   private axiosInstance: AxiosInstance;
+  private refreshClient: AxiosInstance; // Sem interceptadores (refresh e teste de conexão)
   private authToken: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+  private authListeners: Array<(event: AuthEvent) => void> = [];
+  private circuitBreaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 30000 });
 
   /**
    * Singleton pattern
@@ -36,6 +110,7 @@ export class ApiService {
   private constructor() {
     // Criar instância do axios com configurações base
     this.axiosInstance = axios.create(API_CONFIG);
+    this.refreshClient = axios.create(API_CONFIG);
 
     // Configurar interceptadores
     this.setupInterceptors();
@@ -81,11 +156,130 @@ export class ApiService {
         return response;
       },
       (error: AxiosError) => {
+        if (this.shouldRefreshToken(error)) {
+          return this.retryWithRefreshedToken(error);
+        }
         return this.handleResponseError(error);
       }
     );
   }
 
+  /**
+   * Verifica se o erro é um 401 de token expirado que pode ser resolvido com refresh
+   */
+  private shouldRefreshToken(error: AxiosError): boolean {
+    const config = error.config as RetriableRequestConfig | undefined;
+    if (error.response?.status !== HTTP_STATUS.UNAUTHORIZED || !config || config._authRetry) {
+      return false;
+    }
+
+    if (AUTH_ENDPOINTS_WITHOUT_REFRESH.some(endpoint => config.url === endpoint)) {
+      return false;
+    }
+
+    // 401 de permissão insuficiente não é resolvido com um novo token
+    const data: any = error.response.data;
+    const message = typeof data === 'string' ? data : (data?.message || data?.error || '');
+    const messageText = Array.isArray(message) ? message.join(' ') : String(message);
+    return !messageText.includes('Acesso negado') && !messageText.includes('permissão');
+  }
+
+  /**
+   * Renova o token e repete a requisição original de forma transparente
+   */
+  private async retryWithRefreshedToken(error: AxiosError): Promise<AxiosResponse> {
+    const originalRequest = error.config as RetriableRequestConfig;
+    originalRequest._authRetry = true;
+
+    // Outra requisição já renovou o token enquanto esta estava em andamento
+    const sentAuthorization = originalRequest.headers?.Authorization;
+    if (this.authToken && sentAuthorization !== `Bearer ${this.authToken}`) {
+      console.log('[API] Token já renovado - repetindo requisição');
+      return this.axiosInstance(originalRequest);
+    }
+
+    const newToken = await this.refreshAccessToken();
+    if (!newToken) {
+      return this.handleResponseError(error);
+    }
+
+    console.log('[API] Token renovado - repetindo requisição original');
+    // O interceptador de requisição aplica o novo token
+    return this.axiosInstance(originalRequest);
+  }
+
+  /**
+   * Troca o refresh token por um novo token de acesso.
+   * Chamadas simultâneas compartilham a mesma renovação.
+   * @returns Novo token ou null se a renovação falhar
+   */
+  async refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string | null> {
+    if (!this.refreshToken) {
+      console.warn('[API] Sem refresh token - sessão não pode ser renovada');
+      this.failRefresh();
+      return null;
+    }
+
+    try {
+      console.log('[API] Renovando token de acesso...');
+      const response = await this.refreshClient.post(API_ENDPOINTS.AUTH.REFRESH, {
+        refreshToken: this.refreshToken,
+      });
+
+      const token: string | undefined = response.data?.token || response.data?.access_token;
+      if (!token) {
+        throw new Error('Resposta de refresh sem token');
+      }
+
+      this.setAuthToken(token);
+      const rotatedRefreshToken = response.data?.refreshToken || response.data?.refresh_token;
+      if (rotatedRefreshToken) {
+        this.refreshToken = rotatedRefreshToken;
+      }
+
+      this.notifyAuthListeners({ type: 'TOKEN_REFRESHED', token, refreshToken: this.refreshToken });
+      return token;
+    } catch (error) {
+      if (axios.isAxiosError(error) && !error.response) {
+        // Sem conexão: manter a sessão, a renovação será tentada no próximo 401
+        console.warn('[API] Falha de rede ao renovar token:', error.message);
+        return null;
+      }
+
+      console.error('[API] Refresh token rejeitado:', error);
+      this.failRefresh();
+      return null;
+    }
+  }
+
+  private failRefresh(): void {
+    this.clearAuth();
+    this.notifyAuthListeners({ type: 'REFRESH_FAILED' });
+  }
+
+  /**
+   * Inscreve um listener para eventos de autenticação (token renovado / refresh falhou)
+   */
+  subscribeAuthEvents(listener: (event: AuthEvent) => void): () => void {
+    this.authListeners.push(listener);
+    return () => {
+      this.authListeners = this.authListeners.filter(l => l !== listener);
+    };
+  }
+
+  private notifyAuthListeners(event: AuthEvent): void {
+    this.authListeners.forEach(listener => listener(event));
+  }
+
   /**
    * Trata erros de resposta da API
    * NOTA: Este método é usado no interceptor e sempre rejeita a Promise
@@ -111,14 +305,9 @@ export class ApiService {
       // Tratar casos específicos de status
       switch (status) {
         case HTTP_STATUS.UNAUTHORIZED:
-          // Verificar se é erro de autenticação ou apenas de permissão
-          if (errorMessage.includes('Acesso negado') || errorMessage.includes('permissão')) {
-            // É apenas erro de permissão, não remover token
-            console.error('[API] Acesso negado - permissão insuficiente');
-          } else {
-            // Token expirado ou inválido - limpar autenticação
-            this.clearAuth();
-          }
+          // Token expirado é tratado pelo refresh (shouldRefreshToken);
+          // a sessão só é encerrada quando a renovação falha
+          console.error('[API] Não autorizado');
           break;
         
         case HTTP_STATUS.FORBIDDEN:
@@ -213,10 +402,25 @@ export class ApiService {
   }
 
   /**
-   * Limpa o token de autenticação
+   * Define o refresh token usado para renovar a sessão
+   */
+  setRefreshToken(refreshToken: string | null): void {
+    this.refreshToken = refreshToken;
+  }
+
+  /**
+   * Obtém o refresh token atual
+   */
+  getRefreshToken(): string | null {
+    return this.refreshToken;
+  }
+
+  /**
+   * Limpa os tokens de autenticação
    */
   clearAuth(): void {
     this.authToken = null;
+    this.refreshToken = null;
     console.log('[API] Token de autenticação removido');
   }
 
@@ -237,9 +441,9 @@ export class ApiService {
   /**
    * Método GET genérico
    */
-  async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async get<T = any>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<T> = await this.axiosInstance.get(url, config);
+      const response = await this.send<T>('get', config, axiosConfig => this.axiosInstance.get(url, axiosConfig));
       return {
         success: true,
         data: response.data,
@@ -253,9 +457,9 @@ export class ApiService {
   /**
    * Método PATCH genérico
    */
-  async patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async patch<T = any>(url: string, data?: any, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<T> = await this.axiosInstance.patch(url, data, config);
+      const response = await this.send<T>('patch', config, axiosConfig => this.axiosInstance.patch(url, data, axiosConfig));
       return {
         success: true,
         data: response.data,
@@ -269,7 +473,7 @@ export class ApiService {
   /**
    * Método POST genérico
    */
-  async post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async post<T = any>(url: string, data?: any, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
     try {
       // Log adicional para FormData
       if (data instanceof FormData) {
@@ -280,7 +484,7 @@ export class ApiService {
         }
       }
       
-      const response: AxiosResponse<T> = await this.axiosInstance.post(url, data, config);
+      const response = await this.send<T>('post', config, axiosConfig => this.axiosInstance.post(url, data, axiosConfig));
       return {
         success: true,
         data: response.data,
@@ -305,9 +509,9 @@ export class ApiService {
   /**
    * Método PUT genérico
    */
-  async put<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async put<T = any>(url: string, data?: any, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<T> = await this.axiosInstance.put(url, data, config);
+      const response = await this.send<T>('put', config, axiosConfig => this.axiosInstance.put(url, data, axiosConfig));
       return {
         success: true,
         data: response.data,
@@ -319,11 +523,11 @@ export class ApiService {
   }
 
   /**
-   * Método PATCH genérico
+   * Método DELETE genérico
    */
-  async patch<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
+  async delete<T = any>(url: string, config?: ApiRequestConfig): Promise<ApiResponse<T>> {
     try {
-      const response: AxiosResponse<T> = await this.axiosInstance.patch(url, data, config);
+      const response = await this.send<T>('delete', config, axiosConfig => this.axiosInstance.delete(url, axiosConfig));
       return {
         success: true,
         data: response.data,
@@ -335,19 +539,109 @@ export class ApiService {
   }
 
   /**
-   * Método DELETE genérico
+   * Envia a requisição passando pelo circuit breaker e aplicando a política de repetição
+   * @param request - Chamada ao axios com a configuração sem as opções de retry
    */
-  async delete<T = any>(url: string, config?: AxiosRequestConfig): Promise<ApiResponse<T>> {
-    try {
-      const response: AxiosResponse<T> = await this.axiosInstance.delete(url, config);
-      return {
-        success: true,
-        data: response.data,
-        statusCode: response.status,
-      };
-    } catch (error) {
-      return this.handleError(error);
+  private async send<T>(
+    method: HttpMethod,
+    config: ApiRequestConfig | undefined,
+    request: (axiosConfig: AxiosRequestConfig) => Promise<AxiosResponse<T>>
+  ): Promise<AxiosResponse<T>> {
+    const { retry, ...axiosConfig } = config || {};
+    const policy: RetryPolicy = retry === false
+      ? { ...DEFAULT_RETRY_POLICY, maxRetries: 0 }
+      : { ...DEFAULT_RETRY_POLICY, ...retry };
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.circuitBreaker.canRequest()) {
+        const retryInSeconds = Math.ceil(this.circuitBreaker.getRetryIn() / 1000);
+        console.warn(`[API] Circuito aberto - requisição ${method.toUpperCase()} bloqueada`);
+        throw {
+          success: false,
+          error: `Servidor indisponível - nova tentativa em ${retryInSeconds}s`,
+          statusCode: 0,
+        };
+      }
+
+      try {
+        const response = await request(axiosConfig);
+        this.circuitBreaker.recordSuccess();
+        return response;
+      } catch (error: any) {
+        const statusCode: number | undefined = error?.statusCode;
+        if (statusCode !== undefined && CONNECTION_FAILURE_STATUS.includes(statusCode)) {
+          this.circuitBreaker.recordFailure();
+        } else {
+          this.circuitBreaker.recordSuccess(); // O servidor respondeu
+        }
+
+        const delay = this.getRetryDelay(method, error, attempt, policy);
+        if (delay === null) {
+          throw error;
+        }
+
+        console.log(`[API] Tentativa ${attempt + 2}/${policy.maxRetries + 1} em ${delay}ms (status ${statusCode})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Calcula a espera antes da próxima tentativa
+   * @returns Atraso em ms ou null se a chamada não deve ser repetida
+   */
+  private getRetryDelay(method: HttpMethod, error: any, attempt: number, policy: RetryPolicy): number | null {
+    if (attempt >= policy.maxRetries) {
+      return null;
     }
+
+    const statusCode: number | undefined = error?.statusCode;
+
+    if (statusCode === HTTP_STATUS.TOO_MANY_REQUESTS) {
+      const retryAfter = this.parseRetryAfter(error?.originalError?.response?.headers?.['retry-after']);
+      if (retryAfter !== null) {
+        return retryAfter <= policy.maxRetryAfterMs ? retryAfter : null;
+      }
+    } else if (!IDEMPOTENT_METHODS.includes(method)
+      || statusCode === undefined
+      || !CONNECTION_FAILURE_STATUS.includes(statusCode)) {
+      return null;
+    }
+
+    // Backoff exponencial com jitter (metade fixa + metade aleatória)
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Converte o header Retry-After (segundos ou data HTTP) em milissegundos
+   */
+  private parseRetryAfter(header: string | undefined): number | null {
+    if (!header) {
+      return null;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Estado do circuit breaker (open = backend inacessível)
+   */
+  getConnectivityState(): CircuitState {
+    return this.circuitBreaker.getState();
+  }
+
+  /**
+   * Inscreve um listener para mudanças de conectividade com o backend
+   */
+  subscribeConnectivity(listener: (state: CircuitState) => void): () => void {
+    return this.circuitBreaker.subscribe(listener);
   }
 
   /**
@@ -426,10 +720,17 @@ export class ApiService {
 
   /**
    * Testa a conexão com a API
+   * @param baseUrl - Testa outro backend sem alterar o atual (ex: antes de trocar de ambiente)
    */
-  async testConnection(): Promise<boolean> {
+  async testConnection(baseUrl?: string): Promise<boolean> {
     try {
-      const response = await this.get('/health');
+      if (baseUrl) {
+        // Chamada direta: uma URL candidata fora do ar não deve abrir o circuito do backend atual
+        const response = await this.refreshClient.get(API_ENDPOINTS.HEALTH, { baseURL: baseUrl, timeout: 10000 });
+        return response.status >= 200 && response.status < 300;
+      }
+
+      const response = await this.get(API_ENDPOINTS.HEALTH, { retry: false });
       return response.success;
     } catch (error) {
       console.error('[API] Falha no teste de conexão:', error);
@@ -437,6 +738,74 @@ export class ApiService {
     }
   }
 
+  /**
+   * URL base em uso pelo backend
+   */
+  getBaseUrl(): string {
+    return this.axiosInstance.defaults.baseURL || API_CONFIG.baseURL;
+  }
+
+  /**
+   * Troca o backend em tempo de execução (sem reiniciar o app)
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.axiosInstance.defaults.baseURL = baseUrl;
+    this.refreshClient.defaults.baseURL = baseUrl;
+    this.circuitBreaker.reset(); // O estado do circuito era do backend anterior
+    console.log('[API] URL base alterada para:', baseUrl);
+  }
+
+  // ===========================
+  // Validação das respostas (DTOs)
+  // ===========================
+
+  /**
+   * GET de uma lista validada (itens fora do schema são descartados e reportados)
+   */
+  private async getList<T>(url: string, entity: string, schema: DtoSchema): Promise<ApiResponse<T[]>> {
+    const response = await this.get(url);
+    if (!response.success) {
+      return response;
+    }
+
+    const result = DtoValidator.validateList<T>(entity, response.data, schema);
+    if (!result.valid) {
+      return { success: false, error: `Resposta inválida do servidor (${entity})`, statusCode: response.statusCode };
+    }
+
+    return { ...response, data: result.data };
+  }
+
+  /**
+   * Valida uma resposta de leitura; fora do schema vira erro em vez de dados incorretos
+   */
+  private validateResponse<T>(response: ApiResponse, entity: string, schema: DtoSchema): ApiResponse<T> {
+    if (!response.success) {
+      return response;
+    }
+
+    const result = DtoValidator.validate<T>(entity, DtoValidator.unwrap(response.data), schema);
+    if (!result.valid) {
+      return { success: false, error: `Resposta inválida do servidor (${entity})`, statusCode: response.statusCode };
+    }
+
+    return { ...response, data: result.data };
+  }
+
+  /**
+   * Valida a resposta de uma escrita apenas para reportar divergências:
+   * a operação já foi aplicada no servidor e não deve ser tratada como falha
+   */
+  private reportResponseDrift<T>(response: ApiResponse, entity: string, schema: DtoSchema): ApiResponse<T> {
+    if (!response.success) {
+      return response;
+    }
+
+    const data = DtoValidator.unwrap(response.data);
+    DtoValidator.validate<T>(entity, data, schema);
+    return { ...response, data };
+  }
+
   // ===========================
   // Métodos específicos da API
   // ===========================
@@ -444,12 +813,17 @@ export class ApiService {
   /**
    * Login de usuário
    */
-  async login(email: string, password: string): Promise<ApiResponse<{ token: string; user: any }>> {
+  async login(email: string, password: string): Promise<ApiResponse<AuthResponseDto>> {
     // Backend espera "senha" não "password"
-    const response = await this.post(API_ENDPOINTS.AUTH.LOGIN, { email, senha: password });
+    const response = this.validateResponse<AuthResponseDto>(
+      await this.post(API_ENDPOINTS.AUTH.LOGIN, { email, senha: password }),
+      'AuthResponse',
+      AUTH_RESPONSE_SCHEMA
+    );
     
     if (response.success && response.data?.token) {
       this.setAuthToken(response.data.token);
+      this.setRefreshToken(response.data.refreshToken || null);
     }
     
     return response;
@@ -464,12 +838,17 @@ export class ApiService {
     password: string;
     type?: 'client' | 'employee';
     phone?: string;
-  }): Promise<ApiResponse<{ token: string; user: any }>> {
+  }): Promise<ApiResponse<AuthResponseDto>> {
     // Backend espera campos em inglês no endpoint /auth/register
-    const response = await this.post('/auth/register', userData);
+    const response = this.validateResponse<AuthResponseDto>(
+      await this.post(API_ENDPOINTS.AUTH.REGISTER, userData),
+      'AuthResponse',
+      AUTH_RESPONSE_SCHEMA
+    );
     
     if (response.success && response.data?.token) {
       this.setAuthToken(response.data.token);
+      this.setRefreshToken(response.data.refreshToken || null);
     }
     
     return response;
@@ -485,38 +864,38 @@ export class ApiService {
   /**
    * Busca todos os clientes (apenas funcionários)
    */
-  async getClients(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.CLIENTS.BASE);
+  async getClients(): Promise<ApiResponse<ClienteDto[]>> {
+    return this.getList<ClienteDto>(API_ENDPOINTS.CLIENTS.BASE, 'Cliente', CLIENTE_SCHEMA);
   }
 
   /**
    * Busca cliente por ID
    */
-  async getClientById(id: string | number): Promise<ApiResponse<any>> {
-    return this.get(API_ENDPOINTS.CLIENTS.BY_ID(id));
+  async getClientById(id: string | number): Promise<ApiResponse<ClienteDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.CLIENTS.BY_ID(id)), 'Cliente', CLIENTE_SCHEMA);
   }
 
   /**
    * Busca cliente por email (apenas funcionários)
    */
-  async getClientByEmail(email: string): Promise<ApiResponse<any>> {
+  async getClientByEmail(email: string): Promise<ApiResponse<ClienteDto>> {
     // Buscar todos os clientes e filtrar por email
     const response = await this.getClients();
     if (response.success && response.data) {
-      const cliente = response.data.find((c: any) => c.email === email);
+      const cliente = response.data.find(c => c.email === email);
       if (cliente) {
         return { success: true, data: cliente };
       }
       return { success: false, error: 'Cliente não encontrado' };
     }
-    return response;
+    return { success: false, error: response.error, statusCode: response.statusCode };
   }
 
   /**
    * Busca dados do cliente logado (apenas clientes)
    */
-  async getMyClient(): Promise<ApiResponse<any>> {
-    return this.get(API_ENDPOINTS.CLIENTS.ME);
+  async getMyClient(): Promise<ApiResponse<ClienteDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.CLIENTS.ME), 'Cliente', CLIENTE_SCHEMA);
   }
 
   /**
@@ -543,15 +922,15 @@ export class ApiService {
   /**
    * Busca todos os funcionários
    */
-  async getEmployees(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.EMPLOYEES.BASE);
+  async getEmployees(): Promise<ApiResponse<FuncionarioDto[]>> {
+    return this.getList<FuncionarioDto>(API_ENDPOINTS.EMPLOYEES.BASE, 'Funcionario', FUNCIONARIO_SCHEMA);
   }
 
   /**
    * Busca funcionário por ID
    */
-  async getEmployeeById(id: string | number): Promise<ApiResponse<any>> {
-    return this.get(API_ENDPOINTS.EMPLOYEES.BY_ID(id));
+  async getEmployeeById(id: string | number): Promise<ApiResponse<FuncionarioDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.EMPLOYEES.BY_ID(id)), 'Funcionario', FUNCIONARIO_SCHEMA);
   }
 
   /**
@@ -564,15 +943,15 @@ export class ApiService {
   /**
    * Busca todos os pacotes
    */
-  async getPackages(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.PACKAGES.BASE);
+  async getPackages(): Promise<ApiResponse<PacoteDto[]>> {
+    return this.getList<PacoteDto>(API_ENDPOINTS.PACKAGES.BASE, 'Pacote', PACOTE_SCHEMA);
   }
 
   /**
    * Busca pacote por ID
    */
-  async getPackageById(id: string | number): Promise<ApiResponse<any>> {
-    return this.get(API_ENDPOINTS.PACKAGES.BY_ID(id));
+  async getPackageById(id: string | number): Promise<ApiResponse<PacoteDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.PACKAGES.BY_ID(id)), 'Pacote', PACOTE_SCHEMA);
   }
 
   /**
@@ -585,64 +964,147 @@ export class ApiService {
   /**
    * Analisa acessibilidade de um site
    */
-  async analyzeSiteAccessibility(url: string): Promise<ApiResponse<any>> {
+  async analyzeSiteAccessibility(url: string): Promise<ApiResponse<LighthouseReportDto>> {
     const endpoint = API_ENDPOINTS.LIGHTHOUSE.ANALYZE;
     console.log('[API] analyzeSiteAccessibility - Endpoint:', endpoint);
-    console.log('[API] analyzeSiteAccessibility - Base URL:', API_CONFIG.baseURL);
-    console.log('[API] analyzeSiteAccessibility - URL completa:', `${API_CONFIG.baseURL}${endpoint}`);
-    return this.post(endpoint, { url });
+    console.log('[API] analyzeSiteAccessibility - Base URL:', this.getBaseUrl());
+    console.log('[API] analyzeSiteAccessibility - URL completa:', `${this.getBaseUrl()}${endpoint}`);
+    return this.validateResponse(await this.post(endpoint, { url }), 'LighthouseReport', LIGHTHOUSE_REPORT_SCHEMA);
+  }
+
+  /**
+   * Registra o resultado de uma avaliação no histórico do cliente logado
+   */
+  async saveEvaluation(evaluationData: {
+    site: string;
+    nota: number;
+    problemas: Array<{ id: string; texto: string }>;
+    auditorias_reprovadas?: string[];
+    paginas?: Array<{ url: string; nota?: number; erro?: string }>;
+    data_avaliacao: string;
+  }): Promise<ApiResponse<AvaliacaoDto>> {
+    return this.reportResponseDrift(await this.post(API_ENDPOINTS.EVALUATIONS.BASE, evaluationData), 'Avaliacao', AVALIACAO_SCHEMA);
   }
 
   /**
    * Busca todos os orçamentos
    */
-  async getBudgets(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.BUDGETS.BASE);
+  async getBudgets(): Promise<ApiResponse<OrcamentoDto[]>> {
+    // O backend retorna { statusCode, message, data: [...] } para orçamentos
+    return this.getList<OrcamentoDto>(API_ENDPOINTS.BUDGETS.BASE, 'Orcamento', ORCAMENTO_SCHEMA);
   }
 
   /**
    * Cria novo orçamento
    */
-  async createBudget(budgetData: any): Promise<ApiResponse<any>> {
-    return this.post(API_ENDPOINTS.BUDGETS.BASE, budgetData);
+  async createBudget(budgetData: OrcamentoCreateDto): Promise<ApiResponse<OrcamentoDto>> {
+    return this.reportResponseDrift(await this.post(API_ENDPOINTS.BUDGETS.BASE, budgetData), 'Orcamento', ORCAMENTO_SCHEMA);
+  }
+
+  /**
+   * Envia o arquivo de um orçamento
+   * @param file - Arquivo local; na web, blob com o conteúdo
+   */
+  async uploadBudgetFile(
+    codOrcamento: string,
+    file: { uri: string; name: string; type: string; blob?: Blob }
+  ): Promise<ApiResponse<{ filePath?: string }>> {
+    return this.uploadFile(API_ENDPOINTS.BUDGETS.UPLOAD(codOrcamento), file);
+  }
+
+  /**
+   * Upload multipart (campo 'file', esperado pelo FileInterceptor do backend)
+   * Passa pelo mesmo pipeline das demais chamadas: renovação do token no 401,
+   * circuit breaker e Retry-After; o interceptador remove o Content-Type do FormData
+   */
+  private async uploadFile(
+    endpoint: string,
+    file: { uri: string; name: string; type: string; blob?: Blob }
+  ): Promise<ApiResponse<{ filePath?: string }>> {
+    const formData = new FormData();
+    if (file.blob) {
+      formData.append('file', file.blob, file.name);
+    } else {
+      formData.append('file', { uri: file.uri, type: file.type, name: file.name } as any);
+    }
+
+    const response = await this.post(endpoint, formData, {
+      timeout: 300000, // 5 minutos para arquivos grandes
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity,
+    });
+
+    if (!response.success) {
+      return { success: false, error: response.error || 'Erro ao enviar arquivo', statusCode: response.statusCode };
+    }
+
+    return {
+      success: true,
+      data: { filePath: response.data?.filePath || response.data?.data?.filePath },
+      statusCode: response.statusCode,
+    };
   }
 
   /**
    * Busca todos os contratos
    */
-  async getContracts(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.CONTRACTS.BASE);
+  async getContracts(): Promise<ApiResponse<ContratoDto[]>> {
+    return this.getList<ContratoDto>(API_ENDPOINTS.CONTRACTS.BASE, 'Contrato', CONTRATO_SCHEMA);
+  }
+
+  /**
+   * Busca um contrato por ID (inclui o registro da assinatura, se assinado)
+   */
+  async getContract(id: string): Promise<ApiResponse<ContratoDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.CONTRACTS.BY_ID(id)), 'Contrato', CONTRATO_SCHEMA);
   }
 
   /**
    * Cria novo contrato
    */
-  async createContract(contractData: any): Promise<ApiResponse<any>> {
-    return this.post(API_ENDPOINTS.CONTRACTS.BASE, contractData);
+  async createContract(contractData: any): Promise<ApiResponse<ContratoDto>> {
+    return this.reportResponseDrift(await this.post(API_ENDPOINTS.CONTRACTS.BASE, contractData), 'Contrato', CONTRATO_SCHEMA);
+  }
+
+  /**
+   * Envia o arquivo de um contrato
+   * @param file - Arquivo local; na web, blob com o conteúdo
+   */
+  async uploadContractFile(
+    idContrato: string,
+    file: { uri: string; name: string; type: string; blob?: Blob }
+  ): Promise<ApiResponse<{ filePath?: string }>> {
+    return this.uploadFile(API_ENDPOINTS.CONTRACTS.UPLOAD(idContrato), file);
   }
 
   /**
    * Assina um contrato digitalmente
+   * @param certificado - Registro da assinatura (hashes do documento, signatário e dispositivo)
    */
-  async signContract(contratoId: string, signatureBase64: string): Promise<ApiResponse<{ signedContractPath: string }>> {
+  async signContract(
+    contratoId: string,
+    signatureBase64: string,
+    certificado?: Record<string, unknown>
+  ): Promise<ApiResponse<{ signedContractPath: string }>> {
     return this.post(API_ENDPOINTS.CONTRACTS.SIGN, {
       contrato_id: contratoId,
       signature: signatureBase64,
+      ...(certificado ? { certificado } : {}),
     });
   }
 
   /**
    * Busca todas as solicitações (apenas funcionários)
    */
-  async getRequests(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.REQUESTS.BASE);
+  async getRequests(): Promise<ApiResponse<SolicitacaoDto[]>> {
+    return this.getList<SolicitacaoDto>(API_ENDPOINTS.REQUESTS.BASE, 'Solicitacao', SOLICITACAO_SCHEMA);
   }
 
   /**
    * Busca solicitações do cliente logado
    */
-  async getMyRequests(): Promise<ApiResponse<any[]>> {
-    return this.get(API_ENDPOINTS.REQUESTS.MY);
+  async getMyRequests(): Promise<ApiResponse<SolicitacaoDto[]>> {
+    return this.getList<SolicitacaoDto>(API_ENDPOINTS.REQUESTS.MY, 'Solicitacao', SOLICITACAO_SCHEMA);
   }
 
   /**
@@ -653,31 +1115,54 @@ export class ApiService {
     tipo_pacote: 'A' | 'AA' | 'AAA';
     observacoes?: string;
     selected_issues?: any[];
-  }): Promise<ApiResponse<any>> {
-    return this.post(API_ENDPOINTS.REQUESTS.BASE, requestData);
+  }): Promise<ApiResponse<SolicitacaoDto>> {
+    return this.reportResponseDrift(await this.post(API_ENDPOINTS.REQUESTS.BASE, requestData), 'Solicitacao', SOLICITACAO_SCHEMA);
   }
 
   /**
    * Busca uma solicitação por ID
    */
-  async getRequest(id: string): Promise<ApiResponse<any>> {
-    return this.get(API_ENDPOINTS.REQUESTS.BY_ID(id));
+  async getRequest(id: string): Promise<ApiResponse<SolicitacaoDto>> {
+    return this.validateResponse(await this.get(API_ENDPOINTS.REQUESTS.BY_ID(id)), 'Solicitacao', SOLICITACAO_SCHEMA);
   }
 
   /**
    * Cria orçamento automaticamente a partir de uma solicitação
    */
-  async createOrcamentoFromRequest(solicitacaoId: string, valorOrcamento?: number): Promise<ApiResponse<any>> {
-    return this.post(API_ENDPOINTS.REQUESTS.CREATE_ORCAMENTO(solicitacaoId), {
+  async createOrcamentoFromRequest(solicitacaoId: string, valorOrcamento?: number): Promise<ApiResponse<OrcamentoDto>> {
+    const response = await this.post(API_ENDPOINTS.REQUESTS.CREATE_ORCAMENTO(solicitacaoId), {
       valor_orcamento: valorOrcamento,
     });
+    return this.reportResponseDrift(response, 'Orcamento', ORCAMENTO_SCHEMA);
   }
 
   /**
    * Atualiza uma solicitação
    */
-  async updateSolicitacao(solicitacaoId: string, data: { status?: string; observacoes?: string }): Promise<ApiResponse<any>> {
-    return this.patch(API_ENDPOINTS.REQUESTS.UPDATE(solicitacaoId), data);
+  async updateSolicitacao(solicitacaoId: string, data: { status?: string; observacoes?: string }): Promise<ApiResponse<SolicitacaoDto>> {
+    return this.reportResponseDrift(await this.patch(API_ENDPOINTS.REQUESTS.UPDATE(solicitacaoId), data), 'Solicitacao', SOLICITACAO_SCHEMA);
+  }
+
+  /**
+   * Busca o histórico de uma solicitação (eventos registrados por todos os dispositivos)
+   */
+  async getRequestHistory(solicitacaoId: string): Promise<ApiResponse<HistoricoEventoDto[]>> {
+    return this.getList<HistoricoEventoDto>(API_ENDPOINTS.REQUESTS.HISTORY(solicitacaoId), 'HistoricoEvento', HISTORICO_EVENTO_SCHEMA);
+  }
+
+  /**
+   * Registra um evento no histórico de uma solicitação
+   */
+  async addRequestHistoryEvent(solicitacaoId: string, event: {
+    tipo_evento: string;
+    valor_anterior?: string;
+    valor_novo?: string;
+    autor: string;
+    perfil_autor?: string;
+    observacao?: string;
+    data_evento: string;
+  }): Promise<ApiResponse<any>> {
+    return this.post(API_ENDPOINTS.REQUESTS.HISTORY(solicitacaoId), event);
   }
 }
 
@@ -0,0 +1,120 @@
+/**
+ * CircuitBreaker - Disjuntor para chamadas ao backend
+ *
+ * Responsabilidades:
+ * - Contar falhas consecutivas de conexão com o servidor
+ * - Abrir o circuito (bloquear novas chamadas) ao atingir o limite de falhas
+ * - Liberar uma chamada de teste após o tempo de espera (half-open)
+ * - Notificar mudanças de estado para a interface exibir a conectividade
+ *
+ * Estados:
+ * - closed: chamadas liberadas normalmente
+ * - open: servidor considerado indisponível, chamadas falham imediatamente
+ * - half-open: uma chamada de teste decide se o circuito fecha ou reabre
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Falhas consecutivas para abrir o circuito
+  cooldownMs: number; // Tempo em aberto antes da chamada de teste
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private listeners: Array<(state: CircuitState) => void> = [];
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Verifica se uma chamada pode ser feita agora
+   * (no half-open apenas uma chamada de teste é liberada por vez)
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.cooldownMs) {
+      this.setState('half-open');
+    }
+
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Registra uma chamada bem-sucedida (o servidor respondeu)
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.openedAt = null;
+    this.setState('closed');
+  }
+
+  /**
+   * Registra uma falha de conexão com o servidor
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setState('open');
+    }
+  }
+
+  /**
+   * Volta ao estado inicial (ex: ao trocar o backend em uso)
+   */
+  reset(): void {
+    this.recordSuccess();
+  }
+
+  /**
+   * Estado atual do circuito
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Tempo restante (ms) até a próxima chamada de teste, 0 se não estiver aberto
+   */
+  getRetryIn(): number {
+    if (this.state !== 'open' || this.openedAt === null) {
+      return 0;
+    }
+    return Math.max(0, this.options.cooldownMs - (Date.now() - this.openedAt));
+  }
+
+  /**
+   * Subscriber pattern para notificar mudanças de estado
+   */
+  subscribe(listener: (state: CircuitState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private setState(state: CircuitState): void {
+    if (this.state === state) return;
+
+    console.log(`[CircuitBreaker] ${this.state} → ${state}`);
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Um circuito por grupo de endpoints (ex: Lighthouse separado do restante)
@@ -41,7 +41,8 @@ export class DatabaseService {
   }
 
   /**
-   * Inicializa o banco de dados e cria as tabelas necessárias
+   * Inicializa o banco de dados e aplica as migrações de schema pendentes
+   * (services/storage/migrations/SchemaMigrations.ts)
    */
   async initialize(): Promise<DatabaseResult> {
     return this.adapter.initialize();
@@ -0,0 +1,64 @@
+/**
+ * SecureStorageService - Armazenamento seguro de dados sensíveis (mobile)
+ *
+ * Responsabilidades:
+ * - Guardar pequenos valores sensíveis (ex: token JWT) no Keychain/Keystore
+ * - Ler e remover esses valores
+ *
+ * Na web, o bundler usa SecureStorageService.web.ts (IndexedDB criptografado).
+ */
+
+import * as SecureStore from 'expo-secure-store';
+
+export class SecureStorageService {
+  private static instance: SecureStorageService;
+
+  static getInstance(): SecureStorageService {
+    if (!SecureStorageService.instance) {
+      SecureStorageService.instance = new SecureStorageService();
+    }
+    return SecureStorageService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Lê um valor armazenado
+   * @returns Valor salvo ou null se não existir / não puder ser lido
+   */
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await SecureStore.getItemAsync(key);
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao ler "${key}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Salva um valor
+   */
+  async setItem(key: string, value: string): Promise<boolean> {
+    try {
+      await SecureStore.setItemAsync(key, value);
+      return true;
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao salvar "${key}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove um valor
+   */
+  async removeItem(key: string): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(key);
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao remover "${key}":`, error);
+    }
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Exigir biometria para ler o token (requireAuthentication)
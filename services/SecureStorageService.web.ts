@@ -0,0 +1,178 @@
+/**
+ * SecureStorageService.web - Armazenamento seguro de dados sensíveis (web)
+ *
+ * Responsabilidades:
+ * - Guardar pequenos valores sensíveis (ex: token JWT) no IndexedDB
+ * - Criptografar os valores com AES-GCM (Web Crypto API)
+ * - Manter a chave de criptografia como CryptoKey não-exportável
+ *
+ * A chave fica salva no próprio IndexedDB, mas por ser não-exportável
+ * o seu conteúdo bruto nunca fica acessível ao JavaScript.
+ */
+
+interface EncryptedItem {
+  key: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export class SecureStorageService {
+  private static instance: SecureStorageService;
+  private readonly DB_NAME = 'ada_secure_store';
+  private readonly DB_VERSION = 1;
+  private readonly KEY_ID = 'session-key';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private cryptoKey: CryptoKey | null = null;
+
+  static getInstance(): SecureStorageService {
+    if (!SecureStorageService.instance) {
+      SecureStorageService.instance = new SecureStorageService();
+    }
+    return SecureStorageService.instance;
+  }
+
+  private constructor() {}
+
+  /**
+   * Lê e descriptografa um valor armazenado
+   * @returns Valor salvo ou null se não existir / não puder ser lido
+   */
+  async getItem(key: string): Promise<string | null> {
+    try {
+      const item = await this.request<EncryptedItem | undefined>('items', 'readonly', store => store.get(key));
+      if (!item) {
+        return null;
+      }
+
+      const cryptoKey = await this.getCryptoKey();
+      const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: item.iv }, cryptoKey, item.data);
+      return new TextDecoder().decode(decrypted);
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao ler "${key}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Criptografa e salva um valor
+   */
+  async setItem(key: string, value: string): Promise<boolean> {
+    try {
+      const cryptoKey = await this.getCryptoKey();
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const data = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        cryptoKey,
+        new TextEncoder().encode(value)
+      );
+
+      const item: EncryptedItem = { key, iv, data };
+      await this.request('items', 'readwrite', store => store.put(item));
+      return true;
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao salvar "${key}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove um valor
+   */
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.request('items', 'readwrite', store => store.delete(key));
+    } catch (error) {
+      console.warn(`[SecureStorage] Erro ao remover "${key}":`, error);
+    }
+  }
+
+  /**
+   * Obtém a chave AES-GCM, gerando uma nova no primeiro uso
+   */
+  private async getCryptoKey(): Promise<CryptoKey> {
+    if (this.cryptoKey) {
+      return this.cryptoKey;
+    }
+
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('Web Crypto API indisponível (é necessário um contexto seguro - HTTPS ou localhost)');
+    }
+
+    const stored = await this.request<{ id: string; key: CryptoKey } | undefined>(
+      'keys', 'readonly', store => store.get(this.KEY_ID)
+    );
+
+    if (stored?.key) {
+      this.cryptoKey = stored.key;
+      return stored.key;
+    }
+
+    const key = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false, // Não-exportável
+      ['encrypt', 'decrypt']
+    );
+    await this.request('keys', 'readwrite', store => store.put({ id: this.KEY_ID, key }));
+
+    this.cryptoKey = key;
+    return key;
+  }
+
+  /**
+   * Abre (ou cria) o banco dedicado ao armazenamento seguro
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(new Error('Failed to open secure IndexedDB'));
+        };
+
+        request.onsuccess = () => {
+          resolve(request.result);
+        };
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains('keys')) {
+            db.createObjectStore('keys', { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains('items')) {
+            db.createObjectStore('items', { keyPath: 'key' });
+          }
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Executa uma operação em um object store e aguarda o resultado
+   */
+  private async request<T = unknown>(
+    storeName: 'keys' | 'items',
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], mode);
+      const request = operation(transaction.objectStore(storeName));
+
+      request.onsuccess = () => {
+        resolve(request.result as T);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Rotação periódica da chave de criptografia
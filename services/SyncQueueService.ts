@@ -0,0 +1,212 @@
+/**
+ * SyncQueueService - Fila persistente de mutações pendentes (outbox)
+ *
+ * Responsabilidades:
+ * - Registrar mutações que falharam por falta de conexão
+ * - Persistir a fila via DatabaseService (SQLite no mobile, IndexedDB na web)
+ * - Fornecer as mutações pendentes na ordem em que foram criadas
+ * - Marcar mutações com conflito quando o servidor já mudou de estado
+ */
+
+import { DatabaseService } from './DatabaseService';
+
+export type MutationType =
+  | 'CREATE_REQUEST'
+  | 'UPDATE_STATUS'
+  | 'UPDATE_DEVELOPMENT_STATUS'
+  | 'SIGN_CONTRACT'
+  | 'RECORD_HISTORY';
+
+export type MutationStatus = 'pending' | 'conflict';
+
+export interface PendingMutation {
+  id?: number;
+  type: MutationType;
+  requestId: number;
+  solicitacaoId?: string; // ID no backend (chave estável; o requestId local pode colidir)
+  payload: any;
+  baseStatus?: string; // Status local no momento da mutação (usado para detectar conflitos)
+  status: MutationStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt?: string;
+}
+
+export class SyncQueueService {
+  private static instance: SyncQueueService;
+  private db: DatabaseService;
+
+  private constructor() {
+    this.db = DatabaseService.getInstance();
+  }
+
+  static getInstance(): SyncQueueService {
+    if (!SyncQueueService.instance) {
+      SyncQueueService.instance = new SyncQueueService();
+    }
+    return SyncQueueService.instance;
+  }
+
+  /**
+   * Adiciona uma mutação ao final da fila
+   */
+  async enqueue(
+    mutation: Pick<PendingMutation, 'type' | 'requestId' | 'solicitacaoId' | 'payload' | 'baseStatus'>
+  ): Promise<{ success: boolean; data?: PendingMutation; error?: string }> {
+    try {
+      const result = await this.db.execute(`
+        INSERT INTO sync_queue (mutation_type, request_id, solicitacao_id, payload, base_status, status, attempts, last_error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        mutation.type,
+        mutation.requestId,
+        mutation.solicitacaoId || null,
+        JSON.stringify(mutation.payload ?? null),
+        mutation.baseStatus || null,
+        'pending',
+        0,
+        null
+      ]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      console.log(`[SyncQueue] Mutação ${mutation.type} enfileirada para solicitação ${mutation.requestId}`);
+      return {
+        success: true,
+        data: {
+          ...mutation,
+          id: result.data?.lastInsertRowId,
+          status: 'pending',
+          attempts: 0,
+          createdAt: new Date().toISOString()
+        }
+      };
+    } catch (error) {
+      console.error('[SyncQueue] Erro ao enfileirar mutação:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  /**
+   * Obtém as mutações pendentes em ordem de criação
+   */
+  async getPending(): Promise<{ success: boolean; data?: PendingMutation[]; error?: string }> {
+    return this.getByStatus('pending');
+  }
+
+  /**
+   * Obtém as mutações que entraram em conflito com o servidor
+   */
+  async getConflicts(): Promise<{ success: boolean; data?: PendingMutation[]; error?: string }> {
+    return this.getByStatus('conflict');
+  }
+
+  /**
+   * Registra uma tentativa de envio que falhou
+   */
+  async markAttempt(mutation: PendingMutation, error: string): Promise<{ success: boolean; error?: string }> {
+    if (!mutation.id) return { success: false, error: 'Mutação sem ID' };
+
+    const result = await this.db.execute(`
+      UPDATE sync_queue SET attempts = ?, last_error = ? WHERE id = ?
+    `, [mutation.attempts + 1, error, mutation.id]);
+
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Marca uma mutação como conflitante (o servidor já está em outro estado)
+   */
+  async markConflict(mutation: PendingMutation, reason: string): Promise<{ success: boolean; error?: string }> {
+    if (!mutation.id) return { success: false, error: 'Mutação sem ID' };
+
+    const result = await this.db.execute(`
+      UPDATE sync_queue SET status = ?, last_error = ? WHERE id = ?
+    `, ['conflict', reason, mutation.id]);
+
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Remove uma mutação da fila (aplicada ou descartada)
+   */
+  async remove(mutationId: number): Promise<{ success: boolean; error?: string }> {
+    const result = await this.db.execute(`
+      DELETE FROM sync_queue WHERE id = ?
+    `, [mutationId]);
+
+    return { success: result.success, error: result.error };
+  }
+
+  /**
+   * Descarta todas as mutações (pendentes e em conflito)
+   * Usado na troca de backend: os IDs enfileirados pertencem ao backend anterior
+   */
+  async clear(): Promise<{ success: boolean; error?: string }> {
+    if (!this.db.isReady()) {
+      return { success: true };
+    }
+
+    const result = await this.db.execute(`
+      DELETE FROM sync_queue
+    `);
+
+    return { success: result.success, error: result.error };
+  }
+
+  private async getByStatus(status: MutationStatus): Promise<{ success: boolean; data?: PendingMutation[]; error?: string }> {
+    try {
+      if (!this.db.isReady()) {
+        return { success: true, data: [] };
+      }
+
+      const result = await this.db.query(`
+        SELECT * FROM sync_queue WHERE status = ? ORDER BY id ASC
+      `, [status]);
+
+      if (!result.success) {
+        return { success: false, error: result.error };
+      }
+
+      return { success: true, data: (result.data || []).map((row: any) => this.mapRow(row)) };
+    } catch (error) {
+      console.error('[SyncQueue] Erro ao buscar mutações:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Erro desconhecido'
+      };
+    }
+  }
+
+  private mapRow(row: any): PendingMutation {
+    let payload: any = null;
+    try {
+      payload = typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload;
+    } catch {
+      payload = null;
+    }
+
+    return {
+      id: row.id,
+      type: row.mutation_type,
+      requestId: Number(row.request_id),
+      solicitacaoId: row.solicitacao_id || undefined,
+      payload,
+      baseStatus: row.base_status || undefined,
+      status: row.status,
+      attempts: Number(row.attempts) || 0,
+      lastError: row.last_error || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Limite de tentativas com descarte automático
+// - Compactação de mutações redundantes para a mesma solicitação
+// - Resolução manual de conflitos pelo usuário
@@ -0,0 +1,373 @@
+/**
+ * ApiDtos - Tipos das respostas do backend (DTOs) e seus schemas de validação
+ *
+ * Os nomes dos campos seguem o backend (em português). A conversão para os
+ * modelos do app fica nos mappers (models/mappers).
+ */
+
+import type { DtoSchema } from './DtoValidator';
+
+// ===========================
+// Enums do backend
+// ===========================
+
+export const SOLICITACAO_STATUS_VALUES = [
+  'PENDENTE',
+  'EM_ANALISE',
+  'ORCAMENTO_CRIADO',
+  'ORCAMENTO_APROVADO',
+  'EM_DESENVOLVIMENTO',
+  'CONCLUIDA',
+  'CANCELADA',
+] as const;
+
+export type SolicitacaoStatusDto = typeof SOLICITACAO_STATUS_VALUES[number];
+
+export const CONTRATO_STATUS_VALUES = ['PENDENTE', 'EM_ANDAMENTO', 'CONCLUIDO'] as const;
+
+export type ContratoStatusDto = typeof CONTRATO_STATUS_VALUES[number];
+
+export const USUARIO_TIPO_VALUES = ['cliente', 'funcionario'] as const;
+
+export type UsuarioTipoDto = typeof USUARIO_TIPO_VALUES[number];
+
+// ===========================
+// DTOs
+// ===========================
+
+export interface ClienteDto {
+  id?: number;
+  id_cliente?: number;
+  nome_completo?: string;
+  nome_razao_social?: string;
+  email?: string;
+  telefone?: string;
+  foto?: string;
+}
+
+export interface FuncionarioDto {
+  id?: number;
+  nome?: string;
+  email?: string;
+  cargo?: string;
+  foto?: string;
+}
+
+export interface PacoteDto {
+  id?: number | string;
+  cod_pacote?: string;
+  tipo_pacote?: string; // Nível WCAG (A, AA, AAA)
+  valor?: number;
+  cliente?: ClienteDto;
+}
+
+export interface ChecklistItemDto {
+  text: string;
+  priority: number;
+}
+
+export interface SolicitacaoDto {
+  id_solicitacao: string;
+  status: SolicitacaoStatusDto;
+  site?: string;
+  tipo_pacote?: string;
+  cod_orcamento?: string;
+  observacoes?: string;
+  selected_issues?: ChecklistItemDto[];
+  cliente?: ClienteDto;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Evento do histórico de uma solicitação (ver RequestHistoryModel.toBackendPayload)
+ */
+export interface HistoricoEventoDto {
+  id?: string | number;
+  tipo_evento: string;
+  valor_anterior?: string;
+  valor_novo?: string;
+  autor: string;
+  perfil_autor?: string;
+  observacao?: string;
+  data_evento: string;
+}
+
+export interface OrcamentoDto {
+  cod_orcamento?: string;
+  id?: string;
+  site?: string;
+  valor?: number;
+  arquivo_orcamento?: string;
+  pacote?: PacoteDto;
+  cliente?: ClienteDto;
+  createdAt?: string;
+  created_at?: string;
+  updatedAt?: string;
+  updated_at?: string;
+}
+
+/**
+ * Item do orçamento montado no app (um por problema selecionado, mais o plano)
+ */
+export interface OrcamentoItemDto {
+  descricao: string;
+  prioridade: number;
+  nivel_wcag: string;
+  quantidade: number;
+  valor_unitario: number;
+  valor_total: number;
+}
+
+export interface OrcamentoDescontoDto {
+  descricao: string;
+  tipo: 'percentual' | 'valor';
+  valor: number;
+}
+
+export interface OrcamentoImpostoDto {
+  descricao: string;
+  aliquota: number; // Percentual sobre o valor com desconto
+  valor: number;
+}
+
+/**
+ * Criação de orçamento (POST /orcamentos)
+ * Orçamentos de uma solicitação informam solicitacao_id; cliente e pacote vêm dela
+ */
+export interface OrcamentoCreateDto {
+  cliente_id?: number;
+  pacote_id?: number | string;
+  solicitacao_id?: string;
+  valor: number;
+  validade?: string; // Data ISO (YYYY-MM-DD)
+  itens?: OrcamentoItemDto[];
+  descontos?: OrcamentoDescontoDto[];
+  impostos?: OrcamentoImpostoDto[];
+  observacoes?: string;
+}
+
+/**
+ * Registro da assinatura enviado com o contrato (ver ContractSigningModel.toBackendPayload)
+ */
+export interface ContratoCertificadoDto {
+  hash_documento?: string;
+  tamanho_documento?: number;
+  hash_documento_assinado?: string;
+  nome_documento?: string;
+  assinado_em?: string;
+  carimbado?: boolean;
+}
+
+export interface ContratoDto {
+  id_contrato?: string;
+  id?: string;
+  cod_orcamento?: string;
+  orcamento_id?: string;
+  status_contrato?: ContratoStatusDto;
+  site?: string;
+  arquivo_contrato?: string;
+  contrato_assinado_url?: string;
+  certificado?: ContratoCertificadoDto;
+  orcamento?: OrcamentoDto;
+  cliente?: ClienteDto;
+  createdAt?: string;
+  created_at?: string;
+  updatedAt?: string;
+  updated_at?: string;
+}
+
+export interface AuthUserDto {
+  id: number;
+  tipo: UsuarioTipoDto;
+  email: string;
+  nome?: string;
+  nome_razao_social?: string;
+  foto?: string;
+}
+
+export interface AuthResponseDto {
+  token: string;
+  refreshToken?: string;
+  user: AuthUserDto;
+}
+
+/**
+ * Elemento da página que reprovou na auditoria (details.items[].node do Lighthouse)
+ */
+export interface LighthouseNodeDto {
+  selector?: string;
+  snippet?: string;
+  nodeLabel?: string;
+  explanation?: string;
+}
+
+export interface LighthouseAuditDetailsDto {
+  type?: string;
+  items?: Array<{ node?: LighthouseNodeDto }>;
+  debugData?: {
+    impact?: string; // Impacto informado pelo axe (minor, moderate, serious, critical)
+    tags?: string[]; // Tags do axe, ex: wcag2aa, wcag143
+  };
+}
+
+export interface LighthouseAuditDto {
+  id?: string;
+  title?: string;
+  description?: string; // Markdown, com o link da documentação
+  score?: number | null;
+  helpUrl?: string;
+  details?: LighthouseAuditDetailsDto;
+}
+
+/**
+ * Relatório do Lighthouse. O backend atual envia notaAcessibilidade/reprovadas/manuais;
+ * accessibility/audits é o formato antigo, mantido por retrocompatibilidade.
+ */
+export interface LighthouseReportDto {
+  notaAcessibilidade?: number;
+  reprovadas?: LighthouseAuditDto[];
+  manuais?: LighthouseAuditDto[];
+  accessibility?: number;
+  audits?: Record<string, LighthouseAuditDto>;
+}
+
+export interface AvaliacaoDto {
+  id_avaliacao?: string;
+  id?: string | number;
+  site: string;
+  nota: number;
+  problemas?: Array<{ id: string; texto: string }>;
+  auditorias_reprovadas?: string[];
+  paginas?: Array<{ url: string; nota?: number; erro?: string }>; // Avaliações de várias páginas
+  data_avaliacao?: string;
+}
+
+// ===========================
+// Schemas
+// ===========================
+
+export const CLIENTE_SCHEMA: DtoSchema = {
+  id: { type: 'number' },
+  nome_completo: { type: 'string' },
+  nome_razao_social: { type: 'string' },
+  email: { type: 'string' },
+  foto: { type: 'string' },
+};
+
+export const FUNCIONARIO_SCHEMA: DtoSchema = {
+  id: { type: 'number' },
+  nome: { type: 'string' },
+  email: { type: 'string' },
+  foto: { type: 'string' },
+};
+
+export const PACOTE_SCHEMA: DtoSchema = {
+  id: { type: ['number', 'string'] },
+  tipo_pacote: { type: 'string' },
+  valor: { type: ['number', 'string'] },
+  cliente: { type: 'object', schema: CLIENTE_SCHEMA },
+};
+
+export const CHECKLIST_ITEM_SCHEMA: DtoSchema = {
+  text: { type: 'string', required: true },
+  priority: { type: 'number', required: true },
+};
+
+export const SOLICITACAO_SCHEMA: DtoSchema = {
+  id_solicitacao: { type: 'string', required: true },
+  status: { type: 'string', required: true, values: SOLICITACAO_STATUS_VALUES },
+  site: { type: 'string' },
+  tipo_pacote: { type: 'string' },
+  cod_orcamento: { type: 'string' },
+  observacoes: { type: 'string' },
+  selected_issues: { type: 'array', schema: CHECKLIST_ITEM_SCHEMA },
+  cliente: { type: 'object', schema: CLIENTE_SCHEMA },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+};
+
+export const HISTORICO_EVENTO_SCHEMA: DtoSchema = {
+  id: { type: ['string', 'number'] },
+  tipo_evento: { type: 'string', required: true },
+  valor_anterior: { type: 'string' },
+  valor_novo: { type: 'string' },
+  autor: { type: 'string', required: true },
+  perfil_autor: { type: 'string' },
+  observacao: { type: 'string' },
+  data_evento: { type: 'string', required: true },
+};
+
+export const ORCAMENTO_SCHEMA: DtoSchema = {
+  cod_orcamento: { type: 'string' },
+  id: { type: ['string', 'number'] },
+  site: { type: 'string' },
+  arquivo_orcamento: { type: 'string' },
+  pacote: { type: 'object', schema: PACOTE_SCHEMA },
+  cliente: { type: 'object', schema: CLIENTE_SCHEMA },
+};
+
+export const CONTRATO_CERTIFICADO_SCHEMA: DtoSchema = {
+  hash_documento: { type: 'string' },
+  tamanho_documento: { type: 'number' },
+  hash_documento_assinado: { type: 'string' },
+  nome_documento: { type: 'string' },
+  assinado_em: { type: 'string' },
+  carimbado: { type: 'boolean' },
+};
+
+export const CONTRATO_SCHEMA: DtoSchema = {
+  id_contrato: { type: 'string' },
+  id: { type: ['string', 'number'] },
+  cod_orcamento: { type: 'string' },
+  status_contrato: { type: 'string', values: CONTRATO_STATUS_VALUES },
+  site: { type: 'string' },
+  arquivo_contrato: { type: 'string' },
+  contrato_assinado_url: { type: 'string' },
+  certificado: { type: 'object', schema: CONTRATO_CERTIFICADO_SCHEMA },
+  orcamento: { type: 'object', schema: ORCAMENTO_SCHEMA },
+  cliente: { type: 'object', schema: CLIENTE_SCHEMA },
+};
+
+export const AUTH_USER_SCHEMA: DtoSchema = {
+  id: { type: 'number', required: true },
+  tipo: { type: 'string', required: true, values: USUARIO_TIPO_VALUES },
+  email: { type: 'string', required: true },
+  nome: { type: 'string' },
+  nome_razao_social: { type: 'string' },
+  foto: { type: 'string' },
+};
+
+export const AUTH_RESPONSE_SCHEMA: DtoSchema = {
+  token: { type: 'string', required: true },
+  refreshToken: { type: 'string' },
+  user: { type: 'object', required: true, schema: AUTH_USER_SCHEMA },
+};
+
+export const LIGHTHOUSE_AUDIT_SCHEMA: DtoSchema = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  score: { type: 'number' },
+  helpUrl: { type: 'string' },
+  details: { type: 'object' },
+};
+
+export const LIGHTHOUSE_REPORT_SCHEMA: DtoSchema = {
+  notaAcessibilidade: { type: 'number' },
+  reprovadas: { type: 'array', schema: LIGHTHOUSE_AUDIT_SCHEMA },
+  manuais: { type: 'array', schema: LIGHTHOUSE_AUDIT_SCHEMA },
+  accessibility: { type: 'number' },
+  audits: { type: 'object' },
+};
+
+export const AVALIACAO_SCHEMA: DtoSchema = {
+  id_avaliacao: { type: 'string' },
+  id: { type: ['string', 'number'] },
+  site: { type: 'string', required: true },
+  nota: { type: 'number', required: true },
+  problemas: { type: 'array' },
+  auditorias_reprovadas: { type: 'array' },
+  paginas: { type: 'array' },
+  data_avaliacao: { type: 'string' },
+};
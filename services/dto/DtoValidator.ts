@@ -0,0 +1,185 @@
+/**
+ * DtoValidator - Validação em tempo de execução das respostas do backend
+ *
+ * Responsabilidades:
+ * - Conferir tipos, campos obrigatórios e valores de enums dos DTOs
+ * - Remover envelopes de resposta ({ statusCode, message, data })
+ * - Registrar divergências de schema (schema drift) em vez de ignorá-las
+ *
+ * Campos obrigatórios ausentes ou com tipo errado no nível principal invalidam o item (error);
+ * valores de enum desconhecidos e divergências em objetos aninhados são apenas
+ * reportados (warning), e o mapper decide o fallback.
+ */
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface FieldRule {
+  type: FieldType | FieldType[];
+  required?: boolean;
+  values?: readonly string[]; // Valores aceitos (enums do backend)
+  schema?: DtoSchema; // Schema do objeto (type 'object') ou dos itens (type 'array')
+}
+
+export type DtoSchema = Record<string, FieldRule>;
+
+export interface SchemaDriftIssue {
+  entity: string;
+  field: string;
+  problem: 'missing' | 'type' | 'unknown_value';
+  severity: 'error' | 'warning';
+  received?: unknown;
+  detectedAt: string;
+}
+
+export interface DtoValidationResult<T> {
+  valid: boolean;
+  data?: T;
+  issues: SchemaDriftIssue[];
+}
+
+export class DtoValidator {
+  private static readonly MAX_REPORTS = 100;
+  private static reports: SchemaDriftIssue[] = [];
+  private static reportedKeys = new Set<string>();
+
+  /**
+   * Remove o envelope { data: ... } usado por parte dos endpoints
+   */
+  static unwrap(raw: any): any {
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && raw.data !== null && typeof raw.data === 'object') {
+      return raw.data;
+    }
+    return raw;
+  }
+
+  /**
+   * Valida um objeto contra o schema
+   * @param entity - Nome do DTO (usado nos relatórios de divergência)
+   */
+  static validate<T>(entity: string, raw: unknown, schema: DtoSchema): DtoValidationResult<T> {
+    const issues = this.check(entity, '', raw, schema);
+    issues.forEach(issue => this.report(issue));
+
+    const valid = !issues.some(issue => issue.severity === 'error');
+    return { valid, data: valid ? raw as T : undefined, issues };
+  }
+
+  /**
+   * Valida uma lista, descartando os itens inválidos
+   */
+  static validateList<T>(entity: string, raw: unknown, schema: DtoSchema): DtoValidationResult<T[]> {
+    const list = this.unwrap(raw);
+    if (!Array.isArray(list)) {
+      const issue = this.createIssue(entity, '[]', 'type', true, list);
+      this.report(issue);
+      return { valid: false, issues: [issue] };
+    }
+
+    const issues: SchemaDriftIssue[] = [];
+    const data: T[] = [];
+    list.forEach(item => {
+      const result = this.validate<T>(entity, item, schema);
+      issues.push(...result.issues);
+      if (result.valid && result.data) {
+        data.push(result.data);
+      }
+    });
+
+    if (data.length < list.length) {
+      console.warn(`[DtoValidator] ${list.length - data.length} item(ns) de ${entity} descartado(s) por divergência de schema`);
+    }
+
+    return { valid: true, data, issues };
+  }
+
+  /**
+   * Divergências de schema registradas nesta sessão (mais recentes por último)
+   */
+  static getDriftReports(): SchemaDriftIssue[] {
+    return [...this.reports];
+  }
+
+  private static check(entity: string, path: string, raw: unknown, schema: DtoSchema): SchemaDriftIssue[] {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      return [this.createIssue(entity, path || '(raiz)', 'type', !path, raw)];
+    }
+
+    const issues: SchemaDriftIssue[] = [];
+    const record = raw as Record<string, unknown>;
+
+    const isRoot = !path;
+
+    Object.entries(schema).forEach(([field, rule]) => {
+      const fieldPath = path ? `${path}.${field}` : field;
+      const value = record[field];
+
+      if (value === undefined || value === null) {
+        if (rule.required) {
+          issues.push(this.createIssue(entity, fieldPath, 'missing', isRoot));
+        }
+        return;
+      }
+
+      const expectedTypes = Array.isArray(rule.type) ? rule.type : [rule.type];
+      if (!expectedTypes.includes(this.getType(value))) {
+        issues.push(this.createIssue(entity, fieldPath, 'type', isRoot, value));
+        return;
+      }
+
+      if (rule.values && typeof value === 'string' && !rule.values.includes(value)) {
+        issues.push(this.createIssue(entity, fieldPath, 'unknown_value', false, value));
+      }
+
+      if (rule.schema && Array.isArray(value)) {
+        value.forEach((item, index) => {
+          issues.push(...this.check(entity, `${fieldPath}[${index}]`, item, rule.schema!));
+        });
+      } else if (rule.schema) {
+        issues.push(...this.check(entity, fieldPath, value, rule.schema));
+      }
+    });
+
+    return issues;
+  }
+
+  private static getType(value: unknown): FieldType {
+    if (Array.isArray(value)) return 'array';
+    return typeof value as FieldType;
+  }
+
+  private static createIssue(
+    entity: string,
+    field: string,
+    problem: SchemaDriftIssue['problem'],
+    blocking: boolean,
+    received?: unknown
+  ): SchemaDriftIssue {
+    return {
+      entity,
+      field,
+      problem,
+      severity: blocking ? 'error' : 'warning',
+      received,
+      detectedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Registra a divergência (uma vez por entidade/campo/problema para não poluir o log)
+   */
+  private static report(issue: SchemaDriftIssue): void {
+    // Índices de listas não diferenciam a divergência
+    const key = `${issue.entity}:${issue.field.replace(/\[\d+\]/g, '[]')}:${issue.problem}:${String(issue.received)}`;
+    if (this.reportedKeys.has(key)) return;
+
+    this.reportedKeys.add(key);
+    this.reports = [...this.reports, issue].slice(-this.MAX_REPORTS);
+    console.warn(
+      `[DtoValidator] Divergência de schema (${issue.severity}) em ${issue.entity}.${issue.field}: ${issue.problem}`,
+      issue.received ?? ''
+    );
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Enviar os relatórios de divergência para o endpoint de logs do backend
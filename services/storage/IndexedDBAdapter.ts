@@ -3,18 +3,36 @@
  * 
  * Responsabilidades:
  * - Implementar StorageAdapter usando IndexedDB
- * - Emular SQL básico para compatibilidade com o código existente
+ * - Executar o mesmo SQL do SQLiteAdapter (via SqlParser/SqlExecutor)
+ * - Aplicar as migrações de schema (SchemaMigrations) no onupgradeneeded
  * - Armazenar imagens como blobs no navegador
  * - Manter sincronização de metadados
  */
 
 import { StorageAdapter, DatabaseResult } from './StorageAdapter';
+import {
+  SqlParser,
+  type SqlValue,
+  type SelectStatement,
+  type InsertStatement,
+  type UpdateStatement,
+  type DeleteStatement
+} from './sql/SqlParser';
+import { SqlExecutor, type SqlRow } from './sql/SqlExecutor';
+import {
+  LATEST_SCHEMA_VERSION,
+  SCHEMA_VERSION_TABLE,
+  getPendingMigrations,
+  getPrimaryKey,
+  type IndexDefinition,
+  type MigrationStep
+} from './migrations/SchemaMigrations';
 
 export class IndexedDBAdapter implements StorageAdapter {
   private db: IDBDatabase | null = null;
   private isInitialized = false;
   private readonly DB_NAME = 'ada_company_db';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = LATEST_SCHEMA_VERSION;
 
   async initialize(): Promise<DatabaseResult> {
     try {
@@ -22,11 +40,14 @@ export class IndexedDBAdapter implements StorageAdapter {
         return { success: true, data: 'Database already initialized' };
       }
 
-      return new Promise((resolve, reject) => {
+      // A versão do IndexedDB acompanha a versão do schema: o onupgradeneeded
+      // recebe a versão instalada e aplica só as migrações que faltam
+      return await new Promise<DatabaseResult>((resolve, reject) => {
         const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        let migrationError: Error | null = null;
 
         request.onerror = () => {
-          reject(new Error('Failed to open IndexedDB'));
+          reject(migrationError || request.error || new Error('Failed to open IndexedDB'));
         };
 
         request.onsuccess = (event) => {
@@ -37,34 +58,36 @@ export class IndexedDBAdapter implements StorageAdapter {
         };
 
         request.onupgradeneeded = (event) => {
-          const db = (event.target as IDBOpenDBRequest).result;
-
-          // Criar object stores (equivalente a tabelas)
-          if (!db.objectStoreNames.contains('users')) {
-            const userStore = db.createObjectStore('users', { keyPath: 'id', autoIncrement: true });
-            userStore.createIndex('email', 'email', { unique: true });
-            userStore.createIndex('type', 'type', { unique: false });
-          }
-
-          if (!db.objectStoreNames.contains('images')) {
-            const imageStore = db.createObjectStore('images', { keyPath: 'id', autoIncrement: true });
-            imageStore.createIndex('category', 'category', { unique: false });
-            imageStore.createIndex('user_id', 'user_id', { unique: false });
-            imageStore.createIndex('filename', 'filename', { unique: false });
-          }
+          const db = request.result;
+          const transaction = request.transaction!;
+          const currentVersion = event.oldVersion;
+
+          transaction.onabort = () => {
+            migrationError = migrationError || transaction.error;
+          };
+
+          // Todas as migrações pendentes rodam na transação de upgrade:
+          // qualquer falha a aborta e o banco permanece na versão anterior
+          try {
+            if (!db.objectStoreNames.contains(SCHEMA_VERSION_TABLE)) {
+              db.createObjectStore(SCHEMA_VERSION_TABLE, { keyPath: 'id' });
+            }
 
-          if (!db.objectStoreNames.contains('image_blobs')) {
-            // Store separado para os blobs das imagens
-            db.createObjectStore('image_blobs', { keyPath: 'image_id' });
-          }
+            getPendingMigrations(currentVersion).forEach(migration => {
+              migration.steps.forEach(step => this.applyMigrationStep(db, transaction, step));
+              console.log(`IndexedDB migration v${migration.version} applied: ${migration.description}`);
+            });
 
-          if (!db.objectStoreNames.contains('company_settings')) {
-            const settingsStore = db.createObjectStore('company_settings', { keyPath: 'id', autoIncrement: true });
-            settingsStore.createIndex('setting_key', 'setting_key', { unique: true });
+            transaction.objectStore(SCHEMA_VERSION_TABLE).put({
+              id: 1,
+              version: this.DB_VERSION,
+              updated_at: new Date().toISOString()
+            });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            migrationError = new Error(`Migration from v${currentVersion} failed and was rolled back: ${message}`);
+            transaction.abort();
           }
-
-          // Inserir dados iniciais
-          this.insertInitialData(db);
         };
       });
     } catch (error) {
@@ -76,51 +99,77 @@ export class IndexedDBAdapter implements StorageAdapter {
     }
   }
 
-  private insertInitialData(db: IDBDatabase): void {
-    try {
-      const transaction = db.transaction(['users', 'company_settings'], 'readwrite');
-      
-      // Dados iniciais removidos por segurança
-      // As credenciais de teste estão documentadas no README.md
-      
-      // IMPORTANTE: Remover usuários de teste antigos que possam estar no banco
-      // Isso garante que dados mock não persistam após a remoção do código
-      const userStore = transaction.objectStore('users');
-      const testEmails = ['client@example.com', 'employee@example.com'];
-      
-      // IndexedDB não suporta DELETE direto com WHERE, então precisamos buscar e deletar
-      testEmails.forEach((email) => {
-        const index = userStore.index('email');
-        const request = index.get(email);
+  private applyMigrationStep(db: IDBDatabase, transaction: IDBTransaction, step: MigrationStep): void {
+    switch (step.type) {
+      case 'createTable': {
+        if (step.only && step.only !== 'indexeddb') return;
+
+        let store: IDBObjectStore;
+        if (db.objectStoreNames.contains(step.table)) {
+          store = transaction.objectStore(step.table);
+        } else {
+          const primaryKey = getPrimaryKey(step);
+          store = db.createObjectStore(step.table, { keyPath: primaryKey.column, autoIncrement: primaryKey.autoIncrement });
+        }
+
+        (step.indexes || []).forEach(index => this.createIndex(store, index));
+        return;
+      }
+
+      case 'addColumn': {
+        // Object stores não têm colunas: só é preciso preencher o valor padrão nos registros existentes
+        if (step.defaultValue === undefined) return;
+
+        const request = transaction.objectStore(step.table).openCursor();
         request.onsuccess = () => {
-          if (request.result) {
-            userStore.delete(request.result.id);
+          const cursor = request.result;
+          if (!cursor) return;
+          if (cursor.value[step.column.name] === undefined) {
+            cursor.update({ ...cursor.value, [step.column.name]: step.defaultValue });
           }
+          cursor.continue();
         };
-      });
+        return;
+      }
 
-      // Inserir configurações
-      const settingsStore = transaction.objectStore('company_settings');
-      settingsStore.add({
-        setting_key: 'company_name',
-        setting_value: 'ADA Company',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-      settingsStore.add({
-        setting_key: 'company_logo_path',
-        setting_value: null,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-      settingsStore.add({
-        setting_key: 'app_version',
-        setting_value: '1.0.0',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      });
-    } catch (error) {
-      console.error('Error inserting initial data:', error);
+      case 'createIndex':
+        this.createIndex(transaction.objectStore(step.table), step.index);
+        return;
+
+      case 'insertRows': {
+        const store = transaction.objectStore(step.table);
+        step.rows.forEach(row => {
+          const now = new Date().toISOString();
+          const request = store.add({ created_at: now, updated_at: now, ...row });
+          request.onerror = (event) => {
+            // Equivalente ao INSERT OR IGNORE
+            if (request.error?.name === 'ConstraintError') {
+              event.preventDefault();
+              event.stopPropagation();
+            }
+          };
+        });
+        return;
+      }
+
+      case 'deleteRows': {
+        const request = transaction.objectStore(step.table).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          if (step.values.includes(cursor.value[step.column])) {
+            cursor.delete();
+          }
+          cursor.continue();
+        };
+        return;
+      }
+    }
+  }
+
+  private createIndex(store: IDBObjectStore, index: IndexDefinition): void {
+    if (!store.indexNames.contains(index.column)) {
+      store.createIndex(index.column, index.column, { unique: !!index.unique });
     }
   }
 
@@ -207,306 +256,213 @@ export class IndexedDBAdapter implements StorageAdapter {
   }
 
   /**
-   * Parser SQL simples para IndexedDB
-   * Suporta operações básicas: SELECT, INSERT, UPDATE, DELETE
+   * Executa SQL sobre os object stores: o SqlParser gera a AST e o SqlExecutor
+   * a avalia, com a mesma semântica do SQLiteAdapter
    */
   private async parseAndExecuteSQL(sql: string, params: any[] = []): Promise<any> {
-    const normalizedSQL = sql.trim().toUpperCase();
-
-    // SELECT
-    if (normalizedSQL.startsWith('SELECT')) {
-      return this.handleSelect(sql, params);
+    const statement = SqlParser.parse(sql);
+
+    switch (statement.type) {
+      case 'select':
+        return this.handleSelect(statement, params);
+      case 'insert':
+        return this.handleInsert(statement, params);
+      case 'update':
+        return this.handleUpdate(statement, params);
+      case 'delete':
+        return this.handleDelete(statement, params);
     }
+  }
 
-    // INSERT
-    if (normalizedSQL.startsWith('INSERT')) {
-      return this.handleInsert(sql, params);
-    }
+  private async handleSelect(statement: SelectStatement, params: any[]): Promise<SqlRow[]> {
+    const tables = [statement.from, ...statement.joins.map(join => join.table)];
+    const rowsByAlias = new Map<string, SqlRow[]>();
 
-    // UPDATE
-    if (normalizedSQL.startsWith('UPDATE')) {
-      return this.handleUpdate(sql, params);
-    }
+    for (const table of tables) {
+      // Com JOIN, uma igualdade do WHERE pode se referir a outra tabela: varrer tudo
+      const equalities = statement.joins.length === 0
+        ? SqlExecutor.getIndexableEqualities(statement.where, params, table.alias)
+        : [];
 
-    // DELETE
-    if (normalizedSQL.startsWith('DELETE')) {
-      return this.handleDelete(sql, params);
+      const rows: SqlRow[] = [];
+      const transaction = this.getTransaction(table.name, 'readonly');
+      await this.iterateRows(transaction.objectStore(table.name), equalities, cursor => {
+        rows.push(cursor.value);
+      });
+      rowsByAlias.set(table.alias, rows);
     }
 
-    throw new Error('Unsupported SQL operation');
+    return SqlExecutor.select(statement, table => rowsByAlias.get(table.alias) || [], params);
   }
 
-  private async handleSelect(sql: string, params: any[]): Promise<any[]> {
-    if (!this.db) throw new Error('Database not initialized');
+  private async handleInsert(statement: InsertStatement, params: any[]): Promise<{ lastInsertRowId: IDBValidKey | null; changes: number }> {
+    const transaction = this.getTransaction(statement.table, 'readwrite');
+    const store = transaction.objectStore(statement.table);
+    const completed = this.waitForTransaction(transaction);
 
-    // Extrair nome da tabela
-    const tableMatch = sql.match(/FROM\s+(\w+)/i);
-    if (!tableMatch) throw new Error('Invalid SELECT query');
+    let lastInsertRowId: IDBValidKey | null = null;
+    let changes = 0;
 
-    const tableName = tableMatch[1];
-    const store = this.db.transaction([tableName], 'readonly').objectStore(tableName);
+    statement.rows.forEach(values => {
+      // Equivalente ao DEFAULT CURRENT_TIMESTAMP das tabelas do SQLite
+      const now = new Date().toISOString();
+      const data: SqlRow = { created_at: now, updated_at: now };
 
-    // WHERE clause
-    const whereMatch = sql.match(/WHERE\s+(.+?)(?:ORDER|LIMIT|GROUP|$)/i);
-    
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      const request = store.openCursor();
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const value = cursor.value;
-          
-          // Aplicar filtro WHERE se houver
-          if (whereMatch) {
-            const whereClause = whereMatch[1].trim();
-            if (this.matchesWhereClause(value, whereClause, params)) {
-              results.push(value);
-            }
-          } else {
-            results.push(value);
-          }
-          
-          cursor.continue();
-        } else {
-          // Aplicar ORDER BY se houver
-          const orderMatch = sql.match(/ORDER BY\s+(\w+)\s*(ASC|DESC)?/i);
-          if (orderMatch) {
-            const orderField = orderMatch[1];
-            const orderDirection = orderMatch[2]?.toUpperCase() === 'ASC' ? 1 : -1;
-            results.sort((a, b) => {
-              if (a[orderField] < b[orderField]) return -1 * orderDirection;
-              if (a[orderField] > b[orderField]) return 1 * orderDirection;
-              return 0;
-            });
-          }
+      statement.columns.forEach((column, index) => {
+        data[column] = SqlExecutor.evaluateValue(values[index], params);
+      });
 
-          // Aplicar LIMIT se houver
-          const limitMatch = sql.match(/LIMIT\s+(\d+)/i);
-          if (limitMatch) {
-            const limit = parseInt(limitMatch[1]);
-            resolve(results.slice(0, limit));
-          } else {
-            resolve(results);
-          }
+      // Chave nula = gerada pelo autoIncrement
+      const keyPath = store.keyPath as string;
+      if (data[keyPath] === null) {
+        delete data[keyPath];
+      }
+
+      const request = store.add(data);
+      request.onsuccess = () => {
+        lastInsertRowId = request.result;
+        changes++;
+      };
+      request.onerror = (event) => {
+        // INSERT OR IGNORE: violação de UNIQUE não aborta a transação
+        if (statement.onConflict === 'ignore' && request.error?.name === 'ConstraintError') {
+          event.preventDefault();
+          event.stopPropagation();
         }
       };
-
-      request.onerror = () => reject(request.error);
-    });
-  }
-
-  private matchesWhereClause(value: any, whereClause: string, params: any[]): boolean {
-    // Substitui ? pelos parâmetros
-    let clause = whereClause;
-    let paramIndex = 0;
-    clause = clause.replace(/\?/g, () => {
-      const param = params[paramIndex++];
-      return typeof param === 'string' ? `'${param}'` : String(param);
     });
 
-    // Suporte para múltiplas condições com AND
-    if (clause.toUpperCase().includes(' AND ')) {
-      const conditions = clause.split(/\s+AND\s+/i);
-      return conditions.every(condition => this.evaluateCondition(value, condition.trim()));
-    }
-
-    // Suporte para múltiplas condições com OR
-    if (clause.toUpperCase().includes(' OR ')) {
-      const conditions = clause.split(/\s+OR\s+/i);
-      return conditions.some(condition => this.evaluateCondition(value, condition.trim()));
-    }
-
-    // Condição simples
-    return this.evaluateCondition(value, clause);
+    await completed;
+    return { lastInsertRowId, changes };
   }
 
-  private evaluateCondition(value: any, condition: string): boolean {
-    // Remove espaços extras
-    condition = condition.trim();
-
-    // Parse: campo = valor
-    if (condition.includes('=')) {
-      const [field, valueStr] = condition.split('=').map(s => s.trim());
-      const fieldValue = value[field];
-      const expectedValue = valueStr.replace(/['"]/g, '');
-      
-      if (expectedValue === 'NULL' || expectedValue === 'null') {
-        return fieldValue === null || fieldValue === undefined;
-      }
-      
-      return String(fieldValue) === expectedValue;
-    }
-
-    // Parse: campo != valor
-    if (condition.includes('!=') || condition.includes('<>')) {
-      const parts = condition.split(/!=|<>/).map(s => s.trim());
-      const field = parts[0];
-      const valueStr = parts[1];
-      const fieldValue = value[field];
-      const expectedValue = valueStr.replace(/['"]/g, '');
-      
-      return String(fieldValue) !== expectedValue;
-    }
-
-    // Parse: campo LIKE valor
-    if (condition.toUpperCase().includes(' LIKE ')) {
-      const parts = condition.split(/\s+LIKE\s+/i);
-      const field = parts[0].trim();
-      const pattern = parts[1].trim().replace(/['"]/g, '').replace(/%/g, '.*');
-      const fieldValue = String(value[field] || '');
-      return new RegExp(pattern, 'i').test(fieldValue);
-    }
+  private async handleUpdate(statement: UpdateStatement, params: any[]): Promise<{ changes: number }> {
+    const transaction = this.getTransaction(statement.table, 'readwrite');
+    const store = transaction.objectStore(statement.table);
 
-    // Parse: campo IN (...)
-    if (condition.toUpperCase().includes(' IN ')) {
-      const parts = condition.split(/\s+IN\s+/i);
-      const field = parts[0].trim();
-      const valuesStr = parts[1].trim().replace(/[()]/g, '');
-      const values = valuesStr.split(',').map(v => v.trim().replace(/['"]/g, ''));
-      const fieldValue = String(value[field]);
-      return values.includes(fieldValue);
+    if (statement.assignments.some(({ column }) => column === store.keyPath)) {
+      transaction.abort();
+      throw new Error(`Updating the primary key of ${statement.table} is not supported`);
     }
 
-    // Default: aceita tudo se não conseguir parsear
-    return true;
-  }
+    const completed = this.waitForTransaction(transaction);
+    const equalities = SqlExecutor.getIndexableEqualities(statement.where, params, statement.table);
+    let changes = 0;
 
-  private async handleInsert(sql: string, params: any[]): Promise<any> {
-    if (!this.db) throw new Error('Database not initialized');
+    const iteration = this.iterateRows(store, equalities, cursor => {
+      const row = cursor.value;
+      if (!SqlExecutor.matches(statement.where, statement.table, row, params)) return;
 
-    // Extrair nome da tabela
-    const tableMatch = sql.match(/INTO\s+(\w+)/i);
-    if (!tableMatch) throw new Error('Invalid INSERT query');
+      // As atribuições enxergam os valores anteriores da linha, como no SQL
+      const updated = { ...row };
+      statement.assignments.forEach(({ column, value }) => {
+        updated[column] = SqlExecutor.evaluateValue(value, params, statement.table, row);
+      });
 
-    const tableName = tableMatch[1];
+      cursor.update(updated);
+      changes++;
+    });
 
-    // Extrair campos
-    const fieldsMatch = sql.match(/\(([^)]+)\)/);
-    if (!fieldsMatch) throw new Error('Invalid INSERT query - no fields');
+    await Promise.all([iteration, completed]);
+    return { changes };
+  }
 
-    const fields = fieldsMatch[1].split(',').map(f => f.trim());
+  private async handleDelete(statement: DeleteStatement, params: any[]): Promise<{ changes: number }> {
+    const transaction = this.getTransaction(statement.table, 'readwrite');
+    const completed = this.waitForTransaction(transaction);
 
-    // Criar objeto com os valores
-    const data: any = {
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+    const equalities = SqlExecutor.getIndexableEqualities(statement.where, params, statement.table);
+    let changes = 0;
 
-    fields.forEach((field, index) => {
-      data[field] = params[index];
+    const iteration = this.iterateRows(transaction.objectStore(statement.table), equalities, cursor => {
+      if (SqlExecutor.matches(statement.where, statement.table, cursor.value, params)) {
+        cursor.delete();
+        changes++;
+      }
     });
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([tableName], 'readwrite');
-      const store = transaction.objectStore(tableName);
-      const request = store.add(data);
-
-      request.onsuccess = () => {
-        resolve({ lastInsertRowId: request.result });
-      };
-
-      request.onerror = () => reject(request.error);
-    });
+    await Promise.all([iteration, completed]);
+    return { changes };
   }
 
-  private async handleUpdate(sql: string, params: any[]): Promise<any> {
+  private getTransaction(tableName: string, mode: IDBTransactionMode): IDBTransaction {
     if (!this.db) throw new Error('Database not initialized');
+    if (!this.db.objectStoreNames.contains(tableName)) {
+      throw new Error(`no such table: ${tableName}`);
+    }
+    return this.db.transaction([tableName], mode);
+  }
 
-    // Extrair nome da tabela
-    const tableMatch = sql.match(/UPDATE\s+(\w+)/i);
-    if (!tableMatch) throw new Error('Invalid UPDATE query');
-
-    const tableName = tableMatch[1];
-
-    // Extrair WHERE
-    const whereMatch = sql.match(/WHERE\s+(.+)$/i);
-    if (!whereMatch) throw new Error('UPDATE requires WHERE clause');
-
-    const whereClause = whereMatch[1];
-
-    // Extrair campos SET
-    const setMatch = sql.match(/SET\s+(.+?)\s+WHERE/i);
-    if (!setMatch) throw new Error('Invalid UPDATE query');
-
-    const setClause = setMatch[1];
-    const setPairs = setClause.split(',').map(s => s.trim());
-
+  private waitForTransaction(transaction: IDBTransaction): Promise<void> {
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([tableName], 'readwrite');
-      const store = transaction.objectStore(tableName);
-      const request = store.openCursor();
-      let updateCount = 0;
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const value = cursor.value;
-          
-          if (this.matchesWhereClause(value, whereClause, params.slice(setPairs.length))) {
-            // Aplicar updates
-            let paramIndex = 0;
-            setPairs.forEach(pair => {
-              const [field] = pair.split('=').map(s => s.trim());
-              if (field !== 'updated_at') {
-                value[field] = params[paramIndex++];
-              }
-            });
-            value.updated_at = new Date().toISOString();
-            
-            cursor.update(value);
-            updateCount++;
-          }
-          
-          cursor.continue();
-        } else {
-          resolve({ changes: updateCount });
-        }
-      };
-
-      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
     });
   }
 
-  private async handleDelete(sql: string, params: any[]): Promise<any> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    // Extrair nome da tabela
-    const tableMatch = sql.match(/FROM\s+(\w+)/i);
-    if (!tableMatch) throw new Error('Invalid DELETE query');
-
-    const tableName = tableMatch[1];
+  /**
+   * Percorre as linhas candidatas com um cursor. Se o WHERE tiver "coluna = valor"
+   * sobre a chave primária ou um índice, só as linhas com esse valor são visitadas;
+   * o WHERE completo continua sendo avaliado pelo chamador.
+   */
+  private iterateRows(
+    store: IDBObjectStore,
+    equalities: Array<{ column: string; value: SqlValue }>,
+    visit: (cursor: IDBCursorWithValue) => void
+  ): Promise<void> {
+    const indexed = equalities.find(({ column, value }) =>
+      this.getKeyVariants(value).length > 0 && (column === store.keyPath || store.indexNames.contains(column))
+    );
+
+    const source: IDBObjectStore | IDBIndex = indexed && indexed.column !== store.keyPath
+      ? store.index(indexed.column)
+      : store;
+    const ranges: Array<IDBKeyRange | undefined> = indexed
+      ? this.getKeyVariants(indexed.value).map(key => IDBKeyRange.only(key))
+      : [undefined];
 
-    // Extrair WHERE
-    const whereMatch = sql.match(/WHERE\s+(.+)$/i);
-    if (!whereMatch) throw new Error('DELETE requires WHERE clause');
+    return new Promise((resolve, reject) => {
+      let rangeIndex = 0;
 
-    const whereClause = whereMatch[1];
+      // O próximo cursor é aberto dentro do callback para manter a transação ativa
+      const openCursor = () => {
+        const request = source.openCursor(ranges[rangeIndex]);
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([tableName], 'readwrite');
-      const store = transaction.objectStore(tableName);
-      const request = store.openCursor();
-      let deleteCount = 0;
-
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          if (this.matchesWhereClause(cursor.value, whereClause, params)) {
-            cursor.delete();
-            deleteCount++;
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            visit(cursor);
+            cursor.continue();
+          } else if (++rangeIndex < ranges.length) {
+            openCursor();
+          } else {
+            resolve();
           }
-          cursor.continue();
-        } else {
-          resolve({ changes: deleteCount });
-        }
+        };
+
+        request.onerror = () => reject(request.error);
       };
 
-      request.onerror = () => reject(request.error);
+      openCursor();
     });
   }
 
+  /**
+   * Chaves do IndexedDB são comparadas com o tipo: 5 e '5' são chaves diferentes,
+   * mas iguais para o SQL. Consulta as duas formas quando o valor é numérico.
+   */
+  private getKeyVariants(value: SqlValue): IDBValidKey[] {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? [value, String(value)] : [];
+    }
+    if (typeof value === 'string') {
+      const number = Number(value);
+      return value.trim() !== '' && Number.isFinite(number) ? [value, number] : [value];
+    }
+    return [];
+  }
+
   /**
    * Salva um blob de imagem no IndexedDB
    */
@@ -4,11 +4,20 @@
  * Responsabilidades:
  * - Implementar StorageAdapter usando expo-sqlite
  * - Wrapper para o SQLite nativo
+ * - Aplicar as migrações de schema (SchemaMigrations) na inicialização
  * - Manter compatibilidade com o código existente
  */
 
 import * as SQLite from 'expo-sqlite';
 import { StorageAdapter, DatabaseResult } from './StorageAdapter';
+import {
+  SCHEMA_VERSION_TABLE,
+  getPendingMigrations,
+  type ColumnDefinition,
+  type IndexDefinition,
+  type MigrationStep,
+  type MigrationValue
+} from './migrations/SchemaMigrations';
 
 export class SQLiteAdapter implements StorageAdapter {
   private db: SQLite.SQLiteDatabase | null = null;
@@ -26,7 +35,7 @@ export class SQLiteAdapter implements StorageAdapter {
         throw new Error('Failed to open database');
       }
 
-      await this.createTables();
+      await this.runMigrations();
       this.isInitialized = true;
 
       console.log('SQLite database initialized successfully');
@@ -40,73 +49,109 @@ export class SQLiteAdapter implements StorageAdapter {
     }
   }
 
-  private async createTables(): Promise<void> {
+  /**
+   * Aplica as migrações pendentes, cada uma em sua própria transação
+   * (um passo com erro desfaz a migração inteira, inclusive a versão gravada)
+   */
+  private async runMigrations(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
 
-    // Tabela de usuários
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        type TEXT NOT NULL CHECK (type IN ('client', 'employee')),
-        name TEXT NOT NULL,
-        email TEXT UNIQUE NOT NULL,
-        password TEXT NOT NULL,
-        photo_path TEXT,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    await db.execAsync(`
+      CREATE TABLE IF NOT EXISTS ${SCHEMA_VERSION_TABLE} (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        version INTEGER NOT NULL,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       );
     `);
 
-    // Tabela de imagens
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS images (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        filename TEXT NOT NULL,
-        file_path TEXT NOT NULL,
-        file_size INTEGER NOT NULL,
-        mime_type TEXT NOT NULL,
-        category TEXT NOT NULL CHECK (category IN ('user_photo', 'company_logo', 'request_document', 'other')),
-        user_id INTEGER,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE
-      );
-    `);
+    // Bancos criados antes do controle de versão não têm a linha: versão 0
+    // (as migrações usam IF NOT EXISTS/OR IGNORE e podem ser reaplicadas sobre eles)
+    const current = await db.getFirstAsync<{ version: number }>(
+      `SELECT version FROM ${SCHEMA_VERSION_TABLE} WHERE id = 1`
+    );
+
+    for (const migration of getPendingMigrations(current?.version ?? 0)) {
+      try {
+        await db.withTransactionAsync(async () => {
+          for (const step of migration.steps) {
+            await this.applyMigrationStep(step);
+          }
+          await db.runAsync(
+            `INSERT OR REPLACE INTO ${SCHEMA_VERSION_TABLE} (id, version, updated_at) VALUES (1, ?, CURRENT_TIMESTAMP)`,
+            [migration.version]
+          );
+        });
+        console.log(`SQLite migration v${migration.version} applied: ${migration.description}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new Error(`Migration v${migration.version} failed and was rolled back: ${message}`);
+      }
+    }
+  }
 
-    // Tabela de configurações da empresa
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS company_settings (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        setting_key TEXT UNIQUE NOT NULL,
-        setting_value TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
+  private async applyMigrationStep(step: MigrationStep): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    switch (step.type) {
+      case 'createTable': {
+        if (step.only && step.only !== 'sqlite') return;
 
-    // Inserir dados iniciais
-    await this.insertInitialData();
+        const definitions = [
+          ...step.columns.map(column => this.getColumnSql(column)),
+          ...(step.constraints || [])
+        ];
+        await this.db.execAsync(`CREATE TABLE IF NOT EXISTS ${step.table} (${definitions.join(', ')});`);
+
+        for (const index of step.indexes || []) {
+          await this.createIndex(step.table, index);
+        }
+        return;
+      }
+
+      case 'addColumn': {
+        const defaultSql = step.defaultValue !== undefined ? ` DEFAULT ${this.toSqlLiteral(step.defaultValue)}` : '';
+        await this.db.execAsync(`ALTER TABLE ${step.table} ADD COLUMN ${this.getColumnSql(step.column)}${defaultSql};`);
+        return;
+      }
+
+      case 'createIndex':
+        await this.createIndex(step.table, step.index);
+        return;
+
+      case 'insertRows':
+        for (const row of step.rows) {
+          const columns = Object.keys(row);
+          await this.db.runAsync(
+            `INSERT OR IGNORE INTO ${step.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+            columns.map(column => row[column])
+          );
+        }
+        return;
+
+      case 'deleteRows':
+        await this.db.runAsync(
+          `DELETE FROM ${step.table} WHERE ${step.column} IN (${step.values.map(() => '?').join(', ')})`,
+          step.values
+        );
+        return;
+    }
   }
 
-  private async insertInitialData(): Promise<void> {
+  private async createIndex(table: string, index: IndexDefinition): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
+    const unique = index.unique ? 'UNIQUE ' : '';
+    await this.db.execAsync(`CREATE ${unique}INDEX IF NOT EXISTS idx_${table}_${index.column} ON ${table} (${index.column});`);
+  }
 
-    // Dados iniciais removidos por segurança
-    // As credenciais de teste estão documentadas no README.md
-    
-    // IMPORTANTE: Remover usuários de teste antigos que possam estar no banco
-    // Isso garante que dados mock não persistam após a remoção do código
-    await this.db.runAsync(`
-      DELETE FROM users 
-      WHERE email IN ('client@example.com', 'employee@example.com');
-    `);
+  private getColumnSql(column: ColumnDefinition): string {
+    return [column.name, column.type, column.constraints].filter(Boolean).join(' ');
+  }
 
-    // Inserir configurações da empresa
-    await this.db.runAsync(`
-      INSERT OR IGNORE INTO company_settings (setting_key, setting_value) VALUES
-      ('company_name', 'ADA Company'),
-      ('company_logo_path', NULL),
-      ('app_version', '1.0.0');
-    `);
+  private toSqlLiteral(value: MigrationValue): string {
+    if (value === null) return 'NULL';
+    if (typeof value === 'number') return String(value);
+    return `'${value.replace(/'/g, "''")}'`;
   }
 
   async query(sql: string, params: any[] = []): Promise<DatabaseResult> {
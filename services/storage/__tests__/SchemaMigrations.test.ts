@@ -0,0 +1,317 @@
+/**
+ * SchemaMigrations - Testes das migrações nos dois adaptadores
+ *
+ * Para cada versão publicada (v0 até a anterior à atual), monta um banco naquela versão
+ * com os adaptadores reais restritos às migrações até ela, grava uma linha em cada
+ * tabela existente e migra até LATEST_SCHEMA_VERSION. Também confere que uma migração
+ * que falha no meio não deixa o banco entre duas versões. O SQLite roda sobre o sql.js
+ * (no lugar do expo-sqlite) e o IndexedDB sobre o fake-indexeddb.
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import initSqlJs from 'sql.js';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageAdapter } from '../StorageAdapter';
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  SCHEMA_VERSION_TABLE,
+  type Migration,
+  type MigrationStep,
+  type MigrationTarget
+} from '../migrations/SchemaMigrations';
+
+const sqlite = vi.hoisted(() => ({
+  SQL: null as any,
+  databases: new Map<string, any>()
+}));
+
+// expo-sqlite sobre o sql.js; o banco continua disponível depois do closeAsync, como o arquivo no dispositivo
+vi.mock('expo-sqlite', () => ({
+  openDatabaseAsync: async (name: string) => {
+    if (!sqlite.databases.has(name)) {
+      sqlite.databases.set(name, new sqlite.SQL.Database());
+    }
+    const db = sqlite.databases.get(name);
+    const toParams = (params: any[] = []) => params.map(value => (value === undefined ? null : value));
+    const getAll = (sql: string, params?: any[]) => {
+      const statement = db.prepare(sql);
+      const rows: any[] = [];
+      try {
+        statement.bind(toParams(params));
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+      } finally {
+        statement.free();
+      }
+      return rows;
+    };
+
+    return {
+      execAsync: async (sql: string) => {
+        db.exec(sql);
+      },
+      runAsync: async (sql: string, params?: any[]) => {
+        db.run(sql, toParams(params));
+        const changes = db.getRowsModified();
+        const [{ id }] = getAll('SELECT last_insert_rowid() AS id');
+        return { lastInsertRowId: id, changes };
+      },
+      getAllAsync: async (sql: string, params?: any[]) => getAll(sql, params),
+      getFirstAsync: async (sql: string, params?: any[]) => getAll(sql, params)[0] ?? null,
+      withTransactionAsync: async (task: () => Promise<void>) => {
+        db.exec('BEGIN');
+        try {
+          await task();
+          db.exec('COMMIT');
+        } catch (error) {
+          db.exec('ROLLBACK');
+          throw error;
+        }
+      },
+      closeAsync: async () => {}
+    };
+  }
+}));
+
+type AdapterName = 'SQLiteAdapter' | 'IndexedDBAdapter';
+
+const ADAPTERS: Array<{ name: AdapterName; target: MigrationTarget }> = [
+  { name: 'SQLiteAdapter', target: 'sqlite' },
+  { name: 'IndexedDBAdapter', target: 'indexeddb' }
+];
+
+const SIGNED_AT = '2026-01-15T12:00:00.000Z';
+
+// Migração que falha no último passo, depois de criar uma tabela e uma coluna
+const BROKEN_MIGRATION: Migration = {
+  version: LATEST_SCHEMA_VERSION + 1,
+  description: 'Migração com erro (teste)',
+  steps: [
+    {
+      type: 'createTable',
+      table: 'rollback_probe',
+      columns: [{ name: 'id', type: 'INTEGER', constraints: 'PRIMARY KEY AUTOINCREMENT' }]
+    },
+    { type: 'addColumn', table: 'users', column: { name: 'rollback_probe', type: 'TEXT' }, defaultValue: 'x' },
+    { type: 'createIndex', table: 'tabela_inexistente', index: { column: 'id' } }
+  ]
+};
+
+// Uma linha por tabela, só com as colunas da versão em que a tabela foi criada
+const SEED_ROWS: Record<string, Record<string, string | number>> = {
+  users: { type: 'client', name: 'Cliente Teste', email: 'cliente@teste.com', password: 'hash' },
+  sync_queue: { mutation_type: 'UPDATE_STATUS', request_id: 42, payload: '{"status":"Quote Approved"}', status: 'pending', attempts: 0 },
+  requests: { request_id: 42, owner_key: 'cliente@teste.com', payload: '{"id":42}', cached_at: SIGNED_AT },
+  request_history: { request_id: 42, event_type: 'status', to_value: 'Quote Approved', actor_name: 'Cliente Teste', created_at: SIGNED_AT },
+  evaluations: { owner_key: 'cliente@teste.com', site_url: 'https://example.com', score: 87, issues: '[]', evaluated_at: SIGNED_AT },
+  contract_signatures: {
+    request_id: 42,
+    certificate: '{}',
+    signed_document_hash: 'abc123',
+    signed_document_url: 'file:///contrato-assinado.pdf',
+    stamped: 1,
+    signed_at: SIGNED_AT
+  }
+};
+
+type CreateTableStep = Extract<MigrationStep, { type: 'createTable' }>;
+
+/**
+ * Tabelas criadas até a versão informada no adaptador
+ */
+function getTables(version: number, target: MigrationTarget): CreateTableStep[] {
+  return MIGRATIONS
+    .filter(migration => migration.version <= version)
+    .flatMap(migration => migration.steps)
+    .filter((step): step is CreateTableStep => step.type === 'createTable' && (!step.only || step.only === target));
+}
+
+/**
+ * Colunas de cada tabela na versão informada (criação + addColumn)
+ */
+function getColumns(version: number): Map<string, string[]> {
+  const columns = new Map<string, string[]>();
+  MIGRATIONS
+    .filter(migration => migration.version <= version)
+    .flatMap(migration => migration.steps)
+    .forEach(step => {
+      if (step.type === 'createTable') {
+        columns.set(step.table, step.columns.map(column => column.name));
+      } else if (step.type === 'addColumn') {
+        columns.set(step.table, [...(columns.get(step.table) || []), step.column.name]);
+      }
+    });
+  return columns;
+}
+
+/**
+ * Importa o adaptador com acesso apenas às migrações informadas
+ * (por padrão, as publicadas; um trecho delas simula uma versão anterior do app)
+ */
+async function loadAdapter(name: AdapterName, migrations: Migration[] = MIGRATIONS): Promise<StorageAdapter> {
+  vi.resetModules();
+  if (migrations !== MIGRATIONS) {
+    vi.doMock('../migrations/SchemaMigrations', async (importOriginal) => {
+      const actual = await importOriginal<typeof import('../migrations/SchemaMigrations')>();
+      return {
+        ...actual,
+        MIGRATIONS: migrations,
+        LATEST_SCHEMA_VERSION: migrations[migrations.length - 1].version,
+        getPendingMigrations: (current: number) => migrations.filter(m => m.version > current)
+      };
+    });
+  } else {
+    vi.doUnmock('../migrations/SchemaMigrations');
+  }
+
+  return name === 'SQLiteAdapter'
+    ? new (await import('../SQLiteAdapter')).SQLiteAdapter()
+    : new (await import('../IndexedDBAdapter')).IndexedDBAdapter();
+}
+
+/**
+ * Monta um banco na versão informada com uma linha em cada tabela existente
+ * v0 = nenhum banco (instalação nova)
+ */
+async function buildFixture(name: AdapterName, target: MigrationTarget, version: number): Promise<string[]> {
+  if (version === 0) return [];
+
+  const adapter = await loadAdapter(name, MIGRATIONS.slice(0, version));
+  const initialized = await adapter.initialize();
+  expect(initialized.success, initialized.error).toBe(true);
+  expect(await getInstalledVersion(adapter)).toBe(version);
+
+  const seeded = getTables(version, target).map(step => step.table).filter(table => SEED_ROWS[table]);
+  for (const table of seeded) {
+    const row = SEED_ROWS[table];
+    const columns = Object.keys(row);
+    const inserted = await adapter.execute(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      Object.values(row)
+    );
+    expect(inserted.success, inserted.error).toBe(true);
+  }
+
+  await adapter.close();
+  return seeded;
+}
+
+async function getInstalledVersion(adapter: StorageAdapter): Promise<number | undefined> {
+  const result = await adapter.getFirst(`SELECT version FROM ${SCHEMA_VERSION_TABLE} WHERE id = 1`);
+  return result.data ? Number(result.data.version) : undefined;
+}
+
+beforeAll(async () => {
+  sqlite.SQL = await initSqlJs();
+});
+
+beforeEach(() => {
+  sqlite.databases.clear();
+  globalThis.indexedDB = new IDBFactory();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('SchemaMigrations', () => {
+  it('numera as migrações em sequência a partir da v1', () => {
+    expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+  });
+
+  describe.each(ADAPTERS)('$name', ({ name, target }) => {
+    const versions = Array.from({ length: LATEST_SCHEMA_VERSION }, (_, version) => version);
+
+    it.each(versions)(`migra um banco na v%i até a v${LATEST_SCHEMA_VERSION}`, async (version) => {
+      const seeded = await buildFixture(name, target, version);
+
+      const adapter = await loadAdapter(name);
+      const initialized = await adapter.initialize();
+      expect(initialized.success, initialized.error).toBe(true);
+      expect(await getInstalledVersion(adapter)).toBe(LATEST_SCHEMA_VERSION);
+
+      // Todas as tabelas existem e aceitam as colunas da versão atual
+      const latestColumns = getColumns(LATEST_SCHEMA_VERSION);
+      for (const step of getTables(LATEST_SCHEMA_VERSION, target)) {
+        const columns = latestColumns.get(step.table)!;
+        const selected = await adapter.query(`SELECT ${columns.join(', ')} FROM ${step.table}`);
+        expect(selected.success, `${step.table}: ${selected.error}`).toBe(true);
+      }
+
+      // As linhas gravadas antes da migração são preservadas; colunas novas ficam vazias
+      const fixtureColumns = getColumns(version);
+      for (const table of seeded) {
+        const rows = await adapter.query(`SELECT * FROM ${table}`);
+        expect(rows.success, rows.error).toBe(true);
+        expect(rows.data).toHaveLength(1);
+        expect(rows.data[0]).toMatchObject(SEED_ROWS[table]);
+
+        const addedColumns = latestColumns.get(table)!.filter(column => !fixtureColumns.get(table)!.includes(column));
+        addedColumns.forEach(column => expect(rows.data[0][column] ?? null).toBeNull());
+      }
+
+      // Os dados iniciais da v1 existem uma vez só, mesmo quando a v1 já estava aplicada
+      const settings = await adapter.query('SELECT * FROM company_settings WHERE setting_key = ?', ['company_name']);
+      expect(settings.data).toHaveLength(1);
+
+      await adapter.close();
+    });
+
+    it('não reaplica migrações em um banco já atualizado', async () => {
+      const first = await loadAdapter(name);
+      expect((await first.initialize()).success).toBe(true);
+      await first.close();
+
+      const second = await loadAdapter(name);
+      const initialized = await second.initialize();
+      expect(initialized.success, initialized.error).toBe(true);
+      expect(await getInstalledVersion(second)).toBe(LATEST_SCHEMA_VERSION);
+
+      const settings = await second.query('SELECT * FROM company_settings WHERE setting_key = ?', ['company_name']);
+      expect(settings.data).toHaveLength(1);
+      await second.close();
+    });
+
+    it('mantém a versão anterior quando uma migração falha no meio', async () => {
+      const seeded = await buildFixture(name, target, LATEST_SCHEMA_VERSION);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const broken = await loadAdapter(name, [...MIGRATIONS, BROKEN_MIGRATION]);
+      const failed = await broken.initialize();
+      expect(failed.success).toBe(false);
+      expect(failed.error).toMatch(/failed and was rolled back/);
+
+      // Os passos anteriores ao erro foram desfeitos junto com a versão
+      const adapter = await loadAdapter(name);
+      const initialized = await adapter.initialize();
+      expect(initialized.success, initialized.error).toBe(true);
+      expect(await getInstalledVersion(adapter)).toBe(LATEST_SCHEMA_VERSION);
+      expect((await adapter.query('SELECT * FROM rollback_probe')).success).toBe(false);
+
+      for (const table of seeded) {
+        const rows = await adapter.query(`SELECT * FROM ${table}`);
+        expect(rows.data).toEqual([expect.objectContaining(SEED_ROWS[table])]);
+        expect(rows.data[0]).not.toHaveProperty('rollback_probe');
+      }
+      await adapter.close();
+    });
+  });
+
+  it('aplica a v1 sobre um banco SQLite anterior ao controle de versão sem perder dados', async () => {
+    await buildFixture('SQLiteAdapter', 'sqlite', 1);
+    sqlite.databases.get('ada_company.db').exec(`DELETE FROM ${SCHEMA_VERSION_TABLE}`);
+
+    const adapter = await loadAdapter('SQLiteAdapter');
+    const initialized = await adapter.initialize();
+    expect(initialized.success, initialized.error).toBe(true);
+    expect(await getInstalledVersion(adapter)).toBe(LATEST_SCHEMA_VERSION);
+
+    const users = await adapter.query('SELECT * FROM users');
+    expect(users.data).toEqual([expect.objectContaining(SEED_ROWS.users)]);
+    await adapter.close();
+  });
+});
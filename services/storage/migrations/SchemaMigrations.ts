@@ -0,0 +1,349 @@
+/**
+ * SchemaMigrations - Migrações de schema versionadas, compartilhadas pelos adaptadores
+ *
+ * Responsabilidades:
+ * - Descrever cada versão do schema de forma declarativa (tabelas, colunas, índices, dados)
+ * - Ser a única fonte do schema: o SQLiteAdapter traduz os passos para SQL e o
+ *   IndexedDBAdapter para object stores e índices
+ * - Informar quais migrações faltam a partir da versão instalada
+ *
+ * A versão aplicada fica na linha única da tabela schema_version. Cada migração roda
+ * em uma transação; se um passo falhar, nada daquela atualização é gravado.
+ *
+ * Para alterar o schema, adicione uma nova migração no fim da lista com a versão
+ * seguinte. Nunca edite uma migração que já foi publicada. O `npm test` migra bancos
+ * de todas as versões anteriores nos dois adaptadores (__tests__/SchemaMigrations.test.ts).
+ */
+
+export type MigrationTarget = 'sqlite' | 'indexeddb';
+
+export type MigrationValue = string | number | null;
+
+export interface ColumnDefinition {
+  name: string;
+  type: 'INTEGER' | 'TEXT' | 'REAL' | 'DATETIME' | 'BLOB';
+  constraints?: string; // Restrições do SQLite (ex: 'NOT NULL', 'PRIMARY KEY AUTOINCREMENT')
+}
+
+export interface IndexDefinition {
+  column: string;
+  unique?: boolean;
+}
+
+export type MigrationStep =
+  | {
+      type: 'createTable';
+      table: string;
+      columns: ColumnDefinition[];
+      constraints?: string[]; // Restrições de tabela do SQLite (ex: FOREIGN KEY)
+      indexes?: IndexDefinition[];
+      only?: MigrationTarget; // Tabela existente em apenas um dos adaptadores
+    }
+  | { type: 'addColumn'; table: string; column: ColumnDefinition; defaultValue?: MigrationValue }
+  | { type: 'createIndex'; table: string; index: IndexDefinition }
+  | { type: 'insertRows'; table: string; rows: Array<Record<string, MigrationValue>> } // Conflitos de UNIQUE são ignorados
+  | { type: 'deleteRows'; table: string; column: string; values: MigrationValue[] };
+
+export interface Migration {
+  version: number;
+  description: string;
+  steps: MigrationStep[];
+}
+
+export const SCHEMA_VERSION_TABLE = 'schema_version';
+
+const TIMESTAMP_COLUMNS: ColumnDefinition[] = [
+  { name: 'created_at', type: 'DATETIME', constraints: 'DEFAULT CURRENT_TIMESTAMP' },
+  { name: 'updated_at', type: 'DATETIME', constraints: 'DEFAULT CURRENT_TIMESTAMP' },
+];
+
+const ID_COLUMN: ColumnDefinition = { name: 'id', type: 'INTEGER', constraints: 'PRIMARY KEY AUTOINCREMENT' };
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Tabelas iniciais (usuários, imagens e configurações)',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'users',
+        columns: [
+          ID_COLUMN,
+          { name: 'type', type: 'TEXT', constraints: "NOT NULL CHECK (type IN ('client', 'employee'))" },
+          { name: 'name', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'email', type: 'TEXT', constraints: 'UNIQUE NOT NULL' },
+          { name: 'password', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'photo_path', type: 'TEXT' },
+          ...TIMESTAMP_COLUMNS,
+        ],
+        indexes: [{ column: 'email', unique: true }, { column: 'type' }],
+      },
+      {
+        type: 'createTable',
+        table: 'images',
+        columns: [
+          ID_COLUMN,
+          { name: 'filename', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'file_path', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'file_size', type: 'INTEGER', constraints: 'NOT NULL' },
+          { name: 'mime_type', type: 'TEXT', constraints: 'NOT NULL' },
+          {
+            name: 'category',
+            type: 'TEXT',
+            constraints: "NOT NULL CHECK (category IN ('user_photo', 'company_logo', 'request_document', 'other'))"
+          },
+          { name: 'user_id', type: 'INTEGER' },
+          { name: 'created_at', type: 'DATETIME', constraints: 'DEFAULT CURRENT_TIMESTAMP' },
+        ],
+        constraints: ['FOREIGN KEY (user_id) REFERENCES users (id) ON DELETE CASCADE'],
+        indexes: [{ column: 'category' }, { column: 'user_id' }, { column: 'filename' }],
+      },
+      {
+        // No mobile os arquivos ficam no sistema de arquivos; na web, os blobs ficam no IndexedDB
+        type: 'createTable',
+        table: 'image_blobs',
+        columns: [
+          { name: 'image_id', type: 'INTEGER', constraints: 'PRIMARY KEY' },
+          { name: 'blob', type: 'BLOB' },
+        ],
+        only: 'indexeddb',
+      },
+      {
+        type: 'createTable',
+        table: 'company_settings',
+        columns: [
+          ID_COLUMN,
+          { name: 'setting_key', type: 'TEXT', constraints: 'UNIQUE NOT NULL' },
+          { name: 'setting_value', type: 'TEXT', constraints: 'NOT NULL' },
+          ...TIMESTAMP_COLUMNS,
+        ],
+        indexes: [{ column: 'setting_key', unique: true }],
+      },
+      {
+        // Remove usuários de teste antigos (credenciais de teste documentadas no README.md)
+        type: 'deleteRows',
+        table: 'users',
+        column: 'email',
+        values: ['client@example.com', 'employee@example.com'],
+      },
+      {
+        type: 'insertRows',
+        table: 'company_settings',
+        rows: [
+          { setting_key: 'company_name', setting_value: 'ADA Company' },
+          { setting_key: 'company_logo_path', setting_value: null },
+          { setting_key: 'app_version', setting_value: '1.0.0' },
+        ],
+      },
+    ],
+  },
+  {
+    version: 2,
+    description: 'Fila de mutações pendentes de sincronização (outbox)',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'sync_queue',
+        columns: [
+          ID_COLUMN,
+          { name: 'mutation_type', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'request_id', type: 'INTEGER', constraints: 'NOT NULL' },
+          { name: 'payload', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'base_status', type: 'TEXT' },
+          { name: 'status', type: 'TEXT', constraints: "NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'conflict'))" },
+          { name: 'attempts', type: 'INTEGER', constraints: 'NOT NULL DEFAULT 0' },
+          { name: 'last_error', type: 'TEXT' },
+          ...TIMESTAMP_COLUMNS,
+        ],
+        indexes: [{ column: 'status' }, { column: 'request_id' }],
+      },
+    ],
+  },
+  {
+    version: 3,
+    description: 'Cache das solicitações carregadas da API',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'requests',
+        columns: [
+          ID_COLUMN,
+          { name: 'request_id', type: 'INTEGER', constraints: 'NOT NULL' },
+          { name: 'owner_key', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'payload', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'cached_at', type: 'TEXT', constraints: 'NOT NULL' },
+          ...TIMESTAMP_COLUMNS,
+        ],
+        indexes: [{ column: 'owner_key' }],
+      },
+    ],
+  },
+  {
+    version: 4,
+    description: 'Histórico de eventos das solicitações (auditoria)',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'request_history',
+        columns: [
+          ID_COLUMN,
+          { name: 'request_id', type: 'INTEGER', constraints: 'NOT NULL' },
+          {
+            name: 'event_type',
+            type: 'TEXT',
+            constraints: "NOT NULL CHECK (event_type IN ('created', 'status', 'development', 'attachment', 'signature'))"
+          },
+          { name: 'from_value', type: 'TEXT' },
+          { name: 'to_value', type: 'TEXT' },
+          { name: 'actor_name', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'actor_role', type: 'TEXT' },
+          { name: 'note', type: 'TEXT' },
+          { name: 'created_at', type: 'DATETIME', constraints: 'DEFAULT CURRENT_TIMESTAMP' },
+        ],
+        indexes: [{ column: 'request_id' }],
+      },
+    ],
+  },
+  {
+    version: 5,
+    description: 'Histórico de avaliações de acessibilidade dos sites',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'evaluations',
+        columns: [
+          ID_COLUMN,
+          { name: 'owner_key', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'site_url', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'score', type: 'INTEGER', constraints: 'NOT NULL' },
+          { name: 'issues', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'evaluated_at', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'remote_id', type: 'TEXT' },
+          { name: 'synced_at', type: 'TEXT' }, // NULL = ainda não enviada ao backend
+          ...TIMESTAMP_COLUMNS,
+        ],
+        indexes: [{ column: 'owner_key' }, { column: 'site_url' }],
+      },
+    ],
+  },
+  {
+    version: 6,
+    description: 'Auditorias reprovadas de cada avaliação (detecção de regressões)',
+    steps: [
+      {
+        // JSON com os IDs das auditorias; NULL em avaliações simuladas ou anteriores a esta versão
+        type: 'addColumn',
+        table: 'evaluations',
+        column: { name: 'failed_audits', type: 'TEXT' },
+      },
+    ],
+  },
+  {
+    version: 7,
+    description: 'Detalhamento por página das avaliações de várias páginas',
+    steps: [
+      {
+        // JSON com as páginas avaliadas; NULL em avaliações de página única
+        type: 'addColumn',
+        table: 'evaluations',
+        column: { name: 'pages', type: 'TEXT' },
+      },
+    ],
+  },
+  {
+    version: 8,
+    description: 'Registros de assinatura dos contratos (hash do documento, signatário e dispositivo)',
+    steps: [
+      {
+        type: 'createTable',
+        table: 'contract_signatures',
+        columns: [
+          ID_COLUMN,
+          { name: 'request_id', type: 'INTEGER', constraints: 'NOT NULL' },
+          { name: 'certificate', type: 'TEXT', constraints: 'NOT NULL' }, // JSON do certificado de assinatura
+          { name: 'signed_document_hash', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'signed_document_url', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'stamped', type: 'INTEGER', constraints: 'NOT NULL DEFAULT 0' }, // 1 = assinatura carimbada no PDF
+          { name: 'signed_at', type: 'TEXT', constraints: 'NOT NULL' },
+          { name: 'created_at', type: 'DATETIME', constraints: 'DEFAULT CURRENT_TIMESTAMP' },
+        ],
+        indexes: [{ column: 'request_id' }],
+      },
+    ],
+  },
+  {
+    version: 9,
+    description: 'Origem de cada avaliação (provedor ou relatório importado)',
+    steps: [
+      {
+        // 'api', 'fixture', 'simulated' ou 'import'; NULL em avaliações anteriores a esta versão (não são enviadas)
+        type: 'addColumn',
+        table: 'evaluations',
+        column: { name: 'provider', type: 'TEXT' },
+      },
+    ],
+  },
+  {
+    version: 10,
+    description: 'ID da solicitação no backend no histórico, na fila e nas assinaturas',
+    steps: [
+      {
+        // O request_id local é derivado do UUID e pode colidir entre solicitações;
+        // NULL em solicitações só locais e nos registros anteriores a esta versão
+        type: 'addColumn',
+        table: 'request_history',
+        column: { name: 'solicitacao_id', type: 'TEXT' },
+      },
+      { type: 'createIndex', table: 'request_history', index: { column: 'solicitacao_id' } },
+      {
+        type: 'addColumn',
+        table: 'sync_queue',
+        column: { name: 'solicitacao_id', type: 'TEXT' },
+      },
+      { type: 'createIndex', table: 'sync_queue', index: { column: 'solicitacao_id' } },
+      {
+        type: 'addColumn',
+        table: 'contract_signatures',
+        column: { name: 'solicitacao_id', type: 'TEXT' },
+      },
+      { type: 'createIndex', table: 'contract_signatures', index: { column: 'solicitacao_id' } },
+    ],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Migrações ainda não aplicadas, em ordem
+ * @param currentVersion - Versão instalada (0 = banco anterior ao controle de versão)
+ * @throws Error se o banco for mais novo que o app ou se a lista estiver fora de ordem
+ */
+export function getPendingMigrations(currentVersion: number): Migration[] {
+  MIGRATIONS.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migração fora de ordem: esperado v${index + 1}, encontrado v${migration.version}`);
+    }
+  });
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `O banco de dados está na versão ${currentVersion}, mais nova que a suportada por este app (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  return MIGRATIONS.filter(migration => migration.version > currentVersion);
+}
+
+/**
+ * Chave primária da tabela (coluna com PRIMARY KEY)
+ */
+export function getPrimaryKey(step: Extract<MigrationStep, { type: 'createTable' }>): { column: string; autoIncrement: boolean } {
+  const column = step.columns.find(col => col.constraints?.includes('PRIMARY KEY'));
+  if (!column) {
+    throw new Error(`Tabela ${step.table} sem chave primária`);
+  }
+  return { column: column.name, autoIncrement: !!column.constraints?.includes('AUTOINCREMENT') };
+}
+
+// EXPANSÃO FUTURA:
+// - Migrações de remoção de coluna/tabela (exigem recriar a tabela no SQLite)
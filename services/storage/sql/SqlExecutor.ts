@@ -0,0 +1,534 @@
+/**
+ * SqlExecutor - Avaliação da AST do SqlParser sobre linhas em memória
+ *
+ * Responsabilidades:
+ * - Avaliar expressões com a semântica do SQLite (NULL, comparação numérica/texto, LIKE)
+ * - Executar o pipeline do SELECT: JOIN, WHERE, GROUP BY/agregações, HAVING,
+ *   projeção, DISTINCT, ORDER BY e LIMIT/OFFSET
+ * - Indicar ao adaptador quais igualdades do WHERE podem usar índices
+ *
+ * A avaliação é síncrona para poder ser usada dentro de cursores do IndexedDB
+ * sem encerrar a transação.
+ */
+
+import type { SqlExpression, SqlValue, SelectStatement, TableRef } from './SqlParser';
+
+export type SqlRow = Record<string, any>;
+
+/**
+ * Linhas de uma tabela do SELECT (a tabela principal e cada JOIN)
+ */
+export type TableRows = (table: TableRef) => SqlRow[];
+
+/**
+ * Contexto de avaliação: uma linha por alias de tabela (null = sem par no LEFT JOIN)
+ */
+interface RowScope {
+  tables: Record<string, SqlRow | null>;
+}
+
+interface EvaluationContext {
+  scope: RowScope;
+  params: any[];
+  group?: RowScope[]; // Linhas do grupo atual (agregações)
+  output?: SqlRow; // Colunas já projetadas (aliases usados em ORDER BY/HAVING)
+}
+
+const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'TOTAL', 'AVG', 'MIN', 'MAX', 'GROUP_CONCAT']);
+
+export class SqlExecutor {
+  /**
+   * Avalia o WHERE de UPDATE/DELETE sobre uma única linha
+   */
+  static matches(where: SqlExpression | undefined, table: string, row: SqlRow, params: any[]): boolean {
+    if (!where) return true;
+    return this.isTruthy(this.evaluate(where, { scope: { tables: { [table]: row } }, params }));
+  }
+
+  /**
+   * Avalia uma expressão isolada (valores do INSERT, LIMIT) ou sobre uma linha (atribuições do UPDATE)
+   */
+  static evaluateValue(expr: SqlExpression, params: any[], table?: string, row?: SqlRow): SqlValue {
+    const tables = table && row ? { [table]: row } : {};
+    return this.evaluate(expr, { scope: { tables }, params });
+  }
+
+  /**
+   * Igualdades "coluna = valor" que restringem o WHERE inteiro (ligadas por AND)
+   * e podem ser resolvidas por índice
+   */
+  static getIndexableEqualities(where: SqlExpression | undefined, params: any[], alias?: string): Array<{ column: string; value: SqlValue }> {
+    if (!where) return [];
+
+    if (where.kind === 'binary' && where.operator === 'AND') {
+      return [
+        ...this.getIndexableEqualities(where.left, params, alias),
+        ...this.getIndexableEqualities(where.right, params, alias)
+      ];
+    }
+
+    if (where.kind === 'binary' && where.operator === '=') {
+      const [column, value] = where.left.kind === 'column' ? [where.left, where.right] : [where.right, where.left];
+      const isConstant = value.kind === 'literal' || value.kind === 'param';
+      if (column.kind === 'column' && isConstant && (!column.table || column.table === alias)) {
+        const resolved = this.evaluate(value, { scope: { tables: {} }, params });
+        if (resolved !== null) {
+          return [{ column: column.name, value: resolved }];
+        }
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Executa um SELECT
+   * @param getRows - Fornece as linhas de cada tabela citada (já pré-filtradas por índice, se possível)
+   */
+  static select(statement: SelectStatement, getRows: TableRows, params: any[]): SqlRow[] {
+    // FROM + JOINs
+    let scopes: RowScope[] = getRows(statement.from).map(row => ({ tables: { [statement.from.alias]: row } }));
+
+    statement.joins.forEach(join => {
+      const joinRows = getRows(join.table);
+      const joined: RowScope[] = [];
+
+      scopes.forEach(scope => {
+        let matched = false;
+        joinRows.forEach(row => {
+          const candidate = { tables: { ...scope.tables, [join.table.alias]: row } };
+          if (!join.on || this.isTruthy(this.evaluate(join.on, { scope: candidate, params }))) {
+            joined.push(candidate);
+            matched = true;
+          }
+        });
+
+        if (!matched && join.type === 'left') {
+          joined.push({ tables: { ...scope.tables, [join.table.alias]: null } });
+        }
+      });
+
+      scopes = joined;
+    });
+
+    // WHERE
+    if (statement.where) {
+      scopes = scopes.filter(scope => this.isTruthy(this.evaluate(statement.where!, { scope, params })));
+    }
+
+    // GROUP BY / agregações
+    const isAggregate = statement.groupBy.length > 0
+      || statement.having !== undefined
+      || statement.columns.some(column => column.kind === 'expr' && this.containsAggregate(column.expr));
+
+    let contexts: EvaluationContext[];
+    if (isAggregate) {
+      const groups = new Map<string, RowScope[]>();
+      scopes.forEach(scope => {
+        const key = JSON.stringify(statement.groupBy.map(expr => this.evaluate(expr, { scope, params })));
+        const group = groups.get(key);
+        if (group) {
+          group.push(scope);
+        } else {
+          groups.set(key, [scope]);
+        }
+      });
+
+      // Agregação sem GROUP BY sempre produz uma linha (ex: COUNT(*) = 0)
+      if (groups.size === 0 && statement.groupBy.length === 0) {
+        groups.set('[]', []);
+      }
+
+      contexts = Array.from(groups.values()).map(group => ({
+        scope: group[0] || { tables: {} },
+        group,
+        params
+      }));
+    } else {
+      contexts = scopes.map(scope => ({ scope, params }));
+    }
+
+    // Projeção
+    let results = contexts.map(context => ({ context, row: this.project(statement, context) }));
+
+    // HAVING (pode usar aliases da projeção)
+    if (statement.having) {
+      results = results.filter(({ context, row }) =>
+        this.isTruthy(this.evaluate(statement.having!, { ...context, output: row }))
+      );
+    }
+
+    // DISTINCT
+    if (statement.distinct) {
+      const seen = new Set<string>();
+      results = results.filter(({ row }) => {
+        const key = JSON.stringify(row);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    }
+
+    // ORDER BY (ordenação estável; NULL primeiro no ASC, como no SQLite)
+    if (statement.orderBy.length > 0) {
+      const keyed = results.map(result => ({
+        ...result,
+        keys: statement.orderBy.map(term => this.evaluate(term.expr, { ...result.context, output: result.row }))
+      }));
+
+      keyed.sort((a, b) => {
+        for (let i = 0; i < statement.orderBy.length; i++) {
+          const comparison = this.compare(a.keys[i], b.keys[i]);
+          if (comparison !== 0) {
+            return statement.orderBy[i].direction === 'DESC' ? -comparison : comparison;
+          }
+        }
+        return 0;
+      });
+
+      results = keyed;
+    }
+
+    // LIMIT / OFFSET
+    let rows = results.map(result => result.row);
+    const offset = statement.offset ? Number(this.evaluateValue(statement.offset, params)) || 0 : 0;
+    if (statement.limit) {
+      const limit = Number(this.evaluateValue(statement.limit, params));
+      rows = limit < 0 ? rows.slice(offset) : rows.slice(offset, offset + limit);
+    } else if (offset > 0) {
+      rows = rows.slice(offset);
+    }
+
+    return rows;
+  }
+
+  private static project(statement: SelectStatement, context: EvaluationContext): SqlRow {
+    const row: SqlRow = {};
+    const aliases = [statement.from.alias, ...statement.joins.map(join => join.table.alias)];
+
+    statement.columns.forEach(column => {
+      if (column.kind === 'all') {
+        if (column.table && !aliases.includes(column.table)) {
+          throw new Error(`no such table: ${column.table}`);
+        }
+        (column.table ? [column.table] : aliases).forEach(alias => {
+          Object.assign(row, context.scope.tables[alias] || {});
+        });
+        return;
+      }
+
+      row[column.name] = this.evaluate(column.expr, context);
+    });
+
+    return row;
+  }
+
+  // ===========================
+  // Expressões
+  // ===========================
+
+  private static evaluate(expr: SqlExpression, context: EvaluationContext): SqlValue {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+
+      case 'param':
+        return this.normalizeValue(context.params[expr.index]);
+
+      case 'column':
+        return this.resolveColumn(expr.name, expr.table, context);
+
+      case 'unary': {
+        const operand = this.evaluate(expr.operand, context);
+        if (operand === null) return null;
+        return expr.operator === 'NOT' ? (this.isTruthy(operand) ? 0 : 1) : -Number(operand);
+      }
+
+      case 'binary':
+        return this.evaluateBinary(expr.operator, expr.left, expr.right, context);
+
+      case 'isNull': {
+        const isNull = this.evaluate(expr.operand, context) === null;
+        return (expr.negated ? !isNull : isNull) ? 1 : 0;
+      }
+
+      case 'like': {
+        const value = this.evaluate(expr.operand, context);
+        const pattern = this.evaluate(expr.pattern, context);
+        if (value === null || pattern === null) return null;
+        const matches = this.likeToRegExp(String(pattern)).test(String(value));
+        return (expr.negated ? !matches : matches) ? 1 : 0;
+      }
+
+      case 'in': {
+        const value = this.evaluate(expr.operand, context);
+        if (value === null) return null;
+        const values = expr.values.map(item => this.evaluate(item, context));
+        const found = values.some(item => item !== null && this.compare(value, item) === 0);
+        if (!found && values.includes(null)) return null;
+        return (expr.negated ? !found : found) ? 1 : 0;
+      }
+
+      case 'between': {
+        const value = this.evaluate(expr.operand, context);
+        const low = this.evaluate(expr.low, context);
+        const high = this.evaluate(expr.high, context);
+        if (value === null || low === null || high === null) return null;
+        const inRange = this.compare(value, low) >= 0 && this.compare(value, high) <= 0;
+        return (expr.negated ? !inRange : inRange) ? 1 : 0;
+      }
+
+      case 'function':
+        return this.isAggregateCall(expr)
+          ? this.evaluateAggregate(expr, context)
+          : this.evaluateFunction(expr, context);
+    }
+  }
+
+  private static evaluateBinary(operator: string, leftExpr: SqlExpression, rightExpr: SqlExpression, context: EvaluationContext): SqlValue {
+    // AND/OR com lógica de três valores do SQL
+    if (operator === 'AND' || operator === 'OR') {
+      const left = this.evaluate(leftExpr, context);
+      if (operator === 'AND' && left !== null && !this.isTruthy(left)) return 0;
+      if (operator === 'OR' && left !== null && this.isTruthy(left)) return 1;
+
+      const right = this.evaluate(rightExpr, context);
+      if (operator === 'AND') {
+        if (right !== null && !this.isTruthy(right)) return 0;
+        return left === null || right === null ? null : 1;
+      }
+      if (right !== null && this.isTruthy(right)) return 1;
+      return left === null || right === null ? null : 0;
+    }
+
+    const left = this.evaluate(leftExpr, context);
+    const right = this.evaluate(rightExpr, context);
+    if (left === null || right === null) return null;
+
+    switch (operator) {
+      case '=': return this.compare(left, right) === 0 ? 1 : 0;
+      case '!=': return this.compare(left, right) !== 0 ? 1 : 0;
+      case '<': return this.compare(left, right) < 0 ? 1 : 0;
+      case '<=': return this.compare(left, right) <= 0 ? 1 : 0;
+      case '>': return this.compare(left, right) > 0 ? 1 : 0;
+      case '>=': return this.compare(left, right) >= 0 ? 1 : 0;
+      case '||': return `${left}${right}`;
+      case '+': return Number(left) + Number(right);
+      case '-': return Number(left) - Number(right);
+      case '*': return Number(left) * Number(right);
+      case '/': {
+        if (Number(right) === 0) return null;
+        const bothIntegers = Number.isInteger(Number(left)) && Number.isInteger(Number(right));
+        return bothIntegers ? Math.trunc(Number(left) / Number(right)) : Number(left) / Number(right);
+      }
+      case '%': return Number(right) === 0 ? null : Number(left) % Number(right);
+    }
+
+    throw new Error(`Unsupported operator: ${operator}`);
+  }
+
+  private static evaluateAggregate(expr: Extract<SqlExpression, { kind: 'function' }>, context: EvaluationContext): SqlValue {
+    if (!context.group) {
+      throw new Error(`misuse of aggregate function ${expr.name}()`);
+    }
+
+    if (expr.star) {
+      return context.group.length;
+    }
+
+    let values = context.group
+      .map(scope => this.evaluate(expr.args[0], { scope, params: context.params }))
+      .filter((value): value is Exclude<SqlValue, null> => value !== null);
+
+    if (expr.distinct) {
+      values = values.filter((value, index) => values.findIndex(other => this.compare(value, other) === 0) === index);
+    }
+
+    switch (expr.name) {
+      case 'COUNT':
+        return values.length;
+      case 'SUM':
+        return values.length > 0 ? values.reduce<number>((sum, value) => sum + Number(value), 0) : null;
+      case 'TOTAL':
+        return values.reduce<number>((sum, value) => sum + Number(value), 0);
+      case 'AVG':
+        return values.length > 0 ? values.reduce<number>((sum, value) => sum + Number(value), 0) / values.length : null;
+      case 'MIN':
+        return values.length > 0 ? values.reduce((min, value) => (this.compare(value, min) < 0 ? value : min)) : null;
+      case 'MAX':
+        return values.length > 0 ? values.reduce((max, value) => (this.compare(value, max) > 0 ? value : max)) : null;
+      case 'GROUP_CONCAT': {
+        const separator = expr.args[1] ? String(this.evaluate(expr.args[1], context)) : ',';
+        return values.length > 0 ? values.join(separator) : null;
+      }
+    }
+
+    throw new Error(`Unsupported aggregate: ${expr.name}`);
+  }
+
+  private static evaluateFunction(expr: Extract<SqlExpression, { kind: 'function' }>, context: EvaluationContext): SqlValue {
+    const args = expr.args.map(arg => this.evaluate(arg, context));
+    const [first] = args;
+
+    switch (expr.name) {
+      case 'CURRENT_TIMESTAMP':
+        // ISO 8601, formato já usado pelas colunas de data do app na web
+        return new Date().toISOString();
+      case 'CURRENT_DATE':
+        return new Date().toISOString().slice(0, 10);
+      case 'CURRENT_TIME':
+        return new Date().toISOString().slice(11, 19);
+      case 'LOWER':
+        return first === null ? null : String(first).toLowerCase();
+      case 'UPPER':
+        return first === null ? null : String(first).toUpperCase();
+      case 'LENGTH':
+        return first === null ? null : String(first).length;
+      case 'TRIM':
+        return first === null ? null : String(first).trim();
+      case 'ABS':
+        return first === null ? null : Math.abs(Number(first));
+      case 'ROUND': {
+        if (first === null) return null;
+        const digits = Number(args[1] ?? 0);
+        return Math.round(Number(first) * 10 ** digits) / 10 ** digits;
+      }
+      case 'COALESCE':
+      case 'IFNULL':
+        return args.find(arg => arg !== null) ?? null;
+      case 'NULLIF':
+        return first !== null && args[1] !== null && this.compare(first, args[1]) === 0 ? null : first;
+      case 'MIN':
+        return args.includes(null) ? null : args.reduce((min, value) => (this.compare(value, min) < 0 ? value : min));
+      case 'MAX':
+        return args.includes(null) ? null : args.reduce((max, value) => (this.compare(value, max) > 0 ? value : max));
+    }
+
+    throw new Error(`no such function: ${expr.name}`);
+  }
+
+  /**
+   * Resolve uma coluna: alias da projeção (ORDER BY/HAVING), tabela qualificada ou a primeira tabela que a possui
+   */
+  private static resolveColumn(name: string, table: string | undefined, context: EvaluationContext): SqlValue {
+    if (!table && context.output && name in context.output) {
+      return this.normalizeValue(context.output[name]);
+    }
+
+    const { tables } = context.scope;
+
+    if (table) {
+      if (!(table in tables)) {
+        if (context.group?.length === 0) return null; // Agregação sem linhas
+        throw new Error(`no such column: ${table}.${name}`);
+      }
+      return this.normalizeValue(tables[table]?.[name]);
+    }
+
+    for (const row of Object.values(tables)) {
+      if (row && name in row) {
+        return this.normalizeValue(row[name]);
+      }
+    }
+
+    // Coluna ausente no registro = NULL (o IndexedDB não guarda colunas vazias)
+    return null;
+  }
+
+  /**
+   * MIN/MAX com um argumento são agregações; com vários, funções escalares
+   */
+  private static isAggregateCall(expr: Extract<SqlExpression, { kind: 'function' }>): boolean {
+    if (expr.star) return true;
+    if (expr.name === 'MIN' || expr.name === 'MAX') return expr.args.length === 1;
+    return AGGREGATE_FUNCTIONS.has(expr.name);
+  }
+
+  private static containsAggregate(expr: SqlExpression): boolean {
+    switch (expr.kind) {
+      case 'function':
+        return this.isAggregateCall(expr) || expr.args.some(arg => this.containsAggregate(arg));
+      case 'unary':
+      case 'isNull':
+        return this.containsAggregate(expr.operand);
+      case 'binary':
+        return this.containsAggregate(expr.left) || this.containsAggregate(expr.right);
+      case 'like':
+        return this.containsAggregate(expr.operand) || this.containsAggregate(expr.pattern);
+      case 'in':
+        return this.containsAggregate(expr.operand) || expr.values.some(value => this.containsAggregate(value));
+      case 'between':
+        return [expr.operand, expr.low, expr.high].some(value => this.containsAggregate(value));
+      default:
+        return false;
+    }
+  }
+
+  // ===========================
+  // Valores
+  // ===========================
+
+  /**
+   * Comparação no estilo do SQLite: números antes de textos; texto numérico
+   * é comparado como número quando o outro lado é número (afinidade de coluna)
+   */
+  static compare(a: SqlValue, b: SqlValue): number {
+    if (a === b) return 0;
+    if (a === null) return -1;
+    if (b === null) return 1;
+
+    const aNumber = this.toNumber(a);
+    const bNumber = this.toNumber(b);
+    const aIsNumber = typeof a === 'number' || typeof a === 'boolean';
+    const bIsNumber = typeof b === 'number' || typeof b === 'boolean';
+
+    if ((aIsNumber || bIsNumber) && aNumber !== null && bNumber !== null) {
+      return aNumber === bNumber ? 0 : aNumber < bNumber ? -1 : 1;
+    }
+    if (aIsNumber !== bIsNumber) {
+      return aIsNumber ? -1 : 1;
+    }
+
+    const aText = String(a);
+    const bText = String(b);
+    return aText === bText ? 0 : aText < bText ? -1 : 1;
+  }
+
+  private static toNumber(value: SqlValue): number | null {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    return null;
+  }
+
+  private static isTruthy(value: SqlValue): boolean {
+    if (value === null) return false;
+    const number = this.toNumber(value);
+    return number !== null ? number !== 0 : false;
+  }
+
+  /**
+   * Converte valores de JavaScript para valores SQL (undefined = NULL, Date = ISO)
+   */
+  private static normalizeValue(value: any): SqlValue {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  }
+
+  /**
+   * LIKE do SQLite: % e _ como curingas, sem diferenciar maiúsculas (ASCII)
+   */
+  private static likeToRegExp(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '%') return '.*';
+        if (char === '_') return '.';
+        return char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`, 'is');
+  }
+}
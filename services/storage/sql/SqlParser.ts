@@ -0,0 +1,665 @@
+/**
+ * SqlParser - Analisador do subconjunto de SQL usado pelo app
+ *
+ * Responsabilidades:
+ * - Converter o texto SQL em tokens e depois em uma árvore (AST)
+ * - Numerar os parâmetros posicionais (?) na ordem em que aparecem
+ * - Rejeitar com erro claro o que não é suportado, em vez de ignorar
+ *
+ * Suporta SELECT (JOIN, WHERE, GROUP BY, HAVING, ORDER BY, LIMIT/OFFSET, DISTINCT),
+ * INSERT (várias linhas, OR IGNORE), UPDATE e DELETE. Usado pelo IndexedDBAdapter
+ * para que o mesmo SQL funcione na web e no SQLite.
+ */
+
+export type SqlValue = string | number | boolean | null;
+
+export type SqlExpression =
+  | { kind: 'literal'; value: SqlValue }
+  | { kind: 'param'; index: number }
+  | { kind: 'column'; table?: string; name: string }
+  | { kind: 'unary'; operator: 'NOT' | '-'; operand: SqlExpression }
+  | { kind: 'binary'; operator: string; left: SqlExpression; right: SqlExpression }
+  | { kind: 'isNull'; operand: SqlExpression; negated: boolean }
+  | { kind: 'like'; operand: SqlExpression; pattern: SqlExpression; negated: boolean }
+  | { kind: 'in'; operand: SqlExpression; values: SqlExpression[]; negated: boolean }
+  | { kind: 'between'; operand: SqlExpression; low: SqlExpression; high: SqlExpression; negated: boolean }
+  | { kind: 'function'; name: string; args: SqlExpression[]; star: boolean; distinct: boolean };
+
+export interface TableRef {
+  name: string;
+  alias: string;
+}
+
+export interface JoinClause {
+  type: 'inner' | 'left';
+  table: TableRef;
+  on?: SqlExpression;
+}
+
+export type SelectColumn =
+  | { kind: 'all'; table?: string }
+  | { kind: 'expr'; expr: SqlExpression; name: string }; // name = alias ou texto da expressão
+
+export interface OrderTerm {
+  expr: SqlExpression;
+  direction: 'ASC' | 'DESC';
+}
+
+export interface SelectStatement {
+  type: 'select';
+  distinct: boolean;
+  columns: SelectColumn[];
+  from: TableRef;
+  joins: JoinClause[];
+  where?: SqlExpression;
+  groupBy: SqlExpression[];
+  having?: SqlExpression;
+  orderBy: OrderTerm[];
+  limit?: SqlExpression;
+  offset?: SqlExpression;
+}
+
+export interface InsertStatement {
+  type: 'insert';
+  table: string;
+  columns: string[];
+  rows: SqlExpression[][];
+  onConflict: 'abort' | 'ignore';
+}
+
+export interface UpdateStatement {
+  type: 'update';
+  table: string;
+  assignments: Array<{ column: string; value: SqlExpression }>;
+  where?: SqlExpression;
+}
+
+export interface DeleteStatement {
+  type: 'delete';
+  table: string;
+  where?: SqlExpression;
+}
+
+export type SqlStatement = SelectStatement | InsertStatement | UpdateStatement | DeleteStatement;
+
+type TokenType = 'number' | 'string' | 'identifier' | 'param' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  quoted?: boolean; // Identificador entre aspas (nunca é palavra-chave)
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '||', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '.', ';'];
+
+// Palavras que encerram uma expressão e não podem ser usadas como alias sem AS
+const RESERVED_WORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'GROUP', 'BY', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'JOIN', 'INNER',
+  'LEFT', 'OUTER', 'CROSS', 'ON', 'AND', 'OR', 'NOT', 'AS', 'ASC', 'DESC', 'IS', 'NULL', 'LIKE', 'IN',
+  'BETWEEN', 'DISTINCT', 'VALUES', 'SET', 'INTO', 'UNION',
+]);
+
+export class SqlParser {
+  private tokens: Token[] = [];
+  private position = 0;
+  private paramCount = 0;
+
+  private constructor(private readonly sql: string) {}
+
+  /**
+   * Analisa uma instrução SQL
+   * @throws Error com a posição do problema quando o SQL não é suportado
+   */
+  static parse(sql: string): SqlStatement {
+    return new SqlParser(sql).parseStatement();
+  }
+
+  private parseStatement(): SqlStatement {
+    this.tokens = this.tokenize();
+
+    let statement: SqlStatement;
+    if (this.isKeyword('SELECT')) {
+      statement = this.parseSelect();
+    } else if (this.isKeyword('INSERT')) {
+      statement = this.parseInsert();
+    } else if (this.isKeyword('UPDATE')) {
+      statement = this.parseUpdate();
+    } else if (this.isKeyword('DELETE')) {
+      statement = this.parseDelete();
+    } else {
+      throw new Error(`Unsupported SQL operation: ${this.peek().value || '(vazio)'}`);
+    }
+
+    this.acceptOperator(';');
+    if (this.peek().type !== 'eof') {
+      this.fail('Expected end of statement');
+    }
+    return statement;
+  }
+
+  // ===========================
+  // Instruções
+  // ===========================
+
+  private parseSelect(): SelectStatement {
+    this.expectKeyword('SELECT');
+    const distinct = this.acceptKeyword('DISTINCT');
+    if (!distinct) this.acceptKeyword('ALL');
+
+    const columns: SelectColumn[] = [];
+    do {
+      columns.push(this.parseSelectColumn());
+    } while (this.acceptOperator(','));
+
+    this.expectKeyword('FROM');
+    const from = this.parseTableRef();
+
+    const joins: JoinClause[] = [];
+    for (;;) {
+      if (this.acceptKeyword('LEFT')) {
+        this.acceptKeyword('OUTER');
+        this.expectKeyword('JOIN');
+        joins.push(this.parseJoin('left'));
+      } else if (this.acceptKeyword('INNER') || this.isKeyword('JOIN')) {
+        this.expectKeyword('JOIN');
+        joins.push(this.parseJoin('inner'));
+      } else if (this.acceptKeyword('CROSS')) {
+        this.expectKeyword('JOIN');
+        joins.push({ type: 'inner', table: this.parseTableRef() });
+      } else if (this.acceptOperator(',')) {
+        joins.push({ type: 'inner', table: this.parseTableRef() });
+      } else {
+        break;
+      }
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+
+    const groupBy: SqlExpression[] = [];
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        groupBy.push(this.parseExpression());
+      } while (this.acceptOperator(','));
+    }
+
+    const having = this.acceptKeyword('HAVING') ? this.parseExpression() : undefined;
+
+    const orderBy: OrderTerm[] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expr = this.parseExpression();
+        const direction = this.acceptKeyword('DESC') ? 'DESC' : 'ASC';
+        if (direction === 'ASC') this.acceptKeyword('ASC');
+        orderBy.push({ expr, direction });
+      } while (this.acceptOperator(','));
+    }
+
+    let limit: SqlExpression | undefined;
+    let offset: SqlExpression | undefined;
+    if (this.acceptKeyword('LIMIT')) {
+      limit = this.parseExpression();
+      if (this.acceptKeyword('OFFSET')) {
+        offset = this.parseExpression();
+      } else if (this.acceptOperator(',')) {
+        // LIMIT offset, limit (sintaxe alternativa do SQLite)
+        offset = limit;
+        limit = this.parseExpression();
+      }
+    }
+
+    return { type: 'select', distinct, columns, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private parseSelectColumn(): SelectColumn {
+    if (this.acceptOperator('*')) {
+      return { kind: 'all' };
+    }
+
+    // tabela.*
+    const next = this.tokens[this.position + 1];
+    const afterNext = this.tokens[this.position + 2];
+    if (this.peek().type === 'identifier' && next?.value === '.' && afterNext?.value === '*') {
+      const table = this.advance().value;
+      this.position += 2;
+      return { kind: 'all', table };
+    }
+
+    const start = this.peek().start;
+    const expr = this.parseExpression();
+    const text = this.sql.slice(start, this.tokens[this.position - 1].end);
+
+    const alias = this.parseAlias();
+    const name = alias || (expr.kind === 'column' ? expr.name : text);
+    return { kind: 'expr', expr, name };
+  }
+
+  private parseJoin(type: 'inner' | 'left'): JoinClause {
+    const table = this.parseTableRef();
+    this.expectKeyword('ON');
+    return { type, table, on: this.parseExpression() };
+  }
+
+  private parseTableRef(): TableRef {
+    const name = this.expectIdentifier();
+    return { name, alias: this.parseAlias() || name };
+  }
+
+  /**
+   * Alias opcional: "AS nome" ou apenas "nome"
+   */
+  private parseAlias(): string | undefined {
+    if (this.acceptKeyword('AS')) {
+      const token = this.advance();
+      if (token.type !== 'identifier' && token.type !== 'string') {
+        this.fail('Expected alias after AS', token);
+      }
+      return token.value;
+    }
+
+    const token = this.peek();
+    if (token.type === 'identifier' && (token.quoted || !RESERVED_WORDS.has(token.value.toUpperCase()))) {
+      this.position++;
+      return token.value;
+    }
+
+    return undefined;
+  }
+
+  private parseInsert(): InsertStatement {
+    this.expectKeyword('INSERT');
+
+    let onConflict: InsertStatement['onConflict'] = 'abort';
+    if (this.acceptKeyword('OR')) {
+      if (this.acceptKeyword('IGNORE')) {
+        onConflict = 'ignore';
+      } else if (!this.acceptKeyword('ABORT')) {
+        this.fail(`Unsupported conflict clause "OR ${this.peek().value}"`);
+      }
+    }
+
+    this.expectKeyword('INTO');
+    const table = this.expectIdentifier();
+
+    const columns: string[] = [];
+    this.expectOperator('(');
+    do {
+      columns.push(this.expectIdentifier());
+    } while (this.acceptOperator(','));
+    this.expectOperator(')');
+
+    this.expectKeyword('VALUES');
+    const rows: SqlExpression[][] = [];
+    do {
+      this.expectOperator('(');
+      const values: SqlExpression[] = [];
+      do {
+        values.push(this.parseExpression());
+      } while (this.acceptOperator(','));
+      this.expectOperator(')');
+
+      if (values.length !== columns.length) {
+        this.fail(`${columns.length} columns but ${values.length} values`);
+      }
+      rows.push(values);
+    } while (this.acceptOperator(','));
+
+    return { type: 'insert', table, columns, rows, onConflict };
+  }
+
+  private parseUpdate(): UpdateStatement {
+    this.expectKeyword('UPDATE');
+    const table = this.expectIdentifier();
+    this.expectKeyword('SET');
+
+    const assignments: UpdateStatement['assignments'] = [];
+    do {
+      const column = this.expectIdentifier();
+      this.expectOperator('=');
+      assignments.push({ column, value: this.parseExpression() });
+    } while (this.acceptOperator(','));
+
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { type: 'update', table, assignments, where };
+  }
+
+  private parseDelete(): DeleteStatement {
+    this.expectKeyword('DELETE');
+    this.expectKeyword('FROM');
+    const table = this.expectIdentifier();
+    const where = this.acceptKeyword('WHERE') ? this.parseExpression() : undefined;
+    return { type: 'delete', table, where };
+  }
+
+  // ===========================
+  // Expressões (precedência: OR < AND < NOT < comparação < + - || < * / %)
+  // ===========================
+
+  private parseExpression(): SqlExpression {
+    return this.parseOr();
+  }
+
+  private parseOr(): SqlExpression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', operator: 'OR', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SqlExpression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', operator: 'AND', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): SqlExpression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'unary', operator: 'NOT', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): SqlExpression {
+    const left = this.parseAdditive();
+
+    const operator = this.peek();
+    if (operator.type === 'operator' && ['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(operator.value)) {
+      this.position++;
+      const normalized = operator.value === '==' ? '=' : operator.value === '<>' ? '!=' : operator.value;
+      return { kind: 'binary', operator: normalized, left, right: this.parseAdditive() };
+    }
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'isNull', operand: left, negated };
+    }
+
+    const negated = this.acceptKeyword('NOT');
+
+    if (this.acceptKeyword('LIKE')) {
+      return { kind: 'like', operand: left, pattern: this.parseAdditive(), negated };
+    }
+
+    if (this.acceptKeyword('IN')) {
+      this.expectOperator('(');
+      const values: SqlExpression[] = [];
+      if (!this.isOperator(')')) {
+        do {
+          values.push(this.parseExpression());
+        } while (this.acceptOperator(','));
+      }
+      this.expectOperator(')');
+      return { kind: 'in', operand: left, values, negated };
+    }
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      return { kind: 'between', operand: left, low, high: this.parseAdditive(), negated };
+    }
+
+    if (negated) {
+      this.fail('Expected LIKE, IN or BETWEEN after NOT');
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): SqlExpression {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+') || this.isOperator('-') || this.isOperator('||')) {
+      const operator = this.advance().value;
+      left = { kind: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): SqlExpression {
+    let left = this.parseUnary();
+    while (this.isOperator('*') || this.isOperator('/') || this.isOperator('%')) {
+      const operator = this.advance().value;
+      left = { kind: 'binary', operator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): SqlExpression {
+    if (this.acceptOperator('-')) {
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (this.acceptOperator('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): SqlExpression {
+    const token = this.advance();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'param':
+        return { kind: 'param', index: this.paramCount++ };
+
+      case 'operator':
+        if (token.value === '(') {
+          const expr = this.parseExpression();
+          this.expectOperator(')');
+          return expr;
+        }
+        break;
+
+      case 'identifier': {
+        const upper = token.value.toUpperCase();
+
+        if (!token.quoted) {
+          if (upper === 'NULL') return { kind: 'literal', value: null };
+          if (upper === 'TRUE') return { kind: 'literal', value: 1 };
+          if (upper === 'FALSE') return { kind: 'literal', value: 0 };
+          if (upper === 'CURRENT_TIMESTAMP' || upper === 'CURRENT_DATE' || upper === 'CURRENT_TIME') {
+            return { kind: 'function', name: upper, args: [], star: false, distinct: false };
+          }
+          if (RESERVED_WORDS.has(upper)) break;
+        }
+
+        if (this.acceptOperator('(')) {
+          return this.parseFunctionCall(upper);
+        }
+
+        if (this.acceptOperator('.')) {
+          return { kind: 'column', table: token.value, name: this.expectIdentifier() };
+        }
+
+        return { kind: 'column', name: token.value };
+      }
+    }
+
+    this.fail('Expected expression', token);
+  }
+
+  private parseFunctionCall(name: string): SqlExpression {
+    if (this.acceptOperator('*')) {
+      this.expectOperator(')');
+      return { kind: 'function', name, args: [], star: true, distinct: false };
+    }
+
+    const distinct = this.acceptKeyword('DISTINCT');
+    const args: SqlExpression[] = [];
+    if (!this.isOperator(')')) {
+      do {
+        args.push(this.parseExpression());
+      } while (this.acceptOperator(','));
+    }
+    this.expectOperator(')');
+
+    return { kind: 'function', name, args, star: false, distinct };
+  }
+
+  // ===========================
+  // Tokens
+  // ===========================
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const sql = this.sql;
+    let i = 0;
+
+    while (i < sql.length) {
+      const char = sql[i];
+
+      // Espaços e comentários
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+      if (sql.startsWith('--', i)) {
+        while (i < sql.length && sql[i] !== '\n') i++;
+        continue;
+      }
+      if (sql.startsWith('/*', i)) {
+        const end = sql.indexOf('*/', i + 2);
+        i = end === -1 ? sql.length : end + 2;
+        continue;
+      }
+
+      const start = i;
+
+      // Strings ('texto', com '' como escape)
+      if (char === "'") {
+        let value = '';
+        i++;
+        for (;;) {
+          if (i >= sql.length) throw new Error(`Unterminated string at position ${start}`);
+          if (sql[i] === "'") {
+            if (sql[i + 1] === "'") {
+              value += "'";
+              i += 2;
+              continue;
+            }
+            i++;
+            break;
+          }
+          value += sql[i++];
+        }
+        tokens.push({ type: 'string', value, start, end: i });
+        continue;
+      }
+
+      // Identificadores entre aspas: "nome", `nome` ou [nome]
+      if (char === '"' || char === '`' || char === '[') {
+        const close = char === '[' ? ']' : char;
+        const end = sql.indexOf(close, i + 1);
+        if (end === -1) throw new Error(`Unterminated identifier at position ${start}`);
+        tokens.push({ type: 'identifier', value: sql.slice(i + 1, end), quoted: true, start, end: end + 1 });
+        i = end + 1;
+        continue;
+      }
+
+      // Números
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[i + 1] || ''))) {
+        const match = sql.slice(i).match(/^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i)!;
+        i += match[0].length;
+        tokens.push({ type: 'number', value: match[0], start, end: i });
+        continue;
+      }
+
+      // Parâmetros posicionais
+      if (char === '?') {
+        i++;
+        if (/[0-9]/.test(sql[i] || '')) {
+          throw new Error(`Numbered parameters are not supported (position ${start})`);
+        }
+        tokens.push({ type: 'param', value: '?', start, end: i });
+        continue;
+      }
+
+      // Identificadores e palavras-chave
+      if (/[A-Za-z_]/.test(char)) {
+        const match = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+        i += match[0].length;
+        tokens.push({ type: 'identifier', value: match[0], start, end: i });
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => sql.startsWith(op, i));
+      if (!operator) {
+        throw new Error(`Unexpected character "${char}" at position ${start}`);
+      }
+      i += operator.length;
+      tokens.push({ type: 'operator', value: operator, start, end: i });
+    }
+
+    tokens.push({ type: 'eof', value: '', start: sql.length, end: sql.length });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'eof') this.position++;
+    return token;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && !token.quoted && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      this.fail(`Expected ${keyword}`);
+    }
+  }
+
+  private isOperator(operator: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === operator;
+  }
+
+  private acceptOperator(operator: string): boolean {
+    if (!this.isOperator(operator)) return false;
+    this.position++;
+    return true;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.acceptOperator(operator)) {
+      this.fail(`Expected "${operator}"`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.peek();
+    if (token.type !== 'identifier' || (!token.quoted && RESERVED_WORDS.has(token.value.toUpperCase()))) {
+      this.fail('Expected identifier');
+    }
+    this.position++;
+    return token.value;
+  }
+
+  private fail(message: string, token: Token = this.peek()): never {
+    const found = token.type === 'eof' ? 'end of query' : `"${token.value}"`;
+    throw new Error(`SQL syntax error: ${message} (found ${found} at position ${token.start})`);
+  }
+}
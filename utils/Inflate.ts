@@ -0,0 +1,166 @@
+/**
+ * Inflate - Descompactação de dados zlib/DEFLATE (RFC 1950/1951) em TypeScript puro
+ *
+ * Usado na leitura de imagens PNG (assinatura) e de PDFs compactados (object streams).
+ */
+
+// Tabelas do formato DEFLATE (RFC 1951)
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array; // Quantidade de códigos por comprimento
+  symbols: Uint16Array; // Símbolos em ordem canônica
+}
+
+/**
+ * Descompacta dados no formato zlib (cabeçalho de 2 bytes + DEFLATE)
+ */
+export const inflateZlib = (data: Uint8Array): Uint8Array => {
+  if ((data[0] & 0x0f) !== 8 || ((data[0] << 8) | data[1]) % 31 !== 0) {
+    throw new Error('Dados compactados corrompidos');
+  }
+
+  let bytePosition = 2;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let output = new Uint8Array(Math.max(1024, data.length * 4));
+  let outputLength = 0;
+
+  const readBits = (count: number): number => {
+    while (bitCount < count) {
+      if (bytePosition >= data.length) {
+        throw new Error('Dados compactados incompletos');
+      }
+      bitBuffer |= data[bytePosition++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const ensureCapacity = (extra: number) => {
+    if (outputLength + extra > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, outputLength + extra));
+      grown.set(output.subarray(0, outputLength));
+      output = grown;
+    }
+  };
+
+  const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+    const counts = new Uint16Array(16);
+    for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+    counts[0] = 0;
+
+    const offsets = new Uint16Array(16);
+    for (let length = 1; length < 16; length++) offsets[length] = offsets[length - 1] + counts[length - 1];
+
+    const symbols = new Uint16Array(lengths.length);
+    for (let symbol = 0; symbol < lengths.length; symbol++) {
+      if (lengths[symbol]) symbols[offsets[lengths[symbol]]++] = symbol;
+    }
+    return { counts, symbols };
+  };
+
+  // Códigos de Huffman são lidos bit a bit, do bit mais significativo do código
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= readBits(1);
+      const count = huffman.counts[length];
+      if (code - first < count) {
+        return huffman.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Dados compactados corrompidos');
+  };
+
+  const fixedLengths = new Uint8Array(288);
+  fixedLengths.fill(8, 0, 144).fill(9, 144, 256).fill(7, 256, 280).fill(8, 280, 288);
+  const fixedLiterals = buildHuffman(fixedLengths);
+  const fixedDistances = buildHuffman(new Uint8Array(30).fill(5));
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = readBits(1) === 1;
+    const blockType = readBits(2);
+
+    if (blockType === 0) {
+      // Bloco sem compressão: alinhado ao byte, com tamanho e complemento
+      bitBuffer = 0;
+      bitCount = 0;
+      const length = data[bytePosition] | (data[bytePosition + 1] << 8);
+      bytePosition += 4;
+      ensureCapacity(length);
+      output.set(data.subarray(bytePosition, bytePosition + length), outputLength);
+      outputLength += length;
+      bytePosition += length;
+      continue;
+    }
+
+    let literals = fixedLiterals;
+    let distances = fixedDistances;
+    if (blockType === 2) {
+      const literalCount = readBits(5) + 257;
+      const distanceCount = readBits(5) + 1;
+      const codeLengthCount = readBits(4) + 4;
+
+      const codeLengthLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = readBits(3);
+      const codeLengths = buildHuffman(codeLengthLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length;) {
+        const symbol = decodeSymbol(codeLengths);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+        } else {
+          const [repeatValue, repeatCount] = symbol === 16
+            ? [lengths[i - 1], 3 + readBits(2)]
+            : symbol === 17 ? [0, 3 + readBits(3)] : [0, 11 + readBits(7)];
+          lengths.fill(repeatValue, i, i + repeatCount);
+          i += repeatCount;
+        }
+      }
+
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    } else if (blockType !== 1) {
+      throw new Error('Dados compactados corrompidos');
+    }
+
+    for (let symbol = decodeSymbol(literals); symbol !== 256; symbol = decodeSymbol(literals)) {
+      if (symbol < 256) {
+        ensureCapacity(1);
+        output[outputLength++] = symbol;
+        continue;
+      }
+
+      const lengthIndex = symbol - 257;
+      const length = LENGTH_BASE[lengthIndex] + readBits(LENGTH_EXTRA[lengthIndex]);
+      const distanceIndex = decodeSymbol(distances);
+      const distance = DIST_BASE[distanceIndex] + readBits(DIST_EXTRA[distanceIndex]);
+
+      ensureCapacity(length);
+      for (let i = 0; i < length; i++) {
+        output[outputLength] = output[outputLength - distance];
+        outputLength++;
+      }
+    }
+  }
+
+  return output.subarray(0, outputLength);
+};
@@ -0,0 +1,453 @@
+/**
+ * PdfStamper - Carimbo de assinatura na última página de um PDF existente
+ *
+ * Responsabilidades:
+ * - Localizar a última página do documento (percorrendo a árvore de páginas)
+ * - Desenhar a assinatura (máscara de 1 bit) e as linhas de identificação do signatário
+ * - Gravar junto ao documento um registro (JSON) da assinatura, legível por readCertificate
+ *
+ * O carimbo é uma atualização incremental: os bytes do documento original são mantidos
+ * intactos no início do arquivo, e as alterações são anexadas ao final. Assim, o hash do
+ * documento original continua verificável a partir do arquivo assinado.
+ */
+
+import { PdfWriter } from './PdfWriter';
+import { inflateZlib } from './Inflate';
+import type { InkMask } from './PngImage';
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfRaw {
+  constructor(readonly source: string) {} // Strings literais/hexadecimais mantidas como estão
+}
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfRaw | PdfValue[] | PdfDict;
+type PdfDict = Map<string, PdfValue>;
+
+/**
+ * Leitura de valores PDF (dicionários, listas, nomes, referências, números e strings)
+ */
+class PdfParser {
+  constructor(private readonly text: string, public pos: number = 0) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '%') {
+        while (this.pos < this.text.length && !/[\r\n]/.test(this.text[this.pos])) this.pos++;
+      } else if (/[\0\t\n\f\r ]/.test(char)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  parseValue(): PdfValue {
+    this.skipWhitespace();
+    const text = this.text;
+    const char = text[this.pos];
+
+    if (text.startsWith('<<', this.pos)) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        this.skipWhitespace();
+        if (text.startsWith('>>', this.pos)) {
+          this.pos += 2;
+          return dict;
+        }
+        const key = this.parseValue();
+        if (!(key instanceof PdfName)) {
+          throw new Error('Dicionário do PDF malformado');
+        }
+        dict.set(key.name, this.parseValue());
+      }
+    }
+
+    if (char === '[') {
+      this.pos++;
+      const array: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (text[this.pos] === ']') {
+          this.pos++;
+          return array;
+        }
+        if (this.pos >= text.length) {
+          throw new Error('Lista do PDF malformada');
+        }
+        array.push(this.parseValue());
+      }
+    }
+
+    if (char === '<') {
+      const end = text.indexOf('>', this.pos);
+      const raw = text.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return new PdfRaw(raw);
+    }
+
+    if (char === '(') {
+      const start = this.pos;
+      let depth = 0;
+      for (; this.pos < text.length; this.pos++) {
+        const current = text[this.pos];
+        if (current === '\\') {
+          this.pos++;
+        } else if (current === '(') {
+          depth++;
+        } else if (current === ')' && --depth === 0) {
+          break;
+        }
+      }
+      this.pos++;
+      return new PdfRaw(text.slice(start, this.pos));
+    }
+
+    if (char === '/') {
+      const match = /^\/[^\s/<>[\]()%{}]*/.exec(text.slice(this.pos, this.pos + 256))!;
+      this.pos += match[0].length;
+      return new PdfName(match[0].slice(1));
+    }
+
+    const reference = /^(\d+)\s+(\d+)\s+R(?![A-Za-z])/.exec(text.slice(this.pos, this.pos + 32));
+    if (reference) {
+      this.pos += reference[0].length;
+      return new PdfRef(Number(reference[1]), Number(reference[2]));
+    }
+
+    const token = /^[^\s/<>[\]()%]+/.exec(text.slice(this.pos, this.pos + 64));
+    if (!token) {
+      throw new Error('Objeto do PDF malformado');
+    }
+    this.pos += token[0].length;
+    if (token[0] === 'true' || token[0] === 'false') return token[0] === 'true';
+    if (token[0] === 'null') return null;
+
+    const number = Number(token[0]);
+    if (Number.isNaN(number)) {
+      throw new Error('Objeto do PDF malformado');
+    }
+    return number;
+  }
+}
+
+export interface PdfStampOptions {
+  signature: InkMask;
+  lines: string[]; // Texto de identificação sob a assinatura
+  certificate: object; // Registro da assinatura gravado no documento
+}
+
+export class PdfStamper {
+  private static readonly CERTIFICATE_KEY = 'AdaSigningCertificate';
+  private static readonly STAMP_WIDTH = 230;
+  private static readonly STAMP_HEIGHT = 100;
+  private static readonly STAMP_MARGIN = 40;
+  private static readonly TEXT_SIZE = 6.5;
+
+  private readonly offsets = new Map<number, number>();
+  private compressed: Map<number, PdfValue> | null = null; // Objetos dentro de object streams
+
+  private constructor(private readonly source: string) {
+    for (const match of source.matchAll(/(\d+)\s+(\d+)\s+obj\b/g)) {
+      this.offsets.set(Number(match[1]), match.index! + match[0].length); // A última definição prevalece
+    }
+  }
+
+  /**
+   * Carimba a assinatura na última página
+   * @returns Novo arquivo (documento original + atualização incremental)
+   * @throws Error se a estrutura do PDF não puder ser lida
+   */
+  static stamp(pdf: Uint8Array, options: PdfStampOptions): Uint8Array {
+    const source = PdfWriter.bytesToBinary(pdf);
+    const stamper = new PdfStamper(source);
+    const binary = stamper.buildUpdate(options);
+    const update = PdfWriter.binaryToBytes(binary);
+
+    const output = new Uint8Array(pdf.length + update.length);
+    output.set(pdf);
+    output.set(update, pdf.length);
+    return output;
+  }
+
+  /**
+   * Registro da assinatura gravado por stamp
+   * @returns Objeto gravado ou null se o documento não tiver carimbo
+   */
+  static readCertificate<T = unknown>(pdf: Uint8Array): T | null {
+    const source = PdfWriter.bytesToBinary(pdf);
+    const matches = [...source.matchAll(new RegExp(`/${this.CERTIFICATE_KEY}\\s+(\\d+)\\s+(\\d+)\\s+R`, 'g'))];
+    const last = matches[matches.length - 1];
+    if (!last) {
+      return null;
+    }
+
+    const stamper = new PdfStamper(source);
+    const record = stamper.resolve(new PdfRef(Number(last[1]), Number(last[2])));
+    const data = record instanceof Map ? record.get('Data') : undefined;
+    if (!(data instanceof PdfRaw) || !data.source.startsWith('<')) {
+      return null;
+    }
+
+    const hex = data.source.slice(1, -1).replace(/\s/g, '');
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+
+    try {
+      return JSON.parse(decodeURIComponent(Array.from(bytes, byte => `%${byte.toString(16).padStart(2, '0')}`).join('')));
+    } catch {
+      return null;
+    }
+  }
+
+  private buildUpdate(options: PdfStampOptions): string {
+    const startXref = this.lastMatch(/startxref\s+(\d+)/g);
+    const rootMatch = this.lastMatch(/\/Root\s+(\d+)\s+(\d+)\s+R/g);
+    if (!startXref || !rootMatch) {
+      throw new Error('Estrutura do PDF não reconhecida');
+    }
+    const infoMatch = this.lastMatch(/\/Info\s+(\d+)\s+(\d+)\s+R/g);
+    const sizeMatch = this.lastMatch(/\/Size\s+(\d+)/g);
+
+    const catalog = this.resolve(new PdfRef(Number(rootMatch[1]), Number(rootMatch[2])));
+    const pagesRef = catalog instanceof Map ? catalog.get('Pages') : undefined;
+    if (!(pagesRef instanceof PdfRef)) {
+      throw new Error('Árvore de páginas do PDF não encontrada');
+    }
+
+    const { pageRef, page, inherited } = this.findLastPage(pagesRef);
+    const mediaBox = this.toNumbers(page.get('MediaBox') ?? inherited.get('MediaBox')) || [0, 0, PdfWriter.PAGE_WIDTH, PdfWriter.PAGE_HEIGHT];
+
+    // Novos objetos: imagem, fonte, conteúdo antes/depois do original e registro da assinatura
+    let nextNumber = Math.max(Number(sizeMatch?.[1] || 0), Math.max(0, ...this.offsets.keys()) + 1);
+    const newObjects: Array<{ num: number; gen: number; body: string }> = [];
+    const addObject = (body: string) => {
+      newObjects.push({ num: nextNumber, gen: 0, body });
+      return new PdfRef(nextNumber++, 0);
+    };
+
+    const { signature } = options;
+    const maskData = PdfWriter.bytesToBinary(signature.data);
+    const imageRef = addObject(
+      `<< /Type /XObject /Subtype /Image /Width ${signature.width} /Height ${signature.height} ` +
+      `/ImageMask true /BitsPerComponent 1 /Length ${maskData.length} >>\nstream\n${maskData}\nendstream`
+    );
+    const fontRef = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+
+    // Salva o estado gráfico antes do conteúdo original, para o carimbo não herdar transformações
+    const saveStateRef = addObject('<< /Length 1 >>\nstream\nq\nendstream');
+    const stampContent = this.buildStampContent(mediaBox, signature, options.lines);
+    const stampRef = addObject(`<< /Length ${stampContent.length} >>\nstream\n${stampContent}\nendstream`);
+
+    const certificateHex = Array.from(
+      new TextEncoder().encode(JSON.stringify(options.certificate)),
+      byte => byte.toString(16).padStart(2, '0')
+    ).join('');
+    const certificateRef = addObject(`<< /Type /${PdfStamper.CERTIFICATE_KEY} /Data <${certificateHex}> >>`);
+
+    // Página atualizada: recursos com a imagem e a fonte, conteúdo com o carimbo
+    const resources = this.cloneDict(this.resolve(page.get('Resources') ?? inherited.get('Resources') ?? new Map()));
+    const xObjects = this.cloneDict(this.resolve(resources.get('XObject') ?? new Map()));
+    const fonts = this.cloneDict(this.resolve(resources.get('Font') ?? new Map()));
+    xObjects.set('AdaSig', imageRef);
+    fonts.set('AdaSigF', fontRef);
+    resources.set('XObject', xObjects);
+    resources.set('Font', fonts);
+
+    const contents = page.get('Contents');
+    const resolvedContents = contents instanceof PdfRef ? this.resolve(contents) : contents;
+    const existingContents = Array.isArray(resolvedContents) ? resolvedContents : contents ? [contents] : [];
+
+    const updatedPage = this.cloneDict(page);
+    updatedPage.set('Resources', resources);
+    updatedPage.set('Contents', [saveStateRef, ...existingContents, stampRef]);
+    newObjects.unshift({ num: pageRef.num, gen: pageRef.gen, body: this.serialize(updatedPage) });
+
+    // Atualização incremental: objetos, tabela xref (uma subseção por objeto) e trailer
+    let output = '\n';
+    const entries = newObjects.map(object => {
+      const offset = this.source.length + output.length;
+      output += `${object.num} ${object.gen} obj\n${object.body}\nendobj\n`;
+      return { ...object, offset };
+    });
+
+    const xrefOffset = this.source.length + output.length;
+    output += 'xref\n';
+    entries.forEach(entry => {
+      output += `${entry.num} 1\n${String(entry.offset).padStart(10, '0')} ${String(entry.gen).padStart(5, '0')} n \n`;
+    });
+    output += `trailer\n<< /Size ${nextNumber} /Root ${rootMatch[1]} ${rootMatch[2]} R` +
+      `${infoMatch ? ` /Info ${infoMatch[1]} ${infoMatch[2]} R` : ''} /Prev ${startXref[1]} ` +
+      `/${PdfStamper.CERTIFICATE_KEY} ${certificateRef.num} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+
+  /**
+   * Quadro no canto inferior direito: assinatura em cima, identificação embaixo
+   */
+  private buildStampContent(mediaBox: number[], signature: InkMask, lines: string[]): string {
+    const [, y0, x1] = mediaBox;
+    const width = PdfStamper.STAMP_WIDTH;
+    const height = PdfStamper.STAMP_HEIGHT;
+    const x = x1 - PdfStamper.STAMP_MARGIN - width;
+    const y = y0 + PdfStamper.STAMP_MARGIN;
+    const padding = 8;
+    const textSize = PdfStamper.TEXT_SIZE;
+    const textHeight = lines.length * (textSize + 2) + padding;
+
+    // Assinatura proporcional, centralizada na área acima do texto
+    const areaWidth = width - padding * 2;
+    const areaHeight = height - textHeight - padding * 2;
+    const scale = Math.min(areaWidth / signature.width, areaHeight / signature.height);
+    const imageWidth = signature.width * scale;
+    const imageHeight = signature.height * scale;
+    const imageX = x + padding + (areaWidth - imageWidth) / 2;
+    const imageY = y + textHeight + padding + (areaHeight - imageHeight) / 2;
+
+    const operations = [
+      'Q',
+      `q 0.39 0.4 0.95 RG 0.75 w ${x.toFixed(2)} ${y.toFixed(2)} ${width} ${height} re S Q`,
+      `q 0.07 0.09 0.3 rg ${imageWidth.toFixed(2)} 0 0 ${imageHeight.toFixed(2)} ${imageX.toFixed(2)} ${imageY.toFixed(2)} cm /AdaSig Do Q`,
+      `q 0.75 G 0.5 w ${(x + padding).toFixed(2)} ${(y + textHeight).toFixed(2)} m ${(x + width - padding).toFixed(2)} ${(y + textHeight).toFixed(2)} l S Q`,
+    ];
+
+    lines.forEach((line, index) => {
+      const baseline = y + textHeight - padding / 2 - (index + 1) * (textSize + 2) + 2;
+      operations.push(
+        `BT 0.22 0.25 0.32 rg /AdaSigF ${textSize} Tf ${(x + padding).toFixed(2)} ${baseline.toFixed(2)} Td ` +
+        `(${PdfWriter.encodeText(line)}) Tj ET`
+      );
+    });
+
+    return operations.join('\n');
+  }
+
+  /**
+   * Última folha da árvore de páginas, com os atributos herdáveis dos nós ancestrais
+   */
+  private findLastPage(pagesRef: PdfRef): { pageRef: PdfRef; page: PdfDict; inherited: PdfDict } {
+    const inherited: PdfDict = new Map();
+    let ref = pagesRef;
+
+    for (let depth = 0; depth < 64; depth++) {
+      const node = this.resolve(ref);
+      if (!(node instanceof Map)) break;
+
+      const type = node.get('Type');
+      if (type instanceof PdfName && type.name === 'Page') {
+        return { pageRef: ref, page: node, inherited };
+      }
+
+      ['Resources', 'MediaBox'].forEach(key => {
+        if (node.has(key)) inherited.set(key, node.get(key)!);
+      });
+
+      const kids = this.resolve(node.get('Kids') ?? null);
+      const lastKid = Array.isArray(kids) ? kids[kids.length - 1] : undefined;
+      if (!(lastKid instanceof PdfRef)) break;
+      ref = lastKid;
+    }
+
+    throw new Error('Última página do PDF não encontrada');
+  }
+
+  private resolve(value: PdfValue): PdfValue {
+    if (!(value instanceof PdfRef)) {
+      return value;
+    }
+
+    const offset = this.offsets.get(value.num);
+    if (offset !== undefined) {
+      return new PdfParser(this.source, offset).parseValue();
+    }
+
+    const compressed = this.getCompressedObjects().get(value.num);
+    if (compressed === undefined) {
+      throw new Error('Objeto do PDF não encontrado');
+    }
+    return compressed;
+  }
+
+  /**
+   * Objetos guardados em object streams (PDF 1.5+), lidos na primeira necessidade
+   */
+  private getCompressedObjects(): Map<number, PdfValue> {
+    if (this.compressed) {
+      return this.compressed;
+    }
+
+    this.compressed = new Map();
+    for (const [, offset] of this.offsets) {
+      if (!this.source.slice(offset, offset + 512).includes('/ObjStm')) {
+        continue;
+      }
+
+      const parser = new PdfParser(this.source, offset);
+      const dict = parser.parseValue();
+      const type = dict instanceof Map ? dict.get('Type') : undefined;
+      if (!(dict instanceof Map) || !(type instanceof PdfName) || type.name !== 'ObjStm') {
+        continue;
+      }
+
+      const filter = dict.get('Filter');
+      if (filter !== undefined && !(filter instanceof PdfName && filter.name === 'FlateDecode')) {
+        throw new Error('Compactação do PDF não suportada para o carimbo da assinatura');
+      }
+
+      const length = this.resolve(dict.get('Length') ?? 0);
+      parser.skipWhitespace();
+      const start = this.source.indexOf('\n', parser.pos) + 1; // Após a palavra-chave "stream" e o fim de linha
+      const data = PdfWriter.binaryToBytes(this.source.slice(start, start + Number(length)));
+      const content = PdfWriter.bytesToBinary(filter ? inflateZlib(data) : data);
+
+      // Cabeçalho: pares "número deslocamento"; deslocamentos relativos a /First
+      const count = Number(dict.get('N'));
+      const first = Number(dict.get('First'));
+      const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count; i++) {
+        if (!this.offsets.has(header[i * 2])) {
+          this.compressed.set(header[i * 2], new PdfParser(content, first + header[i * 2 + 1]).parseValue());
+        }
+      }
+    }
+
+    return this.compressed;
+  }
+
+  private cloneDict(value: PdfValue): PdfDict {
+    return value instanceof Map ? new Map(value) : new Map();
+  }
+
+  private toNumbers(value: PdfValue | undefined): number[] | null {
+    const resolved = value === undefined ? undefined : this.resolve(value);
+    return Array.isArray(resolved) && resolved.length === 4 && resolved.every(item => typeof item === 'number')
+      ? resolved as number[]
+      : null;
+  }
+
+  private lastMatch(pattern: RegExp): RegExpMatchArray | null {
+    const matches = [...this.source.matchAll(pattern)];
+    return matches[matches.length - 1] || null;
+  }
+
+  private serialize(value: PdfValue): string {
+    if (value === null) return 'null';
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (value instanceof PdfName) return `/${value.name}`;
+    if (value instanceof PdfRef) return `${value.num} ${value.gen} R`;
+    if (value instanceof PdfRaw) return value.source;
+    if (Array.isArray(value)) return `[${value.map(item => this.serialize(item)).join(' ')}]`;
+    return `<< ${[...value].map(([key, item]) => `/${key} ${this.serialize(item)}`).join(' ')} >>`;
+  }
+}
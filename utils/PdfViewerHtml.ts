@@ -0,0 +1,225 @@
+/**
+ * PdfViewerHtml - Página HTML do visualizador de PDF embutido
+ *
+ * Renderiza o documento com o pdf.js dentro de uma WebView (nativo) ou iframe (web).
+ * A página recebe comandos e informa o andamento da leitura por postMessage (JSON):
+ * - Comandos: { type: 'zoom', zoom } e { type: 'page', page }
+ * - Eventos: { type: 'loaded', pageCount }, { type: 'progress', page, pageCount, reachedEnd }
+ *   e { type: 'error', message }
+ *
+ * reachedEnd passa a true quando o leitor rola até o fim do documento (e não volta a false).
+ *
+ * A página só carrega scripts do pdf.js e não pode abrir conexões (Content-Security-Policy):
+ * o conteúdo do documento não sai do dispositivo. Sem acesso ao CDN, a página informa o erro
+ * e o visualizador oferece a leitura fora do app (ver DocumentViewer).
+ *
+ * Os scripts do CDN são fixados por hash (Subresource Integrity): um arquivo alterado não é
+ * executado. O worker também é carregado por <script>, pois importScripts não aceita integrity;
+ * com o pdfjsWorker global, o pdf.js processa o documento na própria página.
+ */
+
+const PDFJS_VERSION = '3.11.174';
+const PDFJS_ORIGIN = 'https://cdnjs.cloudflare.com';
+const PDFJS_BASE_URL = `${PDFJS_ORIGIN}/ajax/libs/pdf.js/${PDFJS_VERSION}`;
+
+// Hashes SHA-512 dos arquivos publicados (iguais aos de pdfjs-dist@3.11.174/build no npm)
+const PDFJS_INTEGRITY = {
+  lib: 'sha512-q+4liFwdPC/bNdhUpZx6aXDx/h77yEQtn4I1slHydcbZK34nLaR3cAeYSJshoxIOq3mjEf7xJE8YWIUHMn+oCQ==',
+  worker: 'sha512-BbrZ76UNZq5BhH7LL7pn9A4TKQpQeNCHOo65/akfelcIBbcVvYWOFQKPXIrykE3qZxYjmDX573oa4Ywsc7rpTw=='
+};
+
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  `script-src 'unsafe-inline' 'unsafe-eval' ${PDFJS_ORIGIN}`,
+  "style-src 'unsafe-inline'",
+  'img-src data: blob:',
+  'font-src data:',
+  "connect-src 'none'",
+  "form-action 'none'",
+].join('; ');
+
+/**
+ * Comando enviado do app para a página do visualizador
+ */
+export type PdfViewerCommand =
+  | { type: 'zoom'; zoom: number }
+  | { type: 'page'; page: number };
+
+/**
+ * Evento enviado pela página do visualizador para o app
+ */
+export type PdfViewerEvent =
+  | { type: 'loaded'; pageCount: number }
+  | { type: 'progress'; page: number; pageCount: number; reachedEnd: boolean }
+  | { type: 'error'; message: string };
+
+/**
+ * Monta a página do visualizador com o PDF embutido
+ * @param base64 - Conteúdo do PDF em base64
+ */
+export const buildPdfViewerHtml = (base64: string): string => `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no">
+<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">
+<style>
+  html, body { margin: 0; padding: 0; background: #e5e7eb; }
+  #pages { padding: 12px 0; min-width: 100%; display: inline-block; }
+  .page { display: block; margin: 0 auto 12px; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.2); }
+  #status { font: 14px sans-serif; color: #374151; text-align: center; padding: 32px 16px; }
+</style>
+<script src="${PDFJS_BASE_URL}/pdf.min.js" integrity="${PDFJS_INTEGRITY.lib}" crossorigin="anonymous"></script>
+<script src="${PDFJS_BASE_URL}/pdf.worker.min.js" integrity="${PDFJS_INTEGRITY.worker}" crossorigin="anonymous"></script>
+</head>
+<body>
+<div id="status">Carregando documento...</div>
+<div id="pages"></div>
+<script>
+(function () {
+  var DATA = '${base64}';
+  var GAP = 12;
+  var container = document.getElementById('pages');
+  var status = document.getElementById('status');
+  var pdfPages = [];
+  var canvases = [];
+  var zoom = 1;
+  var reachedEnd = false;
+  var renderToken = 0;
+  var scheduled = false;
+
+  function send(message) {
+    var target = window.ReactNativeWebView || window.parent;
+    target.postMessage(JSON.stringify(message), '*');
+  }
+
+  function fail(message) {
+    status.style.display = 'block';
+    status.textContent = message;
+    send({ type: 'error', message: message });
+  }
+
+  function toBytes(base64) {
+    var binary = atob(base64);
+    var bytes = new Uint8Array(binary.length);
+    for (var i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+
+  function currentPage() {
+    var middle = window.scrollY + window.innerHeight / 2;
+    for (var i = 0; i < canvases.length; i++) {
+      if (canvases[i].offsetTop + canvases[i].offsetHeight + GAP >= middle) return i + 1;
+    }
+    return canvases.length;
+  }
+
+  function report() {
+    scheduled = false;
+    if (!canvases.length) return;
+    var bottom = window.scrollY + window.innerHeight;
+    if (bottom >= document.documentElement.scrollHeight - GAP * 2) reachedEnd = true;
+    send({ type: 'progress', page: currentPage(), pageCount: canvases.length, reachedEnd: reachedEnd });
+  }
+
+  function scheduleReport() {
+    if (scheduled) return;
+    scheduled = true;
+    window.requestAnimationFrame(report);
+  }
+
+  // Dimensiona todas as páginas antes de desenhar, para a rolagem refletir o documento inteiro
+  function render() {
+    var token = ++renderToken;
+    var anchor = canvases.length ? currentPage() : 1;
+    var anchorCanvas = canvases[anchor - 1];
+    var fraction = anchorCanvas ? (window.scrollY - anchorCanvas.offsetTop) / anchorCanvas.offsetHeight : 0;
+    var width = document.documentElement.clientWidth - GAP * 2;
+    var ratio = window.devicePixelRatio || 1;
+
+    container.innerHTML = '';
+    canvases = pdfPages.map(function (page) {
+      var scale = (width / page.getViewport({ scale: 1 }).width) * zoom;
+      var viewport = page.getViewport({ scale: scale });
+      var canvas = document.createElement('canvas');
+      canvas.className = 'page';
+      canvas.width = Math.floor(viewport.width * ratio);
+      canvas.height = Math.floor(viewport.height * ratio);
+      canvas.style.width = Math.floor(viewport.width) + 'px';
+      canvas.style.height = Math.floor(viewport.height) + 'px';
+      canvas.viewport = viewport;
+      container.appendChild(canvas);
+      return canvas;
+    });
+
+    var target = canvases[anchor - 1];
+    window.scrollTo(window.scrollX, target ? target.offsetTop + fraction * target.offsetHeight : 0);
+    scheduleReport();
+
+    pdfPages.reduce(function (chain, page, index) {
+      return chain.then(function () {
+        if (token !== renderToken) return;
+        var canvas = canvases[index];
+        return page.render({
+          canvasContext: canvas.getContext('2d'),
+          viewport: canvas.viewport,
+          transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : null
+        }).promise;
+      });
+    }, Promise.resolve()).catch(function () {
+      fail('Não foi possível exibir todas as páginas do documento.');
+    });
+  }
+
+  function onCommand(event) {
+    var command;
+    try {
+      command = typeof event.data === 'string' ? JSON.parse(event.data) : event.data;
+    } catch (error) {
+      return;
+    }
+    if (!command || !pdfPages.length) return;
+
+    if (command.type === 'zoom') {
+      zoom = Math.min(Math.max(command.zoom, 0.5), 3);
+      render();
+    } else if (command.type === 'page') {
+      var canvas = canvases[Math.min(Math.max(command.page, 1), canvases.length) - 1];
+      window.scrollTo(window.scrollX, canvas.offsetTop - GAP);
+    }
+  }
+
+  window.addEventListener('message', onCommand);
+  document.addEventListener('message', onCommand); // Android (react-native-webview)
+  window.addEventListener('scroll', scheduleReport);
+  window.addEventListener('resize', function () { if (pdfPages.length) render(); });
+
+  if (!window.pdfjsLib || !window.pdfjsWorker) {
+    fail('Não foi possível carregar o visualizador de PDF. Verifique sua conexão.');
+    return;
+  }
+
+  pdfjsLib.getDocument({ data: toBytes(DATA) }).promise
+    .then(function (pdf) {
+      var numbers = [];
+      for (var n = 1; n <= pdf.numPages; n++) numbers.push(n);
+      return Promise.all(numbers.map(function (n) { return pdf.getPage(n); }));
+    })
+    .then(function (pages) {
+      pdfPages = pages;
+      status.style.display = 'none';
+      send({ type: 'loaded', pageCount: pages.length });
+      render();
+    })
+    .catch(function () {
+      fail('O arquivo não é um PDF válido ou está corrompido.');
+    });
+})();
+</script>
+</body>
+</html>`;
+
+// EXPANSÃO FUTURA:
+// - Empacotar o pdf.js no app para visualizar documentos sem conexão
+// - Zoom por gesto de pinça
+// - Busca de texto no documento
@@ -0,0 +1,328 @@
+/**
+ * PdfWriter - Geração de documentos PDF simples no próprio dispositivo
+ *
+ * Responsabilidades:
+ * - Diagramar texto em páginas A4 (títulos, parágrafos, listas, tabelas e linhas)
+ * - Quebrar linhas e páginas automaticamente, com rodapé "Página N de M"
+ * - Serializar o documento em PDF 1.4 (fontes padrão Helvetica, codificação WinAnsi)
+ *
+ * Não depende de bibliotecas nativas: funciona igual em Android, iOS e web.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: [number, number, number]; // RGB 0-1
+  align?: 'left' | 'center' | 'right';
+  indent?: number;
+  spacingAfter?: number;
+}
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  footer?: string; // Texto à esquerda do rodapé de todas as páginas
+}
+
+export class PdfWriter {
+  static readonly PAGE_WIDTH = 595.28; // A4 em pontos
+  static readonly PAGE_HEIGHT = 841.89;
+  static readonly MARGIN = 56;
+  private static readonly LINE_HEIGHT = 1.35;
+  private static readonly FOOTER_SIZE = 8;
+
+  // Larguras da Helvetica (1/1000 em) para os caracteres 32-126
+  private static readonly HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ];
+  private static readonly BOLD_FACTOR = 1.08; // A Helvetica-Bold é um pouco mais larga
+
+  // Caracteres fora do Latin-1 que existem na WinAnsiEncoding
+  private static readonly WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+    '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99
+  };
+
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private readonly info: PdfDocumentInfo = {}) {
+    this.addPage();
+  }
+
+  static get contentWidth(): number {
+    return this.PAGE_WIDTH - this.MARGIN * 2;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = PdfWriter.PAGE_HEIGHT - PdfWriter.MARGIN;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Texto com quebra de linha automática
+   */
+  text(text: string, options: PdfTextOptions = {}): void {
+    const font = options.font || 'regular';
+    const size = options.size || 10;
+    const indent = options.indent || 0;
+    const lineHeight = size * PdfWriter.LINE_HEIGHT;
+    const width = PdfWriter.contentWidth - indent;
+
+    const lines = text.split('\n').flatMap(paragraph => PdfWriter.wrap(paragraph, font, size, width));
+    lines.forEach(line => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      this.drawText(line, PdfWriter.MARGIN + indent, this.y + size * 0.25, font, size, options.color, options.align, width);
+    });
+
+    this.y -= options.spacingAfter ?? size * 0.4;
+  }
+
+  heading(text: string, level: 1 | 2 = 1): void {
+    this.space(level === 1 ? 6 : 4);
+    this.text(text, { font: 'bold', size: level === 1 ? 16 : 12, color: [0.39, 0.4, 0.95], spacingAfter: 6 });
+  }
+
+  bullet(text: string): void {
+    const size = 10;
+    this.ensureSpace(size * PdfWriter.LINE_HEIGHT);
+    this.drawText('•', PdfWriter.MARGIN + 4, this.y - size * PdfWriter.LINE_HEIGHT + size * 0.25, 'regular', size);
+    this.text(text, { indent: 16, spacingAfter: 2 });
+  }
+
+  /**
+   * Linha de tabela: colunas de mesma largura, exceto a primeira (descrição), mais larga;
+   * a última coluna é alinhada à direita
+   */
+  row(cells: string[], options: { font?: PdfFont; size?: number } = {}): void {
+    const font = options.font || 'regular';
+    const size = options.size || 9;
+    const gap = 6;
+    const firstWidth = PdfWriter.contentWidth * (cells.length > 2 ? 0.34 : cells.length === 2 ? 0.5 : 1);
+    const otherWidth = cells.length > 1 ? (PdfWriter.contentWidth - firstWidth) / (cells.length - 1) : 0;
+    const widths = cells.map((_, index) => (index === 0 ? firstWidth : otherWidth));
+
+    const wrapped = cells.map((cell, index) => PdfWriter.wrap(cell, font, size, widths[index] - gap));
+    const lineHeight = size * PdfWriter.LINE_HEIGHT;
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight;
+
+    this.ensureSpace(height + 4);
+    let x = PdfWriter.MARGIN;
+    wrapped.forEach((lines, index) => {
+      const align = index === cells.length - 1 && cells.length > 1 ? 'right' : 'left';
+      lines.forEach((line, lineIndex) => {
+        const baseline = this.y - (lineIndex + 1) * lineHeight + size * 0.25;
+        this.drawText(line, x, baseline, font, size, undefined, align, widths[index] - (align === 'right' ? 0 : gap));
+      });
+      x += widths[index];
+    });
+
+    this.y -= height + 2;
+    this.line(0.9);
+    this.y -= 2;
+  }
+
+  rule(): void {
+    this.space(4);
+    this.line(0.75);
+    this.space(8);
+  }
+
+  space(points: number): void {
+    this.y -= points;
+    if (this.y < PdfWriter.MARGIN) {
+      this.addPage();
+    }
+  }
+
+  /**
+   * Documento serializado (cada caractere da string é um byte)
+   */
+  toBinaryString(): string {
+    const objects: string[] = [];
+    const addObject = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject(''); // Preenchidos depois que as páginas existirem
+    const pagesId = addObject('');
+    const regularId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const infoId = addObject(`<< /Producer (ADA Company App)${
+      this.info.title ? ` /Title (${PdfWriter.encodeText(this.info.title)})` : ''
+    }${this.info.author ? ` /Author (${PdfWriter.encodeText(this.info.author)})` : ''} >>`);
+
+    const pageIds = this.pages.map((operations, index) => {
+      const content = [...operations, ...this.footerOperations(index)].join('\n');
+      const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PdfWriter.PAGE_WIDTH} ${PdfWriter.PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return output;
+  }
+
+  toBytes(): Uint8Array {
+    return PdfWriter.binaryToBytes(this.toBinaryString());
+  }
+
+  toBase64(): string {
+    return PdfWriter.bytesToBase64(this.toBytes());
+  }
+
+  /**
+   * Largura do texto em pontos
+   */
+  static measure(text: string, font: PdfFont, size: number): number {
+    let units = 0;
+    for (const char of text) {
+      const base = char.normalize('NFD')[0] || char; // Letras acentuadas têm a largura da letra base
+      const code = base.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? this.HELVETICA_WIDTHS[code - 32] : 556;
+    }
+    return (units * size * (font === 'bold' ? this.BOLD_FACTOR : 1)) / 1000;
+  }
+
+  static binaryToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+
+  static bytesToBinary(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+    }
+    return binary;
+  }
+
+  static bytesToBase64(bytes: Uint8Array): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    let output = '';
+    for (let i = 0; i < bytes.length; i += 3) {
+      const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+      output += alphabet[(chunk >> 18) & 63] + alphabet[(chunk >> 12) & 63];
+      output += i + 1 < bytes.length ? alphabet[(chunk >> 6) & 63] : '=';
+      output += i + 2 < bytes.length ? alphabet[chunk & 63] : '=';
+    }
+    return output;
+  }
+
+  static base64ToBytes(base64: string): Uint8Array {
+    return this.binaryToBytes(atob(base64));
+  }
+
+  /**
+   * Converte para WinAnsi e escapa para uma string literal do PDF
+   * Caracteres sem representação (ex: emojis) são omitidos
+   */
+  static encodeText(text: string): string {
+    let output = '';
+    for (const char of text.normalize('NFC')) {
+      const code = char.charCodeAt(0);
+      const byte = this.WIN_ANSI_EXTRAS[char] ?? (char.length === 1 && (code >= 32 && code <= 126 || code >= 160 && code <= 255) ? code : null);
+      if (byte === null) continue;
+      const encoded = String.fromCharCode(byte);
+      output += encoded === '\\' || encoded === '(' || encoded === ')' ? `\\${encoded}` : encoded;
+    }
+    return output;
+  }
+
+  private static wrap(text: string, font: PdfFont, size: number, width: number): string[] {
+    const words = text.split(/[^\S\u00a0]+/).filter(Boolean); // Espaço não separável não quebra linha
+    if (words.length === 0) {
+      return [''];
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    words.forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (!current || this.measure(candidate, font, size) <= width) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    });
+    lines.push(current);
+    return lines;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < PdfWriter.MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private line(gray: number): void {
+    const page = this.pages[this.pages.length - 1];
+    const right = PdfWriter.PAGE_WIDTH - PdfWriter.MARGIN;
+    page.push(`${gray} G 0.5 w ${PdfWriter.MARGIN} ${this.y.toFixed(2)} m ${right} ${this.y.toFixed(2)} l S`);
+  }
+
+  private drawText(
+    text: string,
+    x: number,
+    baseline: number,
+    font: PdfFont,
+    size: number,
+    color: [number, number, number] = [0.12, 0.16, 0.22],
+    align: 'left' | 'center' | 'right' = 'left',
+    width: number = PdfWriter.contentWidth
+  ): void {
+    const textWidth = PdfWriter.measure(text, font, size);
+    const offset = align === 'right' ? width - textWidth : align === 'center' ? (width - textWidth) / 2 : 0;
+    const page = this.pages[this.pages.length - 1];
+    page.push(
+      `BT ${color.join(' ')} rg /${font === 'bold' ? 'F2' : 'F1'} ${size} Tf ` +
+      `${(x + offset).toFixed(2)} ${baseline.toFixed(2)} Td (${PdfWriter.encodeText(text)}) Tj ET`
+    );
+  }
+
+  private footerOperations(pageIndex: number): string[] {
+    const size = PdfWriter.FOOTER_SIZE;
+    const y = PdfWriter.MARGIN / 2;
+    const label = `Página ${pageIndex + 1} de ${this.pages.length}`;
+    const labelX = PdfWriter.PAGE_WIDTH - PdfWriter.MARGIN - PdfWriter.measure(label, 'regular', size);
+    const operations = [`BT 0.42 0.45 0.5 rg /F1 ${size} Tf ${labelX.toFixed(2)} ${y} Td (${PdfWriter.encodeText(label)}) Tj ET`];
+
+    if (this.info.footer) {
+      operations.push(`BT 0.42 0.45 0.5 rg /F1 ${size} Tf ${PdfWriter.MARGIN} ${y} Td (${PdfWriter.encodeText(this.info.footer)}) Tj ET`);
+    }
+    return operations;
+  }
+}
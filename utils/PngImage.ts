@@ -0,0 +1,184 @@
+/**
+ * PngImage - Leitura de imagens PNG em TypeScript puro
+ *
+ * Responsabilidades:
+ * - Descompactar (inflate/zlib) e desfazer os filtros das linhas do PNG
+ * - Converter o traço da assinatura em uma máscara de 1 bit, recortada ao redor do traço,
+ *   pronta para ser desenhada em um PDF (/ImageMask)
+ *
+ * Suporta PNG de 8 bits por canal sem entrelaçamento (escala de cinza, RGB, com ou sem alfa),
+ * que é o formato exportado pelo canvas da tela de assinatura.
+ */
+
+import { inflateZlib } from './Inflate';
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+/**
+ * Máscara de 1 bit (linhas completadas até o byte): bit 0 = traço, 1 = fundo
+ */
+export interface InkMask {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export class PngImage {
+  private static readonly SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+  private constructor(
+    readonly width: number,
+    readonly height: number,
+    readonly channels: number,
+    readonly pixels: Uint8Array
+  ) {}
+
+  /**
+   * Lê uma imagem PNG
+   * @throws Error se o arquivo não for um PNG suportado
+   */
+  static decode(bytes: Uint8Array): PngImage {
+    if (!this.SIGNATURE.every((byte, index) => bytes[index] === byte)) {
+      throw new Error('A imagem não é um PNG válido');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const idat: Uint8Array[] = [];
+    let width = 0;
+    let height = 0;
+    let channels = 0;
+
+    for (let offset = 8; offset + 8 <= bytes.length;) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+      if (type === 'IHDR') {
+        width = view.getUint32(offset + 8);
+        height = view.getUint32(offset + 12);
+        const [bitDepth, colorType, , , interlace] = data.subarray(8, 13);
+        channels = CHANNELS_BY_COLOR_TYPE[colorType] || 0;
+        if (bitDepth !== 8 || !channels || interlace !== 0) {
+          throw new Error('Formato de PNG não suportado (use 8 bits por canal, sem paleta nem entrelaçamento)');
+        }
+      } else if (type === 'IDAT') {
+        idat.push(data);
+      } else if (type === 'IEND') {
+        break;
+      }
+      offset += 12 + length;
+    }
+
+    if (!width || !height || idat.length === 0) {
+      throw new Error('A imagem PNG está incompleta');
+    }
+
+    const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+    idat.reduce((position, chunk) => {
+      compressed.set(chunk, position);
+      return position + chunk.length;
+    }, 0);
+
+    const pixels = this.unfilter(inflateZlib(compressed), width, height, channels);
+    return new PngImage(width, height, channels, pixels);
+  }
+
+  /**
+   * Lê uma imagem em data URL (data:image/png;base64,...) ou base64 puro
+   */
+  static fromBase64(base64: string): PngImage {
+    const binary = atob(base64.replace(/^data:[^,]*,/, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return this.decode(bytes);
+  }
+
+  /**
+   * Traço da assinatura como máscara de 1 bit, recortada ao redor do traço
+   * (pixels opacos e escuros; em imagens sem alfa, apenas os escuros)
+   * @throws Error se a imagem não tiver nenhum traço
+   */
+  toInkMask(): InkMask {
+    const isInk = (x: number, y: number) => {
+      const index = (y * this.width + x) * this.channels;
+      const hasAlpha = this.channels === 2 || this.channels === 4;
+      const alpha = hasAlpha ? this.pixels[index + this.channels - 1] : 255;
+      const luminance = this.channels >= 3
+        ? (this.pixels[index] * 299 + this.pixels[index + 1] * 587 + this.pixels[index + 2] * 114) / 1000
+        : this.pixels[index];
+      return alpha >= 128 && luminance < 160;
+    };
+
+    let [left, top, right, bottom] = [this.width, this.height, -1, -1];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (isInk(x, y)) {
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+          top = Math.min(top, y);
+          bottom = Math.max(bottom, y);
+        }
+      }
+    }
+
+    if (right < 0) {
+      throw new Error('A assinatura está vazia');
+    }
+
+    const width = right - left + 1;
+    const height = bottom - top + 1;
+    const rowBytes = Math.ceil(width / 8);
+    const data = new Uint8Array(rowBytes * height).fill(0xff);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (isInk(left + x, top + y)) {
+          data[y * rowBytes + (x >> 3)] &= ~(0x80 >> (x & 7));
+        }
+      }
+    }
+
+    return { width, height, data };
+  }
+
+  /**
+   * Desfaz os filtros por linha do PNG (None, Sub, Up, Average, Paeth)
+   */
+  private static unfilter(data: Uint8Array, width: number, height: number, channels: number): Uint8Array {
+    const stride = width * channels;
+    const pixels = new Uint8Array(stride * height);
+
+    for (let y = 0; y < height; y++) {
+      const filter = data[y * (stride + 1)];
+      const source = y * (stride + 1) + 1;
+      const row = y * stride;
+
+      for (let x = 0; x < stride; x++) {
+        const left = x >= channels ? pixels[row + x - channels] : 0;
+        const up = y > 0 ? pixels[row - stride + x] : 0;
+        const upLeft = x >= channels && y > 0 ? pixels[row - stride + x - channels] : 0;
+        let predictor = 0;
+
+        switch (filter) {
+          case 0: predictor = 0; break;
+          case 1: predictor = left; break;
+          case 2: predictor = up; break;
+          case 3: predictor = (left + up) >> 1; break;
+          case 4: {
+            const estimate = left + up - upLeft;
+            const [distLeft, distUp, distUpLeft] = [estimate - left, estimate - up, estimate - upLeft].map(Math.abs);
+            predictor = distLeft <= distUp && distLeft <= distUpLeft ? left : distUp <= distUpLeft ? up : upLeft;
+            break;
+          }
+          default:
+            throw new Error('A imagem PNG está corrompida');
+        }
+
+        pixels[row + x] = (data[source + x] + predictor) & 0xff;
+      }
+    }
+
+    return pixels;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * TemplateEngine - Modelos de texto com marcações no estilo Mustache
+ *
+ * Sintaxe suportada:
+ * - {{campo}} e {{cliente.nome}}: valor do contexto (listas e objetos viram texto vazio)
+ * - {{#each itens}}...{{/each}}: repete o bloco; dentro dele, {{this}}, {{@number}} (1, 2, ...)
+ *   e os campos do item (com fallback para o contexto externo)
+ * - {{#if campo}}...{{else}}...{{/if}} e {{#unless campo}}...{{/unless}}
+ */
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'each'; path: string; body: TemplateNode[] }
+  | { kind: 'if'; path: string; negate: boolean; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'each' | 'if' }>;
+
+export class TemplateEngine {
+  private static readonly TAG = /\{\{\s*([#/@]?[\w.@]+|else)(?:\s+([\w.@]+))?\s*\}\}/g;
+
+  /**
+   * Preenche o modelo com os dados do contexto
+   * @throws Error se o modelo tiver blocos abertos/fechados incorretamente
+   */
+  static render(template: string, context: Record<string, unknown>): string {
+    return this.renderNodes(this.parse(template), [context]);
+  }
+
+  private static parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+    const current = () => {
+      const top = stack[stack.length - 1];
+      if (!top) return root;
+      return top.node.kind === 'if' && top.inElse ? top.node.elseBody : top.node.body;
+    };
+
+    let lastIndex = 0;
+    for (const match of template.matchAll(this.TAG)) {
+      if (match.index! > lastIndex) {
+        current().push({ kind: 'text', value: template.slice(lastIndex, match.index) });
+      }
+      lastIndex = match.index! + match[0].length;
+
+      const [, tag, argument] = match;
+      if (tag === '#each' || tag === '#if' || tag === '#unless') {
+        if (!argument) {
+          throw new Error(`Bloco ${tag} sem campo no modelo`);
+        }
+        const node: BlockNode = tag === '#each'
+          ? { kind: 'each', path: argument, body: [] }
+          : { kind: 'if', path: argument, negate: tag === '#unless', body: [], elseBody: [] };
+        current().push(node);
+        stack.push({ node, inElse: false });
+      } else if (tag === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top || top.node.kind !== 'if') {
+          throw new Error('{{else}} fora de um bloco #if/#unless no modelo');
+        }
+        top.inElse = true;
+      } else if (tag.startsWith('/')) {
+        const top = stack.pop();
+        const expected = top ? (top.node.kind === 'each' ? 'each' : top.node.kind === 'if' && top.node.negate ? 'unless' : 'if') : null;
+        if (expected !== tag.slice(1)) {
+          throw new Error(`{{${tag}}} sem bloco correspondente no modelo`);
+        }
+      } else {
+        current().push({ kind: 'value', path: tag });
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new Error(`Bloco #${stack[stack.length - 1].node.kind} não fechado no modelo`);
+    }
+    if (lastIndex < template.length) {
+      root.push({ kind: 'text', value: template.slice(lastIndex) });
+    }
+    return root;
+  }
+
+  private static renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+    return nodes.map(node => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'value':
+          return this.format(this.lookup(node.path, scopes));
+        case 'each': {
+          const list = this.lookup(node.path, scopes);
+          if (!Array.isArray(list)) return '';
+          return list.map((item, index) => this.renderNodes(node.body, [...scopes, { '@number': index + 1 }, item])).join('');
+        }
+        case 'if': {
+          const value = this.lookup(node.path, scopes);
+          const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+          return this.renderNodes(truthy !== node.negate ? node.body : node.elseBody, scopes);
+        }
+      }
+    }).join('');
+  }
+
+  /**
+   * Procura o campo do escopo mais interno para o mais externo
+   */
+  private static lookup(path: string, scopes: unknown[]): unknown {
+    if (path === 'this') {
+      return scopes[scopes.length - 1];
+    }
+
+    const [head, ...rest] = path.split('.');
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        return rest.reduce<unknown>(
+          (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+          (scope as Record<string, unknown>)[head]
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Valores são inseridos em uma única linha (quebras de linha quebrariam a marcação do modelo)
+   */
+  private static format(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toLocaleDateString('pt-BR');
+    if (typeof value === 'object') return '';
+    return String(value).replace(/\s*\n\s*/g, ' ');
+  }
+}
+
+// EXPANSÃO FUTURA:
+// - Filtros de formatação ({{valor | moeda}})
+// - Parciais reutilizáveis entre modelos
@@ -2,11 +2,11 @@
  * Utilitário para detectar automaticamente a URL da API
  * ✅ Funciona em qualquer máquina sem precisar configurar IP manualmente!
  * 
- * Estratégias (em ordem de prioridade):
- * 1. Variável de ambiente EXPO_PUBLIC_API_URL (se definida)
- * 2. Web: sempre usa localhost
- * 3. Mobile: tenta detectar IP do Expo ou usa duckdns.org
- * 4. Fallback para duckdns.org (funciona em qualquer rede se configurado)
+ * Ambientes disponíveis (selecionáveis na tela de configurações do desenvolvedor):
+ * - local: web usa localhost, mobile usa o IP do Expo
+ * - staging: variável de ambiente EXPO_PUBLIC_STAGING_API_URL
+ * - production: duckdns.org (padrão)
+ * - custom: URL informada manualmente ou EXPO_PUBLIC_API_URL (se definida)
  */
 
 import { Platform } from 'react-native';
@@ -37,14 +37,75 @@ const getExpoIP = (): string | null => {
 };
 
 
+export type ApiEnvironmentId = 'local' | 'staging' | 'production' | 'custom';
+
+export interface ApiEnvironment {
+  id: ApiEnvironmentId;
+  label: string;
+  description: string;
+}
+
+// URL do backend em produção (sem barra final, para evitar duplicidade como //auth)
+// Usa /api e não /api/mobile porque apenas o LighthouseController usa o prefixo mobile
+const PRODUCTION_API_URL = 'http://adacompany.duckdns.org/api';
+
+// Porta do backend rodando na máquina de desenvolvimento
+const LOCAL_API_PORT = 3000;
+
+export const API_ENVIRONMENTS: ApiEnvironment[] = [
+  { id: 'local', label: 'Local', description: 'Backend na máquina de desenvolvimento' },
+  { id: 'staging', label: 'Homologação', description: 'Definida por EXPO_PUBLIC_STAGING_API_URL' },
+  { id: 'production', label: 'Produção', description: PRODUCTION_API_URL },
+  { id: 'custom', label: 'Personalizado', description: 'URL informada manualmente' },
+];
+
+/**
+ * Remove barras finais para manter o padrão `${baseURL}${endpoint}`
+ */
+export const normalizeApiUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Valida o formato de uma URL de API (http/https com host)
+ */
+export const isValidApiUrl = (url: string): boolean => /^https?:\/\/[^\s/]+/i.test(url.trim());
+
+/**
+ * Resolve a URL base de um ambiente
+ * @param customUrl - URL usada pelo ambiente 'custom'
+ * @returns URL ou null se o ambiente não estiver configurado
+ */
+export const resolveEnvironmentUrl = (environment: ApiEnvironmentId, customUrl?: string | null): string | null => {
+  switch (environment) {
+    case 'local': {
+      // Web: localhost | Mobile: IP da máquina que roda o Expo
+      const host = Platform.OS === 'web' ? 'localhost' : (getExpoIP() || 'localhost');
+      return `http://${host}:${LOCAL_API_PORT}/api`;
+    }
+
+    case 'staging': {
+      const stagingUrl = process.env.EXPO_PUBLIC_STAGING_API_URL;
+      return stagingUrl ? normalizeApiUrl(stagingUrl) : null;
+    }
+
+    case 'production':
+      return PRODUCTION_API_URL;
+
+    case 'custom':
+      return customUrl && isValidApiUrl(customUrl) ? normalizeApiUrl(customUrl) : null;
+  }
+};
+
+/**
+ * Ambiente usado quando nada foi escolhido na tela de configurações
+ * (EXPO_PUBLIC_API_URL definida = ambiente personalizado)
+ */
+export const getDefaultEnvironment = (): ApiEnvironmentId => {
+  return process.env.EXPO_PUBLIC_API_URL ? 'custom' : 'production';
+};
+
 export const getApiBaseUrl = (): string => {
-  // FORÇAR NUVEM: Retorna direto a URL do seu backend
-  // Removi a barra final '/' para evitar duplicidade (ex: //auth)
-  // Mudado de /api/mobile para /api porque apenas o LighthouseController usa o prefixo mobile
-  const url = 'http://adacompany.duckdns.org/api';
-  
-  console.log('[API] URL Fixa (Nuvem):', url);
+  const url = resolveEnvironmentUrl(getDefaultEnvironment(), process.env.EXPO_PUBLIC_API_URL) || PRODUCTION_API_URL;
+
+  console.log('[API] URL inicial:', url);
   return url;
 };
-
-export const API_BASE_URL = getApiBaseUrl();
@@ -0,0 +1,61 @@
+/**
+ * Utilitários para leitura de tokens JWT
+ *
+ * Apenas decodifica o payload (sem validar a assinatura, que é
+ * responsabilidade do backend) para descobrir dados como a expiração.
+ */
+
+export interface JwtPayload {
+  exp?: number; // Expiração em segundos desde a época Unix
+  iat?: number;
+  sub?: string | number;
+  [claim: string]: any;
+}
+
+/**
+ * Decodifica um trecho base64url para texto UTF-8
+ */
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const binary = atob(padded);
+
+  // Converter bytes para UTF-8 (nomes com acento no payload)
+  const percentEncoded = Array.from(binary, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('');
+  return decodeURIComponent(percentEncoded);
+};
+
+/**
+ * Decodifica o payload de um token JWT
+ * @returns Payload ou null se o token estiver malformado
+ */
+export const decodeJwtPayload = (token: string): JwtPayload | null => {
+  try {
+    const [, payload] = token.split('.');
+    if (!payload) {
+      return null;
+    }
+    return JSON.parse(decodeBase64Url(payload));
+  } catch (error) {
+    console.warn('[JWT] Não foi possível decodificar o token:', error);
+    return null;
+  }
+};
+
+/**
+ * Obtém a data de expiração do token
+ * @returns Timestamp em milissegundos ou null se o token não expira / é inválido
+ */
+export const getJwtExpiry = (token: string): number | null => {
+  const payload = decodeJwtPayload(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+/**
+ * Verifica se o token já expirou (ou expira dentro da margem informada)
+ * @param marginMs - Antecedência em milissegundos
+ */
+export const isJwtExpired = (token: string, marginMs: number = 0): boolean => {
+  const expiry = getJwtExpiry(token);
+  return expiry !== null && expiry - marginMs <= Date.now();
+};
@@ -0,0 +1,105 @@
+/**
+ * ActivityFeed - Feed de atividades (histórico) de uma solicitação para React Native
+ *
+ * Responsabilidades:
+ * - Listar os eventos de auditoria em ordem cronológica
+ * - Exibir autor, data/hora e observação de cada evento
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { RequestHistoryModel, type RequestHistoryEvent } from '../../models';
+
+interface ActivityFeedProps {
+  events: RequestHistoryEvent[];
+}
+
+export const ActivityFeed: React.FC<ActivityFeedProps> = ({ events }) => {
+  const formatDate = (iso: string) => {
+    const date = new Date(iso);
+    return isNaN(date.getTime()) ? iso : date.toLocaleString('pt-BR');
+  };
+
+  const getRoleLabel = (role?: RequestHistoryEvent['actorRole']) => {
+    if (role === 'client') return 'Cliente';
+    if (role === 'employee') return 'Funcionário';
+    return 'Sistema';
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🗂️ Histórico de Atividades</Text>
+
+      {events.length === 0 ? (
+        <Text style={styles.emptyText}>Nenhuma atividade registrada ainda.</Text>
+      ) : (
+        // Mais recentes primeiro
+        [...events].reverse().map((event, index) => (
+          <View key={event.id ?? `${event.createdAt}-${index}`} style={styles.eventRow}>
+            <Text style={styles.eventIcon}>{RequestHistoryModel.getEventIcon(event.type)}</Text>
+            <View style={styles.eventInfo}>
+              <Text style={styles.eventDescription}>{RequestHistoryModel.describeEvent(event)}</Text>
+              <Text style={styles.eventMeta}>
+                {event.actorName} ({getRoleLabel(event.actorRole)}) • {formatDate(event.createdAt)}
+              </Text>
+              {event.note && <Text style={styles.eventNote}>📝 {event.note}</Text>}
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  eventRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  eventIcon: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  eventInfo: {
+    flex: 1,
+  },
+  eventDescription: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  eventNote: {
+    fontSize: 12,
+    color: '#4b5563',
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,484 @@
+/**
+ * DocumentViewer - Visualizador de documentos PDF dentro do app (React Native)
+ *
+ * Exibe as páginas do orçamento/contrato com zoom, navegação entre páginas,
+ * download e compartilhamento. Informa quando o leitor rolou até o fim do documento,
+ * para liberar ações que exigem a leitura (aprovar orçamento, assinar contrato).
+ *
+ * Se o visualizador não carregar (ex: sem conexão), o documento pode ser lido fora do app:
+ * depois de baixá-lo ou compartilhá-lo, o leitor confirma a leitura para liberar as ações.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  SafeAreaView,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { WebView, type WebViewMessageEvent } from 'react-native-webview';
+import { DocumentModel, type LoadedDocument } from '../../models';
+import { PdfWriter } from '../../utils/PdfWriter';
+import { buildPdfViewerHtml, type PdfViewerCommand, type PdfViewerEvent } from '../../utils/PdfViewerHtml';
+
+interface DocumentViewerProps {
+  visible: boolean;
+  title: string;
+  loadDocument: () => Promise<LoadedDocument>;
+  onClose: () => void;
+  onReadToEnd?: () => void; // Chamado uma vez, quando o leitor chega ao fim do documento
+  readingHint?: string; // Aviso exibido até o fim do documento (ex: "role até o fim para aprovar")
+}
+
+const ZOOM_STEPS = [0.75, 1, 1.25, 1.5, 2, 3];
+const VIEWER_LOAD_TIMEOUT_MS = 15000;
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({
+  visible,
+  title,
+  loadDocument,
+  onClose,
+  onReadToEnd,
+  readingHint,
+}) => {
+  const webViewRef = useRef<WebView>(null);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [document, setDocument] = useState<LoadedDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_STEPS.indexOf(1));
+  const [reachedEnd, setReachedEnd] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [openedExternally, setOpenedExternally] = useState(false); // Baixado/compartilhado para leitura fora do app
+  const viewerLoadedRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setDocument(null);
+    setError(null);
+    setPage(1);
+    setPageCount(0);
+    setZoomIndex(ZOOM_STEPS.indexOf(1));
+    setReachedEnd(false);
+    setOpenedExternally(false);
+    viewerLoadedRef.current = false;
+
+    loadDocument()
+      .then((loaded) => !cancelled && setDocument(loaded))
+      .catch((loadError) => {
+        console.error('[DocumentViewer] Erro ao abrir documento:', loadError);
+        if (!cancelled) {
+          setError(loadError instanceof Error ? loadError.message : 'Não foi possível abrir o documento');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible]);
+
+  const html = useMemo(
+    () => (document ? buildPdfViewerHtml(PdfWriter.bytesToBase64(document.bytes)) : ''),
+    [document]
+  );
+
+  // O pdf.js vem do CDN: sem resposta a tempo, o documento é oferecido para leitura fora do app
+  useEffect(() => {
+    if (!html) return;
+
+    const timer = setTimeout(() => {
+      if (!viewerLoadedRef.current) {
+        setError('Não foi possível carregar o visualizador. Verifique sua conexão.');
+      }
+    }, VIEWER_LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [html]);
+
+  const handleViewerEvent = (data: string) => {
+    let event: PdfViewerEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (event.type === 'loaded') {
+      viewerLoadedRef.current = true;
+      setPageCount(event.pageCount);
+    } else if (event.type === 'progress') {
+      setPage(event.page);
+      setPageCount(event.pageCount);
+      if (event.reachedEnd && !reachedEnd) {
+        setReachedEnd(true);
+        onReadToEnd?.();
+      }
+    } else if (event.type === 'error') {
+      setError(event.message);
+    }
+  };
+
+  // Na web, o visualizador roda em um iframe e se comunica pelo window.postMessage
+  useEffect(() => {
+    if (Platform.OS !== 'web' || !html) return;
+
+    const listener = (event: MessageEvent) => {
+      if (event.source === iframeRef.current?.contentWindow && typeof event.data === 'string') {
+        handleViewerEvent(event.data);
+      }
+    };
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  }, [html, reachedEnd]);
+
+  const sendCommand = (command: PdfViewerCommand) => {
+    const message = JSON.stringify(command);
+    if (Platform.OS === 'web') {
+      iframeRef.current?.contentWindow?.postMessage(message, '*');
+    } else {
+      webViewRef.current?.postMessage(message);
+    }
+  };
+
+  const handleZoom = (direction: 1 | -1) => {
+    const next = Math.min(Math.max(zoomIndex + direction, 0), ZOOM_STEPS.length - 1);
+    setZoomIndex(next);
+    sendCommand({ type: 'zoom', zoom: ZOOM_STEPS[next] });
+  };
+
+  const handleGoToPage = (target: number) => {
+    if (target < 1 || target > pageCount) return;
+    sendCommand({ type: 'page', page: target });
+  };
+
+  const handleDownload = async () => {
+    if (!document) return;
+    setIsBusy(true);
+    const result = await DocumentModel.download(document);
+    setIsBusy(false);
+
+    if (result.success) {
+      setOpenedExternally(true);
+      Alert.alert('Documento salvo', `${document.name} foi salvo em ${result.data}.`);
+    } else {
+      Alert.alert('Erro', result.error || 'Não foi possível baixar o documento.');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!document) return;
+    setIsBusy(true);
+    const result = await DocumentModel.share(document);
+    setIsBusy(false);
+
+    if (result.success) {
+      setOpenedExternally(true);
+    } else {
+      Alert.alert('Compartilhar', result.error || 'Não foi possível compartilhar o documento.');
+    }
+  };
+
+  const handleConfirmReading = () => {
+    if (reachedEnd) return;
+    setReachedEnd(true);
+    onReadToEnd?.();
+  };
+
+  const renderDocument = () => {
+    if (error) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>❌ {error}</Text>
+          {document && (
+            <Text style={styles.fallbackText}>
+              Use os botões ⬇️ Baixar ou 📤 Compartilhar abaixo para ler o documento fora do app.
+            </Text>
+          )}
+          {document && onReadToEnd && !reachedEnd && (
+            <TouchableOpacity
+              style={[styles.confirmReadingButton, !openedExternally && styles.confirmReadingButtonDisabled]}
+              onPress={handleConfirmReading}
+              disabled={!openedExternally}
+              accessibilityState={{ disabled: !openedExternally }}
+            >
+              <Text style={styles.confirmReadingButtonText}>✅ Li o documento até o fim</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    if (!document) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#6366f1" />
+          <Text style={styles.loadingText}>Carregando documento...</Text>
+        </View>
+      );
+    }
+
+    if (Platform.OS === 'web') {
+      // Sem allow-same-origin: a página roda em origem opaca, sem acesso ao app nem ao armazenamento dele
+      return (
+        <iframe
+          ref={iframeRef}
+          srcDoc={html}
+          sandbox="allow-scripts"
+          title={title}
+          style={{ border: 0, width: '100%', height: '100%' }}
+        />
+      );
+    }
+
+    return (
+      <WebView
+        ref={webViewRef}
+        source={{ html }}
+        originWhitelist={['*']}
+        onShouldStartLoadWithRequest={(navigation) => navigation.url === 'about:blank'} // A página não sai do documento
+        onMessage={(event: WebViewMessageEvent) => handleViewerEvent(event.nativeEvent.data)}
+        style={styles.webView}
+      />
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerText}>
+            <Text style={styles.title} numberOfLines={1}>{title}</Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {document?.name || ' '}
+              {document?.preview ? ' · pré-visualização gerada do modelo' : ''}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} accessibilityLabel="Fechar documento">
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        {readingHint && document && (!error || reachedEnd) && (
+          <View style={[styles.readingBanner, reachedEnd && styles.readingBannerDone]}>
+            <Text style={[styles.readingText, reachedEnd && styles.readingTextDone]}>
+              {reachedEnd ? '✅ Documento lido até o fim' : `📖 ${readingHint}`}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.documentContainer}>{renderDocument()}</View>
+
+        <View style={styles.toolbar}>
+          <View style={styles.toolbarGroup}>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={() => handleGoToPage(page - 1)}
+              disabled={!pageCount || page <= 1}
+              accessibilityLabel="Página anterior"
+            >
+              <Text style={styles.toolButtonText}>‹</Text>
+            </TouchableOpacity>
+            <Text style={styles.toolbarLabel}>{pageCount ? `${page} / ${pageCount}` : '-'}</Text>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={() => handleGoToPage(page + 1)}
+              disabled={!pageCount || page >= pageCount}
+              accessibilityLabel="Próxima página"
+            >
+              <Text style={styles.toolButtonText}>›</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.toolbarGroup}>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={() => handleZoom(-1)}
+              disabled={!pageCount || zoomIndex === 0}
+              accessibilityLabel="Diminuir zoom"
+            >
+              <Text style={styles.toolButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.toolbarLabel}>{Math.round(ZOOM_STEPS[zoomIndex] * 100)}%</Text>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={() => handleZoom(1)}
+              disabled={!pageCount || zoomIndex === ZOOM_STEPS.length - 1}
+              accessibilityLabel="Aumentar zoom"
+            >
+              <Text style={styles.toolButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.toolbarGroup}>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={handleDownload}
+              disabled={!document || isBusy}
+              accessibilityLabel="Baixar documento"
+            >
+              <Text style={styles.toolButtonText}>⬇️</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.toolButton}
+              onPress={handleShare}
+              disabled={!document || isBusy}
+              accessibilityLabel="Compartilhar documento"
+            >
+              <Text style={styles.toolButtonText}>📤</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 12,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: '#4b5563',
+    fontWeight: 'bold',
+  },
+  readingBanner: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: '#fef3c7',
+  },
+  readingBannerDone: {
+    backgroundColor: '#d1fae5',
+  },
+  readingText: {
+    fontSize: 13,
+    color: '#92400e',
+    textAlign: 'center',
+  },
+  readingTextDone: {
+    color: '#065f46',
+  },
+  documentContainer: {
+    flex: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#e5e7eb',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#6b7280',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#dc2626',
+    textAlign: 'center',
+  },
+  fallbackText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#4b5563',
+    textAlign: 'center',
+  },
+  confirmReadingButton: {
+    marginTop: 16,
+    backgroundColor: '#10b981',
+    borderRadius: 10,
+    paddingHorizontal: 18,
+    paddingVertical: 12,
+  },
+  confirmReadingButtonDisabled: {
+    opacity: 0.5,
+  },
+  confirmReadingButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    backgroundColor: 'white',
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  toolbarGroup: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  toolButton: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 8,
+    backgroundColor: '#f3f4f6',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+  },
+  toolButtonText: {
+    fontSize: 18,
+    color: '#374151',
+    fontWeight: '600',
+  },
+  toolbarLabel: {
+    minWidth: 44,
+    textAlign: 'center',
+    fontSize: 13,
+    color: '#4b5563',
+  },
+});
@@ -0,0 +1,216 @@
+/**
+ * EvaluationHistory - Histórico de avaliações agrupado por site para React Native
+ *
+ * Responsabilidades:
+ * - Listar os sites avaliados com a nota mais recente
+ * - Exibir todas as avaliações de um site, das mais recentes para as mais antigas
+ * - Mostrar a evolução da nota e sinalizar regressões de auditorias
+ * - Reabrir uma avaliação antiga para seguir com a escolha do plano
+ * - Comparar uma avaliação com a anterior do mesmo site
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ScoreTrendChart } from './ScoreTrendChart.native';
+import {
+  EvaluationHistoryModel,
+  type EvaluationHistoryEntry,
+  type EvaluationSiteGroup,
+  type EvaluationTrendPoint,
+  type ProjectCompletionMarker
+} from '../../models';
+
+interface EvaluationHistoryProps {
+  groups: EvaluationSiteGroup[];
+  completions?: Record<string, ProjectCompletionMarker[]>; // Projetos concluídos por site
+  onReopen: (entry: EvaluationHistoryEntry) => void;
+  onCompare?: (previous: EvaluationHistoryEntry, current: EvaluationHistoryEntry) => void;
+}
+
+export const EvaluationHistory: React.FC<EvaluationHistoryProps> = ({ groups, completions = {}, onReopen, onCompare }) => {
+  const [selectedSite, setSelectedSite] = useState<string | null>(null);
+  const selectedGroup = groups.find(group => group.site === selectedSite);
+
+  // Regressões de cada avaliação (a evolução é calculada em ordem cronológica)
+  const getRegressions = (trend: EvaluationTrendPoint[]) => {
+    return new Map(trend.map(point => [point.entry, point.regressions]));
+  };
+
+  const getScoreColor = (score: number) => {
+    if (score > 89) return '#10b981';
+    if (score > 69) return '#f59e0b';
+    return '#ef4444';
+  };
+
+  const formatDate = (date: Date) => {
+    return isNaN(date.getTime()) ? '-' : date.toLocaleString('pt-BR');
+  };
+
+  if (selectedGroup) {
+    const trend = EvaluationHistoryModel.getTrend(selectedGroup.evaluations);
+    const regressions = getRegressions(trend);
+
+    return (
+      <View style={styles.container}>
+        <TouchableOpacity onPress={() => setSelectedSite(null)} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Todos os sites</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>🌐 {selectedGroup.site}</Text>
+        {trend.length > 1 && (
+          <ScoreTrendChart points={trend} completions={completions[selectedGroup.site]} />
+        )}
+        <Text style={styles.hint}>💡 Toque em uma avaliação para reabri-la e escolher um plano</Text>
+
+        {selectedGroup.evaluations.map((entry, index) => (
+          <TouchableOpacity
+            key={entry.id ?? `${entry.evaluatedAt.getTime()}-${index}`}
+            style={styles.row}
+            onPress={() => onReopen(entry)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.score, { color: getScoreColor(entry.score) }]}>{entry.score}</Text>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>{formatDate(entry.evaluatedAt)}</Text>
+              <Text style={styles.rowMeta}>
+                {entry.pages ? `${entry.pages.length} página(s) • ` : ''}
+                {entry.issues.length} problema(s) • {entry.syncedAt ? '☁️ Sincronizada' : '⏳ Sincronização pendente'}
+              </Text>
+              {!!regressions.get(entry)?.length && (
+                <Text style={styles.regressionText}>
+                  ⚠️ Voltaram a reprovar: {regressions.get(entry)!.join(', ')}
+                </Text>
+              )}
+              {onCompare && index < selectedGroup.evaluations.length - 1 && (
+                <TouchableOpacity
+                  onPress={() => onCompare(selectedGroup.evaluations[index + 1], entry)}
+                  style={styles.compareButton}
+                >
+                  <Text style={styles.compareButtonText}>🔁 Comparar com a anterior</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.arrow}>→</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📊 Histórico de Avaliações</Text>
+
+      {groups.length === 0 ? (
+        <Text style={styles.emptyText}>Nenhuma avaliação realizada ainda.</Text>
+      ) : (
+        groups.map(group => {
+          const trend = EvaluationHistoryModel.getTrend(group.evaluations);
+          const latestRegressions = getRegressions(trend).get(group.latest) || [];
+
+          return (
+            <TouchableOpacity
+              key={group.site}
+              style={styles.row}
+              onPress={() => setSelectedSite(group.site)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.score, { color: getScoreColor(group.latest.score) }]}>{group.latest.score}</Text>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowTitle}>{group.site}</Text>
+                <Text style={styles.rowMeta}>
+                  {group.evaluations.length} avaliação(ões) • última em {formatDate(group.latest.evaluatedAt)}
+                </Text>
+                {latestRegressions.length > 0 && (
+                  <Text style={styles.regressionText}>⚠️ {latestRegressions.length} regressão(ões) na última avaliação</Text>
+                )}
+              </View>
+              <Text style={styles.arrow}>→</Text>
+            </TouchableOpacity>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  score: {
+    width: 44,
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  regressionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  compareButton: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+  },
+  compareButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6366f1',
+  },
+  arrow: {
+    fontSize: 18,
+    color: '#9ca3af',
+    marginLeft: 8,
+  },
+});
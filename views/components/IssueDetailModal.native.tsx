@@ -0,0 +1,207 @@
+/**
+ * IssueDetailModal - Detalhes de um problema encontrado na avaliação para React Native
+ *
+ * Responsabilidades:
+ * - Exibir a descrição completa da auditoria do Lighthouse
+ * - Listar os elementos afetados (seletor e trecho do HTML)
+ * - Mostrar o impacto, os critérios WCAG e os links da documentação
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Modal, Linking, Alert } from 'react-native';
+import { type EvaluationIssue, type IssueImpact } from '../../models';
+
+interface IssueDetailModalProps {
+  issue: EvaluationIssue | null;
+  onClose: () => void;
+}
+
+const IMPACT_CONFIG: Record<IssueImpact, { label: string; color: string }> = {
+  critical: { label: 'Crítico', color: '#b91c1c' },
+  serious: { label: 'Grave', color: '#ef4444' },
+  moderate: { label: 'Moderado', color: '#f59e0b' },
+  minor: { label: 'Leve', color: '#6b7280' },
+};
+
+export const IssueDetailModal: React.FC<IssueDetailModalProps> = ({ issue, onClose }) => {
+  const handleOpenLink = (url: string) => {
+    Linking.openURL(url).catch(() => {
+      Alert.alert('Erro', 'Não foi possível abrir o link da documentação.');
+    });
+  };
+
+  const hasDetails = !!issue && !!(issue.description || issue.nodes || issue.docLinks || issue.wcagCriteria);
+
+  return (
+    <Modal visible={!!issue} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{issue?.text}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Text style={styles.closeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {issue && (
+            <ScrollView contentContainerStyle={styles.content}>
+              <View style={styles.badges}>
+                {issue.impact && (
+                  <Text style={[styles.badge, { backgroundColor: IMPACT_CONFIG[issue.impact].color }]}>
+                    Impacto: {IMPACT_CONFIG[issue.impact].label}
+                  </Text>
+                )}
+                {issue.wcagCriteria?.map(criterion => (
+                  <Text key={criterion} style={[styles.badge, styles.wcagBadge]}>WCAG {criterion}</Text>
+                ))}
+              </View>
+
+              {issue.description && <Text style={styles.description}>{issue.description}</Text>}
+
+              {!hasDetails && (
+                <Text style={styles.emptyText}>Não há detalhes adicionais para este problema.</Text>
+              )}
+
+              {issue.nodes && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>🧩 Elementos afetados ({issue.nodes.length})</Text>
+                  {issue.nodes.map((node, index) => (
+                    <View key={`${node.selector}-${index}`} style={styles.node}>
+                      {node.label && <Text style={styles.nodeLabel}>{node.label}</Text>}
+                      {node.selector && <Text style={styles.code} selectable>{node.selector}</Text>}
+                      {node.snippet && <Text style={[styles.code, styles.snippet]} selectable>{node.snippet}</Text>}
+                      {node.explanation && <Text style={styles.nodeExplanation}>{node.explanation}</Text>}
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              {issue.docLinks && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>📚 Documentação</Text>
+                  {issue.docLinks.map(link => (
+                    <TouchableOpacity key={link.url} onPress={() => handleOpenLink(link.url)}>
+                      <Text style={styles.link}>{link.label} ↗</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  closeButton: {
+    marginLeft: 12,
+    padding: 4,
+  },
+  closeButtonText: {
+    fontSize: 18,
+    color: '#6b7280',
+  },
+  content: {
+    padding: 20,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  badge: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+    overflow: 'hidden',
+  },
+  wcagBadge: {
+    backgroundColor: '#6366f1',
+  },
+  description: {
+    fontSize: 14,
+    color: '#4b5563',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  node: {
+    backgroundColor: '#f9fafb',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  nodeLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 4,
+  },
+  code: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    color: '#4338ca',
+  },
+  snippet: {
+    color: '#374151',
+    marginTop: 4,
+  },
+  nodeExplanation: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6366f1',
+    paddingVertical: 4,
+  },
+});
+
+// EXPANSÃO FUTURA:
+// - Captura de tela do elemento afetado
+// - Copiar seletor para a área de transferência
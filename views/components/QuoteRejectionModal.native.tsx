@@ -0,0 +1,248 @@
+/**
+ * QuoteRejectionModal - Recusa do orçamento com motivo (React Native)
+ *
+ * O cliente escolhe o motivo (preço, escopo, prazo ou outro) e pode deixar um comentário,
+ * que orienta o funcionário na versão revisada do orçamento.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { QuoteRevisionModel, type QuoteRejectionInput, type QuoteRejectionReason } from '../../models';
+
+interface QuoteRejectionModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (rejection: QuoteRejectionInput) => Promise<void>;
+}
+
+const REASONS = Object.keys(QuoteRevisionModel.REJECTION_REASONS) as QuoteRejectionReason[];
+
+export const QuoteRejectionModal: React.FC<QuoteRejectionModalProps> = ({ visible, onClose, onSubmit }) => {
+  const [reason, setReason] = useState<QuoteRejectionReason | null>(null);
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setReason(null);
+      setComment('');
+      setError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      setError('Selecione o motivo da recusa');
+      return;
+    }
+
+    const input: QuoteRejectionInput = { reason, comment };
+    const validationError = QuoteRevisionModel.validateRejection(input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await onSubmit(input);
+      onClose();
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Erro ao recusar orçamento. Tente novamente.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Recusar Orçamento</Text>
+          <Text style={styles.subtitle}>
+            Conte o motivo para a equipe preparar uma versão revisada do orçamento.
+          </Text>
+
+          <View style={styles.reasons} accessibilityRole="radiogroup">
+            {REASONS.map((key) => {
+              const option = QuoteRevisionModel.REJECTION_REASONS[key];
+              const selected = reason === key;
+              return (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.reasonOption, selected && styles.reasonOptionSelected]}
+                  onPress={() => {
+                    setReason(key);
+                    setError(null);
+                  }}
+                  accessibilityRole="radio"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <Text style={[styles.reasonLabel, selected && styles.reasonLabelSelected]}>{option.label}</Text>
+                  <Text style={styles.reasonDescription}>{option.description}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={styles.commentLabel}>
+            Comentário {reason === 'other' ? '(obrigatório)' : '(opcional)'}
+          </Text>
+          <TextInput
+            style={styles.commentInput}
+            value={comment}
+            onChangeText={(text) => {
+              setComment(text);
+              setError(null);
+            }}
+            placeholder="Ex: gostaríamos de priorizar apenas os itens críticos"
+            placeholderTextColor="#9ca3af"
+            multiline
+            maxLength={QuoteRevisionModel.MAX_COMMENT_LENGTH}
+            editable={!isSaving}
+          />
+          <Text style={styles.counter}>{comment.length}/{QuoteRevisionModel.MAX_COMMENT_LENGTH}</Text>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose} disabled={isSaving}>
+              <Text style={styles.cancelButtonText}>Voltar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.rejectButton, isSaving && styles.buttonDisabled]}
+              onPress={handleSubmit}
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <ActivityIndicator color="white" />
+              ) : (
+                <Text style={styles.rejectButtonText}>Recusar Orçamento</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 6,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  reasons: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  reasonOption: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  reasonOptionSelected: {
+    borderColor: '#ef4444',
+    backgroundColor: '#fef2f2',
+  },
+  reasonLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  reasonLabelSelected: {
+    color: '#b91c1c',
+  },
+  reasonDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  commentLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 6,
+  },
+  commentInput: {
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    borderRadius: 10,
+    padding: 12,
+    minHeight: 80,
+    fontSize: 14,
+    color: '#1f2937',
+    textAlignVertical: 'top',
+  },
+  counter: {
+    fontSize: 11,
+    color: '#9ca3af',
+    textAlign: 'right',
+    marginTop: 4,
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#dc2626',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f3f4f6',
+  },
+  cancelButtonText: {
+    color: '#4b5563',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rejectButton: {
+    backgroundColor: '#ef4444',
+  },
+  rejectButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
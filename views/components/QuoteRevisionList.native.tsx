@@ -0,0 +1,128 @@
+/**
+ * QuoteRevisionList - Versões do orçamento e o desfecho de cada uma (React Native)
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { QuoteRevisionModel, type QuoteRevision, type QuoteRevisionOutcome } from '../../models';
+
+interface QuoteRevisionListProps {
+  revisions: QuoteRevision[];
+  viewer?: 'client' | 'employee'; // Ajusta o texto da versão aguardando resposta
+}
+
+const OUTCOME_LABELS: Record<QuoteRevisionOutcome, Record<'client' | 'employee', string>> = {
+  pending: { client: '⏳ Aguardando sua resposta', employee: '⏳ Aguardando o cliente' },
+  approved: { client: '✅ Aprovado', employee: '✅ Aprovado' },
+  rejected: { client: '❌ Recusado', employee: '❌ Recusado' },
+};
+
+const formatDate = (iso?: string) => (iso ? new Date(iso).toLocaleDateString('pt-BR') : '');
+
+export const QuoteRevisionList: React.FC<QuoteRevisionListProps> = ({ revisions, viewer = 'client' }) => {
+  if (revisions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🗂️ Versões do orçamento</Text>
+      {[...revisions].reverse().map((revision) => (
+        <View key={revision.version} style={styles.row}>
+          <View style={styles.header}>
+            <Text style={styles.version}>Versão {revision.version}</Text>
+            <View style={[styles.badge, styles[`badge_${revision.outcome}`]]}>
+              <Text style={[styles.badgeText, styles[`badgeText_${revision.outcome}`]]}>
+                {OUTCOME_LABELS[revision.outcome][viewer]}
+              </Text>
+            </View>
+          </View>
+
+          {(revision.file || revision.sentAt || revision.decidedAt) && (
+            <Text style={styles.details}>
+              {[
+                revision.file?.name,
+                revision.sentAt && `enviado em ${formatDate(revision.sentAt)}`,
+                revision.decidedAt && `respondido em ${formatDate(revision.decidedAt)}`,
+              ].filter(Boolean).join(' · ')}
+            </Text>
+          )}
+
+          {revision.rejection && (
+            <Text style={styles.rejection}>
+              {QuoteRevisionModel.describeRejection(revision.rejection)}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 12,
+    backgroundColor: '#f9fafb',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  row: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#e5e7eb',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  version: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  badge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  badge_pending: {
+    backgroundColor: '#fef3c7',
+  },
+  badge_approved: {
+    backgroundColor: '#d1fae5',
+  },
+  badge_rejected: {
+    backgroundColor: '#fee2e2',
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  badgeText_pending: {
+    color: '#92400e',
+  },
+  badgeText_approved: {
+    color: '#065f46',
+  },
+  badgeText_rejected: {
+    color: '#991b1b',
+  },
+  details: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  rejection: {
+    fontSize: 12,
+    color: '#991b1b',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * ScoreTrendChart - Gráfico da evolução da nota de acessibilidade de um site para React Native
+ *
+ * Responsabilidades:
+ * - Plotar a nota de cada avaliação ao longo do tempo
+ * - Marcar quando os projetos do site foram concluídos
+ * - Destacar as avaliações com regressões de auditorias
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+import { type EvaluationTrendPoint, type ProjectCompletionMarker } from '../../models';
+
+interface ScoreTrendChartProps {
+  points: EvaluationTrendPoint[]; // Ordem cronológica
+  completions?: ProjectCompletionMarker[];
+  height?: number;
+}
+
+const PADDING = { top: 16, right: 16, bottom: 24, left: 32 };
+const SCORE_LINES = [0, 50, 100];
+
+export const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({
+  points,
+  completions = [],
+  height = 180
+}) => {
+  const [width, setWidth] = useState(0);
+
+  const getScoreColor = (score: number) => {
+    if (score > 89) return '#10b981';
+    if (score > 69) return '#f59e0b';
+    return '#ef4444';
+  };
+
+  const formatShortDate = (date: Date) => {
+    return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  };
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  // Escala de tempo cobre avaliações e conclusões de projeto
+  const times = [
+    ...points.map(point => point.entry.evaluatedAt.getTime()),
+    ...completions.map(marker => marker.completedAt.getTime())
+  ];
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 0);
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const getX = (time: number) => {
+    if (maxTime === minTime) return PADDING.left + plotWidth / 2;
+    return PADDING.left + ((time - minTime) / (maxTime - minTime)) * plotWidth;
+  };
+
+  const getY = (score: number) => PADDING.top + (1 - score / 100) * plotHeight;
+
+  const hasRegressions = points.some(point => point.regressions.length > 0);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>📈 Evolução da Nota</Text>
+
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && points.length > 0 && (
+          <Svg width={width} height={height}>
+            {/* Linhas de referência */}
+            {SCORE_LINES.map(score => (
+              <React.Fragment key={score}>
+                <Line
+                  x1={PADDING.left}
+                  x2={width - PADDING.right}
+                  y1={getY(score)}
+                  y2={getY(score)}
+                  stroke="#f3f4f6"
+                  strokeWidth={1}
+                />
+                <SvgText x={PADDING.left - 6} y={getY(score) + 4} fontSize={10} fill="#9ca3af" textAnchor="end">
+                  {score}
+                </SvgText>
+              </React.Fragment>
+            ))}
+
+            {/* Conclusão dos projetos */}
+            {completions.map(marker => (
+              <Line
+                key={marker.requestId}
+                x1={getX(marker.completedAt.getTime())}
+                x2={getX(marker.completedAt.getTime())}
+                y1={PADDING.top}
+                y2={height - PADDING.bottom}
+                stroke="#6366f1"
+                strokeWidth={2}
+                strokeDasharray="4,4"
+              />
+            ))}
+
+            {/* Nota ao longo do tempo */}
+            {points.length > 1 && (
+              <Polyline
+                points={points
+                  .map(point => `${getX(point.entry.evaluatedAt.getTime())},${getY(point.entry.score)}`)
+                  .join(' ')}
+                stroke="#6b7280"
+                strokeWidth={2}
+                fill="none"
+              />
+            )}
+            {points.map((point, index) => (
+              <React.Fragment key={point.entry.id ?? index}>
+                {point.regressions.length > 0 && (
+                  <Circle
+                    cx={getX(point.entry.evaluatedAt.getTime())}
+                    cy={getY(point.entry.score)}
+                    r={9}
+                    stroke="#ef4444"
+                    strokeWidth={2}
+                    fill="none"
+                  />
+                )}
+                <Circle
+                  cx={getX(point.entry.evaluatedAt.getTime())}
+                  cy={getY(point.entry.score)}
+                  r={5}
+                  fill={getScoreColor(point.entry.score)}
+                />
+              </React.Fragment>
+            ))}
+
+            {/* Período exibido */}
+            <SvgText x={PADDING.left} y={height - 6} fontSize={10} fill="#9ca3af">
+              {formatShortDate(new Date(minTime))}
+            </SvgText>
+            {maxTime !== minTime && (
+              <SvgText x={width - PADDING.right} y={height - 6} fontSize={10} fill="#9ca3af" textAnchor="end">
+                {formatShortDate(new Date(maxTime))}
+              </SvgText>
+            )}
+          </Svg>
+        )}
+      </View>
+
+      {(completions.length > 0 || hasRegressions) && (
+        <View style={styles.legend}>
+          {completions.length > 0 && (
+            <Text style={styles.legendCompleted}>┆ Projeto concluído</Text>
+          )}
+          {hasRegressions && (
+            <Text style={styles.legendRegression}>◯ Regressão detectada</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginBottom: 8,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 4,
+  },
+  legendCompleted: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginRight: 16,
+  },
+  legendRegression: {
+    fontSize: 12,
+    color: '#ef4444',
+  },
+});
+
+// EXPANSÃO FUTURA:
+// - Tooltip com a nota e a data ao tocar em um ponto
+// - Zoom e rolagem em históricos longos
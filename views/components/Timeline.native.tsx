@@ -4,25 +4,36 @@
 
 import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Linking, Alert } from 'react-native';
-import { type AccessibilityRequest, type StatusConfig } from '../../models';
+import { QuoteRevisionModel, RequestWorkflow, type AccessibilityRequest, type DocumentType, type LoadedDocument, type QuoteRejectionInput, type SignatureVerification, type StatusConfig, type WorkflowRole, type WorkflowTransitionId } from '../../models';
 import { SignatureScreen } from '../screens/SignatureScreen.native';
+import { DocumentViewer } from './DocumentViewer.native';
+import { QuoteRejectionModal } from './QuoteRejectionModal.native';
+import { QuoteRevisionList } from './QuoteRevisionList.native';
 
 interface TimelineProps {
   request: AccessibilityRequest;
   statusConfig: StatusConfig;
   onApprove?: (requestId: string) => Promise<void>;
-  onReject?: (requestId: string) => Promise<void>;
+  onReject?: (requestId: string, rejection: QuoteRejectionInput) => Promise<void>;
   onSignContract?: (requestId: string, signatureBase64?: string) => Promise<void>;
+  onVerifySignature?: (requestId: string) => Promise<SignatureVerification>;
+  onLoadDocument?: (requestId: string, type: DocumentType) => Promise<LoadedDocument>; // Abre os arquivos no visualizador do app
+  role?: WorkflowRole; // Perfil de quem visualiza (define as ações disponíveis)
 }
 
-export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApprove, onReject, onSignContract }) => {
+export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApprove, onReject, onSignContract, onVerifySignature, onLoadDocument, role = 'client' }) => {
   if (!request) return null;
 
   const [isSignatureModalVisible, setIsSignatureModalVisible] = useState(false);
+  const [isRejectionModalVisible, setIsRejectionModalVisible] = useState(false);
+  const [viewerType, setViewerType] = useState<DocumentType | null>(null);
+  const [readDocuments, setReadDocuments] = useState<string[]>([]); // Arquivos lidos até o fim (tipo + URL)
   const { status, quoteFile, contractFile, developmentStatus } = request;
   const { steps, map } = statusConfig;
   const currentStepName = map[status] || steps[0];
   const currentStepIndex = steps.indexOf(currentStepName);
+  const isOffTrack = currentStepIndex < 0; // Estado fora da linha principal (ex: cancelada)
+  const quoteRevisions = QuoteRevisionModel.getRevisions(request);
 
   const getStepStatus = (index: number) => {
     const isCompleted = index < currentStepIndex;
@@ -46,16 +57,58 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
     return stepStatus === 'current' && step === 'Orçamento';
   };
 
+  // Consulta o fluxo para saber se o perfil pode disparar a transição neste momento
+  const canFire = (transitionId: WorkflowTransitionId) => {
+    const transition = RequestWorkflow.getTransition(transitionId);
+    return !!transition && RequestWorkflow.validateTransition(request, transition, role).valid;
+  };
+
+  // Com o visualizador, o cliente precisa ler o documento até o fim antes de aprovar/assinar
+  const getDocumentKey = (type: DocumentType) => {
+    const file = type === 'quote' ? quoteFile : contractFile;
+    return `${type}:${file?.url}:${file?.name}`;
+  };
+
+  const hasRead = (type: DocumentType) => {
+    return !onLoadDocument || readDocuments.includes(getDocumentKey(type));
+  };
+
+  const handleOpenDocument = (type: DocumentType) => {
+    if (onLoadDocument) {
+      setViewerType(type);
+      return;
+    }
+
+    const url = type === 'quote' ? quoteFile?.url : contractFile?.url;
+    if (url) {
+      Linking.openURL(url);
+    }
+  };
+
+  const handleReadToEnd = () => {
+    if (!viewerType) return;
+    const key = getDocumentKey(viewerType);
+    setReadDocuments((previous) => (previous.includes(key) ? previous : [...previous, key]));
+  };
+
   const canApproveQuote = (step: string, index: number) => {
-    return step === 'Orçamento' && quoteFile && status === 'Quote Sent';
+    return step === map[status] && canFire('approveQuote');
+  };
+
+  const canRejectQuote = (step: string, index: number) => {
+    return step === map[status] && canFire('rejectQuote');
   };
 
   const canSignContract = (step: string, index: number) => {
-    return step === 'Contrato' && contractFile && status === 'Contract Sent';
+    return step === map[status] && canFire('signContract');
+  };
+
+  const canVerifySignature = (step: string, index: number) => {
+    return step === 'Contrato' && (status === 'Contract Signed' || getStepStatus(index) === 'completed');
   };
 
   const handleApprove = async () => {
-    if (!onApprove) return;
+    if (!onApprove || !hasRead('quote')) return;
 
     Alert.alert(
       'Aprovar Orçamento',
@@ -78,29 +131,16 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
 
   const handleReject = async () => {
     if (!onReject) return;
+    setIsRejectionModalVisible(true);
+  };
 
-    Alert.alert(
-      'Recusar Orçamento',
-      'Deseja realmente recusar este orçamento? Você precisará criar uma nova solicitação.',
-      [
-        { text: 'Cancelar', style: 'cancel' },
-        {
-          text: 'Recusar',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await onReject(request.id.toString());
-            } catch (error) {
-              Alert.alert('Erro', 'Erro ao recusar orçamento. Tente novamente.');
-            }
-          },
-        },
-      ]
-    );
+  const handleSubmitRejection = async (rejection: QuoteRejectionInput) => {
+    if (!onReject) return;
+    await onReject(request.id.toString(), rejection);
   };
 
   const handleSignContract = async () => {
-    if (!onSignContract) return;
+    if (!onSignContract || !hasRead('contract')) return;
     setIsSignatureModalVisible(true);
   };
 
@@ -114,10 +154,33 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
     }
   };
 
+  const handleVerifySignature = async () => {
+    if (!onVerifySignature) return;
+
+    try {
+      const verification = await onVerifySignature(request.id.toString());
+      const signer = verification.certificate?.signer;
+      const details = [
+        ...verification.checks.map(check => `${check.passed ? '✅' : '❌'} ${check.label}`),
+        signer ? `\nAssinado por ${signer.name} em ${new Date(verification.certificate!.signedAt).toLocaleString('pt-BR')}` : ''
+      ].filter(Boolean).join('\n');
+
+      Alert.alert(verification.valid ? 'Assinatura válida' : 'Assinatura não confere', details);
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao verificar assinatura.');
+    }
+  };
+
   return (
     <View style={styles.container}>
       <Text style={styles.title}>🚀 Acompanhamento do Projeto</Text>
 
+      {isOffTrack && (
+        <View style={styles.offTrackBanner}>
+          <Text style={styles.offTrackText}>❌ Solicitação {currentStepName.toLowerCase()}</Text>
+        </View>
+      )}
+
       {steps.map((step, index) => {
         const stepStatus = getStepStatus(index);
         const showQuote = showQuoteFile(step, index);
@@ -175,10 +238,7 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
                   <View style={styles.fileActions}>
                     <TouchableOpacity
                       style={styles.fileButton}
-                      onPress={() => {
-                        const url = showQuote ? quoteFile!.url : contractFile!.url;
-                        Linking.openURL(url);
-                      }}
+                      onPress={() => handleOpenDocument(showQuote ? 'quote' : 'contract')}
                     >
                       <Text style={styles.fileButtonText}>📄 Ver Arquivo</Text>
                     </TouchableOpacity>
@@ -186,35 +246,55 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
                     {/* Approve button for quote */}
                     {canApproveQuote(step, index) && onApprove && (
                       <TouchableOpacity
-                        style={styles.approveButton}
+                        style={[styles.approveButton, !hasRead('quote') && styles.actionButtonLocked]}
                         onPress={handleApprove}
+                        disabled={!hasRead('quote')}
                       >
-                        <Text style={styles.approveButtonText}>✅ Aprovar Orçamento</Text>
+                        <Text style={styles.approveButtonText}>{RequestWorkflow.getTransition('approveQuote')?.label}</Text>
                       </TouchableOpacity>
                     )}
 
                     {/* Reject button for quote */}
-                    {canApproveQuote(step, index) && onReject && (
+                    {canRejectQuote(step, index) && onReject && (
                       <TouchableOpacity
                         style={styles.rejectButton}
                         onPress={handleReject}
                       >
-                        <Text style={styles.rejectButtonText}>❌ Recusar Orçamento</Text>
+                        <Text style={styles.rejectButtonText}>{RequestWorkflow.getTransition('rejectQuote')?.label}</Text>
                       </TouchableOpacity>
                     )}
 
                     {/* Sign contract button */}
                     {canSignContract(step, index) && onSignContract && (
                       <TouchableOpacity
-                        style={styles.signButton}
+                        style={[styles.signButton, !hasRead('contract') && styles.actionButtonLocked]}
                         onPress={handleSignContract}
+                        disabled={!hasRead('contract')}
+                      >
+                        <Text style={styles.signButtonText}>{RequestWorkflow.getTransition('signContract')?.label}</Text>
+                      </TouchableOpacity>
+                    )}
+
+                    {/* Verify signature button */}
+                    {showContract && canVerifySignature(step, index) && onVerifySignature && (
+                      <TouchableOpacity
+                        style={styles.fileButton}
+                        onPress={handleVerifySignature}
                       >
-                        <Text style={styles.signButtonText}>✍️ Assinar Contrato</Text>
+                        <Text style={styles.fileButtonText}>🔏 Verificar assinatura</Text>
                       </TouchableOpacity>
                     )}
                   </View>
                 )}
 
+                {/* Leitura obrigatória antes de aprovar/assinar */}
+                {showQuote && canApproveQuote(step, index) && onApprove && !hasRead('quote') && (
+                  <Text style={styles.readingHintText}>📖 Abra o orçamento e leia até o fim para liberar a aprovação.</Text>
+                )}
+                {showContract && canSignContract(step, index) && onSignContract && !hasRead('contract') && (
+                  <Text style={styles.readingHintText}>📖 Abra o contrato e leia até o fim para liberar a assinatura.</Text>
+                )}
+
                 {/* Status messages */}
                 {step === 'Orçamento' && status === 'Awaiting Quote' && (
                   <Text style={styles.waitingText}>⏳ Aguardando orçamento do funcionário...</Text>
@@ -267,10 +347,19 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
                   </View>
                 )}
 
+                {step === 'Orçamento' && status === 'Quote Rejected' && (
+                  <Text style={styles.waitingText}>⏳ Orçamento recusado. A equipe está preparando uma versão revisada...</Text>
+                )}
+
                 {step === 'Orçamento' && status === 'Quote Approved' && (
                   <Text style={styles.approvedText}>✅ Orçamento aprovado! Aguardando contrato...</Text>
                 )}
 
+                {/* Versões do orçamento (a partir da primeira recusa) */}
+                {step === 'Orçamento' && quoteRevisions.some(revision => revision.outcome === 'rejected') && (
+                  <QuoteRevisionList revisions={quoteRevisions} viewer={role} />
+                )}
+
                 {step === 'Contrato' && status === 'Quote Approved' && (
                   <Text style={styles.waitingText}>⏳ Funcionário está preparando o contrato...</Text>
                 )}
@@ -296,6 +385,29 @@ export const Timeline: React.FC<TimelineProps> = ({ request, statusConfig, onApp
         );
       })}
 
+      {/* Visualizador de documentos */}
+      {onLoadDocument && (
+        <DocumentViewer
+          visible={viewerType !== null}
+          title={viewerType === 'contract' ? `Contrato - ${request.site || 'Projeto'}` : `Orçamento - ${request.site || 'Projeto'}`}
+          loadDocument={() => onLoadDocument(request.id.toString(), viewerType || 'quote')}
+          onClose={() => setViewerType(null)}
+          onReadToEnd={handleReadToEnd}
+          readingHint={
+            role === 'client' && ((viewerType === 'quote' && canFire('approveQuote')) || (viewerType === 'contract' && canFire('signContract')))
+              ? `Role até o fim do documento para liberar a ${viewerType === 'quote' ? 'aprovação' : 'assinatura'}`
+              : undefined
+          }
+        />
+      )}
+
+      {/* Modal de Recusa do Orçamento */}
+      <QuoteRejectionModal
+        visible={isRejectionModalVisible}
+        onClose={() => setIsRejectionModalVisible(false)}
+        onSubmit={handleSubmitRejection}
+      />
+
       {/* Modal de Assinatura */}
       <SignatureScreen
         visible={isSignatureModalVisible}
@@ -317,6 +429,17 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     marginBottom: 24,
   },
+  offTrackBanner: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  offTrackText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#991b1b',
+  },
   stepContainer: {
     position: 'relative',
     marginBottom: 24,
@@ -465,6 +588,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  actionButtonLocked: {
+    opacity: 0.45,
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  readingHintText: {
+    fontSize: 12,
+    color: '#92400e',
+    marginTop: 8,
+  },
   waitingText: {
     fontSize: 12,
     color: '#6b7280',
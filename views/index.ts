@@ -9,6 +9,13 @@
 export { StarRating } from './components/StarRating.native';
 export { CircularProgress } from './components/CircularProgress.native';
 export { Timeline } from './components/Timeline.native';
+export { ActivityFeed } from './components/ActivityFeed.native';
+export { EvaluationHistory } from './components/EvaluationHistory.native';
+export { ScoreTrendChart } from './components/ScoreTrendChart.native';
+export { IssueDetailModal } from './components/IssueDetailModal.native';
+export { DocumentViewer } from './components/DocumentViewer.native';
+export { QuoteRejectionModal } from './components/QuoteRejectionModal.native';
+export { QuoteRevisionList } from './components/QuoteRevisionList.native';
 export * from './components/Icons.native';
 
 // Screens
@@ -18,7 +25,10 @@ export { ClientDashboard } from './screens/ClientDashboard.native';
 export { EmployeeDashboard } from './screens/EmployeeDashboard.native';
 export { EvaluationScreen } from './screens/EvaluationScreen.native';
 export { PlanSelectionScreen } from './screens/PlanSelectionScreen.native';
+export { EvaluationComparisonScreen } from './screens/EvaluationComparisonScreen.native';
 export { SignatureScreen } from './screens/SignatureScreen.native';
+export { QuoteBuilderScreen } from './screens/QuoteBuilderScreen.native';
+export { DeveloperSettingsScreen } from './screens/DeveloperSettingsScreen.native';
 
 // EXPANSÃO FUTURA:
 // - Novas telas podem ser adicionadas aqui
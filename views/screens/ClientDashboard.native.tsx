@@ -8,10 +8,13 @@ import * as ImagePicker from 'expo-image-picker';
 import { AuthController, RequestController, EvaluationController, ImageController } from '../../controllers';
 import { EvaluationScreen } from './EvaluationScreen.native';
 import { PlanSelectionScreen } from './PlanSelectionScreen.native';
+import { EvaluationComparisonScreen } from './EvaluationComparisonScreen.native';
 import { Timeline } from '../components/Timeline.native';
+import { ActivityFeed } from '../components/ActivityFeed.native';
+import { EvaluationHistory } from '../components/EvaluationHistory.native';
+import { QuoteRejectionModal } from '../components/QuoteRejectionModal.native';
 import { ImageUtils } from '../../utils/ImageUtils';
-import { type User } from '../../models';
-import ApiService from '../../services/ApiService';
+import { RequestWorkflow, EvaluationHistoryModel, type User, type EvaluationHistoryEntry, type DocumentType, type QuoteRejectionInput } from '../../models';
 
 interface ClientDashboardProps {
   user: User;
@@ -27,6 +30,8 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
   const [userPhoto, setUserPhoto] = useState<string | null>(null);
   const [isPhotoModalVisible, setIsPhotoModalVisible] = useState(false);
   const [selectedHistoryRequest, setSelectedHistoryRequest] = useState<any | null>(null);
+  const [isComparisonVisible, setIsComparisonVisible] = useState(false);
+  const [rejectingRequestId, setRejectingRequestId] = useState<string | null>(null); // Recusa pelo histórico
 
   // Controllers
   const [requestController] = useState(() => RequestController.getInstance());
@@ -35,16 +40,41 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
 
   // States
   const [requestState, setRequestState] = useState(requestController.getState());
+  const [evaluationControllerState, setEvaluationControllerState] = useState(evaluationController.getState());
   const appState = useRef(AppState.currentState);
   const [appStateVisible, setAppStateVisible] = useState(appState.current);
 
   useEffect(() => {
     const unsubscribeRequest = requestController.subscribe(setRequestState);
+
+    // Exibe o cache local imediatamente e atualiza com o backend em seguida
+    requestController.loadRequestsFromApi().catch((error) => {
+      console.error('[ClientDashboard] Erro ao carregar solicitações:', error);
+    });
+
     return () => {
       unsubscribeRequest();
     };
   }, [requestController]);
 
+  // Histórico de avaliações salvo no dispositivo (reenvia ao backend o que estiver pendente)
+  useEffect(() => {
+    const unsubscribeEvaluation = evaluationController.subscribe(setEvaluationControllerState);
+
+    evaluationController.loadEvaluationHistory().catch((error) => {
+      console.error('[ClientDashboard] Erro ao carregar histórico de avaliações:', error);
+    });
+
+    return () => {
+      unsubscribeEvaluation();
+    };
+  }, [evaluationController, user.email]);
+
+  const evaluationGroups = useMemo(
+    () => EvaluationHistoryModel.groupBySite(evaluationControllerState.evaluationHistory),
+    [evaluationControllerState.evaluationHistory]
+  );
+
   // Carregar foto do usuário
   useEffect(() => {
     const loadUserPhoto = async () => {
@@ -138,7 +168,7 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
     () => {
       // Pega a solicitação mais recente (prioriza não completa, mas mostra completa se não houver outra)
       const notCompleted = clientRequests
-        .filter((r) => r.status !== 'Completed')
+        .filter((r) => !RequestWorkflow.isFinal(r.status))
         .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))[0];
       
       if (notCompleted) {
@@ -147,7 +177,7 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
       
       // Se não houver nenhuma não completa, pega a mais recente completa
       const completed = clientRequests
-        .filter((r) => r.status === 'Completed')
+        .filter((r) => RequestWorkflow.isFinal(r.status))
         .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))[0];
       
       return completed || null;
@@ -155,6 +185,37 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
     [clientRequests]
   );
 
+  // Carregar histórico de atividades do projeto exibido
+  useEffect(() => {
+    const requestIds = [activeRequest?.id, selectedHistoryRequest?.id].filter((id): id is number => !!id);
+    requestIds.forEach(id => {
+      requestController.loadRequestHistory(id).catch((error) => {
+        console.error('[ClientDashboard] Erro ao carregar histórico:', error);
+      });
+    });
+  }, [activeRequest?.id, selectedHistoryRequest?.id, requestController]);
+
+  // Projetos concluídos de cada site avaliado (marcados no gráfico de evolução)
+  const evaluationCompletions = useMemo(
+    () => Object.fromEntries(evaluationGroups.map(group => [
+      group.site,
+      EvaluationHistoryModel.getCompletionMarkers(group.site, clientRequests, requestState.history)
+    ])),
+    [evaluationGroups, clientRequests, requestState.history]
+  );
+
+  // A data de conclusão vem do histórico de atividades de cada projeto concluído
+  useEffect(() => {
+    if (activeTab !== 'historico') return;
+    clientRequests
+      .filter(request => request.status === 'Completed' && !requestState.history[request.id])
+      .forEach(request => {
+        requestController.loadRequestHistory(request.id).catch((error) => {
+          console.error('[ClientDashboard] Erro ao carregar histórico:', error);
+        });
+      });
+  }, [activeTab, clientRequests, requestState.history, requestController]);
+
   const handleSelectPlan = (plan: 'A' | 'AA' | 'AAA', issues: any[]) => {
     setEvaluationState({ plan, issues });
   };
@@ -180,9 +241,31 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
       setActiveTab('acompanhar');
     } catch (error) {
       console.error('Error creating request:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao criar solicitação');
     }
   };
 
+  const handleReopenEvaluation = (entry: EvaluationHistoryEntry) => {
+    // A avaliação reaberta volta para a aba Avaliar com os planos sugeridos para a nota dela
+    evaluationController.reopenEvaluation(entry);
+    setEvaluationState({ plan: null, issues: [] });
+    setActiveTab('avaliar');
+  };
+
+  // A comparação fica aberta apenas na aba em que foi aberta
+  useEffect(() => {
+    setIsComparisonVisible(false);
+  }, [activeTab]);
+
+  const handleCompareEvaluations = (previous: EvaluationHistoryEntry, current: EvaluationHistoryEntry) => {
+    evaluationController.compareEvaluations(previous, current);
+    setIsComparisonVisible(true);
+  };
+
+  const handleCloseComparison = () => {
+    setIsComparisonVisible(false);
+  };
+
   const handleBackToEvaluation = () => {
     setEvaluationState({ plan: null, issues: [] });
     evaluationController.clearCurrentEvaluation();
@@ -203,71 +286,42 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
         quoteFile: requestAny.quoteFile
       });
 
-      // Atualizar status para ORCAMENTO_APROVADO no backend
-      // ApiService já é uma instância exportada como default
-      const response = await ApiService.updateSolicitacao(requestAny._idSolicitacao, {
-        status: 'ORCAMENTO_APROVADO',
-      });
+      // Atualizar status local e no backend (ORCAMENTO_APROVADO)
+      // Sem conexão, o RequestController enfileira a aprovação para reenvio
+      await requestController.executeTransition(Number(requestId), 'approveQuote');
 
-      if (response.success) {
-        // Atualizar status local
-        const nextStatus = requestController.getStatusConfig().nextStatus['Quote Sent'];
-        if (nextStatus) {
-          await requestController.updateRequestStatus(Number(requestId), nextStatus);
-        }
-        // Recarregar solicitações para atualizar o estado
-        await requestController.loadRequestsFromApi();
-        Alert.alert('Sucesso!', 'Orçamento aprovado! Aguarde o contrato.');
-      } else {
-        throw new Error(response.error || 'Erro ao aprovar orçamento');
+      if (requestController.hasPendingSync(Number(requestId))) {
+        Alert.alert('Sem conexão', 'Aprovação registrada! Ela será enviada assim que a conexão voltar.');
+        return;
       }
+
+      // Recarregar solicitações para atualizar o estado
+      await requestController.loadRequestsFromApi();
+      Alert.alert('Sucesso!', 'Orçamento aprovado! Aguarde o contrato.');
     } catch (error) {
       console.error('Error approving quote:', error);
-      Alert.alert('Erro', 'Erro ao aprovar orçamento. Tente novamente.');
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao aprovar orçamento. Tente novamente.');
       throw error;
     }
   };
 
-  const handleRejectQuote = async (requestId: string) => {
-    Alert.alert(
-      'Recusar Orçamento',
-      'Deseja realmente recusar este orçamento? Esta ação não pode ser desfeita.',
-      [
-        { text: 'Cancelar', style: 'cancel' },
-        {
-          text: 'Recusar',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              const requestAny = requestState.requests.find((r: any) => r.id.toString() === requestId) as any;
-              if (!requestAny?._idSolicitacao) {
-                Alert.alert('Erro', 'ID da solicitação não encontrado.');
-                return;
-              }
+  const handleRejectQuote = async (requestId: string, rejection: QuoteRejectionInput) => {
+    const requestAny = requestState.requests.find((r: any) => r.id.toString() === requestId) as any;
+    if (!requestAny?._idSolicitacao) {
+      throw new Error('ID da solicitação não encontrado.');
+    }
 
-              // Atualizar status para CANCELADA no backend
-              // ApiService já é uma instância exportada como default
-              const response = await ApiService.updateSolicitacao(requestAny._idSolicitacao, {
-                status: 'CANCELADA',
-              });
-
-              if (response.success) {
-                // Atualizar status local
-                await requestController.updateRequestStatus(parseInt(requestId), 'Completed');
-                Alert.alert('Sucesso', 'Orçamento recusado com sucesso.');
-                // Recarregar solicitações
-                await requestController.loadRequestsFromApi();
-              } else {
-                throw new Error(response.error || 'Erro ao recusar orçamento');
-              }
-            } catch (error) {
-              console.error('Error rejecting quote:', error);
-              Alert.alert('Erro', 'Erro ao recusar orçamento. Tente novamente.');
-            }
-          },
-        },
-      ]
-    );
+    // Recusa com motivo: o funcionário recebe o motivo e envia uma versão revisada
+    await requestController.rejectQuote(Number(requestId), rejection);
+
+    if (requestController.hasPendingSync(Number(requestId))) {
+      Alert.alert('Sem conexão', 'Recusa registrada! Ela será enviada assim que a conexão voltar.');
+      return;
+    }
+
+    // Recarregar solicitações
+    await requestController.loadRequestsFromApi();
+    Alert.alert('Orçamento recusado', 'Recebemos o motivo da recusa. A equipe enviará uma versão revisada do orçamento.');
   };
 
   const handleSignContract = async (requestId: string, signatureBase64?: string) => {
@@ -277,10 +331,7 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
         await requestController.signContract(Number(requestId), signatureBase64);
       } else {
         // Fallback: apenas atualizar status (compatibilidade)
-        const nextStatus = requestController.getStatusConfig().nextStatus['Contract Sent'];
-        if (nextStatus) {
-          await requestController.updateRequestStatus(Number(requestId), nextStatus);
-        }
+        await requestController.executeTransition(Number(requestId), 'signContract');
       }
     } catch (error) {
       console.error('Error signing contract:', error);
@@ -288,6 +339,14 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
     }
   };
 
+  const handleLoadDocument = (requestId: string, type: DocumentType) => {
+    return requestController.loadDocument(Number(requestId), type);
+  };
+
+  const handleVerifySignature = (requestId: string) => {
+    return requestController.verifyContractSignature(Number(requestId));
+  };
+
   const handleViewPhoto = () => {
     if (userPhoto) {
       setIsPhotoModalVisible(true);
@@ -482,6 +541,15 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
   };
 
   const renderContent = () => {
+    if (isComparisonVisible && evaluationControllerState.comparison) {
+      return (
+        <EvaluationComparisonScreen
+          comparison={evaluationControllerState.comparison}
+          onBack={handleCloseComparison}
+        />
+      );
+    }
+
     switch (activeTab) {
       case 'avaliar':
         return evaluationState.plan ? (
@@ -492,7 +560,19 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
             onBack={handleBackToEvaluation}
           />
         ) : (
-          <EvaluationScreen onSelectPlan={handleSelectPlan} />
+          <EvaluationScreen onSelectPlan={handleSelectPlan} onCompare={() => setIsComparisonVisible(true)} />
+        );
+
+      case 'historico':
+        return (
+          <ScrollView style={styles.content}>
+            <EvaluationHistory
+              groups={evaluationGroups}
+              completions={evaluationCompletions}
+              onReopen={handleReopenEvaluation}
+              onCompare={handleCompareEvaluations}
+            />
+          </ScrollView>
         );
 
       case 'acompanhar':
@@ -510,13 +590,43 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
                 </Text>
               </View>
             )}
+            {requestState.backendStatus === 'open' && (
+              <View style={styles.connectivityBanner}>
+                <Text style={styles.connectivityText}>
+                  🔌 Servidor indisponível — novas tentativas automáticas em instantes
+                </Text>
+              </View>
+            )}
+            {requestState.cachedAt && (
+              <View style={styles.cachedDataBanner}>
+                <Text style={styles.cachedDataText}>
+                  📡 Sem conexão — últimos dados conhecidos de {new Date(requestState.cachedAt).toLocaleString('pt-BR')}
+                </Text>
+              </View>
+            )}
+            {requestState.syncConflicts.map((conflict) => (
+              <View key={conflict.id} style={styles.syncConflictBanner}>
+                <Text style={styles.syncConflictText}>⚠️ {conflict.lastError}</Text>
+                <TouchableOpacity onPress={() => requestController.dismissSyncConflict(conflict.id!)}>
+                  <Text style={styles.syncConflictDismiss}>OK</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {requestController.hasPendingSync(activeRequest.id) && (
+              <View style={styles.pendingSyncBadge}>
+                <Text style={styles.pendingSyncText}>⏳ Sincronização pendente</Text>
+              </View>
+            )}
             <Timeline
               request={activeRequest}
               statusConfig={requestController.getStatusConfig()}
               onApprove={handleApproveQuote}
               onReject={handleRejectQuote}
               onSignContract={handleSignContract}
+              onVerifySignature={handleVerifySignature}
+              onLoadDocument={handleLoadDocument}
             />
+            <ActivityFeed events={requestState.history[activeRequest.id] || []} />
           </ScrollView>
         ) : (
           <View style={styles.emptyStateContainer}>
@@ -561,7 +671,10 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
                   onApprove={handleApproveQuote}
                   onReject={handleRejectQuote}
                   onSignContract={handleSignContract}
+                  onVerifySignature={handleVerifySignature}
+                  onLoadDocument={handleLoadDocument}
                 />
+                <ActivityFeed events={requestState.history[selectedHistoryRequest.id] || []} />
               </ScrollView>
             </View>
           );
@@ -612,7 +725,8 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
             {clientRequests.length > 0 ? (
               clientRequests.map((req) => {
                 const reqAny = req as any;
-                const canApproveOrReject = req.status === 'Quote Sent' && reqAny._idSolicitacao;
+                const canApprove = reqAny._idSolicitacao && requestController.canExecuteAction(req, 'approveQuote');
+                const canReject = reqAny._idSolicitacao && requestController.canExecuteAction(req, 'rejectQuote');
                 
                 return (
                   <View key={req.id} style={styles.historyCardContainer}>
@@ -626,29 +740,36 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
                         <Text style={styles.historyStatus}>
                           Status: {requestController.getStatusConfig().map[req.status]}
                         </Text>
+                        {requestController.hasPendingSync(req.id) && (
+                          <Text style={styles.pendingSyncText}>⏳ Sincronização pendente</Text>
+                        )}
                       </View>
                       <Text style={styles.historyArrow}>→</Text>
                     </TouchableOpacity>
-                    {canApproveOrReject && (
+                    {(canApprove || canReject) && (
                       <View style={styles.historyActions}>
-                        <TouchableOpacity
-                          style={styles.historyApproveButton}
-                          onPress={(e) => {
-                            e.stopPropagation();
-                            handleApproveQuote(req.id.toString());
-                          }}
-                        >
-                          <Text style={styles.historyApproveButtonText}>✅ Aprovar</Text>
-                        </TouchableOpacity>
-                        <TouchableOpacity
-                          style={styles.historyRejectButton}
-                          onPress={(e) => {
-                            e.stopPropagation();
-                            handleRejectQuote(req.id.toString());
-                          }}
-                        >
-                          <Text style={styles.historyRejectButtonText}>❌ Recusar</Text>
-                        </TouchableOpacity>
+                        {canApprove && (
+                          <TouchableOpacity
+                            style={styles.historyApproveButton}
+                            onPress={(e) => {
+                              e.stopPropagation();
+                              handleApproveQuote(req.id.toString());
+                            }}
+                          >
+                            <Text style={styles.historyApproveButtonText}>✅ Aprovar</Text>
+                          </TouchableOpacity>
+                        )}
+                        {canReject && (
+                          <TouchableOpacity
+                            style={styles.historyRejectButton}
+                            onPress={(e) => {
+                              e.stopPropagation();
+                              setRejectingRequestId(req.id.toString());
+                            }}
+                          >
+                            <Text style={styles.historyRejectButtonText}>❌ Recusar</Text>
+                          </TouchableOpacity>
+                        )}
                       </View>
                     )}
                   </View>
@@ -710,6 +831,18 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
           </Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'historico' && styles.tabActive]}
+          onPress={() => setActiveTab('historico')}
+        >
+          <Text style={[styles.tabIcon, activeTab === 'historico' && styles.tabIconActive]}>
+            📊
+          </Text>
+          <Text style={[styles.tabLabel, activeTab === 'historico' && styles.tabLabelActive]}>
+            Histórico
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.tab, activeTab === 'acompanhar' && styles.tabActive]}
           onPress={() => setActiveTab('acompanhar')}
@@ -775,6 +908,13 @@ export const ClientDashboard: React.FC<ClientDashboardProps> = ({
           </View>
         </View>
       </Modal>
+
+      {/* Recusa do orçamento a partir do histórico */}
+      <QuoteRejectionModal
+        visible={rejectingRequestId !== null}
+        onClose={() => setRejectingRequestId(null)}
+        onSubmit={(rejection) => handleRejectQuote(rejectingRequestId!, rejection)}
+      />
     </View>
   );
 };
@@ -964,6 +1104,64 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#6b7280',
   },
+  pendingSyncBadge: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  pendingSyncText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400e',
+    marginTop: 4,
+  },
+  connectivityBanner: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  connectivityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#991b1b',
+  },
+  cachedDataBanner: {
+    backgroundColor: '#e0e7ff',
+    borderRadius: 12,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  cachedDataText: {
+    fontSize: 13,
+    color: '#3730a3',
+  },
+  syncConflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 12,
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  syncConflictText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991b1b',
+  },
+  syncConflictDismiss: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#991b1b',
+    marginLeft: 12,
+  },
   historyArrow: {
     fontSize: 20,
     color: '#9ca3af',
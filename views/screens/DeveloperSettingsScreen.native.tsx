@@ -0,0 +1,338 @@
+/**
+ * DeveloperSettingsScreen - Configurações do desenvolvedor
+ *
+ * Responsabilidades:
+ * - Escolher o ambiente do backend (local, homologação, produção, personalizado)
+ * - Informar a URL do ambiente personalizado
+ * - Exibir o resultado do teste de conexão antes de aplicar
+ * - Escolher a fonte das avaliações de acessibilidade (API, relatórios gravados ou simulação)
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator
+} from 'react-native';
+import { EnvironmentController, EvaluationController } from '../../controllers';
+import type { EvaluationProviderId } from '../../models';
+import type { ApiEnvironmentId } from '../../utils/getApiUrl';
+
+interface DeveloperSettingsScreenProps {
+  onBackPress: () => void;
+}
+
+export const DeveloperSettingsScreen: React.FC<DeveloperSettingsScreenProps> = ({ onBackPress }) => {
+  const [environmentController] = useState(() => EnvironmentController.getInstance());
+  const [environmentState, setEnvironmentState] = useState(environmentController.getState());
+  const [selected, setSelected] = useState<ApiEnvironmentId>(environmentState.environment);
+  const [customUrl, setCustomUrl] = useState(environmentState.customUrl);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [evaluationController] = useState(() => EvaluationController.getInstance());
+  const [evaluationProvider, setEvaluationProvider] = useState(evaluationController.getState().evaluationProvider);
+
+  useEffect(() => {
+    const unsubscribe = environmentController.subscribe(setEnvironmentState);
+    return unsubscribe;
+  }, [environmentController]);
+
+  useEffect(() => {
+    const unsubscribe = evaluationController.subscribe(state => setEvaluationProvider(state.evaluationProvider));
+    return unsubscribe;
+  }, [evaluationController]);
+
+  const options = environmentController.getEnvironmentOptions(customUrl);
+
+  const handleSelect = (environment: ApiEnvironmentId) => {
+    setSelected(environment);
+    setSuccessMessage('');
+    environmentController.clearError();
+  };
+
+  const handleSelectProvider = (provider: EvaluationProviderId) => {
+    evaluationController.setEvaluationProvider(provider);
+  };
+
+  const handleApply = async () => {
+    setSuccessMessage('');
+    const applied = await environmentController.selectEnvironment(selected, customUrl.trim());
+    if (applied) {
+      setSuccessMessage('✅ Conexão verificada - ambiente aplicado');
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <View style={styles.formContainer}>
+          {/* Header */}
+          <View style={styles.header}>
+            <TouchableOpacity onPress={onBackPress} style={styles.backButton}>
+              <Text style={styles.backButtonText}>← Voltar</Text>
+            </TouchableOpacity>
+            <Text style={styles.title}>Ambiente</Text>
+            <Text style={styles.subtitle}>Configurações do desenvolvedor 🛠️</Text>
+          </View>
+
+          <View style={styles.currentContainer}>
+            <Text style={styles.label}>Backend em uso</Text>
+            <Text style={styles.currentUrl}>{environmentState.baseUrl}</Text>
+          </View>
+
+          {/* Environment options */}
+          <View style={styles.options}>
+            {options.map(option => {
+              const isSelected = selected === option.id;
+              const isAvailable = option.id === 'custom' || !!option.url;
+
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[
+                    styles.option,
+                    isSelected && styles.optionSelected,
+                    !isAvailable && styles.optionDisabled
+                  ]}
+                  onPress={() => handleSelect(option.id)}
+                  disabled={!isAvailable || environmentState.isTesting}
+                >
+                  <Text style={styles.optionTitle}>
+                    {isSelected ? '◉' : '○'} {option.label}
+                    {environmentState.environment === option.id && ' (atual)'}
+                  </Text>
+                  <Text style={styles.optionDescription}>
+                    {option.url || option.description}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {selected === 'custom' && (
+            <View style={styles.inputContainer}>
+              <Text style={styles.label}>URL da API</Text>
+              <TextInput
+                style={styles.input}
+                value={customUrl}
+                onChangeText={setCustomUrl}
+                placeholder="http://192.168.0.10:3000/api"
+                placeholderTextColor="#9ca3af"
+                keyboardType="url"
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!environmentState.isTesting}
+              />
+            </View>
+          )}
+
+          {environmentState.error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{environmentState.error}</Text>
+            </View>
+          )}
+
+          {successMessage ? (
+            <View style={styles.successContainer}>
+              <Text style={styles.successText}>{successMessage}</Text>
+            </View>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.submitButton, environmentState.isTesting && styles.submitButtonDisabled]}
+            onPress={handleApply}
+            disabled={environmentState.isTesting}
+          >
+            {environmentState.isTesting ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <Text style={styles.submitButtonText}>🔌 Testar e Aplicar</Text>
+            )}
+          </TouchableOpacity>
+
+          {/* Evaluation provider */}
+          <View style={styles.options}>
+            <Text style={styles.sectionTitle}>Fonte das avaliações</Text>
+            {evaluationController.getEvaluationProviders().map(provider => (
+              <TouchableOpacity
+                key={provider.id}
+                style={[styles.option, evaluationProvider === provider.id && styles.optionSelected]}
+                onPress={() => handleSelectProvider(provider.id)}
+              >
+                <Text style={styles.optionTitle}>
+                  {evaluationProvider === provider.id ? '◉' : '○'} {provider.label}
+                </Text>
+                <Text style={styles.optionDescription}>{provider.description}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#667eea',
+  },
+  scrollContainer: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 15,
+  },
+  formContainer: {
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderRadius: 24,
+    padding: 20,
+    gap: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 20,
+    },
+    shadowOpacity: 0.25,
+    shadowRadius: 25,
+    elevation: 25,
+  },
+  header: {
+    marginBottom: 4,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backButtonText: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6366f1',
+    fontWeight: '500',
+  },
+  currentContainer: {
+    backgroundColor: '#f3f4f6',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+  },
+  currentUrl: {
+    fontSize: 14,
+    color: '#1f2937',
+    fontWeight: '600',
+  },
+  options: {
+    gap: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  option: {
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 14,
+    backgroundColor: 'white',
+  },
+  optionSelected: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  optionDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  inputContainer: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  input: {
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: 'white',
+    color: '#1f2937',
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderLeftWidth: 4,
+    borderLeftColor: '#ef4444',
+    borderRadius: 12,
+    padding: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#dc2626',
+    fontWeight: '500',
+  },
+  successContainer: {
+    backgroundColor: '#ecfdf5',
+    borderLeftWidth: 4,
+    borderLeftColor: '#10b981',
+    borderRadius: 12,
+    padding: 16,
+  },
+  successText: {
+    fontSize: 14,
+    color: '#047857',
+    fontWeight: '500',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#6366f1',
+    shadowOffset: {
+      width: 0,
+      height: 4,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9ca3af',
+    shadowOpacity: 0,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 0.5,
+  },
+});
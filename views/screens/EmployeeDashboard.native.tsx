@@ -8,10 +8,13 @@ import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 import { RequestController, ImageController } from '../../controllers';
 import { StarRating } from '../components/StarRating.native';
+import { ActivityFeed } from '../components/ActivityFeed.native';
+import { DocumentViewer } from '../components/DocumentViewer.native';
+import { QuoteRevisionList } from '../components/QuoteRevisionList.native';
+import { QuoteBuilderScreen } from './QuoteBuilderScreen.native';
 import { ImageUtils } from '../../utils/ImageUtils';
-import { type User, type AccessibilityRequest } from '../../models';
+import { QuoteRevisionModel, RequestWorkflow, type User, type AccessibilityRequest, type DevelopmentStatus, type WorkflowTransition, type DocumentType } from '../../models';
 import ApiService from '../../services/ApiService';
-import { API_BASE_URL } from '../../config/api.config';
 
 interface EmployeeDashboardProps {
   user: User;
@@ -33,6 +36,8 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
   const [fileName, setFileName] = useState('');
   const [selectedFile, setSelectedFile] = useState<DocumentPicker.DocumentPickerResult | null>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [buildingQuoteFor, setBuildingQuoteFor] = useState<number | null>(null); // Solicitação no montador de orçamentos
+  const [viewingDocument, setViewingDocument] = useState<DocumentType | null>(null); // Documento aberto no visualizador
   const appState = useRef(AppState.currentState);
   const [appStateVisible, setAppStateVisible] = useState(appState.current);
 
@@ -55,6 +60,23 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
     };
   }, [requestController]);
 
+  // Manter a solicitação aberta sincronizada com o estado do controller
+  useEffect(() => {
+    if (!selectedRequest) return;
+    const freshRequest = requestState.requests.find(r => r.id === selectedRequest.id);
+    if (freshRequest && freshRequest !== selectedRequest) {
+      setSelectedRequest(freshRequest);
+    }
+  }, [requestState.requests]);
+
+  // Carregar histórico de atividades da solicitação aberta
+  useEffect(() => {
+    if (!selectedRequest) return;
+    requestController.loadRequestHistory(selectedRequest.id).catch((error) => {
+      console.error('[EmployeeDashboard] Erro ao carregar histórico:', error);
+    });
+  }, [selectedRequest?.id, requestController]);
+
   // Carregar foto do usuário
   useEffect(() => {
     const loadUserPhoto = async () => {
@@ -115,37 +137,53 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
 
   const statusConfig = requestController.getStatusConfig();
 
-  const handleAction = async (request: AccessibilityRequest, actionType: string) => {
-    if (actionType === 'sendQuote') {
-      setUploadingFileFor({ type: 'quote', request });
-    } else if (actionType === 'attachContract') {
-      setUploadingFileFor({ type: 'contract', request });
-    } else if (actionType === 'startDev') {
+  const handleAction = async (request: AccessibilityRequest, transition: WorkflowTransition) => {
+    // Orçamentos são montados no app; o upload de um PDF pronto fica disponível no montador
+    if (transition.requiresUpload === 'quote') {
+      setBuildingQuoteFor(request.id);
+      return;
+    }
+
+    // Transições que dependem de arquivo abrem o upload; o status muda após o envio
+    if (transition.requiresUpload) {
+      setUploadingFileFor({ type: transition.requiresUpload, request });
+      return;
+    }
+
+    if (transition.id === 'startDev') {
       // Iniciar desenvolvimento
       try {
-        const nextStatus = statusConfig.nextStatus[request.status];
-        if (nextStatus) {
-          await requestController.updateRequestStatus(request.id, nextStatus);
-          // Inicializa com status "Analysis"
-          await requestController.updateDevelopmentStatus(request.id, 'Analysis');
-          Alert.alert('Sucesso', 'Desenvolvimento iniciado!');
-        }
+        await requestController.executeTransition(request.id, 'startDev');
+        // Inicializa com status "Analysis"
+        await requestController.updateDevelopmentStatus(request.id, 'Analysis');
+        Alert.alert('Sucesso', 'Desenvolvimento iniciado!');
       } catch (error) {
         console.error('Error starting development:', error);
         Alert.alert('Erro', 'Erro ao iniciar desenvolvimento');
       }
-    } else {
+      return;
+    }
+
+    const execute = async () => {
       try {
-        const nextStatus = statusConfig.nextStatus[request.status];
-        if (nextStatus) {
-          await requestController.updateRequestStatus(request.id, nextStatus);
-          Alert.alert('Sucesso', 'Status atualizado com sucesso!');
-        }
+        await requestController.executeTransition(request.id, transition.id);
+        Alert.alert('Sucesso', 'Status atualizado com sucesso!');
       } catch (error) {
         console.error('Error updating request status:', error);
-        Alert.alert('Erro', 'Erro ao atualizar status');
+        const errorMessage = error instanceof Error ? error.message : 'Erro ao atualizar status';
+        Alert.alert('Erro', errorMessage);
       }
+    };
+
+    if (transition.variant === 'danger') {
+      Alert.alert('Confirmar', `Deseja realmente "${transition.label}"?`, [
+        { text: 'Voltar', style: 'cancel' },
+        { text: 'Confirmar', style: 'destructive', onPress: execute },
+      ]);
+      return;
     }
+
+    await execute();
   };
 
   const handleFileSelect = async () => {
@@ -342,8 +380,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
                 const solicitacaoResponse = await ApiService.getRequest(requestAny._idSolicitacao);
                 
                 if (solicitacaoResponse.success && solicitacaoResponse.data) {
-                  const solicitacao = solicitacaoResponse.data.data || solicitacaoResponse.data;
-                  entityId = solicitacao.cod_orcamento;
+                  entityId = solicitacaoResponse.data.cod_orcamento;
                   
                   if (entityId) {
                     endpoint = `/orcamentos/${entityId}/upload`;
@@ -359,7 +396,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
               }
             } else {
               // Usar o cod_orcamento retornado
-              entityId = orcamentoResponse.data?.cod_orcamento || orcamentoResponse.data?.data?.cod_orcamento;
+              entityId = orcamentoResponse.data?.cod_orcamento;
               
               if (!entityId) {
                 throw new Error('Orçamento criado mas não foi possível obter o ID');
@@ -416,7 +453,7 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
       // Usar fetch nativo do React Native para uploads (mais confiável que axios com FormData)
       // ApiService já é uma instância exportada como default
       const token = ApiService.getAuthToken();
-      const baseURL = API_BASE_URL || 'http://192.168.1.7:3000';
+      const baseURL = ApiService.getBaseUrl();
       const fullUrl = `${baseURL}${endpoint}`;
       
       console.log('[EmployeeDashboard] Fazendo upload com fetch nativo para:', fullUrl);
@@ -476,7 +513,39 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
     }
   };
 
-  const handleUpdateDevelopmentStatus = async (devStatus: any) => {
+  const handleGenerateContract = async (request: AccessibilityRequest) => {
+    setIsUploading(true);
+    try {
+      await requestController.generateDocument(request.id, 'contract');
+      setUploadingFileFor(null);
+      setFileName('');
+      setSelectedFile(null);
+      Alert.alert('Sucesso', 'Contrato gerado e enviado com sucesso!');
+    } catch (error) {
+      console.error('[EmployeeDashboard] Erro ao gerar contrato:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao gerar o contrato');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleVerifySignature = async (request: AccessibilityRequest) => {
+    try {
+      const verification = await requestController.verifyContractSignature(request.id);
+      const signer = verification.certificate?.signer;
+      const details = [
+        ...verification.checks.map(check => `${check.passed ? '✅' : '❌'} ${check.label}`),
+        signer ? `\nAssinado por ${signer.name} em ${new Date(verification.certificate!.signedAt).toLocaleString('pt-BR')}` : ''
+      ].filter(Boolean).join('\n');
+
+      Alert.alert(verification.valid ? 'Assinatura válida' : 'Assinatura não confere', details);
+    } catch (error) {
+      console.error('[EmployeeDashboard] Erro ao verificar assinatura:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao verificar assinatura');
+    }
+  };
+
+  const handleUpdateDevelopmentStatus = async (devStatus: DevelopmentStatus) => {
     if (!selectedRequest) return;
     
     try {
@@ -667,65 +736,45 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
 
   const getActionButton = (request: AccessibilityRequest) => {
     const { status } = request;
+    const state = RequestWorkflow.getState(status);
+    const transitions = requestController.getAvailableTransitions(request);
 
-    if (status === 'Awaiting Quote') {
+    if (state.final) {
       return (
-        <TouchableOpacity
-          style={styles.actionButton}
-          onPress={() => handleAction(request, 'sendQuote')}
-        >
-          <Text style={styles.actionButtonText}>📄 Enviar Orçamento</Text>
-        </TouchableOpacity>
-      );
-    }
-
-    if (status === 'Quote Sent') {
-      return (
-        <View style={styles.infoBadge}>
-          <Text style={styles.infoBadgeText}>⏳ Aguardando aprovação do cliente...</Text>
+        <View style={[styles.completedBadge, status === 'Cancelled' && styles.cancelledBadge]}>
+          <Text style={[styles.completedText, status === 'Cancelled' && styles.cancelledText]}>
+            {status === 'Cancelled' ? '✕ Cancelada' : '✓ Concluído'}
+          </Text>
         </View>
       );
     }
 
-    if (status === 'Quote Approved') {
+    if (transitions.length > 0 || state.waiting?.employee) {
       return (
-        <TouchableOpacity
-          style={styles.actionButton}
-          onPress={() => handleAction(request, 'attachContract')}
-        >
-          <Text style={styles.actionButtonText}>📎 Anexar Contrato</Text>
-        </TouchableOpacity>
-      );
-    }
-
-    if (status === 'Contract Sent') {
-      return (
-        <View style={styles.infoBadge}>
-          <Text style={styles.infoBadgeText}>⏳ Aguardando assinatura do cliente...</Text>
+        <View>
+          {state.waiting?.employee && (
+            <View style={styles.infoBadge}>
+              <Text style={styles.infoBadgeText}>{state.waiting.employee}</Text>
+            </View>
+          )}
+          {transitions.map((transition) => (
+            <TouchableOpacity
+              key={transition.id}
+              style={[
+                styles.actionButton,
+                transition.variant === 'success' && styles.actionButtonSuccess,
+                transition.variant === 'danger' && styles.actionButtonDanger,
+              ]}
+              onPress={() => handleAction(request, transition)}
+            >
+              <Text style={styles.actionButtonText}>{transition.label}</Text>
+            </TouchableOpacity>
+          ))}
         </View>
       );
     }
 
-    if (status === 'Contract Signed') {
-      return (
-        <TouchableOpacity
-          style={[styles.actionButton, styles.actionButtonSuccess]}
-          onPress={() => handleAction(request, 'startDev')}
-        >
-          <Text style={styles.actionButtonText}>🚀 Iniciar Desenvolvimento</Text>
-        </TouchableOpacity>
-      );
-    }
-
-    if (status === 'In Development') {
-      return null; // Será renderizado separadamente abaixo
-    }
-
-    return (
-      <View style={styles.completedBadge}>
-        <Text style={styles.completedText}>✓ Concluído</Text>
-      </View>
-    );
+    return null; // Em desenvolvimento: renderizado separadamente abaixo
   };
 
   const renderContent = () => {
@@ -774,7 +823,23 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
     }
 
     // Tab de Solicitações
+    if (selectedRequest && buildingQuoteFor === selectedRequest.id) {
+      return (
+        <QuoteBuilderScreen
+          request={selectedRequest}
+          onSubmitted={() => setBuildingQuoteFor(null)}
+          onCancel={() => setBuildingQuoteFor(null)}
+          onAttachFile={() => {
+            setBuildingQuoteFor(null);
+            setUploadingFileFor({ type: 'quote', request: selectedRequest });
+          }}
+        />
+      );
+    }
+
     if (selectedRequest) {
+      const nextDevelopmentStatuses = RequestWorkflow.getNextDevelopmentStatuses(selectedRequest.developmentStatus);
+
       return (
         // Detail view
         <ScrollView style={styles.detailContainer}>
@@ -798,6 +863,21 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
                   📎 Anexar {uploadingFileFor.type === 'quote' ? 'Orçamento' : 'Contrato'}
                 </Text>
 
+                {uploadingFileFor.type === 'contract' && (
+                  <>
+                    <TouchableOpacity
+                      style={[styles.uploadButton, styles.generateButton, isUploading && styles.uploadButtonDisabled]}
+                      onPress={() => handleGenerateContract(uploadingFileFor.request)}
+                      disabled={isUploading}
+                    >
+                      <Text style={styles.uploadButtonText}>
+                        {isUploading ? '⏳ Gerando...' : '📄 Gerar contrato a partir do modelo'}
+                      </Text>
+                    </TouchableOpacity>
+                    <Text style={styles.fileInfoText}>Ou anexe um contrato pronto:</Text>
+                  </>
+                )}
+
                 <TouchableOpacity 
                   style={styles.selectFileButton} 
                   onPress={handleFileSelect}
@@ -840,40 +920,72 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
               </View>
             ) : (
               <>
+                {/* Motivo da recusa do orçamento, para orientar a versão revisada */}
+                {selectedRequest.status === 'Quote Rejected' && selectedRequest.quoteRejection && (
+                  <View style={styles.rejectionCard}>
+                    <Text style={styles.rejectionTitle}>
+                      ❌ Orçamento versão {selectedRequest.quoteRejection.version} recusado pelo cliente
+                    </Text>
+                    <Text style={styles.rejectionReason}>
+                      Motivo: {QuoteRevisionModel.getReasonLabel(selectedRequest.quoteRejection.reason)}
+                    </Text>
+                    {selectedRequest.quoteRejection.comment && (
+                      <Text style={styles.rejectionComment}>"{selectedRequest.quoteRejection.comment}"</Text>
+                    )}
+                  </View>
+                )}
+
                 {getActionButton(selectedRequest)}
 
+                {selectedRequest.contractFile && ['Contract Signed', 'In Development', 'Completed'].includes(selectedRequest.status) && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.actionButtonSecondary]}
+                    onPress={() => handleVerifySignature(selectedRequest)}
+                  >
+                    <Text style={styles.actionButtonText}>🔏 Verificar assinatura do contrato</Text>
+                  </TouchableOpacity>
+                )}
+
                 {/* Development Status Update */}
                 {selectedRequest.status === 'In Development' && (
                   <View style={styles.developmentSection}>
                     <Text style={styles.developmentSectionTitle}>📊 Atualizar Progresso do Desenvolvimento</Text>
                     
-                    <TouchableOpacity
-                      style={styles.devStatusButton}
-                      onPress={() => handleUpdateDevelopmentStatus('Analysis')}
-                    >
-                      <Text style={styles.devStatusText}>🔍 Em Análise</Text>
-                    </TouchableOpacity>
+                    {nextDevelopmentStatuses.includes('Analysis') && (
+                      <TouchableOpacity
+                        style={styles.devStatusButton}
+                        onPress={() => handleUpdateDevelopmentStatus('Analysis')}
+                      >
+                        <Text style={styles.devStatusText}>🔍 Em Análise</Text>
+                      </TouchableOpacity>
+                    )}
 
-                    <TouchableOpacity
-                      style={styles.devStatusButton}
-                      onPress={() => handleUpdateDevelopmentStatus('Development')}
-                    >
-                      <Text style={styles.devStatusText}>💻 Em Desenvolvimento</Text>
-                    </TouchableOpacity>
+                    {nextDevelopmentStatuses.includes('Development') && (
+                      <TouchableOpacity
+                        style={styles.devStatusButton}
+                        onPress={() => handleUpdateDevelopmentStatus('Development')}
+                      >
+                        <Text style={styles.devStatusText}>💻 Em Desenvolvimento</Text>
+                      </TouchableOpacity>
+                    )}
 
-                    <TouchableOpacity
-                      style={styles.devStatusButton}
-                      onPress={() => handleUpdateDevelopmentStatus('Testing')}
-                    >
-                      <Text style={styles.devStatusText}>🧪 Em Teste</Text>
-                    </TouchableOpacity>
+                    {nextDevelopmentStatuses.includes('Testing') && (
+                      <TouchableOpacity
+                        style={styles.devStatusButton}
+                        onPress={() => handleUpdateDevelopmentStatus('Testing')}
+                      >
+                        <Text style={styles.devStatusText}>🧪 Em Teste</Text>
+                      </TouchableOpacity>
+                    )}
 
-                    <TouchableOpacity
-                      style={[styles.devStatusButton, styles.devStatusButtonDone]}
-                      onPress={() => handleUpdateDevelopmentStatus('Done')}
-                    >
-                      <Text style={styles.devStatusText}>✅ Concluído</Text>
-                    </TouchableOpacity>
+                    {nextDevelopmentStatuses.includes('Done') && (
+                      <TouchableOpacity
+                        style={[styles.devStatusButton, styles.devStatusButtonDone]}
+                        onPress={() => handleUpdateDevelopmentStatus('Done')}
+                      >
+                        <Text style={styles.devStatusText}>✅ Concluído</Text>
+                      </TouchableOpacity>
+                    )}
 
                     {selectedRequest.developmentStatus && (
                       <View style={styles.currentDevStatus}>
@@ -885,6 +997,37 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
                   </View>
                 )}
 
+                {(selectedRequest.quoteFile || selectedRequest.contractFile) && (
+                  <View style={styles.documentsSection}>
+                    <Text style={styles.itemsTitle}>📎 Documentos</Text>
+                    <View style={styles.documentButtons}>
+                      {selectedRequest.quoteFile && (
+                        <TouchableOpacity style={styles.documentButton} onPress={() => setViewingDocument('quote')}>
+                          <Text style={styles.documentButtonText}>📄 Ver orçamento</Text>
+                        </TouchableOpacity>
+                      )}
+                      {selectedRequest.contractFile && (
+                        <TouchableOpacity style={styles.documentButton} onPress={() => setViewingDocument('contract')}>
+                          <Text style={styles.documentButtonText}>📄 Ver contrato</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                )}
+
+                {QuoteRevisionModel.getRevisions(selectedRequest).some(revision => revision.outcome === 'rejected') && (
+                  <View style={styles.documentsSection}>
+                    <QuoteRevisionList revisions={QuoteRevisionModel.getRevisions(selectedRequest)} viewer="employee" />
+                  </View>
+                )}
+
+                <DocumentViewer
+                  visible={viewingDocument !== null}
+                  title={`${viewingDocument === 'contract' ? 'Contrato' : 'Orçamento'} - ${selectedRequest.site}`}
+                  loadDocument={() => requestController.loadDocument(selectedRequest.id, viewingDocument || 'quote')}
+                  onClose={() => setViewingDocument(null)}
+                />
+
                 <Text style={styles.itemsTitle}>📝 Itens Solicitados pelo Cliente</Text>
                 {selectedRequest.selectedIssues.length > 0 ? (
                   selectedRequest.selectedIssues.map((issue, index) => (
@@ -896,6 +1039,8 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
                 ) : (
                   <Text style={styles.emptyText}>Nenhum item específico selecionado.</Text>
                 )}
+
+                <ActivityFeed events={requestState.history[selectedRequest.id] || []} />
               </>
             )}
           </View>
@@ -908,6 +1053,30 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
       <ScrollView style={styles.content}>
         <Text style={styles.sectionTitle}>📋 Solicitações</Text>
 
+        {requestState.backendStatus === 'open' && (
+          <View style={styles.connectivityBanner}>
+            <Text style={styles.connectivityText}>
+              🔌 Servidor indisponível — novas tentativas automáticas em instantes
+            </Text>
+          </View>
+        )}
+        {requestState.cachedAt && (
+          <View style={styles.cachedDataBanner}>
+            <Text style={styles.cachedDataText}>
+              📡 Sem conexão — últimos dados conhecidos de {new Date(requestState.cachedAt).toLocaleString('pt-BR')}
+            </Text>
+          </View>
+        )}
+
+        {requestState.syncConflicts.map((conflict) => (
+          <View key={conflict.id} style={styles.syncConflictBanner}>
+            <Text style={styles.syncConflictText}>⚠️ {conflict.lastError}</Text>
+            <TouchableOpacity onPress={() => requestController.dismissSyncConflict(conflict.id!)}>
+              <Text style={styles.syncConflictDismiss}>OK</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+
         {requestState.requests.length > 0 ? (
           requestState.requests.map((req) => (
             <TouchableOpacity
@@ -923,6 +1092,9 @@ export const EmployeeDashboard: React.FC<EmployeeDashboardProps> = ({
                     {statusConfig.map[req.status]}
                   </Text>
                 </View>
+                {requestController.hasPendingSync(req.id) && (
+                  <Text style={styles.pendingSyncText}>⏳ Sincronização pendente</Text>
+                )}
               </View>
               <Text style={styles.arrow}>→</Text>
             </TouchableOpacity>
@@ -1156,6 +1328,52 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  pendingSyncText: {
+    color: '#92400e',
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 6,
+  },
+  connectivityBanner: {
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  connectivityText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#991b1b',
+  },
+  cachedDataBanner: {
+    backgroundColor: '#e0e7ff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  cachedDataText: {
+    fontSize: 13,
+    color: '#3730a3',
+  },
+  syncConflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fee2e2',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  syncConflictText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991b1b',
+  },
+  syncConflictDismiss: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#991b1b',
+    marginLeft: 12,
+  },
   arrow: {
     fontSize: 20,
     color: '#9ca3af',
@@ -1237,10 +1455,18 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 8,
   },
+  actionButtonSecondary: {
+    backgroundColor: '#0ea5e9',
+    shadowColor: '#0ea5e9',
+  },
   actionButtonSuccess: {
     backgroundColor: '#10b981',
     shadowColor: '#10b981',
   },
+  actionButtonDanger: {
+    backgroundColor: '#ef4444',
+    shadowColor: '#ef4444',
+  },
   actionButtonText: {
     color: 'white',
     fontSize: 16,
@@ -1258,6 +1484,57 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  cancelledBadge: {
+    backgroundColor: '#fee2e2',
+  },
+  cancelledText: {
+    color: '#dc2626',
+  },
+  documentsSection: {
+    marginBottom: 24,
+  },
+  rejectionCard: {
+    backgroundColor: '#fef2f2',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+  },
+  rejectionTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#991b1b',
+    marginBottom: 6,
+  },
+  rejectionReason: {
+    fontSize: 14,
+    color: '#7f1d1d',
+  },
+  rejectionComment: {
+    fontSize: 14,
+    color: '#7f1d1d',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  documentButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  documentButton: {
+    backgroundColor: '#eef2ff',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+  },
+  documentButtonText: {
+    color: '#4338ca',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   itemsTitle: {
     fontSize: 16,
     fontWeight: 'bold',
@@ -1384,6 +1661,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: 'bold',
   },
+  generateButton: {
+    flex: 0,
+    marginBottom: 8,
+  },
   uploadButtonDisabled: {
     backgroundColor: '#9ca3af',
     opacity: 0.6,
@@ -0,0 +1,257 @@
+/**
+ * EvaluationComparisonScreen - Comparação lado a lado entre duas avaliações de um site para React Native
+ *
+ * Usada como comprovante de entrega ao fim de cada projeto: mostra a variação da nota e as
+ * auditorias corrigidas, as que passaram a reprovar e as que continuam reprovadas.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Share, Alert } from 'react-native';
+import { CircularProgress } from '../components/CircularProgress.native';
+import { EvaluationModel, type AuditChange, type EvaluationComparison, type EvaluationResult } from '../../models';
+
+interface EvaluationComparisonScreenProps {
+  comparison: EvaluationComparison;
+  onBack: () => void;
+}
+
+export const EvaluationComparisonScreen: React.FC<EvaluationComparisonScreenProps> = ({
+  comparison,
+  onBack,
+}) => {
+  const { previous, current, scoreDelta, fixed, newlyFailing, stillFailing } = comparison;
+
+  const formatDate = (date: Date) => date.toLocaleString('pt-BR');
+
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+  const getDeltaColor = (delta: number) => {
+    if (delta > 0) return '#10b981';
+    if (delta < 0) return '#ef4444';
+    return '#6b7280';
+  };
+
+  const handleShare = async () => {
+    const list = (items: AuditChange[]) => items.length > 0
+      ? items.map(item => `  • ${item.text}`).join('\n')
+      : '  (nenhuma)';
+
+    const message = [
+      `Comparação de acessibilidade - ${EvaluationModel.formatUrl(current.siteUrl)}`,
+      `Antes (${formatDate(previous.evaluatedAt)}): ${previous.score}`,
+      `Depois (${formatDate(current.evaluatedAt)}): ${current.score} (${formatDelta(scoreDelta)})`,
+      '',
+      `Corrigidas (${fixed.length}):`,
+      list(fixed),
+      `Novas reprovações (${newlyFailing.length}):`,
+      list(newlyFailing),
+      `Ainda reprovadas (${stillFailing.length}):`,
+      list(stillFailing),
+    ].join('\n');
+
+    try {
+      await Share.share({ message });
+    } catch (error) {
+      console.error('[EvaluationComparisonScreen] Erro ao compartilhar comparação:', error);
+      Alert.alert('Erro', 'Não foi possível compartilhar a comparação.');
+    }
+  };
+
+  const renderColumn = (label: string, result: EvaluationResult) => (
+    <View style={styles.column}>
+      <Text style={styles.columnLabel}>{label}</Text>
+      <CircularProgress score={result.score} size="sm" strokeWidth={8} />
+      <Text style={styles.columnDate}>{formatDate(result.evaluatedAt)}</Text>
+    </View>
+  );
+
+  const renderSection = (title: string, items: AuditChange[], emptyText: string, color: string) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color }]}>{title} ({items.length})</Text>
+      {items.length === 0 ? (
+        <Text style={styles.emptyText}>{emptyText}</Text>
+      ) : (
+        items.map(item => (
+          <View key={item.id} style={styles.auditItem}>
+            <Text style={styles.auditText}>{item.text}</Text>
+            {item.text !== item.id && <Text style={styles.auditId}>{item.id}</Text>}
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>← Voltar</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.titleCard}>
+          <Text style={styles.title}>🔁 Comparação de Avaliações</Text>
+          <Text style={styles.site}>{EvaluationModel.formatUrl(current.siteUrl)}</Text>
+
+          <View style={styles.columns}>
+            {renderColumn('Antes', previous)}
+            <View style={styles.deltaContainer}>
+              <Text style={[styles.delta, { color: getDeltaColor(scoreDelta) }]}>{formatDelta(scoreDelta)}</Text>
+              <Text style={styles.deltaLabel}>pontos</Text>
+            </View>
+            {renderColumn('Depois', current)}
+          </View>
+
+          {comparison.isPartial && (
+            <Text style={styles.partialHint}>
+              ℹ️ Uma das avaliações não tem a lista completa de auditorias; a comparação considera apenas os problemas exibidos.
+            </Text>
+          )}
+        </View>
+
+        {renderSection('✅ Corrigidas', fixed, 'Nenhuma auditoria corrigida.', '#10b981')}
+        {renderSection('❌ Novas reprovações', newlyFailing, 'Nenhuma auditoria passou a reprovar.', '#ef4444')}
+        {renderSection('⚠️ Ainda reprovadas', stillFailing, 'Nenhuma auditoria continua reprovada.', '#f59e0b')}
+
+        <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+          <Text style={styles.shareButtonText}>📤 Compartilhar Comparação</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  backButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  titleCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 4,
+  },
+  site: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 16,
+  },
+  columns: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  columnLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#4b5563',
+    marginBottom: 8,
+  },
+  columnDate: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  deltaContainer: {
+    alignItems: 'center',
+    paddingHorizontal: 8,
+  },
+  delta: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  deltaLabel: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  partialHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 16,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  auditItem: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  auditText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  auditId: {
+    fontSize: 11,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  shareButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  shareButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
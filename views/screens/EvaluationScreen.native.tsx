@@ -12,16 +12,28 @@ import {
   ScrollView,
   ActivityIndicator,
 } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
 import { EvaluationController } from '../../controllers';
+import { EvaluationModel, SiteCrawlModel, type EvaluationIssue } from '../../models';
+import { IssueDetailModal } from '../components/IssueDetailModal.native';
+
+const ISSUES_PREVIEW = 10; // Problemas exibidos antes de "Mostrar todos"
 
 interface EvaluationScreenProps {
   onSelectPlan: (plan: 'A' | 'AA' | 'AAA', issues: any[]) => void;
+  onCompare?: () => void; // Abre a comparação com a avaliação anterior do mesmo site
 }
 
 export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
   onSelectPlan,
+  onCompare,
 }) => {
   const [url, setUrl] = useState('');
+  const [mode, setMode] = useState<'single' | 'crawl'>('single');
+  const [crawlSource, setCrawlSource] = useState<'sitemap' | 'paths'>('sitemap');
+  const [paths, setPaths] = useState('');
+  const [selectedIssue, setSelectedIssue] = useState<EvaluationIssue | null>(null);
+  const [showAllIssues, setShowAllIssues] = useState(false);
   const [evaluationController] = useState(() => EvaluationController.getInstance());
   const [evaluationState, setEvaluationState] = useState(evaluationController.getState());
 
@@ -30,11 +42,42 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
     return unsubscribe;
   }, [evaluationController]);
 
+  useEffect(() => {
+    setShowAllIssues(false);
+  }, [evaluationState.currentEvaluation]);
+
   const handleEvaluate = async () => {
     if (!url.trim()) return;
 
     try {
-      await evaluationController.evaluateSite(url);
+      if (mode === 'crawl') {
+        await evaluationController.evaluateSiteCrawl(
+          url,
+          crawlSource === 'sitemap' ? { type: 'sitemap' } : { type: 'paths', paths: paths.split('\n') }
+        );
+      } else {
+        await evaluationController.evaluateSite(url);
+      }
+    } catch (error) {
+      // Error is handled by the controller
+    }
+  };
+
+  // Relatório JSON do Lighthouse ou do axe-core gerado fora do app
+  const handleImportReport = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+
+      if (picked.canceled || !picked.assets?.length) {
+        return;
+      }
+
+      const result = await evaluationController.importReport(picked.assets[0]);
+      setUrl(result.siteUrl);
+      setMode('single');
     } catch (error) {
       // Error is handled by the controller
     }
@@ -58,6 +101,29 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
     return 'Precisa de melhorias significativas.';
   };
 
+  // Caminho da página para exibição (a origem já aparece no resultado)
+  const formatPagePath = (pageUrl: string) => {
+    try {
+      const parsed = new URL(pageUrl);
+      return `${parsed.pathname}${parsed.search}`;
+    } catch {
+      return pageUrl;
+    }
+  };
+
+  const renderOption = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      style={[styles.option, isActive && styles.optionActive]}
+      onPress={onPress}
+      disabled={evaluationState.isLoading}
+    >
+      <Text style={[styles.optionText, isActive && styles.optionTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const progress = evaluationState.crawlProgress;
+  const pages = evaluationState.currentEvaluation?.pages;
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
       <View style={styles.header}>
@@ -67,6 +133,10 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
 
       {/* URL input */}
       <View style={styles.inputCard}>
+        <View style={styles.optionRow}>
+          {renderOption('Página única', mode === 'single', () => setMode('single'))}
+          {renderOption('Várias páginas', mode === 'crawl', () => setMode('crawl'))}
+        </View>
         <TextInput
           style={styles.input}
           value={url}
@@ -78,6 +148,28 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
           autoCorrect={false}
           editable={!evaluationState.isLoading}
         />
+        {mode === 'crawl' && (
+          <>
+            <Text style={styles.optionLabel}>Páginas a avaliar (até {SiteCrawlModel.MAX_PAGES}):</Text>
+            <View style={styles.optionRow}>
+              {renderOption('sitemap.xml', crawlSource === 'sitemap', () => setCrawlSource('sitemap'))}
+              {renderOption('Lista de caminhos', crawlSource === 'paths', () => setCrawlSource('paths'))}
+            </View>
+            {crawlSource === 'paths' && (
+              <TextInput
+                style={[styles.input, styles.pathsInput]}
+                value={paths}
+                onChangeText={setPaths}
+                placeholder={'/checkout\n/login\n/contato'}
+                placeholderTextColor="#9ca3af"
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+                editable={!evaluationState.isLoading}
+              />
+            )}
+          </>
+        )}
         <TouchableOpacity
           style={[styles.button, evaluationState.isLoading && styles.buttonDisabled]}
           onPress={handleEvaluate}
@@ -86,12 +178,39 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
           {evaluationState.isLoading ? (
             <>
               <ActivityIndicator size="small" color="white" />
-              <Text style={styles.buttonText}>  Avaliando...</Text>
+              <Text style={styles.buttonText}>
+                {'  '}Avaliando{progress ? ` ${progress.completed}/${progress.total}` : ''}...
+              </Text>
             </>
           ) : (
             <Text style={styles.buttonText}>✨ Avaliar</Text>
           )}
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={handleImportReport}
+          disabled={evaluationState.isLoading}
+        >
+          <Text style={[styles.importButtonText, evaluationState.isLoading && styles.importButtonTextDisabled]}>
+            📂 Importar relatório (Lighthouse/axe)
+          </Text>
+        </TouchableOpacity>
+
+        {/* Crawl progress */}
+        {progress && progress.total > 0 && (
+          <View style={styles.progressContainer}>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressBar, { width: `${(progress.completed / progress.total) * 100}%` }]} />
+            </View>
+            <Text style={styles.progressText}>
+              {progress.completed} de {progress.total} página(s) avaliada(s)
+              {progress.failed > 0 ? ` • ${progress.failed} com erro` : ''}
+            </Text>
+            {progress.currentUrls.map(pageUrl => (
+              <Text key={pageUrl} style={styles.progressUrl} numberOfLines={1}>⏳ {formatPagePath(pageUrl)}</Text>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* Error message */}
@@ -128,34 +247,124 @@ export const EvaluationScreen: React.FC<EvaluationScreenProps> = ({
             </Text>
           </View>
 
+          {/* Re-evaluation of the same site */}
+          {evaluationState.comparison && onCompare && (
+            <TouchableOpacity style={styles.comparisonCard} onPress={onCompare}>
+              <Text style={styles.comparisonTitle}>
+                🔁 {evaluationState.comparison.scoreDelta >= 0 ? '+' : ''}{evaluationState.comparison.scoreDelta} pontos desde {evaluationState.comparison.previous.evaluatedAt.toLocaleDateString('pt-BR')}
+              </Text>
+              <Text style={styles.comparisonText}>
+                {evaluationState.comparison.fixed.length} corrigida(s) • {evaluationState.comparison.newlyFailing.length} nova(s) reprovação(ões) • Ver comparação →
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Per-page breakdown */}
+          {pages && pages.length > 0 && (
+            <View style={styles.issuesSection}>
+              <Text style={styles.sectionTitle}>📄 Páginas Avaliadas ({pages.length}):</Text>
+              <Text style={styles.sectionHint}>
+                A nota de {EvaluationModel.formatUrl(evaluationState.currentEvaluation.siteUrl)} é a média das páginas avaliadas.
+              </Text>
+              {pages.map(page => (
+                <View key={page.url} style={styles.pageItem}>
+                  <Text
+                    style={[styles.pageScore, { color: page.score !== undefined ? getScoreColor(page.score) : '#9ca3af' }]}
+                  >
+                    {page.score ?? '—'}
+                  </Text>
+                  <View style={styles.pageInfo}>
+                    <Text style={styles.pagePath} numberOfLines={1}>{formatPagePath(page.url)}</Text>
+                    <Text style={page.error ? styles.pageError : styles.pageMeta}>
+                      {page.error ? `Erro: ${page.error}` : `${page.issues.length} problema(s)`}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
           {/* Issues found */}
           <View style={styles.issuesSection}>
             <Text style={styles.sectionTitle}>⚠️ Problemas Encontrados:</Text>
-            {evaluationState.currentEvaluation.issues.map((issue, index) => (
-              <View key={issue.id || index} style={styles.issueItem}>
-                <Text style={styles.issueBullet}>•</Text>
-                <Text style={styles.issueText}>{issue.text}</Text>
-              </View>
-            ))}
+            <Text style={styles.sectionHint}>
+              {evaluationState.currentEvaluation.issues.length > 0
+                ? '💡 Toque em um problema para ver os detalhes'
+                : '✅ Nenhum problema de acessibilidade encontrado'}
+            </Text>
+            {evaluationState.currentEvaluation.issues
+              .slice(0, showAllIssues ? undefined : ISSUES_PREVIEW)
+              .map((issue, index) => (
+                <TouchableOpacity
+                  key={issue.id || index}
+                  style={styles.issueItem}
+                  onPress={() => setSelectedIssue(issue)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.issueBullet}>•</Text>
+                  <View style={styles.issueContent}>
+                    <Text style={styles.issueText}>{issue.text}</Text>
+                    {(issue.nodes || issue.wcagCriteria) && (
+                      <Text style={styles.issueMeta}>
+                        {[
+                          issue.nodes && `${issue.nodes.length} elemento(s)`,
+                          issue.wcagCriteria && `WCAG ${issue.wcagCriteria.join(', ')}`,
+                        ].filter(Boolean).join(' • ')}
+                      </Text>
+                    )}
+                  </View>
+                  <Text style={styles.issueArrow}>→</Text>
+                </TouchableOpacity>
+              ))}
+            {evaluationState.currentEvaluation.issues.length > ISSUES_PREVIEW && (
+              <TouchableOpacity
+                style={styles.showMoreButton}
+                onPress={() => setShowAllIssues(!showAllIssues)}
+              >
+                <Text style={styles.showMoreButtonText}>
+                  {showAllIssues
+                    ? 'Mostrar só os mais críticos'
+                    : `Mostrar todos os ${evaluationState.currentEvaluation.issues.length} problemas`}
+                </Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* Suggested plans */}
           <View style={styles.plansSection}>
             <Text style={styles.sectionTitle}>📦 Planos Sugeridos:</Text>
+            <Text style={styles.optionLabel}>Obrigação legal de acessibilidade:</Text>
+            <View style={styles.optionRow}>
+              {evaluationController.getLegalObligations().map(obligation => (
+                <React.Fragment key={obligation.id}>
+                  {renderOption(
+                    obligation.label,
+                    evaluationState.legalObligation === obligation.id,
+                    () => evaluationController.setLegalObligation(obligation.id)
+                  )}
+                </React.Fragment>
+              ))}
+            </View>
             {evaluationState.suggestedPlans.map((plan) => (
               <TouchableOpacity
                 key={plan.level}
-                style={styles.planCard}
+                style={[styles.planCard, plan.recommended && styles.planCardRecommended]}
                 onPress={() => handleSelectPlan(plan.level)}
               >
                 <Text style={styles.planLevel}>Plano {plan.level}</Text>
-                <Text style={styles.planDescription}>{plan.description}</Text>
+                <View style={styles.planInfo}>
+                  {plan.recommended && <Text style={styles.planBadge}>⭐ Recomendado</Text>}
+                  <Text style={styles.planDescription}>{plan.description}</Text>
+                  <Text style={styles.planRationale}>{plan.rationale}</Text>
+                </View>
                 <Text style={styles.planArrow}>→</Text>
               </TouchableOpacity>
             ))}
           </View>
         </View>
       )}
+
+      <IssueDetailModal issue={selectedIssue} onClose={() => setSelectedIssue(null)} />
     </ScrollView>
   );
 };
@@ -202,6 +411,63 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     color: '#1f2937',
   },
+  optionRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  option: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingVertical: 8,
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
+  optionActive: {
+    borderColor: '#6366f1',
+    backgroundColor: '#f0f4ff',
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  optionTextActive: {
+    color: '#6366f1',
+  },
+  optionLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  pathsInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  progressContainer: {
+    marginTop: 12,
+  },
+  progressTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#e5e7eb',
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: '#6366f1',
+  },
+  progressText: {
+    fontSize: 13,
+    color: '#4b5563',
+    marginTop: 6,
+  },
+  progressUrl: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
   button: {
     backgroundColor: '#6366f1',
     borderRadius: 12,
@@ -218,6 +484,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  importButton: {
+    marginTop: 10,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  importButtonText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  importButtonTextDisabled: {
+    color: '#9ca3af',
+  },
   errorCard: {
     backgroundColor: '#fef2f2',
     borderLeftWidth: 4,
@@ -270,6 +549,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  comparisonCard: {
+    backgroundColor: '#f0f4ff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  comparisonTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#4338ca',
+  },
+  comparisonText: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginTop: 4,
+  },
   issuesSection: {
     marginBottom: 24,
   },
@@ -291,11 +586,67 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginRight: 8,
   },
-  issueText: {
+  issueContent: {
     flex: 1,
+  },
+  issueText: {
     color: '#4b5563',
     fontSize: 14,
   },
+  issueMeta: {
+    color: '#9ca3af',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  issueArrow: {
+    color: '#9ca3af',
+    fontSize: 16,
+    marginLeft: 8,
+  },
+  showMoreButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  showMoreButtonText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  pageItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  pageScore: {
+    width: 40,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  pageInfo: {
+    flex: 1,
+  },
+  pagePath: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  pageMeta: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  pageError: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 2,
+  },
   plansSection: {
     marginTop: 8,
   },
@@ -306,6 +657,18 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     flexDirection: 'row',
     alignItems: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  planCardRecommended: {
+    borderColor: '#6366f1',
+    backgroundColor: '#eef2ff',
+  },
+  planBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6366f1',
+    marginBottom: 2,
   },
   planLevel: {
     fontSize: 18,
@@ -313,11 +676,18 @@ const styles = StyleSheet.create({
     color: '#6366f1',
     marginRight: 12,
   },
-  planDescription: {
+  planInfo: {
     flex: 1,
+  },
+  planDescription: {
     fontSize: 14,
     color: '#6b7280',
   },
+  planRationale: {
+    fontSize: 12,
+    color: '#4b5563',
+    marginTop: 4,
+  },
   planArrow: {
     fontSize: 20,
     color: '#6366f1',
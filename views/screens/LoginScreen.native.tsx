@@ -26,12 +26,14 @@ import { AuthController } from '../../controllers';
 interface LoginScreenProps {
   onLoginSuccess: (user: any) => void;
   onRegisterPress?: () => void;
+  onDeveloperSettingsPress?: () => void; // Exibido apenas em builds de desenvolvimento
   className?: string;
 }
 
 export const LoginScreen: React.FC<LoginScreenProps> = ({
   onLoginSuccess,
   onRegisterPress,
+  onDeveloperSettingsPress,
 }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -168,6 +170,15 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({
                 ✨ Criar Nova Conta
               </Text>
             </TouchableOpacity>
+
+            {/* Developer settings link */}
+            {__DEV__ && onDeveloperSettingsPress && (
+              <View style={styles.forgotPasswordContainer}>
+                <TouchableOpacity onPress={onDeveloperSettingsPress} disabled={authState.isLoading}>
+                  <Text style={styles.forgotPasswordText}>🛠️ Configurações do desenvolvedor</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
         </View>
       </ScrollView>
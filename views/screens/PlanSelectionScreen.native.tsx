@@ -1,8 +1,10 @@
 /**
  * PlanSelectionScreen - Tela de seleção e personalização de plano para React Native
+ *
+ * Mostra quais critérios WCAG reprovados pelo site o plano cobre e quais ficam de fora.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,7 +16,7 @@ import {
 } from 'react-native';
 import { EvaluationController } from '../../controllers';
 import { StarRating } from '../components/StarRating.native';
-import { type EvaluationIssue } from '../../models';
+import { WcagCatalog, type EvaluationIssue, type WCAGItem } from '../../models';
 
 interface PlanSelectionScreenProps {
   plan: 'A' | 'AA' | 'AAA';
@@ -43,6 +45,11 @@ export const PlanSelectionScreen: React.FC<PlanSelectionScreenProps> = ({
     evaluationController.selectPlan(plan);
   }, [plan, evaluationController]);
 
+  const coverage = useMemo(
+    () => evaluationController.getPlanCoverage(plan),
+    [evaluationController, plan, evaluationState.currentEvaluation]
+  );
+
   const handleRatingChange = (id: string, priority: number) => {
     evaluationController.updateItemPriority(id, priority);
   };
@@ -61,6 +68,19 @@ export const PlanSelectionScreen: React.FC<PlanSelectionScreenProps> = ({
     return evaluationController.getLevelDescription(planLevel);
   };
 
+  const renderCriterion = (item: WCAGItem, isCovered: boolean) => (
+    <View key={item.id} style={styles.criterionRow}>
+      <Text style={styles.criterionIcon}>{isCovered ? '✅' : '⏭️'}</Text>
+      <View style={styles.criterionInfo}>
+        <Text style={styles.criterionText}>{item.text}</Text>
+        <Text style={styles.criterionMeta}>
+          Nível {item.level} • {WcagCatalog.PRINCIPLE_NAMES[item.principle]}
+          {isCovered ? '' : ' • fora deste plano'}
+        </Text>
+      </View>
+    </View>
+  );
+
   const getSelectedItemsCount = () => {
     return Object.values(evaluationState.checklist).filter(
       (item) => item.priority && item.priority > 0
@@ -84,11 +104,32 @@ export const PlanSelectionScreen: React.FC<PlanSelectionScreenProps> = ({
           <Text style={styles.hint}>⭐ Defina a prioridade de cada item (1-5 estrelas)</Text>
         </View>
 
+        {/* WCAG coverage */}
+        <View style={styles.coverageCard}>
+          <Text style={styles.coverageTitle}>🎯 Critérios WCAG reprovados</Text>
+          {coverage.covered.length + coverage.notCovered.length === 0 ? (
+            <Text style={styles.coverageText}>
+              Nenhum critério WCAG reprovado foi identificado automaticamente. O plano {plan} abrange {coverage.totalCriteria} critérios.
+            </Text>
+          ) : (
+            <>
+              <Text style={styles.coverageText}>
+                O plano {plan} cobre {coverage.covered.length} de {coverage.covered.length + coverage.notCovered.length} critério(s) reprovado(s) neste site.
+              </Text>
+              {coverage.covered.map(item => renderCriterion(item, true))}
+              {coverage.notCovered.map(item => renderCriterion(item, false))}
+            </>
+          )}
+        </View>
+
         {/* Checklist items */}
         <Text style={styles.sectionTitle}>📋 Itens do Plano</Text>
         {Object.entries(evaluationState.checklist).map(([id, item]) => (
           <View key={id} style={styles.checklistItem}>
             <Text style={styles.checklistText}>{item.text}</Text>
+            {item.type === 'issue' && item.wcagCriteria && (
+              <Text style={styles.checklistCriteria}>WCAG {item.wcagCriteria.join(', ')}</Text>
+            )}
             <StarRating
               rating={item.priority || 0}
               onRatingChange={(priority) => handleRatingChange(id, priority)}
@@ -237,6 +278,55 @@ const styles = StyleSheet.create({
     color: '#1f2937',
     marginBottom: 12,
   },
+  checklistCriteria: {
+    fontSize: 12,
+    color: '#6366f1',
+    marginTop: -8,
+    marginBottom: 12,
+  },
+  coverageCard: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  coverageTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  coverageText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 8,
+  },
+  criterionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 6,
+  },
+  criterionIcon: {
+    fontSize: 14,
+    marginRight: 8,
+  },
+  criterionInfo: {
+    flex: 1,
+  },
+  criterionText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  criterionMeta: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
   customSection: {
     backgroundColor: 'white',
     borderRadius: 16,
@@ -0,0 +1,612 @@
+/**
+ * QuoteBuilderScreen - Montador de orçamentos para React Native
+ *
+ * Responsabilidades:
+ * - Montar os itens a partir dos problemas selecionados pelo cliente e do plano
+ * - Editar itens, descontos, impostos, validade e a tabela de preços
+ * - Exibir os totais e enviar o orçamento (payload estruturado + documento gerado)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { RequestController } from '../../controllers';
+import {
+  QuoteModel,
+  type AccessibilityRequest,
+  type QuoteDraft,
+  type QuoteLineItem,
+  type QuoteRates,
+} from '../../models';
+
+interface QuoteBuilderScreenProps {
+  request: AccessibilityRequest;
+  onSubmitted: () => void;
+  onCancel: () => void;
+  onAttachFile: () => void; // Alternativa: anexar um orçamento pronto em PDF
+}
+
+const LEVELS: Array<'A' | 'AA' | 'AAA'> = ['A', 'AA', 'AAA'];
+const PRIORITIES = [1, 2, 3, 4, 5];
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? 0 : value;
+};
+const formatNumber = (value: number) => String(value).replace('.', ',');
+
+/**
+ * Campo numérico que aceita vírgula decimal e mantém o texto enquanto é digitado
+ */
+const NumberField: React.FC<{ value: number; onChange: (value: number) => void; style?: any }> = ({
+  value,
+  onChange,
+  style,
+}) => {
+  const [text, setText] = useState(formatNumber(value));
+
+  useEffect(() => {
+    if (parseNumber(text) !== value) {
+      setText(formatNumber(value));
+    }
+  }, [value]);
+
+  return (
+    <TextInput
+      style={[styles.input, styles.numberInput, style]}
+      value={text}
+      onChangeText={next => {
+        setText(next);
+        onChange(parseNumber(next));
+      }}
+      keyboardType="decimal-pad"
+    />
+  );
+};
+
+export const QuoteBuilderScreen: React.FC<QuoteBuilderScreenProps> = ({
+  request,
+  onSubmitted,
+  onCancel,
+  onAttachFile,
+}) => {
+  const [requestController] = useState(() => RequestController.getInstance());
+  const [rates, setRates] = useState<QuoteRates>(QuoteModel.DEFAULT_RATES);
+  const [draft, setDraft] = useState<QuoteDraft>(() => QuoteModel.createDraft(request, QuoteModel.DEFAULT_RATES));
+  const [showRates, setShowRates] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Tabela de preços salva: os itens gerados são precificados novamente
+  useEffect(() => {
+    requestController.getQuoteRates().then(savedRates => {
+      setRates(savedRates);
+      setDraft(current => ({ ...current, items: repriceItems(current.items, savedRates) }));
+    });
+  }, [requestController, request.id]);
+
+  const repriceItems = (items: QuoteLineItem[], table: QuoteRates) =>
+    items.map(item => {
+      if (item.id === 'plan') return { ...item, unitPrice: table.planBaseFees[item.level] };
+      if (item.priority > 0) return { ...item, unitPrice: QuoteModel.priceItem(item.priority, item.level, table) };
+      return item;
+    });
+
+  const updateItem = (index: number, changes: Partial<QuoteLineItem>) => {
+    setDraft(current => ({
+      ...current,
+      items: current.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  // Trocar prioridade ou nível recalcula o preço pela tabela
+  const changeItemPricing = (index: number, item: QuoteLineItem, changes: Pick<QuoteLineItem, 'priority' | 'level'>) => {
+    const next = { ...item, ...changes };
+    updateItem(index, { ...changes, unitPrice: QuoteModel.priceItem(next.priority, next.level, rates) });
+  };
+
+  const addItem = () => {
+    setDraft(current => ({
+      ...current,
+      items: [
+        ...current.items,
+        {
+          id: `custom-${Date.now()}`,
+          description: '',
+          priority: 3,
+          level: current.plan,
+          quantity: 1,
+          unitPrice: QuoteModel.priceItem(3, current.plan, rates),
+        },
+      ],
+    }));
+  };
+
+  const handleSaveRates = async () => {
+    try {
+      await requestController.saveQuoteRates(rates);
+      setDraft(current => ({ ...current, items: repriceItems(current.items, rates) }));
+      Alert.alert('Sucesso', 'Tabela de preços salva e itens recalculados.');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar a tabela de preços');
+    }
+  };
+
+  const handleSubmit = async () => {
+    const validationError = QuoteModel.validate(draft);
+    if (validationError) {
+      Alert.alert('Orçamento incompleto', validationError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await requestController.submitQuote(request.id, QuoteModel.buildQuote(draft));
+      Alert.alert('Sucesso', 'Orçamento enviado com sucesso!');
+      onSubmitted();
+    } catch (error) {
+      console.error('[QuoteBuilderScreen] Erro ao enviar orçamento:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Erro ao enviar orçamento');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const totals = QuoteModel.calculateTotals(draft);
+  const validUntil = QuoteModel.buildQuote(draft).validUntil;
+
+  const renderChip = (label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity key={label} style={[styles.chip, isActive && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, isActive && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <TouchableOpacity style={styles.backButton} onPress={onCancel} disabled={isSubmitting}>
+        <Text style={styles.backButtonText}>← Voltar para a solicitação</Text>
+      </TouchableOpacity>
+
+      <View style={styles.card}>
+        <Text style={styles.title}>🧾 Montar Orçamento</Text>
+        <Text style={styles.subtitle}>{request.clientName} • {request.site} • Plano {request.plan}</Text>
+      </View>
+
+      {/* Itens */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Itens</Text>
+        {draft.items.map((item, index) => (
+          <View key={item.id} style={styles.item}>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.flex]}
+                value={item.description}
+                onChangeText={description => updateItem(index, { description })}
+                placeholder="Descrição do item"
+                placeholderTextColor="#9ca3af"
+                multiline
+              />
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => setDraft(current => ({ ...current, items: current.items.filter((_, i) => i !== index) }))}
+              >
+                <Text style={styles.removeButtonText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            {item.id !== 'plan' && (
+              <>
+                <View style={styles.chipRow}>
+                  <Text style={styles.fieldLabel}>Prioridade:</Text>
+                  {PRIORITIES.map(priority =>
+                    renderChip(String(priority), item.priority === priority, () =>
+                      changeItemPricing(index, item, { priority, level: item.level })
+                    )
+                  )}
+                </View>
+                <View style={styles.chipRow}>
+                  <Text style={styles.fieldLabel}>Nível:</Text>
+                  {LEVELS.map(level =>
+                    renderChip(level, item.level === level, () =>
+                      changeItemPricing(index, item, { priority: item.priority, level })
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            <View style={styles.row}>
+              <Text style={styles.fieldLabel}>Qtd.</Text>
+              <NumberField value={item.quantity} onChange={quantity => updateItem(index, { quantity })} />
+              <Text style={styles.fieldLabel}>R$</Text>
+              <NumberField value={item.unitPrice} onChange={unitPrice => updateItem(index, { unitPrice })} style={styles.flex} />
+              <Text style={styles.itemTotal}>{QuoteModel.formatCurrency(QuoteModel.getItemTotal(item))}</Text>
+            </View>
+          </View>
+        ))}
+        <TouchableOpacity style={styles.addButton} onPress={addItem}>
+          <Text style={styles.addButtonText}>+ Adicionar item</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Descontos */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Descontos</Text>
+        {draft.discounts.map((discount, index) => (
+          <View key={index} style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={discount.label}
+              onChangeText={label => setDraft(current => ({
+                ...current,
+                discounts: current.discounts.map((d, i) => (i === index ? { ...d, label } : d)),
+              }))}
+              placeholder="Descrição"
+              placeholderTextColor="#9ca3af"
+            />
+            {renderChip(discount.type === 'percent' ? '%' : 'R$', true, () => setDraft(current => ({
+              ...current,
+              discounts: current.discounts.map((d, i) =>
+                i === index ? { ...d, type: d.type === 'percent' ? 'fixed' : 'percent' } : d
+              ),
+            })))}
+            <NumberField
+              value={discount.value}
+              onChange={value => setDraft(current => ({
+                ...current,
+                discounts: current.discounts.map((d, i) => (i === index ? { ...d, value } : d)),
+              }))}
+            />
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => setDraft(current => ({ ...current, discounts: current.discounts.filter((_, i) => i !== index) }))}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setDraft(current => ({
+            ...current,
+            discounts: [...current.discounts, { label: 'Desconto', type: 'percent', value: 10 }],
+          }))}
+        >
+          <Text style={styles.addButtonText}>+ Adicionar desconto</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Impostos */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Impostos</Text>
+        {draft.taxes.map((tax, index) => (
+          <View key={index} style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={tax.label}
+              onChangeText={label => setDraft(current => ({
+                ...current,
+                taxes: current.taxes.map((t, i) => (i === index ? { ...t, label } : t)),
+              }))}
+              placeholder="Imposto"
+              placeholderTextColor="#9ca3af"
+            />
+            <NumberField
+              value={tax.rate}
+              onChange={rate => setDraft(current => ({
+                ...current,
+                taxes: current.taxes.map((t, i) => (i === index ? { ...t, rate } : t)),
+              }))}
+            />
+            <Text style={styles.fieldLabel}>%</Text>
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => setDraft(current => ({ ...current, taxes: current.taxes.filter((_, i) => i !== index) }))}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => setDraft(current => ({ ...current, taxes: [...current.taxes, { label: '', rate: 0 }] }))}
+        >
+          <Text style={styles.addButtonText}>+ Adicionar imposto</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Validade e observações */}
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Validade e observações</Text>
+        <View style={styles.row}>
+          <Text style={styles.fieldLabel}>Válido por</Text>
+          <NumberField value={draft.validityDays} onChange={validityDays => setDraft(current => ({ ...current, validityDays }))} />
+          <Text style={styles.fieldLabel}>dia(s) • até {validUntil.toLocaleDateString('pt-BR')}</Text>
+        </View>
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          value={draft.notes || ''}
+          onChangeText={notes => setDraft(current => ({ ...current, notes }))}
+          placeholder="Observações (prazo de execução, condições de pagamento...)"
+          placeholderTextColor="#9ca3af"
+          multiline
+        />
+      </View>
+
+      {/* Totais */}
+      <View style={[styles.card, styles.totalsCard]}>
+        <View style={styles.totalRow}>
+          <Text style={styles.totalLabel}>Subtotal</Text>
+          <Text style={styles.totalValue}>{QuoteModel.formatCurrency(totals.subtotal)}</Text>
+        </View>
+        {totals.discountTotal > 0 && (
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Descontos</Text>
+            <Text style={styles.totalValue}>- {QuoteModel.formatCurrency(totals.discountTotal)}</Text>
+          </View>
+        )}
+        {totals.taxTotal > 0 && (
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Impostos</Text>
+            <Text style={styles.totalValue}>{QuoteModel.formatCurrency(totals.taxTotal)}</Text>
+          </View>
+        )}
+        <View style={styles.totalRow}>
+          <Text style={styles.grandTotalLabel}>Total</Text>
+          <Text style={styles.grandTotalValue}>{QuoteModel.formatCurrency(totals.total)}</Text>
+        </View>
+      </View>
+
+      {/* Tabela de preços */}
+      <View style={styles.card}>
+        <TouchableOpacity onPress={() => setShowRates(!showRates)}>
+          <Text style={styles.sectionTitle}>{showRates ? '▼' : '▶'} Tabela de preços</Text>
+        </TouchableOpacity>
+        {showRates && (
+          <>
+            <Text style={styles.fieldLabel}>Preço por item (prioridade 1-5):</Text>
+            {PRIORITIES.map(priority => (
+              <View key={priority} style={styles.row}>
+                <Text style={[styles.fieldLabel, styles.rateLabel]}>Prioridade {priority}</Text>
+                <NumberField
+                  value={rates.priorityRates[priority]}
+                  onChange={value => setRates(current => ({
+                    ...current,
+                    priorityRates: { ...current.priorityRates, [priority]: value },
+                  }))}
+                  style={styles.flex}
+                />
+              </View>
+            ))}
+            <Text style={styles.fieldLabel}>Multiplicador e taxa do plano por nível WCAG:</Text>
+            {LEVELS.map(level => (
+              <View key={level} style={styles.row}>
+                <Text style={[styles.fieldLabel, styles.rateLabel]}>Nível {level}</Text>
+                <NumberField
+                  value={rates.levelMultipliers[level]}
+                  onChange={value => setRates(current => ({
+                    ...current,
+                    levelMultipliers: { ...current.levelMultipliers, [level]: value },
+                  }))}
+                />
+                <Text style={styles.fieldLabel}>x • R$</Text>
+                <NumberField
+                  value={rates.planBaseFees[level]}
+                  onChange={value => setRates(current => ({
+                    ...current,
+                    planBaseFees: { ...current.planBaseFees, [level]: value },
+                  }))}
+                  style={styles.flex}
+                />
+              </View>
+            ))}
+            <TouchableOpacity style={styles.addButton} onPress={handleSaveRates}>
+              <Text style={styles.addButtonText}>💾 Salvar tabela e recalcular itens</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+        onPress={handleSubmit}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator size="small" color="white" />
+        ) : (
+          <Text style={styles.submitButtonText}>📤 Enviar Orçamento ({QuoteModel.formatCurrency(totals.total)})</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.secondaryButton} onPress={onAttachFile} disabled={isSubmitting}>
+        <Text style={styles.secondaryButtonText}>📎 Anexar um orçamento pronto (PDF)</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f9fafb',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  backButton: {
+    marginBottom: 12,
+  },
+  backButtonText: {
+    color: '#6366f1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginBottom: 12,
+  },
+  item: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+    paddingBottom: 12,
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1f2937',
+    backgroundColor: '#f9fafb',
+  },
+  numberInput: {
+    minWidth: 64,
+    marginHorizontal: 6,
+    textAlign: 'right',
+  },
+  notesInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginRight: 4,
+  },
+  rateLabel: {
+    width: 96,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginLeft: 4,
+  },
+  chipActive: {
+    backgroundColor: '#6366f1',
+    borderColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6b7280',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  itemTotal: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1f2937',
+    marginLeft: 6,
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#ef4444',
+  },
+  addButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: '#6366f1',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  totalsCard: {
+    backgroundColor: '#eef2ff',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#4b5563',
+  },
+  totalValue: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  grandTotalLabel: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  grandTotalValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#6366f1',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#6b7280',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -22,6 +22,7 @@ import {
   ActivityIndicator
 } from 'react-native';
 import ApiService from '../../services/ApiService';
+import { UserMapper } from '../../models';
 
 interface RegisterScreenProps {
   onRegisterSuccess: (user: any) => void;
@@ -101,12 +102,10 @@ export const RegisterScreen: React.FC<RegisterScreenProps> = ({
         console.log('[RegisterScreen] Dados recebidos:', response.data);
 
         // Mapear resposta do backend para formato esperado pelo frontend
-        const user = {
-          id: response.data.user?.id,
-          name: response.data.user?.nome || name.trim(),
-          email: response.data.user?.email || email.trim(),
-          type: response.data.user?.tipo === 'funcionario' ? 'employee' : 'client',
-        };
+        const user = UserMapper.fromAuthUser(response.data.user, {
+          name: name.trim(),
+          email: email.trim(),
+        });
 
         console.log('[RegisterScreen] Usuário mapeado:', user);
         console.log('[RegisterScreen] Token recebido:', response.data.token ? 'Sim' : 'Não');